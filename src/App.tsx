@@ -20,6 +20,7 @@ import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 
 import Header from './components/Header';
 import Footer from './components/Footer';
+import Notifications from './components/Notifications';
 import Login from './pages/Login';
 import Create from './pages/Create';
 import Packages from './pages/Packages';
@@ -31,7 +32,10 @@ import PackageInformation from './pages/PackageInformation';
 import Tools from './pages/Tools';
 import Verify from './pages/Verify';
 import Upload from './pages/Upload';
+import BatchUpload from './pages/BatchUpload';
 import Details from './pages/Details';
+import Install from './pages/Install';
+import { INSTALL_PATH } from './scripts/installationFile';
 
 declare global {
   interface Window {
@@ -52,12 +56,14 @@ function App() {
         <Route path='/support' element={<Support />} />
         <Route path='/account' element={<Account />} />
         <Route path='/tools' element={<Tools />} />
+        <Route path={INSTALL_PATH} element={<Install />} />
 
         <Route path='/packages' element={<Packages />} />
         <Route path='/packages/package' element={<PackageInformation />} />
         <Route path='/packages/details' element={ <Details />} />
         <Route path='/packages/new' element={<NewPackage />} />
         <Route path='/packages/upload' element={<Upload />} />
+        <Route path='/packages/upload/batch' element={<BatchUpload />} />
         
         {/* We use /verify twice because /verify/ is not caught by /verify/:verificationToken */}
         <Route path='/verify' element={<Verify />} />
@@ -66,6 +72,7 @@ function App() {
         <Route path='*' element={<NotFound />} />
       </Routes>
       <Footer />
+      <Notifications />
     </Router>
   );
 }
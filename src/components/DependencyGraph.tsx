@@ -0,0 +1,129 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * The properties of the dependency graph.
+ * 
+ * @typedef {Object} DependencyGraphProps
+ * @property {DependencyGraph} graph The resolved graph to display.
+ */
+type DependencyGraphProps = {
+  graph: DependencyGraphData;
+};
+
+import { ReactElement } from 'react';
+import { DependencyGraph as DependencyGraphData, GraphEdge, GraphNode, GraphNodeStatus } from '../scripts/dependencyResolver';
+import '../css/DependencyGraph.scss';
+
+const STATUS_TEXT: Record<GraphNodeStatus, string> = {
+  [GraphNodeStatus.Resolved]: '',
+  [GraphNodeStatus.NotFound]: 'package not found',
+  [GraphNodeStatus.Unsatisfiable]: 'no version satisfies the selection',
+  [GraphNodeStatus.External]: 'from another repository'
+};
+
+/**
+ * Display a dependency graph as a tree, starting at its root. Nodes which have already been shown are not expanded again, so that the tree is finite even if the graph has cycles.
+ */
+function DependencyGraph({ graph }: DependencyGraphProps) {
+  const shown = new Set<string>();
+
+  const renderNode = (node: GraphNode, ancestors: string[]): ReactElement => {
+    shown.add(node.key);
+    const children: ReactElement[] = [];
+
+    for (const edge of graph.edges.filter(e => e.from === node.key)) {
+      const target = graph.nodes.get(edge.to) as GraphNode;
+      const key = `${edge.type}:${edge.to}:${edge.selection}`;
+
+      if (edge.type === 'incompatibility') {
+        children.push(
+          <li key={key} className={'graph-edge graph-incompatibility' + (edge.isViolated ? ' graph-violated' : '')}>
+            {edgeText(edge)} {nodeLabel(target)}
+            {edge.isViolated && <span className='graph-note'> (incompatible version is in the graph)</span>}
+          </li>
+        );
+      } else if (ancestors.includes(edge.to)) {
+        children.push(
+          <li key={key} className='graph-edge graph-cycle'>
+            {edgeText(edge)} {nodeLabel(target)}<span className='graph-note'> (cycle)</span>
+          </li>
+        );
+      } else if (shown.has(edge.to)) {
+        children.push(
+          <li key={key} className={'graph-edge' + (target.isInCycle ? ' graph-cycle' : '')}>
+            {edgeText(edge)} {nodeLabel(target)}<span className='graph-note'> (shown above)</span>
+          </li>
+        );
+      } else {
+        children.push(
+          <li key={key} className='graph-edge'>
+            {edgeText(edge)} {renderNode(target, [...ancestors, node.key])}
+          </li>
+        );
+      }
+    }
+
+    if (node.isTruncated)
+      children.push(<li key='truncated' className='graph-edge graph-note'>{node.dependencies.length} more dependencies not shown</li>);
+
+    return (
+      <>
+        {nodeLabel(node)}
+        {!!children.length && <ul>{children}</ul>}
+      </>
+    );
+  };
+
+  return (
+    <ul className='dependency-graph'>
+      <li>{renderNode(graph.nodes.get(graph.root) as GraphNode, [])}</li>
+    </ul>
+  );
+}
+
+/**
+ * Get the label of a node.
+ * 
+ * @param {GraphNode} node The node to get the label of.
+ * @returns {ReactElement} The label, which includes the status of the node if it was not resolved.
+ */
+function nodeLabel(node: GraphNode): ReactElement {
+  const classes = ['graph-node'];
+  if (node.status !== GraphNodeStatus.Resolved)
+    classes.push('graph-unresolved');
+  if (node.isInCycle)
+    classes.push('graph-cycle');
+
+  return (
+    <span className={classes.join(' ')} title={node.packageName}>
+      <b>{node.packageId}</b>
+      {node.packageVersion && `@${node.packageVersion}`}
+      {node.status !== GraphNodeStatus.Resolved && <span className='graph-note'> ({STATUS_TEXT[node.status]})</span>}
+    </span>
+  );
+}
+
+/**
+ * Get the text which describes an edge.
+ * 
+ * @param {GraphEdge} edge The edge to describe.
+ * @returns {string} The type and selection of the edge.
+ */
+function edgeText(edge: GraphEdge): string {
+  return edge.type === 'dependency' ? `depends on ${edge.selection} →` : `incompatible with ${edge.selection} ⇢`;
+}
+
+export default DependencyGraph;
\ No newline at end of file
@@ -0,0 +1,177 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * The properties of the folder packager.
+ * 
+ * @typedef {Object} FolderPackagerProps
+ * @property {SelectedFolder} folder The folder to zip.
+ * @property {string} packageId The identifier of the package that the zip file is for.
+ * @property {(File|undefined) => void} onZip The function to execute when the zip file is created, or with undefined when the zip file is no longer for the current folder and ignore patterns.
+ */
+type FolderPackagerProps = {
+  folder: SelectedFolder;
+  packageId: string;
+  onZip: (file?: File) => void;
+};
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { SelectedFolder } from '../scripts/folderReader';
+import { DEFAULT_IGNORE_PATTERNS, parseIgnoreRules } from '../scripts/ignoreRules';
+import { buildFileTree, FileTreeNode, PackageRootMode, planPackageFolder } from '../scripts/packageFolder';
+import { zipPackageFolder } from '../scripts/packageZip';
+import { getBestUnits } from '../scripts/displayUtil';
+import '../css/FolderPackager.scss';
+
+// The most ignored or outside paths which are listed, since folders like node_modules can have thousands
+const MAX_LISTED_PATHS = 50;
+
+/**
+ * Preview the zip file that a folder would become, and create it in the browser, so that authors don't have to zip packages themselves.
+ */
+function FolderPackager({ folder, packageId, onZip }: FolderPackagerProps) {
+  const [ignoreText, setIgnoreText] = useState(DEFAULT_IGNORE_PATTERNS.join('\n'));
+  const [progress, setProgress] = useState<number>();
+  const [isZipped, setIsZipped] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const plan = useMemo(() => planPackageFolder(folder, packageId, parseIgnoreRules(ignoreText)), [folder, packageId, ignoreText]);
+  const tree = useMemo(() => buildFileTree(plan.files), [plan]);
+
+  // Zips of a previous plan are discarded, since they no longer match what is shown
+  const planRef = useRef(plan);
+  useEffect(() => {
+    planRef.current = plan;
+    setProgress(void 0);
+    setIsZipped(false);
+    setError(void 0);
+    onZip();
+  }, [plan]);
+
+  const createZip = async () => {
+    setProgress(0);
+    setError(void 0);
+    try {
+      const file = await zipPackageFolder(plan, setProgress);
+      if (planRef.current !== plan)
+        return;
+
+      setIsZipped(true);
+      onZip(file);
+    } catch (e) {
+      console.error(e);
+      if (planRef.current === plan)
+        setError(e instanceof Error ? e.message : 'An unknown error occured.');
+    } finally {
+      if (planRef.current === plan)
+        setProgress(void 0);
+    }
+  };
+
+  let rootText: JSX.Element;
+  switch (plan.rootMode) {
+  case PackageRootMode.Folder:
+    rootText = (<p>The folder is named <code>{packageId}</code>, so it is used as the root directory of the zip file.</p>);
+    break;
+  case PackageRootMode.Subfolder:
+    rootText = (<p>The folder contains a directory named <code>{packageId}</code>, so only that directory is zipped.</p>);
+    break;
+  case PackageRootMode.Wrapped:
+    rootText = (<p>The contents of <code>{folder.name}</code> are put in a directory named <code>{packageId}</code>, which is required at the root of the zip file.</p>);
+    break;
+  }
+
+  let buttonText = 'Create Zip';
+  if (progress !== void 0)
+    buttonText = `Zipping -- ${Math.round(progress * 100)}%`;
+  else if (isZipped)
+    buttonText = 'Zip Created';
+
+  return (
+
+    // The packager is used within forms, but its fields are not values of the form
+    <div className='folder-packager' onChange={e => e.stopPropagation()}>
+      {rootText}
+
+      <div className='folder-packager-tree'>
+        {tree.length ?
+          tree.map(node => <TreeNode key={node.path} node={node} isOpen />) :
+          <p className='no-data-text'>No files would be zipped</p>
+        }
+      </div>
+      <p className='folder-packager-summary'>{plan.files.length} files, {getBestUnits(plan.totalSize)}</p>
+
+      <PathList title={`Ignored files (${plan.ignored.length})`} paths={plan.ignored} />
+      <PathList title={`Files outside of ${packageId} (${plan.outside.length})`} paths={plan.outside} />
+
+      <details className='folder-packager-ignore'>
+        <summary>Ignore patterns</summary>
+        <p>One pattern per line, using the same syntax as a .gitignore file.</p>
+        <textarea
+          value={ignoreText}
+          spellCheck={false}
+          disabled={progress !== void 0}
+          onChange={e => setIgnoreText(e.target.value)}
+        />
+      </details>
+
+      <button
+        type='button'
+        className='primary-button'
+        disabled={progress !== void 0 || isZipped || !plan.files.length}
+        onClick={createZip}
+      >
+        {buttonText}
+      </button>
+      {error && <p className='error-message'>Could not create the zip file: {error}</p>}
+    </div>
+  );
+}
+
+/**
+ * A file or directory in the preview of the zip file, with the contents of directories nested within it.
+ */
+function TreeNode({ node, isOpen }: { node: FileTreeNode; isOpen?: boolean; }) {
+  const label = (<><span>{node.name}</span><span className='folder-packager-size'>{getBestUnits(node.size)}</span></>);
+  if (!node.isDirectory)
+    return (<div className='folder-packager-file'>{label}</div>);
+
+  return (
+    <details open={isOpen}>
+      <summary>{label}</summary>
+      {node.children.map(child => <TreeNode key={child.path} node={child} />)}
+    </details>
+  );
+}
+
+/**
+ * A collapsed list of paths, which is not shown at all if there are no paths.
+ */
+function PathList({ title, paths }: { title: string; paths: string[]; }) {
+  if (!paths.length)
+    return null;
+
+  return (
+    <details className='folder-packager-paths'>
+      <summary>{title}</summary>
+      <ul>
+        {paths.slice(0, MAX_LISTED_PATHS).map(path => <li key={path}><code>{path}</code></li>)}
+        {paths.length > MAX_LISTED_PATHS && <li>and {paths.length - MAX_LISTED_PATHS} more</li>}
+      </ul>
+    </details>
+  );
+}
+
+export default FolderPackager;
\ No newline at end of file
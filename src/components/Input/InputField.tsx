@@ -81,7 +81,7 @@ class InputField extends Component {
     super(props);
 
     this.state = {
-      currentValue: (props.defaultValue ?? '').trim(),
+      currentValue: (props.value ?? props.defaultValue ?? '').trim(),
       id: props.inputKey ?? nanoid()
     };
   }
@@ -20,6 +20,13 @@
  * @param {ChangeEvent<HTMLInputElement>} e The event that triggered this call.
  */
 
+/**
+ * A callback triggered when a folder is chosen or dropped.
+ * 
+ * @callback InputFileFolderCallback
+ * @param {SelectedFolder} folder The folder, and every file within it.
+ */
+
 /**
  * The properties for the input file
  * 
@@ -30,6 +37,8 @@
  * @property {string} [classes] The classes to apply to the element.
  * @property {InputFileChangeCallback} onChange The function to execute on change.
  * @property {string|string[]} [types] The types for the file.
+ * @property {boolean} [multiple] True if more than one file can be selected at a time.
+ * @property {InputFileFolderCallback} [onFolder] The function to execute when a folder is chosen or dropped. If this is not provided, folders can not be chosen, and nothing can be dropped on the input.
  */
 export type InputFileProps = {
   label: string;
@@ -38,11 +47,17 @@ export type InputFileProps = {
   classes?: string[];
   onChange: (e: ChangeEvent<HTMLInputElement>) => void;
   types?: string | string[];
+  multiple?: boolean;
+  onFolder?: (folder: SelectedFolder) => void;
 };
 
-import { ChangeEvent, useState } from 'react';
+import { ChangeEvent, DragEvent, useRef, useState } from 'react';
+import { canPickFolder, pickFolder, readDroppedFolder, readFolderInput, SelectedFolder } from '../../scripts/folderReader';
 import '../../css/Input.scss';
 
+// The attribute which lets a file input choose a folder, which React does not have a type for
+const FOLDER_INPUT_ATTRIBUTES = { webkitdirectory: '' } as Record<string, string>;
+
 export default function InputFile(props: InputFileProps): JSX.Element {
   let typeString: string | undefined;
   let accept: string | undefined;
@@ -59,20 +74,67 @@ export default function InputFile(props: InputFileProps): JSX.Element {
   const classes = (props.classes ?? []).join(' ');
 
   const [fileName, setFileName] = useState('(no file selected)');
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const selectFolder = async (getFolder: () => Promise<SelectedFolder | undefined> | SelectedFolder | undefined) => {
+    try {
+      const folder = await getFolder();
+      if (!folder)
+        return;
+
+      setFileName(folder.name + '/');
+      props.onFolder?.(folder);
+    } catch (e) {
+      console.error(e);
+      setFileName('(folder could not be read)');
+    }
+  };
+
+  const onDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+
+    // Neither the files nor the items of the drop can be accessed once the handler returns
+    const files = e.dataTransfer.files;
+    const folderPromise = readDroppedFolder(e.dataTransfer.items);
+    selectFolder(async () => {
+      const folder = await folderPromise;
+      if (folder || !files.length || !inputRef.current)
+        return folder;
+
+      // Give the dropped files to the input, so that they are handled the same as if they were chosen
+      inputRef.current.files = files;
+      inputRef.current.dispatchEvent(new Event('change', { bubbles: true }));
+    });
+  };
+
+  const dropProps = props.onFolder ? {
+    onDragOver: (e: DragEvent<HTMLDivElement>) => {
+      e.preventDefault();
+      setIsDragging(true);
+    },
+    onDragLeave: () => setIsDragging(false),
+    onDrop
+  } : {};
 
   return (
-    <div className={'input-file ' + classes}>
+    <div className={'input-file ' + classes + (isDragging ? ' dragging' : '')} {...dropProps}>
       <p>{props.label + (typeString ?? '')}</p>
       <label className='input'>
         <input
           type='file'
           name={props.name}
+          ref={inputRef}
           accept={accept}
           id={props.id}
+          multiple={props.multiple}
           onChange={e => {
             let fileName = '(no file selected)';
 
-            if (e.target.files && e.target.files?.length > 0) 
+            if (e.target.files && e.target.files?.length > 1)
+              fileName = `${e.target.files.length} files selected`;
+            else if (e.target.files && e.target.files?.length > 0) 
               fileName = e.target.files[0].name;
           
             setFileName(fileName);
@@ -80,6 +142,24 @@ export default function InputFile(props: InputFileProps): JSX.Element {
           }} /> 
         Upload file
       </label>
+      {
+        props.onFolder && (canPickFolder() ?
+          <button type='button' className='input-folder' onClick={() => selectFolder(pickFolder)}>Upload folder</button> :
+          <label className='input input-folder'>
+            <input
+              type='file'
+              name={props.name + '-folder'}
+              {...FOLDER_INPUT_ATTRIBUTES}
+              onChange={e => {
+                const files = e.target.files;
+                selectFolder(() => files ? readFolderInput(files) : void 0);
+                e.target.value = '';
+              }}
+            />
+            Upload folder
+          </label>
+        )
+      }
       <span>{ fileName }</span>
     </div>
   );
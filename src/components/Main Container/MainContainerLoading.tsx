@@ -12,12 +12,30 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
  * either express or implied limitations under the License.
  */
+import { useEffect, useState } from 'react';
 import '../../css/MainContainer.scss';
 
-function MainContainerLoading({ loadingMessage }: { loadingMessage: string; }) {
+function MainContainerLoading({ loadingMessage, retryAt }: { loadingMessage: string; retryAt?: number; }) {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick every second while we're waiting to retry, so that the countdown updates
+  useEffect(() => {
+    if (!retryAt)
+      return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  const secondsLeft = retryAt ? Math.ceil((retryAt - now) / 1000) : 0;
   return (
     <div className='error-screen'>
       <h3>{ loadingMessage }</h3>
+      {
+        secondsLeft > 0 &&
+          <p>The registry is busy, retrying in {secondsLeft} second{secondsLeft === 1 ? '' : 's'}...</p>
+      }
       <img src='/loading.gif' alt='Loading GIF' />
     </div>
   );
@@ -0,0 +1,97 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A notification which is being shown.
+ * 
+ * @typedef {Object} NotificationData
+ * @property {string} id The unique identifier of the notification.
+ * @property {StatusChange} change The change in status which the notification is for.
+ */
+type NotificationData = {
+  id: string;
+  change: StatusChange;
+};
+
+/**
+ * The properties of a single notification.
+ * 
+ * @typedef {Object} NotificationProps
+ * @property {string} id The unique identifier of the notification.
+ * @property {StatusChange} change The change in status which the notification is for.
+ * @property {(string) => void} onDismiss The function to run when the notification should be removed. Parameter is the identifier of the notification.
+ */
+type NotificationProps = {
+  id: string;
+  change: StatusChange;
+  onDismiss: (id: string) => void;
+};
+
+import { useCallback, useEffect, useState } from 'react';
+import { nanoid } from 'nanoid';
+import { processingTracker, StatusChange } from '../scripts/processingTracker';
+import { VersionStatus } from '../scripts/author';
+import { getStatusTextShort } from '../pages/Packages';
+import '../css/Notifications.scss';
+
+// How long to show a notification for a processed version, in milliseconds. Notifications for failed versions stay until they are dismissed.
+const SUCCESS_DURATION = 10000;
+
+/**
+ * Show a notification whenever a version that the portal is tracking finishes processing.
+ */
+function Notifications() {
+  const [notifications, setNotifications] = useState<NotificationData[]>([]);
+
+  useEffect(() => processingTracker.subscribe(change => {
+    setNotifications(notifications => [...notifications, { id: nanoid(), change }]);
+  }), []);
+
+  const dismiss = useCallback((id: string) => setNotifications(notifications => notifications.filter(n => n.id !== id)), []);
+
+  return (
+    <div className='notifications' aria-live='polite'>
+      {notifications.map(({ id, change }) => <Notification key={id} id={id} change={change} onDismiss={dismiss} />)}
+    </div>
+  );
+}
+
+/**
+ * Show a single notification, which hides itself after a while if the version was processed.
+ */
+function Notification({ id, change, onDismiss }: NotificationProps) {
+  const { packageId, packageVersion, packageName, versionData } = change;
+  const isProcessed = versionData.status === VersionStatus.Processed;
+
+  useEffect(() => {
+    if (!isProcessed)
+      return;
+    const timeout = setTimeout(() => onDismiss(id), SUCCESS_DURATION);
+    return () => clearTimeout(timeout);
+  }, [id, isProcessed, onDismiss]);
+
+  return (
+    <div className={'notification ' + (isProcessed ? 'notification-success' : 'notification-failure')}>
+      <button type='button' className='notification-dismiss' aria-label='Dismiss' onClick={() => onDismiss(id)}>&times;</button>
+      <p className='notification-title'>{packageName} {packageVersion}</p>
+      <p>
+        {isProcessed ? 'Finished processing.' : `Processing failed (${getStatusTextShort(versionData.status)}).`}
+        &nbsp;<a href={`/packages/details?packageId=${packageId}&packageVersion=${packageVersion}`}>View details</a>
+      </p>
+    </div>
+  );
+}
+
+export default Notifications;
\ No newline at end of file
@@ -24,6 +24,7 @@
  * @property {string} errProp The prop to set to true or false if an error is in the form.
  * @property {boolean} [readonly] True if the entire list should be readonly.
  * @property {number[]} [readonlyIndex] Integers which represent the index in list which should be ignored.
+ * @property {DependencyConflict[]} [conflicts] The conflicts to explain under the list.
  */
 export type PackageListProps = {
   list: [string, string][];
@@ -32,15 +33,19 @@ export type PackageListProps = {
   noneText: string;
   readonly?: boolean;
   readonlyIndex?: number[];
+  conflicts?: DependencyConflict[];
 };
 
 import { nanoid } from 'nanoid/non-secure';
 import InputField, { InputFieldProps } from './Input/InputField';
+import VersionSelectionEditor, { VersionSelectionEditorProps } from './VersionSelectionEditor';
 import '../css/PackageList.scss';
+import '../css/ErrorMessage.scss';
 import { Component, ReactNode } from 'react';
 import $ from 'jquery';
 import SelectionChecker from '../scripts/versionSelection';
 import { validateId } from '../scripts/validators';
+import { DependencyConflict } from '../scripts/dependencyAnalyzer';
 
 // Using state here will cause the text fields to loose focus
 class PackageList extends Component {
@@ -50,6 +55,11 @@ class PackageList extends Component {
 
   private _readonlyIndices: number[];
 
+  // The rows are only recreated when the list changes, so that showing conflicts doesn't recreate the text fields
+  private _rows?: ReactNode;
+  private _rowsList?: [string, string][];
+  private _rowsLen = 0;
+
   constructor(props: PackageListProps) {
     super(props);
 
@@ -60,7 +70,8 @@ class PackageList extends Component {
   }
 
   shouldComponentUpdate(nextProps: PackageListProps): boolean {
-    return (this.props as PackageListProps).list !== nextProps.list || this._lastLen !== (this.props as PackageListProps).list.length;
+    const props = this.props as PackageListProps;
+    return props.list !== nextProps.list || this._lastLen !== props.list.length || props.readonly !== nextProps.readonly || conflictsKey(props.conflicts) !== conflictsKey(nextProps.conflicts);
   }
 
   private _onChangeCaller(): void {
@@ -93,7 +104,7 @@ class PackageList extends Component {
           maxLength: 32
         };
       
-      const additionalVersionSelectProps: Partial<InputFieldProps> = disabled ?
+      const additionalVersionSelectProps: Partial<VersionSelectionEditorProps> = disabled ?
         { readonly: true } :
         {
           minLength: 1,
@@ -117,24 +128,20 @@ class PackageList extends Component {
         inputKey: packageIdKey
       };
       
-      const versionSelectFieldProps: InputFieldProps = {
+      const versionSelectFieldProps: VersionSelectionEditorProps = {
         placeholder: 'x.x.x-x.x.x',
-        onChange: e => {
-          const val = $(e.target).val() as string;
+        onChange: val => {
           const packageIdVal = props.list[i][0];
           props.list[i] = [packageIdVal, val];
           this._onChangeCaller();
         },
-        hiddenError: () => {
-          const val = $('#' + versionSelectKey).val() as (string | undefined) ?? versionSelectValue;
-          return !val || !val.length || !new SelectionChecker(val).isValid;
-        },
         defaultValue: versionSelectValue,
+        isCollapsible: true,
         inputKey: versionSelectKey
       };
 
       packageIdFields.push(<InputField {...additionalPackageIdProps} {...packageIdFieldProps} key={this._keyPrefix + '-input-field-' + i + '-packageid'} />);
-      versionSelectFields.push(<InputField {...additionalVersionSelectProps} {...versionSelectFieldProps} key={this._keyPrefix + '-input-field-' + i + '-versionsel'} />);
+      versionSelectFields.push(<VersionSelectionEditor {...additionalVersionSelectProps} {...versionSelectFieldProps} key={this._keyPrefix + '-input-field-' + i + '-versionsel'} />);
     }
   
     const rows = [];
@@ -173,14 +180,25 @@ class PackageList extends Component {
   }
 
   render(): ReactNode {
-    const {list, title, noneText, readonly} = this.props as PackageListProps;
+    const {list, title, noneText, readonly, conflicts} = this.props as PackageListProps;
+
+    if (!this._rows || this._rowsList !== list || this._rowsLen !== list.length) {
+      this._rows = this._createList();
+      this._rowsList = list;
+      this._rowsLen = list.length;
+    }
 
     return (
       <>
         <div className='package-list'>
           <p>{title}</p>
           {list.length === 0 && <p className='package-list-empty'>{ noneText }</p>}
-          {this._createList()}
+          {this._rows}
+          {!!conflicts?.length &&
+            <ul className='package-list-conflicts'>
+              {conflicts.map(c => <li key={c.packageId + c.message} className={c.isError ? 'error-message' : 'warning-message'}>{c.message}</li>)}
+            </ul>
+          }
         </div>
         {!readonly &&
           <div className='package-list-button'>
@@ -212,4 +230,14 @@ class PackageList extends Component {
   }
 }
 
+/**
+ * Get a string which is the same for lists of conflicts which display the same.
+ * 
+ * @param {DependencyConflict[]} [conflicts] The conflicts to get the key of.
+ * @returns {string} The key of the conflicts.
+ */
+function conflictsKey(conflicts?: DependencyConflict[]): string {
+  return (conflicts ?? []).map(c => `${c.isError}:${c.message}`).join('\n');
+}
+
 export default PackageList;
\ No newline at end of file
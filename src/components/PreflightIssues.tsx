@@ -0,0 +1,50 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * The properties of the pre-flight issue list.
+ * 
+ * @typedef {Object} PreflightIssuesProps
+ * @property {boolean} isChecking True if the file is still being checked.
+ * @property {PreflightIssue[]} [issues] The problems found with the file, or undefined if no file has been checked. The problems are only warnings, and do not stop the file from being uploaded.
+ */
+type PreflightIssuesProps = {
+  isChecking: boolean;
+  issues?: PreflightIssue[];
+};
+
+import { PreflightIssue } from '../scripts/zipInspector';
+import '../css/ErrorMessage.scss';
+
+function PreflightIssues({ isChecking, issues }: PreflightIssuesProps) {
+  if (isChecking)
+    return (<p className='preflight-status'>Checking file...</p>);
+  else if (!issues)
+    return (<></>);
+  else if (!issues.length)
+    return (<p className='preflight-status'>No problems found with the file.</p>);
+
+  // The checks are only heuristics, so the registry has the final say on whether the file is valid
+  return (
+    <>
+      <p className='preflight-status'>The registry may fail to process this file. You can still upload it if you believe these problems are wrong.</p>
+      <ul className='preflight-issues'>
+        {issues.map(issue => <li key={issue.message} className='warning-message'>{issue.message}</li>)}
+      </ul>
+    </>
+  );
+}
+
+export default PreflightIssues;
\ No newline at end of file
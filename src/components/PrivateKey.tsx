@@ -0,0 +1,81 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * The properties of the private key actions.
+ * 
+ * @typedef {Object} PrivateKeyProps
+ * @property {string} packageId The identifier of the package which the key is for.
+ * @property {string} packageVersion The version which the key is for.
+ * @property {string} privateKey The private key.
+ */
+type PrivateKeyProps = {
+  packageId: string;
+  packageVersion: string;
+  privateKey: string;
+};
+
+import { useEffect, useState } from 'react';
+import { createInstallLink, downloadInstallationFile } from '../scripts/installationFile';
+import '../css/PrivateKey.scss';
+
+// How long to show that something was copied, in milliseconds
+const COPIED_DURATION = 2000;
+
+function PrivateKey(props: PrivateKeyProps) {
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [copied, setCopied] = useState<'key' | 'link'>();
+
+  useEffect(() => {
+    if (!copied)
+      return;
+    const timeout = setTimeout(() => setCopied(void 0), COPIED_DURATION);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  // A new key should not stay revealed after it is rotated
+  useEffect(() => setIsRevealed(false), [props.privateKey]);
+
+  const copy = async (text: string, type: 'key' | 'link') => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(type);
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  return (
+    <div className='private-key'>
+      <p>
+        Private key: <code>{isRevealed ? props.privateKey : '•'.repeat(props.privateKey.length)}</code>
+        <a
+          className='private-key-reveal'
+          onClick={e => {
+            e.preventDefault();
+            setIsRevealed(!isRevealed);
+          }}
+        >{isRevealed ? 'Hide' : 'Reveal'}</a>
+      </p>
+      <div className='private-key-actions'>
+        <button type='button' className='secondary-button' onClick={() => copy(props.privateKey, 'key')}>{copied === 'key' ? 'Copied' : 'Copy Key'}</button>
+        <button type='button' className='secondary-button' onClick={() => copy(createInstallLink(props), 'link')}>{copied === 'link' ? 'Copied' : 'Copy Install Link'}</button>
+        <button type='button' className='secondary-button' onClick={() => downloadInstallationFile(props)}>Download Installation File</button>
+      </div>
+    </div>
+  );
+}
+
+export default PrivateKey;
\ No newline at end of file
@@ -0,0 +1,183 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * The properties of the processing log viewer.
+ * 
+ * @typedef {Object} ProcessingLogProps
+ * @property {string} packageId The identifier of the package of the version.
+ * @property {string} packageVersion The version string of the version to show the log of.
+ */
+type ProcessingLogProps = {
+  packageId: string;
+  packageVersion: string;
+};
+
+import { useEffect, useState } from 'react';
+import { DateTime } from 'luxon';
+import { registry } from '../scripts/registryClient';
+import RegistryError from '../scripts/registryError';
+import { DEFAULT_FILTER, LEVEL_NAMES, LogFilter, LogLevel, ProcessingLogEntry, ProcessingStage, STAGE_NAMES, filterLog, formatLog, getFailedStage, getOffendingFiles } from '../scripts/processingLog';
+import InputCheckbox from './Input/InputCheckbox';
+import '../css/ProcessingLog.scss';
+
+// How long to show that something was copied, in milliseconds
+const COPIED_DURATION = 2000;
+
+/**
+ * Show the log that the registry wrote while processing a version, so that an author can see exactly what went wrong.
+ */
+function ProcessingLog({ packageId, packageVersion }: ProcessingLogProps) {
+  const [entries, setEntries] = useState<ProcessingLogEntry[]>();
+  const [error, setError] = useState<string>();
+  const [filter, setFilter] = useState<LogFilter>(DEFAULT_FILTER);
+  const [copied, setCopied] = useState<'log' | 'files'>();
+
+  useEffect(() => {
+    let isCurrent = true;
+    setEntries(void 0);
+    setError(void 0);
+
+    registry.getProcessingLog(packageId, packageVersion)
+      .then(entries => isCurrent && setEntries(entries))
+      .catch(e => {
+        console.error(e);
+        if (isCurrent)
+          setError(e instanceof RegistryError ? e.userMessage : 'An unknown error occured.');
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [packageId, packageVersion]);
+
+  useEffect(() => {
+    if (!copied)
+      return;
+    const timeout = setTimeout(() => setCopied(void 0), COPIED_DURATION);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  if (error)
+    return (<p className='error-message'>Could not get the processing log: {error}</p>);
+  else if (!entries)
+    return (<p className='processing-log-status'>Loading the processing log...</p>);
+
+  const shown = filterLog(entries, filter);
+  const offendingFiles = getOffendingFiles(entries);
+  const failedStage = getFailedStage(entries);
+
+  const copy = async (text: string, type: 'log' | 'files') => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(type);
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const toggleStage = (stage: ProcessingStage) => setFilter({
+    ...filter,
+    stages: filter.stages.includes(stage) ? filter.stages.filter(s => s !== stage) : [...filter.stages, stage]
+  });
+
+  return (
+    <div className='processing-log'>
+      {failedStage && <p>Processing failed during the <b>{STAGE_NAMES[failedStage].toLowerCase()}</b> stage.</p>}
+
+      {!!offendingFiles.length &&
+        <div className='processing-log-files'>
+          <p>These files caused processing to fail. Remove or replace them, and then re-upload the zip file.</p>
+          <ul>
+            {offendingFiles.map(file => <li key={file}><code>{file}</code></li>)}
+          </ul>
+          <button type='button' className='secondary-button' onClick={() => copy(offendingFiles.join('\n'), 'files')}>{copied === 'files' ? 'Copied' : 'Copy File List'}</button>
+        </div>
+      }
+
+      <div className='processing-log-filters'>
+        <div className='checkboxes'>
+          {Object.values(ProcessingStage).map(stage =>
+            <InputCheckbox
+              key={stage}
+              name={'log-stage-' + stage}
+              title={STAGE_NAMES[stage]}
+              checked={filter.stages.includes(stage)}
+              onChange={() => toggleStage(stage)}
+            />
+          )}
+        </div>
+        <div className='input input-dropdown'>
+          <label htmlFor='log-level'>Show</label>
+          <select
+            id='log-level'
+            value={filter.minLevel}
+            onChange={e => setFilter({ ...filter, minLevel: e.target.value as LogLevel })}
+          >
+            <option value={LogLevel.Info}>Everything</option>
+            <option value={LogLevel.Warning}>Warnings and errors</option>
+            <option value={LogLevel.Error}>Only errors</option>
+          </select>
+        </div>
+        <div className='input input-field'>
+          <label htmlFor='log-search'>Search</label>
+          <input
+            id='log-search'
+            type='search'
+            placeholder='Message or file path'
+            value={filter.search}
+            onChange={e => setFilter({ ...filter, search: e.target.value })}
+          />
+        </div>
+        <button type='button' className='secondary-button' disabled={!shown.length} onClick={() => copy(formatLog(shown), 'log')}>{copied === 'log' ? 'Copied' : 'Copy Log'}</button>
+      </div>
+
+      <table className='processing-log-entries'>
+        <thead>
+          <tr>
+            <th>Time</th>
+            <th>Stage</th>
+            <th>Level</th>
+            <th>Message</th>
+          </tr>
+        </thead>
+        <tbody>
+          {shown.map((entry, i) =>
+            <tr key={i} className={'log-level-' + entry.level}>
+              <td>{entry.timestamp.toLocaleString(DateTime.DATETIME_SHORT_WITH_SECONDS)}</td>
+              <td>{STAGE_NAMES[entry.stage] ?? entry.stage}</td>
+              <td>{LEVEL_NAMES[entry.level] ?? entry.level}</td>
+              <td>
+                {entry.message}
+                {!!entry.files.length &&
+                  <ul>
+                    {entry.files.map(file => <li key={file}><code>{file}</code></li>)}
+                  </ul>
+                }
+              </td>
+            </tr>
+          )}
+          {!shown.length &&
+            <tr>
+              <td colSpan={4} className='no-data-text'>{entries.length ? 'No entries match the filters' : 'The log is empty'}</td>
+            </tr>
+          }
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default ProcessingLog;
\ No newline at end of file
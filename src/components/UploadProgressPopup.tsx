@@ -0,0 +1,109 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * The properties of the upload progress popup.
+ * 
+ * @typedef {Object} UploadProgressPopupProps
+ * @property {string} title The large title of the popup.
+ * @property {UploadController} [controller] The controller of the upload. The popup is open until the upload fails or is canceled, and stays open once it succeeds, until the status is removed.
+ * @property {UploadStatus} [status] The latest status of the upload, which is passed separately from the controller so that the popup updates whenever it changes.
+ */
+type UploadProgressPopupProps = {
+  title: string;
+  controller?: UploadController;
+  status?: UploadStatus;
+};
+
+import { ReactNode } from 'react';
+import Popup from 'reactjs-popup';
+import UploadController, { UploadPhase, UploadStatus } from '../scripts/uploadController';
+import { formatDuration, getBestUnits } from '../scripts/displayUtil';
+import '../css/Popup.scss';
+import '../css/Buttons.scss';
+
+const OPEN_PHASES = [UploadPhase.Uploading, UploadPhase.Paused, UploadPhase.Completing, UploadPhase.Succeeded];
+
+/**
+ * A popup which shows the progress, transfer rate, and time remaining of an upload, with buttons to pause, resume, and cancel it.
+ */
+function UploadProgressPopup({ title, controller, status }: UploadProgressPopupProps) {
+  const isOpen = !!controller && !!status && OPEN_PHASES.includes(status.phase);
+
+  return (
+    <Popup
+      open={isOpen}
+      modal
+      nested
+      closeOnDocumentClick={false}
+      closeOnEscape={false}
+    >{(() => {
+      if (!controller || !status)
+        return null;
+
+      const { phase, progress, chunkProgress, uploadedBytes, totalBytes, bytesPerSecond, secondsRemaining } = status;
+      const percent = Math.round(progress * 100);
+
+      let text = `Uploading -- ${percent}%`;
+      if (phase === UploadPhase.Paused)
+        text = `Paused -- ${percent}%`;
+      else if (phase === UploadPhase.Completing)
+        text = 'Waiting for upload confirmation...';
+      else if (phase === UploadPhase.Succeeded)
+        text = 'Upload complete';
+
+      let rateText = 'Measuring upload speed...';
+      if (phase === UploadPhase.Paused)
+        rateText = controller.resumesFromLastPart ? 'The upload continues from the last completed part once resumed.' : 'The upload starts over from the beginning once resumed.';
+      else if (phase === UploadPhase.Completing || phase === UploadPhase.Succeeded)
+        rateText = 'The upload can no longer be canceled.';
+      else if (bytesPerSecond !== void 0)
+        rateText = `${getBestUnits(bytesPerSecond)}/s` + (secondsRemaining !== void 0 ? ` -- about ${formatDuration(secondsRemaining)} remaining` : '');
+
+      return (
+        <div className='popup-dialog loading-popup upload-progress-popup'>
+          <h2>{title}</h2>
+          <div className='popup-children'>
+            <div>
+              <p className='generic-popup-text'>{text}</p>
+              <progress className='popup-progress-bar' value={progress} max='1' />
+              <p className='generic-popup-text upload-progress-detail'>{getBestUnits(uploadedBytes)} of {getBestUnits(totalBytes)}</p>
+              {chunkProgress && chunkProgress.chunkCount > 1 && !chunkProgress.isCompleting &&
+                <>
+                  <p className='generic-popup-text upload-progress-detail'>Part {chunkProgress.chunk + 1} of {chunkProgress.chunkCount} -- {Math.round(chunkProgress.chunkProgress * 100)}%</p>
+                  <progress className='popup-progress-bar popup-progress-bar-small' value={chunkProgress.chunkProgress} max='1' />
+                </>
+              }
+              <p className='generic-popup-text upload-progress-detail'>{rateText}</p>
+            </div>
+          </div>
+          <div className='buttons'>
+            {phase === UploadPhase.Paused ?
+              <button className='primary-button mx-4' onClick={() => controller.resume()}>Resume</button> :
+              <button className='primary-button mx-4' disabled={!controller.canPause} onClick={() => controller.pause()}>Pause</button>
+            }
+            <button className='secondary-button' disabled={!controller.canCancel} onClick={() => controller.cancel()}>Cancel</button>
+          </div>
+        </div>
+      );
+        
+      // We need this or else TypeScript gets angry, even thought it's written
+      // in the docs that you can do this, also see #315 on reactjs-popup 
+    }) as unknown as ReactNode}
+    </Popup>
+  );
+}
+
+export default UploadProgressPopup;
\ No newline at end of file
@@ -0,0 +1,207 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * The properties of the upload template selector.
+ * 
+ * @typedef {Object} UploadTemplatesProps
+ * @property {string} packageId The identifier of the package that is being uploaded to.
+ * @property {AuthorVersionData[]} versions The existing versions of the package, from greatest to least.
+ * @property {() => UploadSettings} getSettings The function which gets the settings currently in the form, which is called when saving a template.
+ * @property {(Partial<UploadSettings>) => void} onApply The function to run when settings are chosen to be put in the form. Parameter is the settings which should be replaced.
+ */
+type UploadTemplatesProps = {
+  packageId: string;
+  versions: AuthorVersionData[];
+  getSettings: () => UploadSettings;
+  onApply: (settings: Partial<UploadSettings>) => void;
+};
+
+import { useState } from 'react';
+import { AuthorVersionData } from '../scripts/author';
+import { downloadFile } from '../scripts/http';
+import * as uploadTemplates from '../scripts/uploadTemplates';
+import { SETTINGS_FIELD_NAMES, SETTINGS_FIELDS, SettingsField, UploadSettings } from '../scripts/uploadTemplates';
+import InputCheckbox from './Input/InputCheckbox';
+import '../css/UploadTemplates.scss';
+
+/**
+ * Choose an existing version or a saved template to base an upload on, and manage the saved templates of the package.
+ */
+function UploadTemplates({ packageId, versions, getSettings, onApply }: UploadTemplatesProps) {
+  const [baseVersion, setBaseVersion] = useState(versions[0]?.packageVersion.toString() ?? '');
+  const [fields, setFields] = useState<SettingsField[]>(SETTINGS_FIELDS);
+  const [templates, setTemplates] = useState(() => uploadTemplates.getTemplates(packageId));
+  const [templateName, setTemplateName] = useState(templates[0]?.name ?? '');
+  const [newName, setNewName] = useState('');
+  const [message, setMessage] = useState<string>();
+  const [error, setError] = useState<string>();
+
+  const reload = (selectedName?: string) => {
+    const templates = uploadTemplates.getTemplates(packageId);
+    setTemplates(templates);
+    setTemplateName(templates.find(t => t.name === selectedName)?.name ?? templates[0]?.name ?? '');
+  };
+
+  const showResult = (message?: string, error?: string) => {
+    setMessage(message);
+    setError(error);
+  };
+
+  const toggleField = (field: SettingsField) => {
+    setFields(fields.includes(field) ? fields.filter(f => f !== field) : SETTINGS_FIELDS.filter(f => f === field || fields.includes(f)));
+  };
+
+  const applyVersion = () => {
+    const version = versions.find(v => v.packageVersion.toString() === baseVersion);
+    if (!version)
+      return;
+    onApply(uploadTemplates.pickSettings(uploadTemplates.settingsFromVersion(version), fields));
+    showResult(`Applied the settings of ${baseVersion}.`);
+  };
+
+  const applyTemplate = () => {
+    const template = templates.find(t => t.name === templateName);
+    if (!template)
+      return;
+    onApply(uploadTemplates.pickSettings(template, fields));
+    showResult(`Applied the template "${template.name}".`);
+  };
+
+  const saveTemplate = () => {
+    const name = newName.trim();
+    if (!name)
+      return;
+    uploadTemplates.saveTemplate(packageId, { ...getSettings(), name });
+    reload(name);
+    setNewName('');
+    showResult(`Saved the template "${name}".`);
+  };
+
+  const deleteTemplate = () => {
+    if (!templateName)
+      return;
+    uploadTemplates.deleteTemplate(packageId, templateName);
+    reload();
+    showResult(`Deleted the template "${templateName}".`);
+  };
+
+  const exportTemplates = () => {
+    const blob = new Blob([uploadTemplates.exportTemplates(packageId)], { type: 'application/json' });
+    downloadFile(URL.createObjectURL(blob), `${packageId}-upload-templates.json`);
+  };
+
+  const importTemplates = async (file: File) => {
+    try {
+      const count = uploadTemplates.importTemplates(packageId, await file.text());
+      reload(templateName);
+      showResult(`Imported ${count} template${count === 1 ? '' : 's'}.`);
+    } catch (e) {
+      showResult(void 0, e instanceof Error ? e.message : 'The file could not be read.');
+    }
+  };
+
+  return (
+    <div className='upload-templates'>
+      <div className='upload-templates-fields'>
+        <label>Settings to Inherit</label>
+        <div className='checkboxes'>
+          {SETTINGS_FIELDS.map(field =>
+            <InputCheckbox
+              key={field}
+              name={'inherit-' + field}
+              title={SETTINGS_FIELD_NAMES[field]}
+              checked={fields.includes(field)}
+              onChange={() => toggleField(field)}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className='upload-templates-row'>
+        <div className='input input-dropdown'>
+          <label htmlFor='upload-base-version'>Base this upload on</label>
+          <select
+            id='upload-base-version'
+            value={baseVersion}
+            onChange={e => setBaseVersion(e.target.value)}
+            disabled={!versions.length}
+          >
+            {!versions.length && <option value=''>(no versions)</option>}
+            {versions.map(v => <option key={v.packageVersion.toString()} value={v.packageVersion.toString()}>{v.packageVersion.toString()}</option>)}
+          </select>
+        </div>
+        <button type='button' className='secondary-button' disabled={!versions.length || !fields.length} onClick={applyVersion}>Apply Version</button>
+      </div>
+
+      <div className='upload-templates-row'>
+        <div className='input input-dropdown'>
+          <label htmlFor='upload-template'>Template</label>
+          <select
+            id='upload-template'
+            value={templateName}
+            onChange={e => setTemplateName(e.target.value)}
+            disabled={!templates.length}
+          >
+            {!templates.length && <option value=''>(no templates)</option>}
+            {templates.map(t => <option key={t.name} value={t.name}>{t.name}</option>)}
+          </select>
+        </div>
+        <button type='button' className='secondary-button' disabled={!templateName || !fields.length} onClick={applyTemplate}>Apply Template</button>
+        <button type='button' className='secondary-button' disabled={!templateName} onClick={deleteTemplate}>Delete</button>
+      </div>
+
+      <div className='upload-templates-row'>
+        <div className='input input-field'>
+          <label htmlFor='upload-template-name'>Save current settings as</label>
+          <input
+            id='upload-template-name'
+            type='text'
+            placeholder='Template name'
+            maxLength={64}
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && saveTemplate()}
+          />
+        </div>
+        <button type='button' className='secondary-button' disabled={!newName.trim()} onClick={saveTemplate}>
+          {templates.some(t => t.name === newName.trim()) ? 'Replace Template' : 'Save Template'}
+        </button>
+      </div>
+
+      <div className='upload-templates-row'>
+        <button type='button' className='secondary-button' disabled={!templates.length} onClick={exportTemplates}>Export Templates</button>
+        <label className='secondary-button upload-templates-import'>
+          Import Templates
+          <input
+            type='file'
+            accept='.json'
+            onChange={e => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file)
+                importTemplates(file);
+            }}
+          />
+        </label>
+      </div>
+
+      {message && <p className='upload-templates-message'>{message}</p>}
+      {error && <p className='error-message'>{error}</p>}
+    </div>
+  );
+}
+
+export default UploadTemplates;
\ No newline at end of file
@@ -0,0 +1,97 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * The result of verifying a file.
+ * 
+ * @typedef {Object} VerifyResult
+ * @property {string} fileName The name of the file that was verified.
+ * @property {string} [hash] The hash of the file, undefined if it could not be hashed.
+ */
+type VerifyResult = {
+  fileName: string;
+  hash?: string;
+};
+
+import { DragEvent, useState } from 'react';
+import { hashFile, hashesMatch } from '../scripts/fileHash';
+import '../css/VerifyFileDropZone.scss';
+
+function VerifyFileDropZone({ expectedHash }: { expectedHash: string; }) {
+  const [isDragging, setIsDragging] = useState(false);
+  const [progress, setProgress] = useState<number>();
+  const [result, setResult] = useState<VerifyResult>();
+
+  const verify = async (file: File) => {
+    setResult(void 0);
+    setProgress(0);
+    try {
+      const hash = await hashFile(file, setProgress);
+      setResult({ fileName: file.name, hash });
+    } catch (e) {
+      console.error(e);
+      setResult({ fileName: file.name });
+    } finally {
+      setProgress(void 0);
+    }
+  };
+
+  const onDrop = (e: DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (e.dataTransfer.files.length)
+      verify(e.dataTransfer.files[0]);
+  };
+
+  let resultText: JSX.Element | undefined;
+  if (result && !result.hash)
+    resultText = (<p className='error-message'>Could not read <b>{result.fileName}</b>.</p>);
+  else if (result && hashesMatch(result.hash as string, expectedHash))
+    resultText = (<p className='verify-match'><b>{result.fileName}</b> matches the checksum of this version.</p>);
+  else if (result)
+    resultText = (<p className='error-message'><b>{result.fileName}</b> does not match the checksum of this version ({result.hash?.toUpperCase()}).</p>);
+
+  return (
+    <div className='verify-file'>
+      <label
+        className={'verify-file-drop-zone' + (isDragging ? ' dragging' : '')}
+        onDragOver={e => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={onDrop}
+      >
+        <input
+          type='file'
+          disabled={progress !== undefined}
+          onChange={e => {
+            if (e.target.files?.length)
+              verify(e.target.files[0]);
+            e.target.value = '';
+          }}
+        />
+        {
+          progress === undefined ?
+            'Drop a downloaded file here, or click to choose one, to verify it' :
+            `Verifying -- ${Math.round(progress * 100)}%`
+        }
+      </label>
+      {resultText}
+    </div>
+  );
+}
+
+export default VerifyFileDropZone;
\ No newline at end of file
@@ -0,0 +1,82 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * The properties of the version bump assistant.
+ * 
+ * @typedef {Object} VersionBumpProps
+ * @property {Version[]} versions The existing versions of the package.
+ * @property {string} value The version which is currently chosen (not parsed).
+ * @property {(string) => void} onSelect The function to run when a bumped version is chosen. Parameter is the chosen version string.
+ */
+type VersionBumpProps = {
+  versions: Version[];
+  value: string;
+  onSelect: (version: string) => void;
+};
+
+import Version from '../scripts/version';
+import { BUMP_NAMES, BUMP_TYPES, bumpVersion, placeVersion, versionWarnings } from '../scripts/versionBump';
+import '../css/VersionBump.scss';
+
+// How many existing versions to show on either side of the chosen version
+const PLACEMENT_CONTEXT = 2;
+
+/**
+ * Buttons to choose the next version from the latest version of a package, and where the chosen version would be among the existing versions.
+ */
+function VersionBump({ versions, value, onSelect }: VersionBumpProps) {
+  const latest = versions.reduce<Version | undefined>((latest, v) => !latest || v.compare(latest) > 0 ? v : latest, void 0);
+  if (!latest)
+    return null;
+
+  const chosen = Version.fromString(value.trim().toLowerCase());
+  const placement = chosen && placeVersion(chosen, versions);
+  const warnings = chosen ? versionWarnings(chosen, versions) : [];
+
+  return (
+    <div className='version-bump'>
+      <p>Latest version: <b>{latest.toString()}</b></p>
+      <div className='version-bump-buttons'>
+        {BUMP_TYPES.map(type => {
+          const bumped = bumpVersion(latest, type);
+          return (
+            <button
+              key={type}
+              type='button'
+              className='secondary-button'
+              disabled={!bumped}
+              title={bumped ? bumped.toString() : `There is no ${BUMP_NAMES[type].toLowerCase()} after ${latest}`}
+              onClick={() => bumped && onSelect(bumped.toString())}
+            >{BUMP_NAMES[type]}</button>
+          );
+        })}
+      </div>
+      {warnings.map(warning => <p key={warning} className='warning-message'>{warning}</p>)}
+      {chosen && placement &&
+        <ol className='version-bump-placement'>
+          {placement.above.length > PLACEMENT_CONTEXT && <li className='version-bump-more'>{placement.above.length - PLACEMENT_CONTEXT} more</li>}
+          {placement.above.slice(-PLACEMENT_CONTEXT).map(v => <li key={v.toString()}>{v.toString()}</li>)}
+          {!placement.exists && <li className='version-bump-chosen'>{chosen.toString()} (new)</li>}
+          {placement.exists && <li className='version-bump-chosen version-bump-exists'>{chosen.toString()} (exists)</li>}
+          {placement.below.slice(0, PLACEMENT_CONTEXT).map(v => <li key={v.toString()}>{v.toString()}</li>)}
+          {placement.below.length > PLACEMENT_CONTEXT && <li className='version-bump-more'>{placement.below.length - PLACEMENT_CONTEXT} more</li>}
+        </ol>
+      }
+    </div>
+  );
+}
+
+export default VersionBump;
\ No newline at end of file
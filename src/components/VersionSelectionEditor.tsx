@@ -0,0 +1,293 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * The properties of the version selection editor.
+ * 
+ * @typedef {Object} VersionSelectionEditorProps
+ * @property {string} [name] The name of the text field.
+ * @property {string} [label] The label of the text field.
+ * @property {string} [placeholder] The placeholder of the text field.
+ * @property {string} [defaultValue] The selection string that the editor starts with.
+ * @property {(string) => void} [onChange] The function to run when the selection string changes, either by typing or by editing the ranges. Parameter is the new selection string.
+ * @property {string|string[]} [classes] Additional classes to pass to the wrapping div.
+ * @property {number} [minLength] The minimum length of the selection string.
+ * @property {number} [maxLength] The maximum length of the selection string.
+ * @property {string} [error] Any error with the selection to display under the text field.
+ * @property {boolean} [readonly=false] True if the selection can not be changed.
+ * @property {boolean} [isCollapsible=false] True if the timeline should be hidden until it is expanded.
+ * @property {string} [inputKey] A key passed to the text field.
+ * @property {ReleaseCatalog} [catalog] The known releases of the product that the selection is for, which are marked on the timeline, and whose presets are offered.
+ */
+export type VersionSelectionEditorProps = {
+  name?: string;
+  label?: string;
+  placeholder?: string;
+  defaultValue?: string;
+  onChange?: (value: string) => void;
+  classes?: string | string[];
+  minLength?: number;
+  maxLength?: number;
+  error?: string;
+  readonly?: boolean;
+  isCollapsible?: boolean;
+  inputKey?: string;
+  catalog?: ReleaseCatalog;
+};
+
+import { PointerEvent, useMemo, useRef, useState } from 'react';
+import { nanoid } from 'nanoid/non-secure';
+import InputField, { InputFieldProps } from './Input/InputField';
+import VersionSelection from '../scripts/versionSelection';
+import Version from '../scripts/version';
+import { Bound, createNextRange, createScale, EditorRange, hasPreReleaseBounds, normalizeRanges, rangesToString, roundPreReleaseBounds, scaleTicks, TimelineScale, versionAtPosition, versionPosition } from '../scripts/selectionTimeline';
+import { matchReleases, ReleaseCatalog } from '../scripts/releaseCatalog';
+import '../css/VersionSelectionEditor.scss';
+
+// The fraction of the track at each end which is for unbounded ranges
+const OPEN_END_WIDTH = 0.04;
+
+/**
+ * Edit a version selection either as text, or by changing its ranges on a timeline. Bounds are dragged to change them, and dragging a bound past the end of the timeline removes it.
+ */
+function VersionSelectionEditor(props: VersionSelectionEditorProps) {
+  const [text, setText] = useState(props.defaultValue ?? '');
+  const [draftRanges, setDraftRanges] = useState<EditorRange[]>();
+  const [isExpanded, setIsExpanded] = useState(!props.isCollapsible);
+  const [allowPreReleases, setAllowPreReleases] = useState(() => hasPreReleaseBounds(parseRanges(props.defaultValue ?? '')));
+  const [checkboxId] = useState(() => nanoid(4));
+  const trackRef = useRef<HTMLDivElement>(null);
+
+  // The scale doesn't change while dragging, so that the timeline doesn't move under the cursor
+  const dragScaleRef = useRef<TimelineScale>();
+
+  const selection = useMemo(() => new VersionSelection(text), [text]);
+  const parsedRanges = useMemo(() => selection.isValid ? selection.ranges : [], [selection]);
+  const releases = useMemo(() => props.catalog?.releases.filter(r => !r.version.isPreRelease) ?? [], [props.catalog]);
+  const currentScale = useMemo(() => createScale(parsedRanges, releases.map(r => r.version)), [parsedRanges, releases]);
+  const matches = props.catalog && selection.isValid ? matchReleases(props.catalog, selection) : void 0;
+
+  const ranges = draftRanges ?? parsedRanges;
+  const scale = draftRanges && dragScaleRef.current ? dragScaleRef.current : currentScale;
+  const nextRange = createNextRange(ranges, scale);
+
+  const update = (value: string) => {
+    setText(value);
+    props.onChange?.(value);
+  };
+
+  const updateRanges = (newRanges: EditorRange[]) => update(normalizeRanges(newRanges));
+
+  const trackPosition = (version: Version): number => {
+    if (version.equals(Version.MIN_VERSION))
+      return 0;
+    else if (version.equals(Version.MAX_VERSION))
+      return 1;
+    return OPEN_END_WIDTH + versionPosition(scale, version) * (1 - 2 * OPEN_END_WIDTH);
+  };
+
+  const startDrag = (e: PointerEvent<HTMLElement>) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragScaleRef.current = scale;
+    setDraftRanges(ranges);
+  };
+
+  const drag = (e: PointerEvent<HTMLElement>, index: number, bound: Bound) => {
+    if (!draftRanges || !trackRef.current)
+      return;
+
+    const rect = trackRef.current.getBoundingClientRect();
+    const position = ((e.clientX - rect.left) / rect.width - OPEN_END_WIDTH) / (1 - 2 * OPEN_END_WIDTH);
+
+    let version: Version | undefined;
+    if (position < 0 && bound === 'lower')
+      version = Version.MIN_VERSION;
+    else if (position > 1 && bound === 'upper')
+      version = Version.MAX_VERSION;
+    else
+      version = versionAtPosition(scale, position, bound, allowPreReleases);
+
+    const range = draftRanges[index];
+    if (!version || bound === 'lower' && (version.equals(range.minVersion) || version.compare(range.maxVersion) > 0) || bound === 'upper' && (version.equals(range.maxVersion) || version.compare(range.minVersion) < 0))
+      return;
+
+    const newRanges = draftRanges.slice();
+    newRanges[index] = bound === 'lower' ? { ...range, minVersion: version } : { ...range, maxVersion: version };
+    setDraftRanges(newRanges);
+    update(rangesToString(newRanges));
+  };
+
+  const endDrag = () => {
+    if (!draftRanges)
+      return;
+    setDraftRanges(void 0);
+    updateRanges(draftRanges);
+  };
+
+  const applyPreset = (selectionStr: string) => {
+    setAllowPreReleases(hasPreReleaseBounds(parseRanges(selectionStr)));
+    update(selectionStr);
+  };
+
+  const fieldProps: InputFieldProps = {
+    name: props.name,
+    label: props.label,
+    placeholder: props.placeholder,
+    value: text,
+    onChange: e => {
+      const value = (e.target as HTMLInputElement).value;
+      if (hasPreReleaseBounds(parseRanges(value)))
+        setAllowPreReleases(true);
+      update(value);
+    },
+    classes: props.classes,
+    minLength: props.minLength,
+    maxLength: props.maxLength,
+    error: props.error,
+    hiddenError: !selection.isValid,
+    readonly: props.readonly,
+    inputKey: props.inputKey
+  };
+
+  return (
+    <div className='version-selection-editor'>
+      <InputField {...fieldProps} />
+      {props.catalog && matches &&
+        <p className={'selection-matches' + (matches.releases.length ? '' : ' warning-message')}>
+          {
+            matches.releases.length ?
+              `Matches ${props.catalog.product} ${matches.spans.join(', ')}` + (matches.preReleaseCount ? ` (and ${matches.preReleaseCount} betas and release candidates).` : '.') :
+              `This selection does not match any known ${props.catalog.product} release.`
+          }
+        </p>
+      }
+      {props.catalog && !props.readonly && !!props.catalog.presets.length &&
+        <div className='selection-presets'>
+          {props.catalog.presets.map(preset =>
+            <button
+              key={preset.name}
+              type='button'
+              className='secondary-button'
+              title={preset.selection}
+              onClick={() => applyPreset(preset.selection)}
+            >{preset.name}</button>
+          )}
+        </div>
+      }
+      {props.isCollapsible &&
+        <button
+          type='button'
+          className='selection-timeline-toggle'
+          onClick={() => setIsExpanded(!isExpanded)}
+        >{isExpanded ? 'Hide timeline' : 'Show timeline'}</button>
+      }
+      {isExpanded &&
+        <div className={'selection-timeline' + (props.readonly ? ' selection-timeline-readonly' : '')}>
+          <div className='selection-track' ref={trackRef}>
+            {scaleTicks(scale).map(tick =>
+              <span
+                key={tick.label}
+                className={'selection-tick' + (tick.isMajor ? ' selection-tick-major' : '')}
+                style={{ left: `${(OPEN_END_WIDTH + tick.position * (1 - 2 * OPEN_END_WIDTH)) * 100}%` }}
+              ><span className='selection-tick-label'>{tick.label}</span></span>
+            )}
+            {releases.map(release =>
+              <span
+                key={release.name}
+                className={'selection-release' + (selection.containsVersion(release.version) ? ' selection-release-matched' : '')}
+                style={{ left: `${trackPosition(release.version) * 100}%` }}
+                title={`${props.catalog?.product} ${release.name}`}
+              />
+            )}
+            {ranges.map((range, i) => {
+              const left = trackPosition(range.minVersion);
+              const right = trackPosition(range.maxVersion);
+              return (
+                <div
+                  key={i}
+                  className='selection-range'
+                  style={{ left: `${left * 100}%`, width: `${(right - left) * 100}%` }}
+                  title={rangesToString([range])}
+                >
+                  {!props.readonly &&
+                    <>
+                      {(['lower', 'upper'] as Bound[]).map(bound =>
+                        <span
+                          key={bound}
+                          className={'selection-handle selection-handle-' + bound}
+                          onPointerDown={startDrag}
+                          onPointerMove={e => drag(e, i, bound)}
+                          onPointerUp={endDrag}
+                          onPointerCancel={endDrag}
+                        />
+                      )}
+                      <button
+                        type='button'
+                        className='selection-range-remove'
+                        title='Remove range'
+                        onClick={() => updateRanges(ranges.filter((_, j) => j !== i))}
+                      >×</button>
+                    </>
+                  }
+                </div>
+              );
+            })}
+          </div>
+          {!selection.isValid && text && <p className='selection-timeline-note'>Fix the selection to edit its ranges.</p>}
+          {!props.readonly &&
+            <div className='selection-timeline-controls'>
+              <button
+                type='button'
+                className='secondary-button'
+                disabled={!nextRange || !selection.isValid && !!text}
+                onClick={() => updateRanges([...ranges, nextRange as EditorRange])}
+              >Add Range</button>
+              <div className='input input-checkbox'>
+                <input
+                  id={checkboxId}
+                  type='checkbox'
+                  checked={allowPreReleases}
+                  onChange={e => {
+
+                    // The form that the editor is in should not see the checkbox as one of its fields
+                    e.stopPropagation();
+                    setAllowPreReleases(e.target.checked);
+                    if (!e.target.checked && hasPreReleaseBounds(ranges))
+                      updateRanges(roundPreReleaseBounds(ranges));
+                  }}
+                />
+                <label htmlFor={checkboxId}>Pre-release bounds</label>
+              </div>
+            </div>
+          }
+        </div>
+      }
+    </div>
+  );
+}
+
+/**
+ * Get the ranges of a selection string.
+ * 
+ * @param {string} selectionStr The selection string to parse.
+ * @returns {EditorRange[]} The ranges of the selection, or an empty array if the selection is invalid.
+ */
+function parseRanges(selectionStr: string): EditorRange[] {
+  const selection = new VersionSelection(selectionStr);
+  return selection.isValid ? selection.ranges : [];
+}
+
+export default VersionSelectionEditor;
\ No newline at end of file
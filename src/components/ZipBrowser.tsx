@@ -0,0 +1,203 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * The properties of the zip browser.
+ * 
+ * @typedef {Object} ZipBrowserProps
+ * @property {string} url The URL of the zip file to browse.
+ */
+type ZipBrowserProps = {
+  url: string;
+};
+
+/**
+ * A file which is being previewed.
+ * 
+ * @typedef {Object} FilePreview
+ * @property {ZipEntry} entry The entry of the file.
+ * @property {PreviewType} type How the file is previewed.
+ * @property {string} [text] The contents of the file, if it is a text file.
+ * @property {string} [imageUrl] The object URL of the file, if it is an image.
+ */
+type FilePreview = {
+  entry: ZipEntry;
+  type: PreviewType;
+  text?: string;
+  imageUrl?: string;
+};
+
+import { useEffect, useMemo, useState } from 'react';
+import RemoteZip, { buildEntryTree, getPreviewType, MAX_PREVIEW_SIZE, PreviewType, ZipTreeNode } from '../scripts/remoteZip';
+import { ZipEntry } from '../scripts/zipInspector';
+import { getBestUnits } from '../scripts/displayUtil';
+import { saveBlob } from '../scripts/http';
+import '../css/ZipBrowser.scss';
+
+/**
+ * Browse the files of a stored package, only downloading the parts of the zip file that are needed to list and open them.
+ */
+function ZipBrowser({ url }: ZipBrowserProps) {
+  const zip = useMemo(() => new RemoteZip(url), [url]);
+  const [entries, setEntries] = useState<ZipEntry[]>();
+  const [error, setError] = useState<string>();
+  const [preview, setPreview] = useState<FilePreview>();
+  const [openingPath, setOpeningPath] = useState<string>();
+  const [fileError, setFileError] = useState<string>();
+
+  useEffect(() => {
+    let isCurrent = true;
+    setEntries(void 0);
+    setError(void 0);
+    setPreview(void 0);
+
+    zip.getEntries()
+      .then(entries => isCurrent && setEntries(entries))
+      .catch(e => {
+        console.error(e);
+        if (isCurrent)
+          setError(e instanceof Error ? e.message : 'An unknown error occured.');
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [zip]);
+
+  // Object URLs keep the image in memory until they are revoked
+  useEffect(() => () => {
+    if (preview?.imageUrl)
+      URL.revokeObjectURL(preview.imageUrl);
+  }, [preview]);
+
+  const tree = useMemo(() => entries && buildEntryTree(entries), [entries]);
+
+  if (error)
+    return (<p className='error-message'>Could not read the package file: {error}</p>);
+  else if (!entries || !tree)
+    return (<p className='zip-browser-status'>Reading the package file...</p>);
+
+  const files = entries.filter(e => !e.isDirectory);
+  const size = files.reduce((total, e) => total + e.uncompressedSize, 0);
+  const compressedSize = files.reduce((total, e) => total + e.compressedSize, 0);
+
+  const open = async (entry: ZipEntry, action: 'preview' | 'download') => {
+    setOpeningPath(entry.name);
+    setFileError(void 0);
+    try {
+      const blob = await zip.extract(entry);
+      const fileName = entry.name.slice(entry.name.lastIndexOf('/') + 1);
+      const type = getPreviewType(entry.name);
+
+      if (action === 'download')
+        saveBlob(blob, fileName);
+      else if (type === 'text')
+        setPreview({ entry, type, text: await blob.text() });
+      else if (type === 'image')
+        setPreview({ entry, type, imageUrl: URL.createObjectURL(blob) });
+    } catch (e) {
+      console.error(e);
+      setFileError(`Could not open ${entry.name}: ${e instanceof Error ? e.message : 'An unknown error occured.'}`);
+    } finally {
+      setOpeningPath(void 0);
+    }
+  };
+
+  const renderNode = (node: ZipTreeNode, isOpen = false): JSX.Element => {
+    const columns = (
+      <>
+        <span className='zip-browser-name'>{node.name}</span>
+        <span className='zip-browser-size'>{getBestUnits(node.size)}</span>
+        <span className='zip-browser-ratio'>{formatRatio(node.size, node.compressedSize)}</span>
+      </>
+    );
+
+    const { entry } = node;
+    if (!entry) {
+      return (
+        <details key={node.path} open={isOpen}>
+          <summary>{columns}</summary>
+          {node.children.map(child => renderNode(child))}
+        </details>
+      );
+    }
+
+    // Files are extracted in memory, so only small text and image files can be opened, and the whole package file can be downloaded instead
+    const canOpen = !!getPreviewType(entry.name) && entry.uncompressedSize <= MAX_PREVIEW_SIZE;
+    return (
+      <div key={node.path} className={'zip-browser-file' + (preview?.entry === entry ? ' selected' : '')}>
+        {columns}
+        <span className='zip-browser-actions'>
+          {canOpen &&
+            <>
+              <button type='button' disabled={!!openingPath} onClick={() => open(entry, 'preview')}>Preview</button>
+              <button type='button' disabled={!!openingPath} onClick={() => open(entry, 'download')}>Download</button>
+            </>
+          }
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div className='zip-browser'>
+      <p className='zip-browser-summary'>
+        {files.length} files, {getBestUnits(size)} extracted, {getBestUnits(compressedSize)} compressed ({formatRatio(size, compressedSize)})
+      </p>
+
+      <div className='zip-browser-tree'>
+        <div className='zip-browser-header'>
+          <span className='zip-browser-name'>Name</span>
+          <span className='zip-browser-size'>Size</span>
+          <span className='zip-browser-ratio'>Compressed</span>
+          <span className='zip-browser-actions' />
+        </div>
+        {tree.length ?
+          tree.map(node => renderNode(node, true)) :
+          <p className='no-data-text'>The package file is empty</p>
+        }
+      </div>
+
+      {openingPath && <p className='zip-browser-status'>Opening {openingPath}...</p>}
+      {fileError && <p className='error-message'>{fileError}</p>}
+
+      {preview &&
+        <div className='zip-browser-preview'>
+          <div className='zip-browser-preview-title'>
+            <code>{preview.entry.name}</code>
+            <button type='button' onClick={() => setPreview(void 0)}>Close</button>
+          </div>
+          {preview.type === 'text' ?
+            <pre>{preview.text}</pre> :
+            <img src={preview.imageUrl} alt={preview.entry.name} />
+          }
+        </div>
+      }
+    </div>
+  );
+}
+
+/**
+ * Format the size of compressed data as a percentage of the original size.
+ * 
+ * @param {number} size The original size in bytes.
+ * @param {number} compressedSize The compressed size in bytes.
+ * @returns {string} The percentage, or a dash if the original size is zero.
+ */
+function formatRatio(size: number, compressedSize: number): string {
+  return size ? `${Math.round(compressedSize / size * 100)}%` : '-';
+}
+
+export default ZipBrowser;
\ No newline at end of file
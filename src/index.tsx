@@ -21,8 +21,17 @@ import './css/index.scss';
 import App from './App';
 
 const root = ReactDOM.createRoot(document.getElementById('root') as HTMLElement);
-root.render(
+const render = () => root.render(
   <React.StrictMode>
     <App />
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+// The mock registry is only loaded when it's used, so that it's never bundled into production
+if (process.env.REACT_APP_MOCK_REGISTRY === 'true') {
+  import('./mock/installMockRegistry').then(({ default: installMockRegistry }) => {
+    installMockRegistry();
+    render();
+  });
+} else 
+  render();
\ No newline at end of file
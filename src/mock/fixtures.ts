@@ -0,0 +1,297 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * An author stored in the mock registry.
+ * 
+ * @typedef {Object} MockAuthor
+ * @property {string} id The identifier of the author.
+ * @property {string} name The name of the author.
+ * @property {string} email The email of the author.
+ * @property {string} password The password of the author, stored in plain text since it's only a mock.
+ * @property {boolean} isVerified True if the author's email is verified.
+ * @property {number} usedStorage The storage used by the author in bytes.
+ * @property {number} totalStorage The storage available to the author in bytes.
+ * @property {string} [lastNameChange] The last time that the author changed their name as an ISO string.
+ */
+export type MockAuthor = {
+  id: string;
+  name: string;
+  email: string;
+  password: string;
+  isVerified: boolean;
+  usedStorage: number;
+  totalStorage: number;
+  lastNameChange?: string;
+};
+
+/**
+ * A package version stored in the mock registry, in the same format that the registry sends it.
+ * 
+ * @typedef {Object} MockVersion
+ */
+export type MockVersion = {
+  packageVersion: string;
+  isPublic: boolean;
+  isStored: boolean;
+  downloads: number;
+  status: VersionStatus;
+  dependencies: [string, string][];
+  incompatibilities: [string, string][];
+  size: number;
+  installedSize: number;
+  xpSelection: string;
+  uploadDate: string;
+  privateKey?: string;
+  hash?: string;
+  loc?: string;
+  platforms: {
+    macOS: boolean;
+    windows: boolean;
+    linux: boolean;
+  };
+};
+
+/**
+ * A package stored in the mock registry.
+ * 
+ * @typedef {Object} MockPackage
+ * @property {string} packageId The identifier of the package.
+ * @property {string} packageName The name of the package.
+ * @property {string} authorId The identifier of the author that owns the package.
+ * @property {string} description The description of the package.
+ * @property {PackageType} packageType The type of the package.
+ * @property {MockVersion[]} versions The versions of the package.
+ */
+export type MockPackage = {
+  packageId: string;
+  packageName: string;
+  authorId: string;
+  description: string;
+  packageType: PackageType;
+  versions: MockVersion[];
+};
+
+/**
+ * All of the data stored in the mock registry.
+ * 
+ * @typedef {Object} MockFixtures
+ * @property {MockAuthor[]} authors Every author.
+ * @property {MockPackage[]} packages Every package, of every author.
+ * @property {Object<string, string>} verificationTokens The email verification tokens which have not been used yet, mapped to the identifier of the author they verify.
+ */
+export type MockFixtures = {
+  authors: MockAuthor[];
+  packages: MockPackage[];
+  verificationTokens: Record<string, string>;
+};
+
+import { PackageType, VersionStatus } from '../scripts/author';
+
+/**
+ * The email and password of the verified author, which owns every fixture package.
+ */
+export const MOCK_EMAIL = 'author@example.com';
+export const MOCK_PASSWORD = 'mock-password';
+
+/**
+ * The email and password of the author which has not verified its email, and has no packages.
+ */
+export const MOCK_UNVERIFIED_EMAIL = 'unverified@example.com';
+export const MOCK_UNVERIFIED_PASSWORD = 'mock-password';
+
+const MIB = 1024 * 1024;
+const GIB = 1024 * MIB;
+
+// Every version of every package starts out the same, and only differs by these values
+type VersionOverrides = Partial<MockVersion> & Pick<MockVersion, 'packageVersion' | 'status'>;
+
+/**
+ * Create a new copy of all of the fixture data. The data is the same every time, so that tests are repeatable.
+ * 
+ * @returns {MockFixtures} The fixture data, which may be modified freely.
+ */
+export function createFixtures(): MockFixtures {
+  return {
+    authors: [
+      {
+        id: 'mock-author',
+        name: 'Mock Author',
+        email: MOCK_EMAIL,
+        password: MOCK_PASSWORD,
+        isVerified: true,
+        usedStorage: 3 * GIB + 512 * MIB,
+        totalStorage: 10 * GIB
+      },
+      {
+        id: 'mock-unverified',
+        name: 'Unverified Author',
+        email: MOCK_UNVERIFIED_EMAIL,
+        password: MOCK_UNVERIFIED_PASSWORD,
+        isVerified: false,
+        usedStorage: 0,
+        totalStorage: 5 * GIB
+      }
+    ],
+    packages: [
+      createPackage('mock.aircraft', 'Mock Aircraft', PackageType.Aircraft, 'A small aircraft used to test the portal.', [
+        {
+          packageVersion: '1.0.0',
+          status: VersionStatus.Processed,
+          dependencies: [['mock.plugin', '0.1.0-0.999.999']],
+          incompatibilities: [['mock.other', '*']],
+          downloads: 1204
+        },
+        {
+          packageVersion: '1.0.1',
+          status: VersionStatus.Processed,
+          isPublic: false,
+          privateKey: 'MOCKPRIVATEKEY01',
+          dependencies: [['mock.plugin', '0.1.0-0.999.999'], ['mock.scenery', '2.0.0-2.999.999']],
+          downloads: 87
+        },
+        {
+          packageVersion: '1.1.0b1',
+          status: VersionStatus.Processing
+        }
+      ]),
+      createPackage('mock.scenery', 'Mock Scenery', PackageType.Scenery, 'Scenery with versions that failed for reasons unrelated to their contents.', [
+        {
+          packageVersion: '2.0.0',
+          status: VersionStatus.Processed,
+          downloads: 5021
+        },
+        {
+          packageVersion: '2.0.1',
+          status: VersionStatus.FailedFileTooLarge
+        },
+        {
+          packageVersion: '2.0.2',
+          status: VersionStatus.FailedNotEnoughSpace
+        },
+        {
+          packageVersion: '2.1.0',
+          status: VersionStatus.Removed
+        },
+        {
+          packageVersion: '2.2.0a1',
+          status: VersionStatus.Aborted
+        }
+      ]),
+      createPackage('mock.plugin', 'Mock Plugin', PackageType.Plugin, 'A plugin with versions that failed because of their contents.', [
+        {
+          packageVersion: '0.1.0',
+          status: VersionStatus.FailedMACOSX
+        },
+        {
+          packageVersion: '0.1.1',
+          status: VersionStatus.FailedNoFileDir
+        },
+        {
+          packageVersion: '0.1.2',
+          status: VersionStatus.FailedManifestExists
+        },
+        {
+          packageVersion: '0.1.3',
+          status: VersionStatus.FailedInvalidFileTypes
+        },
+        {
+          packageVersion: '0.1.4',
+          status: VersionStatus.FailedServer
+        }
+      ]),
+      createPackage('mock.other', 'Mock Other', PackageType.Other, 'A package without any versions.', [])
+    ],
+    verificationTokens: {
+      'mock-verification-token': 'mock-unverified'
+    }
+  };
+}
+
+/**
+ * Create a fixture package owned by the verified author.
+ * 
+ * @param {string} packageId The identifier of the package.
+ * @param {string} packageName The name of the package.
+ * @param {PackageType} packageType The type of the package.
+ * @param {string} description The description of the package.
+ * @param {VersionOverrides[]} versions The values of each version which are different from the defaults.
+ * @returns {MockPackage} The new package.
+ */
+function createPackage(packageId: string, packageName: string, packageType: PackageType, description: string, versions: VersionOverrides[]): MockPackage {
+  return {
+    packageId,
+    packageName,
+    authorId: 'mock-author',
+    description,
+    packageType,
+    versions: versions.map((overrides, i) => createVersion(packageId, i, overrides))
+  };
+}
+
+/**
+ * Create a fixture version. Processed versions get a hash and a location, like the registry would give them.
+ * 
+ * @param {string} packageId The identifier of the package that the version is for.
+ * @param {number} index The index of the version in the package, used to give each version a different upload date.
+ * @param {VersionOverrides} overrides The values of the version which are different from the defaults.
+ * @returns {MockVersion} The new version.
+ */
+function createVersion(packageId: string, index: number, overrides: VersionOverrides): MockVersion {
+  const isProcessed = overrides.status === VersionStatus.Processed;
+  const version: MockVersion = {
+    isPublic: true,
+    isStored: true,
+    downloads: 0,
+    dependencies: [],
+    incompatibilities: [],
+    size: isProcessed ? 48 * MIB + index * MIB : 0,
+    installedSize: isProcessed ? 112 * MIB + index * 3 * MIB : 0,
+    xpSelection: '11.50-12.999.999',
+    uploadDate: new Date(Date.UTC(2023, 5, 1 + index * 7, 12)).toISOString(),
+    platforms: {
+      macOS: true,
+      windows: true,
+      linux: index % 2 === 0
+    },
+    ...overrides
+  };
+
+  if (isProcessed) {
+    version.hash ??= fixtureHash(`${packageId}@${version.packageVersion}`);
+    version.loc ??= `https://example.com/mock/${packageId}/${version.packageVersion}.xpkg`;
+  }
+
+  return version;
+}
+
+/**
+ * Create a fake, but consistent, 64 character hexadecimal hash for a string.
+ * 
+ * @param {string} str The string to hash.
+ * @returns {string} The hash of the string.
+ */
+function fixtureHash(str: string): string {
+  let hash = '';
+  let seed = 0;
+  for (const char of str)
+    seed = seed * 31 + char.charCodeAt(0) >>> 0;
+
+  while (hash.length < 64) {
+    seed = seed * 1103515245 + 12345 >>> 0;
+    hash += seed.toString(16).padStart(8, '0');
+  }
+  return hash.slice(0, 64);
+}
\ No newline at end of file
@@ -0,0 +1,49 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import MockRegistry, { MockFault } from './mockRegistry';
+import { MOCK_EMAIL, MOCK_PASSWORD } from './fixtures';
+import { registry } from '../scripts/registryClient';
+
+declare global {
+  interface Window {
+    mockRegistry?: MockRegistry;
+  }
+}
+
+/**
+ * Send every request from the portal to a mock registry instead of {@code window.REGISTRY_URL}. Faults can be provided as a JSON array in the {@code REACT_APP_MOCK_FAULTS} environment variable, or added later using {@code window.mockRegistry.injectFault()} in the console.
+ * 
+ * @returns {MockRegistry} The mock registry that requests are sent to.
+ */
+export default function installMockRegistry(): MockRegistry {
+  let faults: MockFault[] = [];
+  try {
+    faults = JSON.parse(process.env.REACT_APP_MOCK_FAULTS || '[]');
+  } catch (e) {
+    console.error('Invalid REACT_APP_MOCK_FAULTS, ignoring', e);
+  }
+
+  const mockRegistry = new MockRegistry({
+    faults,
+    latency: 300,
+    processingTime: 15000
+  });
+  registry.setAdapter(mockRegistry.adapter);
+  window.mockRegistry = mockRegistry;
+
+  console.info(`Using the mock registry, log in with ${MOCK_EMAIL} and ${MOCK_PASSWORD}`);
+  return mockRegistry;
+}
\ No newline at end of file
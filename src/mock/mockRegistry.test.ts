@@ -0,0 +1,201 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import MockRegistry from './mockRegistry';
+import { MOCK_EMAIL, MOCK_PASSWORD } from './fixtures';
+import RegistryClient from '../scripts/registryClient';
+import ChunkedUploader, { MemoryUploadStore, UploadTarget } from '../scripts/chunkedUpload';
+import { AuthError, CanceledRequestError, ConflictError, NotFoundError, ServerError, ValidationError } from '../scripts/registryError';
+import { VersionStatus } from '../scripts/author';
+import VersionSelection from '../scripts/versionSelection';
+import { LogLevel, ProcessingStage } from '../scripts/processingLog';
+
+// Retry immediately, so that tests don't wait on backoff
+const NO_WAIT = { baseDelay: 0, maxDelay: 0 };
+
+let mockRegistry: MockRegistry;
+let client: RegistryClient;
+let token: string | null;
+
+beforeEach(() => {
+  mockRegistry = new MockRegistry();
+  token = null;
+  client = new RegistryClient({
+    registryUrl: 'http://mock.registry',
+    getToken: () => token,
+    adapter: mockRegistry.adapter
+  });
+});
+
+describe('authentication', () => {
+  it('logs in with the fixture author', async () => {
+    token = await client.login(MOCK_EMAIL, MOCK_PASSWORD, 'captcha');
+    const authorData = await client.getAuthorData();
+    expect(authorData.email).toBe(MOCK_EMAIL);
+    expect(authorData.isVerified).toBe(true);
+  });
+
+  it('rejects invalid credentials', async () => {
+    await expect(client.login(MOCK_EMAIL, 'wrong-password', 'captcha')).rejects.toBeInstanceOf(AuthError);
+  });
+
+  it('rejects requests without a token', async () => {
+    await expect(client.getAllPackages()).rejects.toBeInstanceOf(AuthError);
+  });
+});
+
+describe('packages', () => {
+  beforeEach(() => {
+    token = mockRegistry.createToken('mock-author');
+  });
+
+  it('has a fixture version for every status', async () => {
+    const packages = await client.getAllPackages();
+    const statuses = new Set(packages.flatMap(p => p.versions.map(v => v.status)));
+    expect([...statuses].sort()).toEqual(Object.values(VersionStatus).sort());
+  });
+
+  it('gets a single version', async () => {
+    const data = await client.getPackageVersion('mock.aircraft', '1.0.0');
+    expect(data.packageName).toBe('Mock Aircraft');
+    expect(data.versionData.status).toBe(VersionStatus.Processed);
+    expect(data.versionData.hash).toHaveLength(64);
+  });
+
+  it('responds with not found for a missing version', async () => {
+    await expect(client.getPackageVersion('mock.aircraft', '9.9.9')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('gets the processing log of a failed version', async () => {
+    const log = await client.getProcessingLog('mock.plugin', '0.1.3');
+    const errors = log.filter(e => e.level === LogLevel.Error);
+    expect(errors.every(e => e.stage === ProcessingStage.Scan)).toBe(true);
+    expect(errors.flatMap(e => e.files)).toContain('mock.plugin/bin/install.exe');
+    expect(log[0].timestamp.isValid).toBe(true);
+  });
+
+  it('logs every stage of a processed version without errors', async () => {
+    const log = await client.getProcessingLog('mock.aircraft', '1.0.0');
+    expect(new Set(log.map(e => e.stage))).toEqual(new Set(Object.values(ProcessingStage)));
+    expect(log.some(e => e.level === LogLevel.Error)).toBe(false);
+  });
+
+  it('gets the public versions of a package without a token', async () => {
+    token = null;
+    const data = await client.getPublicPackage('mock.aircraft');
+    expect(data.authorName).toBe('Mock Author');
+    expect(data.versions.map(v => v.packageVersion.toString())).toEqual(['1.0.0']);
+  });
+
+  it('rotates the private key of a private version', async () => {
+    const privateKey = await client.rotatePrivateKey('mock.aircraft', '1.0.1');
+    expect(privateKey).not.toBe('MOCKPRIVATEKEY01');
+    expect((await client.getPackageVersion('mock.aircraft', '1.0.1')).versionData.privateKey).toBe(privateKey);
+    await expect(client.rotatePrivateKey('mock.aircraft', '1.0.0')).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('updates the X-Plane selection', async () => {
+    await client.updateXpSelection('mock.aircraft', '1.0.0', '12.0.0-12.999.999');
+    const data = await client.getPackageVersion('mock.aircraft', '1.0.0');
+    expect(data.versionData.xpSelection.toString()).toBe(new VersionSelection('12.0.0-12.999.999').toString());
+  });
+
+  it('uploads a new version in parts', async () => {
+    const uploader = new ChunkedUploader(client, new MemoryUploadStore(), 4);
+    const file = new File(['0123456789'], 'mock.zip');
+    const onProgress = jest.fn();
+
+    await uploader.upload({
+      type: 'upload',
+      packageId: 'mock.aircraft',
+      packageVersion: '2.0.0',
+      xpSelection: '*',
+      isPublic: true,
+      isPrivate: false,
+      isStored: true,
+      dependencies: [],
+      incompatibilities: [],
+      platforms: { macOS: true, windows: true, linux: true }
+    }, file, onProgress);
+
+    const data = await client.getPackageVersion('mock.aircraft', '2.0.0');
+    expect(data.versionData.status).toBe(VersionStatus.Processing);
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ chunkCount: 3, progress: 1 }));
+  });
+
+  it('stops uploading parts once canceled, and resumes afterwards', async () => {
+    const uploader = new ChunkedUploader(client, new MemoryUploadStore(), 4);
+    const file = new File(['0123456789'], 'mock.zip');
+    const target: UploadTarget = {
+      type: 'upload',
+      packageId: 'mock.aircraft',
+      packageVersion: '2.0.0',
+      xpSelection: '*',
+      isPublic: true,
+      isPrivate: false,
+      isStored: true,
+      dependencies: [],
+      incompatibilities: [],
+      platforms: { macOS: true, windows: true, linux: true }
+    };
+
+    const abortController = new AbortController();
+    const onProgress = jest.fn(({ chunkProgress }) => chunkProgress === 1 && abortController.abort());
+    await expect(uploader.upload(target, file, onProgress, abortController.signal)).rejects.toBeInstanceOf(CanceledRequestError);
+    expect(await uploader.hasUnfinishedUpload(target, file)).toBe(true);
+
+    const onResumeProgress = jest.fn();
+    await uploader.upload(target, file, onResumeProgress);
+    expect(onResumeProgress).toHaveBeenCalledWith(expect.objectContaining({ chunk: 1, chunkProgress: 0 }));
+    expect(onResumeProgress).not.toHaveBeenCalledWith(expect.objectContaining({ chunk: 0 }));
+  });
+});
+
+describe('fault injection', () => {
+  beforeEach(() => {
+    token = mockRegistry.createToken('mock-author');
+  });
+
+  it('retries rate limited requests', async () => {
+    mockRegistry.injectFault({ status: 429, path: '/account/packages', count: 2, retryAfter: 0 });
+    const onWait = jest.fn();
+
+    const packages = await client.getAllPackages({ onWait });
+    expect(packages.length).toBeGreaterThan(0);
+    expect(onWait).toHaveBeenCalledTimes(2);
+    expect(onWait).toHaveBeenCalledWith(0, 1, 429);
+  });
+
+  it('gives up after the retry policy is exhausted', async () => {
+    mockRegistry.injectFault({ status: 500, path: '/account/data' });
+    await expect(client.getAuthorData({ ...NO_WAIT, retries: 2 })).rejects.toBeInstanceOf(ServerError);
+  });
+
+  it('does not retry requests that are not idempotent', async () => {
+    mockRegistry.injectFault({ status: 409, method: 'PATCH', count: 1 });
+    await expect(client.updateDescription('mock.aircraft', 'A new description.')).rejects.toBeInstanceOf(ConflictError);
+    await expect(client.updateDescription('mock.aircraft', 'A new description.')).resolves.toBeUndefined();
+  });
+
+  it('rejects a successful response with an invalid body', async () => {
+    mockRegistry.injectFault({ status: 200, path: '/account/data', count: 1, body: '<html>' });
+    await expect(client.getAuthorData()).rejects.toBeInstanceOf(ServerError);
+  });
+
+  it('responds with unauthorized', async () => {
+    mockRegistry.injectFault({ status: 401, count: 1 });
+    await expect(client.getAuthorData()).rejects.toMatchObject({ status: 401 });
+  });
+});
\ No newline at end of file
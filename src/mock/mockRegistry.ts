@@ -0,0 +1,1011 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A request received by the mock registry.
+ * 
+ * @typedef {Object} MockRequest
+ * @property {string} method The uppercase HTTP method of the request.
+ * @property {string} path The path of the request, without the query string.
+ * @property {URLSearchParams} query The query parameters of the request.
+ * @property {string} [authorization] The value of the authorization header.
+ * @property {Record<string, unknown>|Blob} body The body of the request. JSON and form data are both parsed into an object.
+ */
+export type MockRequest = {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  authorization?: string;
+  body: Record<string, unknown> | Blob;
+};
+
+/**
+ * A response sent by the mock registry.
+ * 
+ * @typedef {Object} MockResponse
+ * @property {number} status The status code of the response.
+ * @property {unknown} [body] The body of the response. Strings are sent as-is, anything else is sent as JSON.
+ * @property {Record<string, string>} [headers] Any headers of the response.
+ */
+export type MockResponse = {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+};
+
+/**
+ * A fault which the mock registry responds with instead of handling a request normally.
+ * 
+ * @typedef {Object} MockFault
+ * @property {number} status The status code to respond with, usually 401, 409, 429, or 500.
+ * @property {string} [method] Only fault requests with this HTTP method. Faults requests of every method if not provided.
+ * @property {string} [path] Only fault requests whose path starts with this string. Faults every request if not provided.
+ * @property {number} [count] The number of requests to fault before the fault is removed. Never removed if not provided.
+ * @property {number} [retryAfter] The number of seconds to send in the Retry-After header.
+ * @property {string} [body] The body of the response. Defaults to a code that describes the fault.
+ */
+export type MockFault = {
+  status: number;
+  method?: string;
+  path?: string;
+  count?: number;
+  retryAfter?: number;
+  body?: string;
+};
+
+/**
+ * Options used to create a new mock registry.
+ * 
+ * @typedef {Object} MockRegistryOptions
+ * @property {MockFixtures} [fixtures] The data to start the registry with. Defaults to a new copy of the fixture data.
+ * @property {MockFault[]} [faults] The faults to start the registry with.
+ * @property {number} [latency=0] The time in milliseconds to wait before responding to each request.
+ * @property {number} [processingTime] The time in milliseconds that uploaded versions spend processing before they are processed. Uploaded versions are never processed if not provided.
+ */
+export type MockRegistryOptions = {
+  fixtures?: MockFixtures;
+  faults?: MockFault[];
+  latency?: number;
+  processingTime?: number;
+};
+
+// A handler for a single route, which receives the parameters matched from the path
+type RouteHandler = (request: MockRequest, params: string[]) => MockResponse;
+
+// A session that a file is being uploaded to in parts
+type MockUploadSession = {
+  authorId: string;
+  data: Record<string, unknown>;
+  chunkCount: number;
+  completedChunks: Set<number>;
+};
+
+import { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import HTTPMethod from 'http-method-enum';
+import { nanoid } from 'nanoid/non-secure';
+import { MockAuthor, MockFixtures, MockPackage, MockVersion, createFixtures } from './fixtures';
+import { PackageType, VersionStatus } from '../scripts/author';
+import { LogLevel, ProcessingStage } from '../scripts/processingLog';
+import Version from '../scripts/version';
+import VersionSelection from '../scripts/versionSelection';
+import { validateId } from '../scripts/validators';
+
+const HOUR = 60 * 60 * 1000;
+const TOKEN_PREFIX = 'mock-token-';
+
+/**
+ * A registry which runs entirely in memory, implementing every endpoint that the portal uses. Use {@link MockRegistry#adapter} to send requests from a {@link RegistryClient} to it.
+ */
+export default class MockRegistry {
+
+  private _data: MockFixtures;
+  private _faults: MockFault[];
+  private _latency: number;
+  private _processingTime?: number;
+  private _sessions = new Map<string, MockUploadSession>();
+  private _routes: [HTTPMethod, RegExp, RouteHandler][];
+
+  /**
+   * All of the data currently stored in the registry, which can be inspected or changed directly.
+   */
+  get data(): MockFixtures {
+    return this._data;
+  }
+
+  /**
+   * An axios adapter which sends requests to this registry instead of the network.
+   */
+  get adapter(): AxiosAdapter {
+    return async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+      const url = new URL(config.url ?? '/', 'http://mock.registry');
+      const body = parseBody(config.data);
+
+      if (body instanceof Blob || body instanceof FormData)
+        config.onUploadProgress?.({ loaded: 1, total: 1, progress: 1, bytes: 1, upload: true });
+
+      const response = await this.handle({
+        method: (config.method ?? 'get').toUpperCase(),
+        path: url.pathname,
+        query: url.searchParams,
+        authorization: config.headers?.Authorization as string | undefined,
+        body
+      });
+
+      return {
+        data: typeof response.body === 'string' || response.body === undefined ? response.body ?? '' : JSON.stringify(response.body),
+        status: response.status,
+        statusText: String(response.status),
+        headers: response.headers ?? {},
+        config,
+        request: {}
+      };
+    };
+  }
+
+  /**
+   * Create a new mock registry.
+   * 
+   * @constructor
+   * @param {MockRegistryOptions} [options] The options of the registry.
+   */
+  constructor(options: MockRegistryOptions = {}) {
+    this._data = options.fixtures ?? createFixtures();
+    this._faults = [...options.faults ?? []];
+    this._latency = options.latency ?? 0;
+    this._processingTime = options.processingTime;
+
+    this._routes = [
+      [HTTPMethod.POST, /^\/auth\/login$/, this._login],
+      [HTTPMethod.POST, /^\/auth\/create$/, this._createAccount],
+      [HTTPMethod.POST, /^\/auth\/verify\/([^/]+)$/, this._verify],
+      [HTTPMethod.GET, /^\/account\/data$/, this._accountData],
+      [HTTPMethod.PATCH, /^\/account\/changename$/, this._changeName],
+      [HTTPMethod.POST, /^\/account\/reverify$/, this._reverify],
+      [HTTPMethod.GET, /^\/account\/packages$/, this._allPackages],
+      [HTTPMethod.GET, /^\/account\/packages\/([^/]+)$/, this._package],
+      [HTTPMethod.GET, /^\/account\/packages\/([^/]+)\/([^/]+)$/, this._packageVersion],
+      [HTTPMethod.GET, /^\/account\/packages\/([^/]+)\/([^/]+)\/log$/, this._processingLog],
+      [HTTPMethod.GET, /^\/packages\/([^/]+)$/, this._publicPackage],
+      [HTTPMethod.POST, /^\/packages\/new$/, this._newPackage],
+      [HTTPMethod.PATCH, /^\/packages\/description$/, this._description],
+      [HTTPMethod.POST, /^\/packages\/upload$/, this._upload],
+      [HTTPMethod.POST, /^\/packages\/retry$/, this._retry],
+      [HTTPMethod.POST, /^\/packages\/upload\/session$/, this._createSession],
+      [HTTPMethod.GET, /^\/packages\/upload\/session\/([^/]+)$/, this._getSession],
+      [HTTPMethod.PUT, /^\/packages\/upload\/session\/([^/]+)\/(\d+)$/, this._uploadChunk],
+      [HTTPMethod.POST, /^\/packages\/upload\/session\/([^/]+)\/complete$/, this._completeSession],
+      [HTTPMethod.PATCH, /^\/packages\/xpselection$/, this._xpSelection],
+      [HTTPMethod.PATCH, /^\/packages\/incompatibilities$/, this._incompatibilities],
+      [HTTPMethod.PATCH, /^\/packages\/privatekey$/, this._privateKey],
+      [HTTPMethod.GET, /^\/analytics\/([^/]+)\/([^/]+)$/, this._analytics]
+    ];
+  }
+
+  /**
+   * Add a fault, which is checked before any existing faults.
+   * 
+   * @param {MockFault} fault The fault to add.
+   */
+  injectFault(fault: MockFault): void {
+    this._faults.unshift({ ...fault });
+  }
+
+  /**
+   * Remove all faults.
+   */
+  clearFaults(): void {
+    this._faults = [];
+  }
+
+  /**
+   * Get a token for an author without logging in. Tokens never expire, so that they still work after the page is reloaded.
+   * 
+   * @param {string} authorId The identifier of the author.
+   * @returns {string} The token of the author.
+   */
+  createToken(authorId: string): string {
+    return TOKEN_PREFIX + authorId;
+  }
+
+  /**
+   * Handle a single request.
+   * 
+   * @async
+   * @param {MockRequest} request The request to handle.
+   * @returns {Promise<MockResponse>} A promise which resolves to the response once the latency has passed.
+   */
+  async handle(request: MockRequest): Promise<MockResponse> {
+    if (this._latency)
+      await new Promise(resolve => setTimeout(resolve, this._latency));
+
+    const fault = this._takeFault(request);
+    if (fault) {
+      return {
+        status: fault.status,
+        body: fault.body ?? getFaultCode(fault.status),
+        headers: fault.retryAfter === undefined ? void 0 : { 'retry-after': fault.retryAfter.toString() }
+      };
+    }
+
+    for (const [method, pattern, handler] of this._routes) {
+      const match = request.path.match(pattern);
+      if (method === request.method && match)
+        return handler.call(this, request, match.slice(1).map(decodeURIComponent));
+    }
+    return { status: 404, body: 'not_found' };
+  }
+
+  /**
+   * Find the first fault that matches a request, and count the request against it.
+   * 
+   * @param {MockRequest} request The request to find a fault for.
+   * @returns {MockFault|undefined} The fault to respond with, or undefined if the request should be handled normally.
+   */
+  private _takeFault(request: MockRequest): MockFault | undefined {
+    const index = this._faults.findIndex(f => (!f.method || f.method.toUpperCase() === request.method) && (!f.path || request.path.startsWith(f.path)));
+    if (index < 0)
+      return;
+
+    const fault = this._faults[index];
+    if (fault.count !== undefined && --fault.count <= 0)
+      this._faults.splice(index, 1);
+    return fault;
+  }
+
+  /**
+   * Get the author that sent a request.
+   * 
+   * @param {MockRequest} request The request to get the author of.
+   * @returns {MockAuthor|undefined} The author, or undefined if the request is not authorized.
+   */
+  private _getAuthor(request: MockRequest): MockAuthor | undefined {
+    if (!request.authorization?.startsWith(TOKEN_PREFIX))
+      return;
+
+    const authorId = request.authorization.slice(TOKEN_PREFIX.length);
+    return this._data.authors.find(a => a.id === authorId);
+  }
+
+  /**
+   * Get a package owned by an author.
+   * 
+   * @param {MockAuthor} author The author that owns the package.
+   * @param {unknown} packageId The identifier of the package.
+   * @returns {MockPackage|undefined} The package, or undefined if the author does not own a package with the identifier.
+   */
+  private _getPackage(author: MockAuthor, packageId: unknown): MockPackage | undefined {
+    return this._data.packages.find(p => p.packageId === packageId && p.authorId === author.id);
+  }
+
+  private _login({ body }: MockRequest): MockResponse {
+    const { email, password } = body as Record<string, string>;
+    const author = this._data.authors.find(a => a.email === email?.toLowerCase() && a.password === password);
+    if (!author)
+      return { status: 401, body: 'invalid_credentials' };
+    return { status: 200, body: { token: this.createToken(author.id) } };
+  }
+
+  private _createAccount({ body }: MockRequest): MockResponse {
+    const { email, name, password } = body as Record<string, string>;
+    if (!email || !name || !password)
+      return { status: 400, body: 'missing_form_data' };
+    if (this._data.authors.some(a => a.email === email.toLowerCase()))
+      return { status: 403, body: 'email' };
+    if (this._data.authors.some(a => a.name.toLowerCase() === name.toLowerCase()))
+      return { status: 403, body: 'name' };
+
+    const author: MockAuthor = {
+      id: 'mock-' + nanoid(),
+      name,
+      email: email.toLowerCase(),
+      password,
+      isVerified: false,
+      usedStorage: 0,
+      totalStorage: 5 * 1024 * 1024 * 1024
+    };
+    this._data.authors.push(author);
+    this._data.verificationTokens['mock-verification-' + author.id] = author.id;
+    return { status: 200, body: { token: this.createToken(author.id) } };
+  }
+
+  private _verify(request: MockRequest, [verificationToken]: string[]): MockResponse {
+    const author = this._data.authors.find(a => a.id === this._data.verificationTokens[verificationToken]);
+    if (!author)
+      return { status: 401, body: 'invalid_token' };
+    if (author.isVerified)
+      return { status: 403, body: 'already_verified' };
+
+    author.isVerified = true;
+    delete this._data.verificationTokens[verificationToken];
+    return { status: 204 };
+  }
+
+  private _accountData(request: MockRequest): MockResponse {
+    const author = this._getAuthor(request);
+    if (!author)
+      return { status: 401, body: 'Unauthorized' };
+
+    const { id, name, email, isVerified, usedStorage, totalStorage } = author;
+    return { status: 200, body: { id, name, email, isVerified, usedStorage, totalStorage } };
+  }
+
+  private _changeName(request: MockRequest): MockResponse {
+    const author = this._getAuthor(request);
+    if (!author)
+      return { status: 401, body: 'Unauthorized' };
+
+    const { newName } = request.body as Record<string, unknown>;
+    if (typeof newName !== 'string' || newName.length < 3 || newName.length > 32)
+      return { status: 400, body: 'invalid_name' };
+    if (author.lastNameChange && Date.now() - Date.parse(author.lastNameChange) < 30 * 24 * HOUR)
+      return { status: 406, body: 'too_soon' };
+
+    author.name = newName;
+    author.lastNameChange = new Date().toISOString();
+    return { status: 204 };
+  }
+
+  private _reverify(request: MockRequest): MockResponse {
+    const author = this._getAuthor(request);
+    if (!author)
+      return { status: 401, body: 'Unauthorized' };
+    if (author.isVerified)
+      return { status: 400, body: 'already_verified' };
+    return { status: 204 };
+  }
+
+  private _allPackages(request: MockRequest): MockResponse {
+    const author = this._getAuthor(request);
+    if (!author)
+      return { status: 401, body: 'Unauthorized' };
+
+    const packages = this._data.packages
+      .filter(p => p.authorId === author.id)
+      .map(p => ({ ...getPackageData(p), versions: p.versions }));
+    return { status: 200, body: { packages } };
+  }
+
+  private _package(request: MockRequest, [packageId]: string[]): MockResponse {
+    const author = this._getAuthor(request);
+    if (!author)
+      return { status: 401, body: 'Unauthorized' };
+
+    const pkg = this._getPackage(author, packageId);
+    if (!pkg)
+      return { status: 404, body: 'no_package' };
+
+    return { status: 200, body: { ...getPackageData(pkg), versions: pkg.versions } };
+  }
+
+  private _packageVersion(request: MockRequest, [packageId, packageVersion]: string[]): MockResponse {
+    const author = this._getAuthor(request);
+    if (!author)
+      return { status: 401, body: 'Unauthorized' };
+    if (!validateId(packageId) || !Version.fromString(packageVersion))
+      return { status: 400, body: 'invalid_id_or_version' };
+
+    const pkg = this._getPackage(author, packageId);
+    const versionData = pkg && findVersion(pkg, packageVersion);
+    if (!pkg || !versionData)
+      return { status: 404, body: 'no_version' };
+
+    return { status: 200, body: { ...getPackageData(pkg), versionData } };
+  }
+
+  private _processingLog(request: MockRequest, [packageId, packageVersion]: string[]): MockResponse {
+    const author = this._getAuthor(request);
+    if (!author)
+      return { status: 401, body: 'Unauthorized' };
+
+    const pkg = this._getPackage(author, packageId);
+    const version = pkg && findVersion(pkg, packageVersion);
+    if (!pkg || !version)
+      return { status: 404, body: 'no_version' };
+
+    return { status: 200, body: createProcessingLog(pkg, version) };
+  }
+
+  private _publicPackage(request: MockRequest, [packageId]: string[]): MockResponse {
+    const pkg = this._data.packages.find(p => p.packageId === packageId);
+    if (!pkg)
+      return { status: 404, body: 'no_package' };
+
+    const author = this._data.authors.find(a => a.id === pkg.authorId) as MockAuthor;
+    return {
+      status: 200,
+      body: {
+        packageId: pkg.packageId,
+        packageName: pkg.packageName,
+        authorId: author.id,
+        authorName: author.name,
+        description: pkg.description,
+        packageType: pkg.packageType,
+        versions: pkg.versions
+          .filter(v => v.isPublic && v.status === VersionStatus.Processed)
+          .map(({ packageVersion, dependencies, incompatibilities, xpSelection, platforms }) => ({ packageVersion, dependencies, incompatibilities, xpSelection, platforms }))
+      }
+    };
+  }
+
+  private _newPackage(request: MockRequest): MockResponse {
+    const author = this._getAuthor(request);
+    if (!author)
+      return { status: 401, body: 'Unauthorized' };
+
+    const { packageId, packageName, packageType, description } = request.body as Record<string, string>;
+    if (!packageId || !packageName || !packageType || !description)
+      return { status: 400, body: 'missing_form_data' };
+    if (packageId.length < 6)
+      return { status: 400, body: 'short_id' };
+    if (packageId.length > 32)
+      return { status: 400, body: 'long_id' };
+    if (!validateId(packageId))
+      return { status: 400, body: 'invalid_id' };
+    if (packageName.length < 3)
+      return { status: 400, body: 'short_name' };
+    if (packageName.length > 32)
+      return { status: 400, body: 'long_name' };
+    if (description.length < 10)
+      return { status: 400, body: 'short_desc' };
+    if (description.length > 8192)
+      return { status: 400, body: 'long_desc' };
+    if (this._data.packages.some(p => p.packageId === packageId.toLowerCase()))
+      return { status: 400, body: 'id_in_use' };
+    if (this._data.packages.some(p => p.packageName.toLowerCase() === packageName.toLowerCase()))
+      return { status: 400, body: 'name_in_use' };
+
+    this._data.packages.push({
+      packageId: packageId.toLowerCase(),
+      packageName,
+      authorId: author.id,
+      description,
+      packageType: packageType as PackageType,
+      versions: []
+    });
+    return { status: 204 };
+  }
+
+  private _description(request: MockRequest): MockResponse {
+    const author = this._getAuthor(request);
+    if (!author)
+      return { status: 401, body: 'Unauthorized' };
+
+    const { packageId, newDescription } = request.body as Record<string, unknown>;
+    if (!newDescription)
+      return { status: 400, body: 'no_desc' };
+    if (!packageId)
+      return { status: 400, body: 'no_id' };
+    if (typeof newDescription !== 'string')
+      return { status: 400, body: 'invalid_type' };
+    if (newDescription.length < 10)
+      return { status: 400, body: 'short_desc' };
+    if (newDescription.length > 8192)
+      return { status: 400, body: 'long_desc' };
+
+    const pkg = this._getPackage(author, packageId);
+    if (!pkg)
+      return { status: 403, body: 'no_package' };
+
+    pkg.description = newDescription;
+    return { status: 204 };
+  }
+
+  private _upload(request: MockRequest): MockResponse {
+    const author = this._getAuthor(request);
+    if (!author)
+      return { status: 401, body: 'Unauthorized' };
+
+    const body = request.body as Record<string, unknown>;
+    if (!(body.file instanceof Blob))
+      return { status: 400, body: 'missing_form_data' };
+
+    return this._addVersion(author, {
+      ...body,
+      dependencies: JSON.parse(body.dependencies as string ?? '[]'),
+      incompatibilities: JSON.parse(body.incompatibilities as string ?? '[]'),
+      platforms: {
+        macOS: body.supportsMacOS === 'true',
+        windows: body.supportsWindows === 'true',
+        linux: body.supportsLinux === 'true'
+      }
+    }, body.file.size);
+  }
+
+  private _retry(request: MockRequest): MockResponse {
+    const author = this._getAuthor(request);
+    if (!author)
+      return { status: 401, body: 'Unauthorized' };
+
+    const body = request.body as Record<string, unknown>;
+    if (!(body.file instanceof Blob))
+      return { status: 400, body: 'no_file' };
+
+    return this._retryVersion(author, body.packageId, body.packageVersion, body.file.size);
+  }
+
+  private _createSession(request: MockRequest): MockResponse {
+    const author = this._getAuthor(request);
+    if (!author)
+      return { status: 401, body: 'Unauthorized' };
+
+    const data = request.body as Record<string, unknown>;
+    const fileSize = data.fileSize as number;
+    const chunkSize = data.chunkSize as number;
+    if (typeof fileSize !== 'number' || fileSize < 0)
+      return { status: 400, body: 'invalid_size' };
+    if (typeof chunkSize !== 'number' || chunkSize <= 0)
+      return { status: 400, body: 'invalid_chunk_size' };
+
+    // Check everything that would make the upload fail before any parts are uploaded
+    const check = data.type === 'retry' ? this._checkRetry(author, data.packageId, data.packageVersion) : this._checkVersion(author, data);
+    if (check)
+      return check;
+
+    const uploadId = nanoid();
+    this._sessions.set(uploadId, {
+      authorId: author.id,
+      data,
+      chunkCount: Math.max(Math.ceil(fileSize / chunkSize), 1),
+      completedChunks: new Set()
+    });
+    return { status: 200, body: { uploadId } };
+  }
+
+  private _getSession(request: MockRequest, [uploadId]: string[]): MockResponse {
+    const author = this._getAuthor(request);
+    if (!author)
+      return { status: 401, body: 'Unauthorized' };
+
+    const session = this._sessions.get(uploadId);
+    if (!session || session.authorId !== author.id)
+      return { status: 404, body: 'no_session' };
+    return { status: 200, body: { completedChunks: [...session.completedChunks] } };
+  }
+
+  private _uploadChunk(request: MockRequest, [uploadId, index]: string[]): MockResponse {
+    const author = this._getAuthor(request);
+    if (!author)
+      return { status: 401, body: 'Unauthorized' };
+
+    const session = this._sessions.get(uploadId);
+    if (!session || session.authorId !== author.id)
+      return { status: 404, body: 'no_session' };
+
+    const chunk = parseInt(index, 10);
+    if (chunk >= session.chunkCount)
+      return { status: 400, body: 'invalid_index' };
+    if (!(request.body instanceof Blob))
+      return { status: 400, body: 'invalid_chunk' };
+
+    session.completedChunks.add(chunk);
+    return { status: 204 };
+  }
+
+  private _completeSession(request: MockRequest, [uploadId]: string[]): MockResponse {
+    const author = this._getAuthor(request);
+    if (!author)
+      return { status: 401, body: 'Unauthorized' };
+
+    const session = this._sessions.get(uploadId);
+    if (!session || session.authorId !== author.id)
+      return { status: 404, body: 'no_session' };
+    if (session.completedChunks.size < session.chunkCount)
+      return { status: 400, body: 'missing_chunks' };
+
+    this._sessions.delete(uploadId);
+    const { data } = session;
+    if (data.type === 'retry')
+      return this._retryVersion(author, data.packageId, data.packageVersion, data.fileSize as number);
+    return this._addVersion(author, data, data.fileSize as number);
+  }
+
+  private _xpSelection(request: MockRequest): MockResponse {
+    const author = this._getAuthor(request);
+    if (!author)
+      return { status: 401, body: 'Unauthorized' };
+
+    const { packageId, packageVersion, xpSelection } = request.body as Record<string, unknown>;
+    if (typeof packageId !== 'string' || typeof packageVersion !== 'string' || typeof xpSelection !== 'string' || !xpSelection)
+      return { status: 400, body: 'invalid_or_empty_str' };
+    if (xpSelection.length > 256)
+      return { status: 400, body: 'bad_sel_len' };
+    if (!new VersionSelection(xpSelection).isValid)
+      return { status: 400, body: 'invalid_selection' };
+
+    const pkg = this._getPackage(author, packageId);
+    if (!pkg)
+      return { status: 400, body: 'invalid_id_or_repo' };
+    const version = findVersion(pkg, packageVersion);
+    if (!version)
+      return { status: 400, body: 'invalid_version' };
+
+    version.xpSelection = xpSelection;
+    return { status: 204 };
+  }
+
+  private _incompatibilities(request: MockRequest): MockResponse {
+    const author = this._getAuthor(request);
+    if (!author)
+      return { status: 401, body: 'Unauthorized' };
+
+    const { packageId, packageVersion, incompatibilities } = request.body as Record<string, unknown>;
+    if (typeof packageId !== 'string' || typeof packageVersion !== 'string')
+      return { status: 400, body: 'invalid_or_empty_str' };
+    if (!Array.isArray(incompatibilities))
+      return { status: 400, body: 'bad_inc_arr' };
+    if (incompatibilities.length > 128)
+      return { status: 400, body: 'too_many_incompatibilities' };
+
+    const pkg = this._getPackage(author, packageId);
+    if (!pkg)
+      return { status: 400, body: 'invalid_id_or_repo' };
+    const version = findVersion(pkg, packageVersion);
+    if (!version)
+      return { status: 400, body: 'invalid_version' };
+
+    const check = checkPackageList(incompatibilities, 'inc');
+    if (check)
+      return check;
+    if (incompatibilities.some(([id]) => id === packageId || version.dependencies.some(([depId]) => depId === id)))
+      return { status: 400, body: 'dep_or_self_inc' };
+
+    version.incompatibilities = incompatibilities;
+    return { status: 204 };
+  }
+
+  private _privateKey(request: MockRequest): MockResponse {
+    const author = this._getAuthor(request);
+    if (!author)
+      return { status: 401, body: 'Unauthorized' };
+
+    const { packageId, packageVersion } = request.body as Record<string, unknown>;
+    if (typeof packageId !== 'string' || typeof packageVersion !== 'string')
+      return { status: 400, body: 'invalid_or_empty_str' };
+
+    const pkg = this._getPackage(author, packageId);
+    if (!pkg)
+      return { status: 400, body: 'invalid_id_or_repo' };
+    const version = findVersion(pkg, packageVersion);
+    if (!version)
+      return { status: 400, body: 'invalid_version' };
+    if (version.isPublic)
+      return { status: 400, body: 'version_public' };
+
+    version.privateKey = nanoid(32).toUpperCase();
+    return { status: 200, body: { privateKey: version.privateKey } };
+  }
+
+  private _analytics(request: MockRequest, [packageId, packageVersion]: string[]): MockResponse {
+    const author = this._getAuthor(request);
+    if (!author)
+      return { status: 401, body: 'Unauthorized' };
+
+    const pkg = this._getPackage(author, packageId);
+    const version = pkg && findVersion(pkg, packageVersion);
+    if (!version)
+      return { status: 404, body: 'no_version' };
+    if (version.status !== VersionStatus.Processed)
+      return { status: 200, body: [] };
+
+    const after = parseInt(request.query.get('after') ?? '0', 10);
+    const before = parseInt(request.query.get('before') ?? Date.now().toString(), 10);
+    const analytics = [];
+    for (let hour = Math.ceil(after / HOUR) * HOUR; hour < before; hour += HOUR) {
+      analytics.push({
+        timestamp: new Date(hour).toISOString(),
+        downloads: hourlyDownloads(`${packageId}@${packageVersion}`, hour)
+      });
+    }
+    return { status: 200, body: analytics };
+  }
+
+  /**
+   * Check the data of a new version, without adding it.
+   * 
+   * @param {MockAuthor} author The author uploading the version.
+   * @param {Record<string, unknown>} data The data of the version.
+   * @returns {MockResponse|undefined} The error response, or undefined if the data is valid.
+   */
+  private _checkVersion(author: MockAuthor, data: Record<string, unknown>): MockResponse | undefined {
+    const { packageId, packageVersion, xpSelection } = data;
+    if (typeof packageId !== 'string' || typeof xpSelection !== 'string')
+      return { status: 400, body: 'missing_form_data' };
+    if (typeof packageVersion !== 'string' || !packageVersion)
+      return { status: 400, body: 'no_version' };
+    if (packageVersion.length > 15)
+      return { status: 400, body: 'long_version' };
+    if (!Version.fromString(packageVersion))
+      return { status: 400, body: 'invalid_version' };
+
+    const pkg = this._getPackage(author, packageId);
+    if (!pkg)
+      return { status: 403, body: 'no_package' };
+    if (findVersion(pkg, packageVersion))
+      return { status: 400, body: 'version_exists' };
+
+    const platforms = data.platforms as MockVersion['platforms'] | undefined;
+    if (platforms && !platforms.macOS && !platforms.windows && !platforms.linux)
+      return { status: 400, body: 'plat_supp' };
+  }
+
+  /**
+   * Add a new version to a package, which starts processing.
+   * 
+   * @param {MockAuthor} author The author uploading the version.
+   * @param {Record<string, unknown>} data The data of the version.
+   * @param {number} fileSize The size of the uploaded file in bytes.
+   * @returns {MockResponse} The response to the upload.
+   */
+  private _addVersion(author: MockAuthor, data: Record<string, unknown>, fileSize: number): MockResponse {
+    const check = this._checkVersion(author, data);
+    if (check)
+      return check;
+
+    const isPublic = data.isPublic === true || data.isPublic === 'true';
+    const version: MockVersion = {
+      packageVersion: Version.fromString(data.packageVersion as string)!.toString(),
+      isPublic,
+      isStored: isPublic || data.isStored === true || data.isStored === 'true',
+      downloads: 0,
+      status: VersionStatus.Processing,
+      dependencies: data.dependencies as [string, string][] ?? [],
+      incompatibilities: data.incompatibilities as [string, string][] ?? [],
+      size: fileSize,
+      installedSize: 0,
+      xpSelection: data.xpSelection as string,
+      uploadDate: new Date().toISOString(),
+      privateKey: isPublic ? void 0 : nanoid(32).toUpperCase(),
+      platforms: data.platforms as MockVersion['platforms']
+    };
+    this._getPackage(author, data.packageId)!.versions.push(version);
+    this._process(data.packageId as string, version);
+    return { status: 204 };
+  }
+
+  /**
+   * Check that a failed version can be re-uploaded.
+   * 
+   * @param {MockAuthor} author The author re-uploading the version.
+   * @param {unknown} packageId The identifier of the package.
+   * @param {unknown} packageVersion The version of the package.
+   * @returns {MockResponse|undefined} The error response, or undefined if the version can be re-uploaded.
+   */
+  private _checkRetry(author: MockAuthor, packageId: unknown, packageVersion: unknown): MockResponse | undefined {
+    if (typeof packageId !== 'string' || typeof packageVersion !== 'string' || !packageId || !packageVersion)
+      return { status: 400, body: 'invalid_or_empty_str' };
+    if (!Version.fromString(packageVersion))
+      return { status: 400, body: 'invalid_version' };
+
+    const pkg = this._getPackage(author, packageId);
+    if (!pkg)
+      return { status: 400, body: 'invalid_id_or_repo' };
+    const version = findVersion(pkg, packageVersion);
+    if (!version)
+      return { status: 400, body: 'version_not_exist' };
+    if (version.status === VersionStatus.Processed || version.status === VersionStatus.Processing || version.status === VersionStatus.Removed)
+      return { status: 400, body: 'cant_retry' };
+  }
+
+  /**
+   * Re-upload a failed version, which starts processing it again.
+   * 
+   * @param {MockAuthor} author The author re-uploading the version.
+   * @param {unknown} packageId The identifier of the package.
+   * @param {unknown} packageVersion The version of the package.
+   * @param {number} fileSize The size of the uploaded file in bytes.
+   * @returns {MockResponse} The response to the re-upload.
+   */
+  private _retryVersion(author: MockAuthor, packageId: unknown, packageVersion: unknown, fileSize: number): MockResponse {
+    const check = this._checkRetry(author, packageId, packageVersion);
+    if (check)
+      return check;
+
+    const version = findVersion(this._getPackage(author, packageId)!, packageVersion as string)!;
+    version.status = VersionStatus.Processing;
+    version.size = fileSize;
+    version.uploadDate = new Date().toISOString();
+    this._process(packageId as string, version);
+    return { status: 204 };
+  }
+
+  /**
+   * Finish processing a version once the processing time has passed, if there is a processing time.
+   * 
+   * @param {string} packageId The identifier of the package of the version.
+   * @param {MockVersion} version The version to process.
+   */
+  private _process(packageId: string, version: MockVersion): void {
+    if (this._processingTime === undefined)
+      return;
+
+    setTimeout(() => {
+      if (version.status !== VersionStatus.Processing)
+        return;
+      version.status = VersionStatus.Processed;
+      version.installedSize = Math.round(version.size * 2.3);
+      version.hash = Array.from({ length: 64 }, () => Math.floor(Math.random() * 16).toString(16)).join('');
+      version.loc = `https://example.com/mock/${packageId}/${version.packageVersion}.xpkg`;
+    }, this._processingTime);
+  }
+}
+
+/**
+ * Parse the body of a request, as it was given to the adapter.
+ * 
+ * @param {unknown} data The body of the request.
+ * @returns {Record<string, unknown>|Blob} The parsed body.
+ */
+function parseBody(data: unknown): Record<string, unknown> | Blob {
+  if (data instanceof Blob)
+    return data;
+  else if (data instanceof FormData) {
+    const body: Record<string, unknown> = {};
+    data.forEach((value, key) => body[key] = value);
+    return body;
+  } else if (typeof data === 'string' && data) {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return {};
+    }
+  } else if (data && typeof data === 'object')
+    return data as Record<string, unknown>;
+  return {};
+}
+
+/**
+ * Get the data of a package which is sent to its author, without its versions or the identifier of its author.
+ * 
+ * @param {MockPackage} pkg The package to get the data of.
+ * @returns {Omit<MockPackage, 'authorId'|'versions'>} The data of the package.
+ */
+function getPackageData(pkg: MockPackage): Omit<MockPackage, 'authorId' | 'versions'> {
+  return {
+    packageId: pkg.packageId,
+    packageName: pkg.packageName,
+    description: pkg.description,
+    packageType: pkg.packageType
+  };
+}
+
+/**
+ * Find a version of a package by its version string, in any format that parses to the same version.
+ * 
+ * @param {MockPackage} pkg The package to find the version in.
+ * @param {string} packageVersion The version string to find.
+ * @returns {MockVersion|undefined} The version, or undefined if the package does not have the version.
+ */
+function findVersion(pkg: MockPackage, packageVersion: string): MockVersion | undefined {
+  const version = Version.fromString(packageVersion)?.toString();
+  return pkg.versions.find(v => Version.fromString(v.packageVersion)?.toString() === version);
+}
+
+/**
+ * Check a list of dependencies or incompatibilities.
+ * 
+ * @param {unknown[]} list The list to check.
+ * @param {string} prefix The prefix of the error codes, {@code 'inc'} for incompatibilities.
+ * @returns {MockResponse|undefined} The error response, or undefined if the list is valid.
+ */
+function checkPackageList(list: unknown[], prefix: string): MockResponse | undefined {
+  for (const tuple of list) {
+    if (!Array.isArray(tuple) || tuple.length !== 2)
+      return { status: 400, body: `bad_${prefix}_tuple` };
+    if (typeof tuple[0] !== 'string' || typeof tuple[1] !== 'string')
+      return { status: 400, body: `invalid_${prefix}_tuple_types` };
+    if (!validateId(tuple[0]))
+      return { status: 400, body: `invalid_${prefix}_tuple_id` };
+    if (!new VersionSelection(tuple[1]).isValid)
+      return { status: 400, body: `invalid_${prefix}_sel` };
+  }
+}
+
+/**
+ * Create the processing log of a version, which ends with the errors that would have caused its status.
+ * 
+ * @param {MockPackage} pkg The package of the version.
+ * @param {MockVersion} version The version to create the log of.
+ * @returns {Record<string, unknown>[]} The entries of the log, in the same format that the registry sends them.
+ */
+function createProcessingLog(pkg: MockPackage, version: MockVersion): Record<string, unknown>[] {
+  const { packageId } = pkg;
+  const start = Date.parse(version.uploadDate) || Date.now();
+  const entries: Record<string, unknown>[] = [];
+  const log = (stage: ProcessingStage, level: LogLevel, message: string, files?: string[]) => entries.push({
+    timestamp: new Date(start + entries.length * 1500).toISOString(),
+    stage,
+    level,
+    message,
+    files
+  });
+
+  log(ProcessingStage.Unzip, LogLevel.Info, 'Started unzipping the uploaded file.');
+  if (version.status === VersionStatus.FailedFileTooLarge) {
+    log(ProcessingStage.Unzip, LogLevel.Error, 'The unzipped contents are larger than 16 GiB.');
+    return entries;
+  }
+  log(ProcessingStage.Unzip, LogLevel.Info, 'Finished unzipping the uploaded file.');
+
+  log(ProcessingStage.Scan, LogLevel.Info, 'Started scanning the files of the package.');
+  switch (version.status) {
+  case VersionStatus.FailedMACOSX:
+    log(ProcessingStage.Scan, LogLevel.Error, 'The zip only contains a __MACOSX directory.', ['__MACOSX/']);
+    return entries;
+  case VersionStatus.FailedNoFileDir:
+    log(ProcessingStage.Scan, LogLevel.Error, `The zip does not contain a directory named ${packageId}.`);
+    return entries;
+  case VersionStatus.FailedManifestExists:
+    log(ProcessingStage.Scan, LogLevel.Error, 'The zip contains a manifest.json file in its root.', ['manifest.json']);
+    return entries;
+  case VersionStatus.FailedInvalidFileTypes:
+    log(ProcessingStage.Scan, LogLevel.Error, 'The zip contains symbolic links.', [`${packageId}/lib/current`]);
+    if (pkg.packageType !== PackageType.Executable)
+      log(ProcessingStage.Scan, LogLevel.Error, 'The zip contains executables.', [`${packageId}/bin/install.exe`, `${packageId}/scripts/setup.sh`]);
+    return entries;
+  }
+  log(ProcessingStage.Scan, LogLevel.Warning, 'The zip contains a .DS_Store file, which will not be packaged.', [`${packageId}/.DS_Store`]);
+  log(ProcessingStage.Scan, LogLevel.Info, 'Finished scanning the files of the package.');
+
+  log(ProcessingStage.Package, LogLevel.Info, 'Started creating the package file.');
+  if (version.status === VersionStatus.Processing)
+    return entries;
+  else if (version.status === VersionStatus.FailedServer) {
+    log(ProcessingStage.Package, LogLevel.Error, 'An unexpected error occured while creating the package file.');
+    return entries;
+  } else if (version.status === VersionStatus.Aborted) {
+    log(ProcessingStage.Package, LogLevel.Warning, 'Creating the package file is taking longer than expected.');
+    log(ProcessingStage.Package, LogLevel.Error, 'Processing was aborted because it exceeded the time limit.');
+    return entries;
+  }
+  log(ProcessingStage.Package, LogLevel.Info, 'Finished creating the package file.');
+
+  log(ProcessingStage.Store, LogLevel.Info, version.isStored ? 'Started storing the package file.' : 'The package file will not be stored.');
+  if (version.status === VersionStatus.FailedNotEnoughSpace) {
+    log(ProcessingStage.Store, LogLevel.Error, `Storing the package file requires ${version.size} bytes, which is more than the remaining storage space.`);
+    return entries;
+  }
+  log(ProcessingStage.Store, LogLevel.Info, 'Finished processing.');
+  return entries;
+}
+
+/**
+ * Get the code that the registry sends for a fault.
+ * 
+ * @param {number} status The status code of the fault.
+ * @returns {string} The code of the fault.
+ */
+function getFaultCode(status: number): string {
+  switch (status) {
+  case 401: return 'Unauthorized';
+  case 409: return 'conflict';
+  case 429: return 'too_many_requests';
+  default: return 'internal_error';
+  }
+}
+
+/**
+ * Get a consistent number of downloads for a version in a specific hour.
+ * 
+ * @param {string} key The key of the version.
+ * @param {number} hour The timestamp of the hour.
+ * @returns {number} The number of downloads in the hour, from 0 to 9.
+ */
+function hourlyDownloads(key: string, hour: number): number {
+  let seed = hour / HOUR;
+  for (const char of key)
+    seed = seed * 31 + char.charCodeAt(0) >>> 0;
+  seed = seed * 1103515245 + 12345 >>> 0;
+  return (seed >>> 16) % 10;
+}
\ No newline at end of file
@@ -70,14 +70,14 @@ import MainContainer from '../components/Main Container/MainContainer';
 import '../css/Account.scss';
 import 'reactjs-popup/dist/index.css';
 import * as tokenStorage from '../scripts/tokenStorage';
-import { httpRequest } from '../scripts/http';
+import { registry } from '../scripts/registryClient';
+import RegistryError from '../scripts/registryError';
 import * as util from '../scripts/validators';
 import MainContainerContent from '../components/Main Container/MainContainerContent';
 import InputField from '../components/Input/InputField';
 import { Formik, FormikErrors } from 'formik';
 import * as SB from '../components/Main Container/SideBar';
 import ConfirmPopup, { ConfirmPopupConfig } from '../components/ConfirmPopup';
-import HTTPMethod from 'http-method-enum';
 import MainContainerLoading from '../components/Main Container/MainContainerLoading';
 const { default: SideBar } = SB;
 
@@ -116,34 +116,33 @@ class Account extends Component {
     this.validateNameChange = this.validateNameChange.bind(this);
   }
 
-  componentDidMount(): void {
+  async componentDidMount(): Promise<void> {
     this.mounted = true;
 
     // This request will fire twice in development, during production it'll be fine
-    const token = tokenStorage.checkAuth() as string;
-    httpRequest(`${window.REGISTRY_URL}/account/data`, HTTPMethod.GET, token, {}, (err, resp) => {
-      if (err || resp?.status !== 200) {
-      
-        if (resp?.status === 401) {
-          tokenStorage.delToken();
-          sessionStorage.setItem('post-auth-redirect', '/account');
-          window.location.href = '/';
-          return;
-        }
-
-        return this.updateRendered(
-          this.error(!resp?.status ?
-            'Could not connect to backend' :
-            `Could not get data: ${resp?.status} (${resp?.statusText})`
-          )
-        );
+    let accountData: AccountData;
+    try {
+      accountData = await registry.getAuthorData();
+    } catch (e) {
+      if (e instanceof RegistryError && e.status === 401) {
+        tokenStorage.delToken();
+        sessionStorage.setItem('post-auth-redirect', '/account');
+        window.location.href = '/';
+        return;
       }
+
+      return this.updateRendered(
+        this.error(e instanceof RegistryError ?
+          `Could not get data: ${e.userMessage}` :
+          'An unknown error occured.'
+        )
+      );
+    }
       
-      // Pass the data directly into basicInformation() since state probably won't update before basicInformation() is called
-      this.setState({
-        rendered: this.basicInformation(JSON.parse(resp.response) as AccountData)
-      } as AccountState);
-    });
+    // Pass the data directly into basicInformation() since state probably won't update before basicInformation() is called
+    this.setState({
+      rendered: this.basicInformation(accountData)
+    } as AccountState);
   }
 
   componentWillUnmount(): void {
@@ -222,26 +221,9 @@ class Account extends Component {
                         // Force a rerender of the basic information page to gray out the change button
                       } as AccountState, () => this.updateRendered(this.basicInformation()));
       
-                      httpRequest(`${window.REGISTRY_URL}/account/changename`, HTTPMethod.PATCH, tokenStorage.checkAuth() as string, {
-                        newName: this.state.nameValue as string,
-                      }, (err, res) => {
-                        if (err)
-                          return console.error(err);
-                      
-                        let nameChangeError: string | undefined = void (0);
-                        let popupConfig: ConfirmPopupConfig | undefined = void (0);
-                        if (res?.status !== 204) {
-                          switch (res?.status) {
-                          case 400:
-                            nameChangeError = 'Invalid username';
-                            break;
-                          case 406:
-                            nameChangeError = 'You changed your username within the last 30 days';
-                            break;
-                          }
-                        } else {
-
-                          popupConfig = {
+                      registry.changeName(this.state.nameValue as string)
+                        .then(() => {
+                          const popupConfig = {
                             title: 'Name changed successfully',
                             showClose: false,
                             confirmText: 'Ok',
@@ -253,14 +235,26 @@ class Account extends Component {
                       
                           tokenStorage.delToken();
                           setTimeout(() => window.location.href = '/', 5000);
-                        }
-                        this.setState({
-                          nameChangeError,
-                          popupConfig,
-                          isPopupOpen: popupConfig !== void(0), 
-                          isSubmitting: false,
-                        } as AccountState, () => this.updateRendered(this.basicInformation()));
-                      });
+
+                          this.setState({
+                            nameChangeError: void (0),
+                            popupConfig,
+                            isPopupOpen: true, 
+                            isSubmitting: false,
+                          } as AccountState, () => this.updateRendered(this.basicInformation()));
+                        })
+                        .catch(e => {
+                          if (!(e instanceof RegistryError))
+                            return console.error(e);
+
+                          const nameChangeError = e.userMessage;
+                          this.setState({
+                            nameChangeError,
+                            popupConfig: void (0),
+                            isPopupOpen: false, 
+                            isSubmitting: false,
+                          } as AccountState, () => this.updateRendered(this.basicInformation()));
+                        });
                     },
                     children: <p className='generic-popup-text'>Are you sure you want to change your name from <b>{ this.state.accountData?.name }</b> to <b>{this.state.nameValue}</b>. Your name can not be changed again for 30 days.</p>
                   },
@@ -307,11 +301,10 @@ class Account extends Component {
                 sendingVerification: true
               } as Partial<AccountState>, () => this.updateRendered(this.basicInformation()));
               
-              const response = await httpRequest(`${window.REGISTRY_URL}/account/reverify`, HTTPMethod.POST, tokenStorage.checkAuth() as string, {});
-
               let errorMessage: string;
-              switch (response.status) {
-              case 204:
+              try {
+                await registry.reverify();
+
                 this.setState({
                   isPopupOpen: true,
                   verificationSent: true,
@@ -327,15 +320,10 @@ class Account extends Component {
                   }
                 } as Partial<AccountState>, () => this.updateRendered(this.basicInformation()));
                 return;
-              case 400:
-                errorMessage = 'Could not resend the verification email, you have already verified your account.';
-                break;
-              case 500:
-                errorMessage = 'Could not resend the verification email, an internal server error occured. Please try again later.';
-                break;
-              default:
-                errorMessage = 'An unknown error occured trying to resend the verification email. Please try again later.';
-                break;
+              } catch (e) {
+                errorMessage = e instanceof RegistryError ?
+                  `Could not resend the verification email. ${e.userMessage}` :
+                  'An unknown error occured trying to resend the verification email. Please try again later.';
               }
               
               this.setState({
@@ -0,0 +1,536 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * The state of the batch upload page.
+ * 
+ * @typedef {Object} BatchUploadState
+ * @property {boolean} isLoading True if the page is fetching data from the server.
+ * @property {string} [errorMessage] The message to display in an error, undefined if no error exists.
+ * @property {AuthorPackageData} [packageData] The data of the package that this page is uploading for.
+ * @property {BatchItem[]} items The files in the batch, in the order that they are uploaded.
+ * @property {string} xpSelection The selection of X-Plane versions shared by every file.
+ * @property {[string, string][]} dependencies The dependencies shared by every file. An array of tuples where the first value is the id of the package that the versions depend on, and the second value is the selection string of the dependency.
+ * @property {[string, string][]} incompatibilities The incompatibilities shared by every file. An array of tuples where the first value is the id of the package that the versions are incompatible with, and the second value is the selection string of the incompatibility.
+ * @property {boolean} dependencyErr True if there is an error with the dependency list.
+ * @property {boolean} incompatibilityErr True if there is an error with the incompatibility list.
+ * @property {number} concurrency The most files to upload at the same time.
+ * @property {boolean} isRunning True if files are being uploaded.
+ * @property {boolean} hasRun True if the batch has been uploaded at least once, and the summary should be shown.
+ */
+type BatchUploadState = {
+  isLoading: boolean;
+  errorMessage?: string;
+  packageData?: AuthorPackageData;
+  items: BatchItem[];
+  xpSelection: string;
+  dependencies: [string, string][];
+  incompatibilities: [string, string][];
+  dependencyErr: boolean;
+  incompatibilityErr: boolean;
+  concurrency: number;
+  isRunning: boolean;
+  hasRun: boolean;
+};
+
+import { Component } from 'react';
+import { nanoid } from 'nanoid/non-secure';
+import * as tokenStorage from '../scripts/tokenStorage';
+import MainContainer from '../components/Main Container/MainContainer';
+import MainContainerError from '../components/Main Container/MainContainerError';
+import MainContainerLoading from '../components/Main Container/MainContainerLoading';
+import MainContainerContent from '../components/Main Container/MainContainerContent';
+import PackageInfoFields from '../components/PackageInfoFields';
+import VersionSelectionEditor, { VersionSelectionEditorProps } from '../components/VersionSelectionEditor';
+import InputFile, { InputFileProps } from '../components/Input/InputFile';
+import InputCheckbox from '../components/Input/InputCheckbox';
+import PackageList, { PackageListProps } from '../components/PackageList';
+import { AuthorPackageData, PackageType } from '../scripts/author';
+import { registry } from '../scripts/registryClient';
+import RegistryError, { AuthError } from '../scripts/registryError';
+import { uploader } from '../scripts/chunkedUpload';
+import { hashFile } from '../scripts/fileHash';
+import * as uploadHistory from '../scripts/uploadHistory';
+import { analyzeDependencies, mergeDuplicates } from '../scripts/dependencyAnalyzer';
+import { settingsFromVersion } from '../scripts/uploadTemplates';
+import { ACCESS_OPTIONS, AccessOption, BatchItem, BatchItemStatus, MAX_CONCURRENCY, guessPlatforms, nextBatchVersion, runWithConcurrency, validateBatchItem } from '../scripts/batchUpload';
+import { Platform, PLATFORM_NAMES } from '../scripts/installSimulator';
+import { XPLANE_CATALOG } from '../scripts/releaseCatalog';
+import { getBestUnits } from '../scripts/displayUtil';
+import VersionSelection from '../scripts/versionSelection';
+import '../css/Table.scss';
+import '../css/BatchUpload.scss';
+
+const STATUS_TEXT: Record<BatchItemStatus, string> = {
+  [BatchItemStatus.Queued]: 'Queued',
+  [BatchItemStatus.Uploading]: 'Uploading',
+  [BatchItemStatus.Succeeded]: 'Uploaded',
+  [BatchItemStatus.Failed]: 'Failed'
+};
+
+class BatchUpload extends Component {
+
+  state: BatchUploadState;
+
+  constructor(props: Record<string, never>) {
+    super(props);
+
+    this.state = {
+      isLoading: true,
+      items: [],
+      xpSelection: '*',
+      dependencies: [],
+      incompatibilities: [],
+      dependencyErr: false,
+      incompatibilityErr: false,
+      concurrency: 1,
+      isRunning: false,
+      hasRun: false
+    };
+
+    const token = tokenStorage.checkAuth();
+    if (!token) {
+      sessionStorage.setItem('post-auth-redirect', '/packages');
+      window.location.href = '/';
+      return;
+    }
+  }
+
+  async componentDidMount(): Promise<void> {
+    const searchParams = new URLSearchParams(window.location.search);
+
+    if (!searchParams.has('packageId')) {
+      this.setState({
+        isLoading: false,
+        errorMessage: 'No package identifier'
+      } as Partial<BatchUploadState>);
+      return;
+    }
+
+    const packageId = decodeURIComponent(searchParams.get('packageId') as string).trim().toLowerCase();
+
+    try {
+      const packageData = await registry.getPackage(packageId);
+      packageData.versions.sort((a, b) => b.packageVersion.compare(a.packageVersion));
+
+      // Every file shares the settings of the latest version by default
+      const newState: Partial<BatchUploadState> = {
+        isLoading: false,
+        packageData
+      };
+      if (packageData.versions.length) {
+        const { xpSelection, dependencies, incompatibilities } = settingsFromVersion(packageData.versions[0]);
+        newState.xpSelection = xpSelection;
+        newState.dependencies = dependencies;
+        newState.incompatibilities = incompatibilities;
+      }
+      this.setState(newState);
+    } catch (e) {
+      console.error(e);
+      if (e instanceof AuthError && e.status === 401) {
+        tokenStorage.delToken();
+        sessionStorage.setItem('post-auth-redirect', '/packages');
+        window.location.href = '/';
+        return;
+      }
+
+      this.setState({
+        isLoading: false,
+        errorMessage: e instanceof RegistryError ? e.userMessage : 'An unknown error occured.'
+      } as Partial<BatchUploadState>);
+    }
+  }
+
+  private _existingVersions() {
+    return this.state.packageData?.versions.map(v => v.packageVersion) ?? [];
+  }
+
+  private _addFiles(files: FileList): void {
+    const existing = this._existingVersions();
+    const items = [...this.state.items];
+
+    for (const file of Array.from(files)) {
+      items.push({
+        id: nanoid(8),
+        file,
+        packageVersion: nextBatchVersion(existing, items.map(i => i.packageVersion)),
+        platforms: guessPlatforms(file.name),
+        access: 'public',
+        status: BatchItemStatus.Queued,
+        progress: 0,
+        attempts: 0
+      });
+    }
+
+    this.setState({ items } as Partial<BatchUploadState>);
+  }
+
+  // Uploads finish in any order, so items are always updated from the latest state
+  private _updateItem(id: string, changes: Partial<BatchItem>): void {
+    this.setState((state: BatchUploadState) => ({
+      items: state.items.map(i => i.id === id ? { ...i, ...changes } : i)
+    }));
+  }
+
+  private _removeItem(id: string): void {
+    this.setState({
+      items: this.state.items.filter(i => i.id !== id)
+    } as Partial<BatchUploadState>);
+  }
+
+  private _retry(ids: string[]): void {
+    this.setState((state: BatchUploadState) => ({
+      items: state.items.map(i => ids.includes(i.id) ? { ...i, status: BatchItemStatus.Queued, progress: 0, error: void 0 } : i)
+    }), () => this._run());
+  }
+
+  private async _run(): Promise<void> {
+    const queued = this.state.items.filter(i => i.status === BatchItemStatus.Queued).map(i => i.id);
+    if (!queued.length)
+      return;
+
+    this.setState({ isRunning: true } as Partial<BatchUploadState>);
+    await runWithConcurrency(queued, this.state.concurrency, id => this._uploadItem(id));
+    this.setState({
+      isRunning: false,
+      hasRun: true
+    } as Partial<BatchUploadState>);
+  }
+
+  private async _uploadItem(id: string): Promise<void> {
+    const item = this.state.items.find(i => i.id === id);
+    if (!item || item.status !== BatchItemStatus.Queued)
+      return;
+
+    this._updateItem(id, {
+      status: BatchItemStatus.Uploading,
+      progress: 0,
+      attempts: item.attempts + 1
+    });
+
+    const packageId = this.state.packageData?.packageId as string;
+    const packageVersion = item.packageVersion.trim().toLowerCase();
+    const { isPublic, isPrivate, isStored } = ACCESS_OPTIONS[item.access];
+
+    // Hash while uploading, the hash is only needed for the upload history, so it isn't worth failing over
+    const hashAbortController = new AbortController();
+    const hashPromise = hashFile(item.file, void 0, hashAbortController.signal).catch(e => {
+      if (!hashAbortController.signal.aborted)
+        console.error(e);
+      return void 0;
+    });
+
+    try {
+      await uploader.upload({
+        type: 'upload',
+        packageId,
+        packageVersion,
+        xpSelection: this.state.xpSelection.trim().toLowerCase(),
+        isPublic,
+        isPrivate,
+        isStored,
+        dependencies: mergeDuplicates('dependencies', this.state.dependencies),
+        incompatibilities: mergeDuplicates('incompatibilities', this.state.incompatibilities),
+        platforms: item.platforms
+      }, item.file, progress => this._updateItem(id, { progress: progress.progress }));
+
+      const hash = await hashPromise;
+      if (hash)
+        uploadHistory.addUpload({ packageId, packageVersion, fileName: item.file.name, hash });
+
+      this._updateItem(id, {
+        status: BatchItemStatus.Succeeded,
+        progress: 1
+      });
+    } catch (e) {
+      console.error(e);
+
+      // Retrying the item hashes the file again
+      hashAbortController.abort();
+      this._updateItem(id, {
+        status: BatchItemStatus.Failed,
+        error: e instanceof RegistryError ? e.userMessage : 'An unknown error occured.'
+      });
+    }
+  }
+
+  private _itemRow(item: BatchItem, problem?: string): JSX.Element {
+    const isLocked = this.state.isRunning || item.status === BatchItemStatus.Uploading || item.status === BatchItemStatus.Succeeded;
+
+    let status: JSX.Element;
+    if (item.status === BatchItemStatus.Uploading) {
+      status = (
+        <>
+          <progress className='batch-progress' value={item.progress} max='1' />
+          <span className='batch-note'>{Math.round(item.progress * 100)}%</span>
+        </>
+      );
+    } else if (item.status === BatchItemStatus.Failed)
+      status = <p className='error-message'>{item.error}</p>;
+    else
+      status = <span className={'batch-status-' + item.status}>{STATUS_TEXT[item.status]}</span>;
+
+    return (
+      <tr key={item.id}>
+        <td className='batch-file'>
+          {item.file.name}
+          <span className='batch-note'>{getBestUnits(item.file.size)}</span>
+        </td>
+        <td>
+          <input
+            type='text'
+            className='batch-version'
+            value={item.packageVersion}
+            maxLength={15}
+            disabled={isLocked}
+            onChange={e => this._updateItem(item.id, { packageVersion: e.target.value })}
+          />
+          {problem && item.status !== BatchItemStatus.Succeeded && <p className='error-message'>{problem}</p>}
+        </td>
+        <td className='batch-platforms'>
+          {(Object.keys(PLATFORM_NAMES) as Platform[]).map(platform =>
+            <InputCheckbox
+              key={platform}
+              name={`${item.id}-${platform}`}
+              title={PLATFORM_NAMES[platform]}
+              checked={item.platforms[platform]}
+              disabled={isLocked}
+              onChange={() => this._updateItem(item.id, { platforms: { ...item.platforms, [platform]: !item.platforms[platform] } })}
+            />
+          )}
+        </td>
+        <td>
+          <select
+            className='batch-access'
+            value={item.access}
+            disabled={isLocked}
+            onChange={e => this._updateItem(item.id, { access: e.target.value as AccessOption })}
+          >
+            {(Object.keys(ACCESS_OPTIONS) as AccessOption[]).map(access => <option key={access} value={access}>{ACCESS_OPTIONS[access].name}</option>)}
+          </select>
+        </td>
+        <td className='batch-status'>{status}</td>
+        <td className='batch-actions'>
+          {item.status === BatchItemStatus.Failed &&
+            <button type='button' className='secondary-button' disabled={this.state.isRunning || !!problem} onClick={() => this._retry([item.id])}>Retry</button>
+          }
+          {item.status !== BatchItemStatus.Succeeded &&
+            <button type='button' className='secondary-button' disabled={isLocked} onClick={() => this._removeItem(item.id)}>Remove</button>
+          }
+        </td>
+      </tr>
+    );
+  }
+
+  private _summary(): JSX.Element {
+    const { items } = this.state;
+    const succeeded = items.filter(i => i.status === BatchItemStatus.Succeeded).length;
+    const failed = items.filter(i => i.status === BatchItemStatus.Failed).length;
+    const packageId = this.state.packageData?.packageId as string;
+
+    return (
+      <section className='batch-summary mt-9'>
+        <h2>Summary</h2>
+        <p>{succeeded} of {items.length} versions uploaded{failed ? `, ${failed} failed` : ''}.</p>
+        <table className='xpkg-table'>
+          <thead>
+            <tr>
+              <th>Version</th>
+              <th>File</th>
+              <th>Size</th>
+              <th>Platforms</th>
+              <th>Access</th>
+              <th>Attempts</th>
+              <th>Result</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item =>
+              <tr key={item.id}>
+                <td>{item.packageVersion.trim().toLowerCase()}</td>
+                <td>{item.file.name}</td>
+                <td>{getBestUnits(item.file.size)}</td>
+                <td>{(Object.keys(PLATFORM_NAMES) as Platform[]).filter(p => item.platforms[p]).map(p => PLATFORM_NAMES[p]).join(', ')}</td>
+                <td>{ACCESS_OPTIONS[item.access].name}</td>
+                <td>{item.attempts}</td>
+                <td className={'batch-status-' + item.status}>{item.status === BatchItemStatus.Failed ? item.error : STATUS_TEXT[item.status]}</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+        {!failed && succeeded === items.length &&
+          <button
+            type='button'
+            className='primary-button float-right mt-4'
+            onClick={() => window.location.href = `/packages/package?packageId=${packageId}`}
+          >Return to Package</button>
+        }
+      </section>
+    );
+  }
+
+  render(): JSX.Element {
+    const { items, isRunning } = this.state;
+    const existing = this._existingVersions();
+    const problems = new Map(items.map(i => [i.id, validateBatchItem(i, items, existing)]));
+
+    const isSelectionValid = new VersionSelection(this.state.xpSelection.trim()).isValid;
+    const conflicts = analyzeDependencies(this.state.packageData?.packageId ?? '', this.state.dependencies, this.state.incompatibilities);
+    const hasSharedError = !isSelectionValid || this.state.dependencyErr || this.state.incompatibilityErr || conflicts.some(c => c.isError);
+
+    const queued = items.filter(i => i.status === BatchItemStatus.Queued);
+    const failed = items.filter(i => i.status === BatchItemStatus.Failed);
+    const canStart = !isRunning && !!queued.length && !hasSharedError && !queued.some(i => problems.get(i.id));
+
+    const xpCompatiblityFieldProps: VersionSelectionEditorProps = {
+      classes: ['w-10/12'],
+      label: 'X-Plane Compatiblity',
+      placeholder: 'x.x.x-x.x.x',
+      name: 'xpSelection',
+      defaultValue: this.state.xpSelection,
+      minLength: 1,
+      maxLength: 256,
+      error: isSelectionValid ? void 0 : 'Version selection invalid',
+      readonly: isRunning,
+      onChange: xpSelection => this.setState({ xpSelection } as Partial<BatchUploadState>),
+      catalog: XPLANE_CATALOG
+    };
+
+    const fileUploadProps: InputFileProps = {
+      label: 'Content Files',
+      id: 'batch-files',
+      name: 'batch-files',
+      types: '.zip',
+      multiple: true,
+      onChange: e => {
+        if (!e.target.files?.length)
+          return;
+        this._addFiles(e.target.files);
+        e.target.value = '';
+      }
+    };
+
+    const dependencyListProps: PackageListProps = {
+      list: this.state.dependencies,
+      onChange: err => this.setState({ dependencyErr: err }),
+      title: 'Dependencies',
+      noneText: 'No dependencies',
+      readonly: isRunning,
+      conflicts: conflicts.filter(c => c.list === 'dependencies')
+    };
+
+    const incompatibilityListProps: PackageListProps = {
+      list: this.state.incompatibilities,
+      onChange: err => this.setState({ incompatibilityErr: err }),
+      title: 'Incompatibilities',
+      noneText: 'No incompatibilities',
+      readonly: isRunning,
+      conflicts: conflicts.filter(c => c.list === 'incompatibilities')
+    };
+
+    return (
+      <MainContainer>
+        {this.state.errorMessage && <MainContainerError
+          message={this.state.errorMessage}
+          linkName='Return Home'
+          link='/packages'
+        />}
+        {this.state.isLoading && !this.state.errorMessage && <MainContainerLoading loadingMessage='Loading data from registry' />}
+        {(!this.state.errorMessage && !this.state.isLoading) &&
+          <MainContainerContent
+            title='Upload multiple versions'
+            backButtonText='Package'
+            backButtonURL={`/packages/package?packageId=${this.state.packageData?.packageId}`}
+          >
+            <>
+              <PackageInfoFields
+                packageId={this.state.packageData?.packageId as string}
+                packageName={this.state.packageData?.packageName as string}
+                packageType={this.state.packageData?.packageType as PackageType}
+              />
+
+              <section className='no-border mt-9'>
+                <div className='left-half'>
+                  <VersionSelectionEditor {...xpCompatiblityFieldProps} />
+                </div>
+                <div className='right-half batch-options'>
+                  <InputFile {...fileUploadProps} />
+                  <div className='input input-dropdown mt-6'>
+                    <label htmlFor='batch-concurrency'>Parallel Uploads</label>
+                    <select
+                      id='batch-concurrency'
+                      value={this.state.concurrency}
+                      disabled={isRunning}
+                      onChange={e => this.setState({ concurrency: parseInt(e.target.value, 10) } as Partial<BatchUploadState>)}
+                    >
+                      {Array.from({ length: MAX_CONCURRENCY }, (_, i) => <option key={i} value={i + 1}>{i + 1}</option>)}
+                    </select>
+                  </div>
+                </div>
+              </section>
+
+              <section className='mt-[5.5rem]'>
+                <div className='left-half'>
+                  <PackageList {...dependencyListProps} />
+                </div>
+                <div className='right-half'>
+                  <PackageList {...incompatibilityListProps} />
+                </div>
+              </section>
+
+              <section className='mt-9'>
+                <h2>Files</h2>
+                <table className='xpkg-table batch-table'>
+                  <thead>
+                    <tr>
+                      <th>File</th>
+                      <th>Version</th>
+                      <th>Platforms</th>
+                      <th>Access</th>
+                      <th>Status</th>
+                      <th>&nbsp;</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {items.map(item => this._itemRow(item, problems.get(item.id)))}
+                    {!items.length && <tr><td className='no-data-text' colSpan={6}>No files selected</td></tr>}
+                  </tbody>
+                </table>
+              </section>
+
+              <section className='relative mt-9'>
+                <button type='button' className='primary-button float-right' disabled={!canStart} onClick={() => this._run()}>
+                  {isRunning ? 'Uploading...' : 'Upload All'}
+                </button>
+                {!!failed.length &&
+                  <button
+                    type='button'
+                    className='secondary-button float-right mr-4'
+                    disabled={isRunning || hasSharedError || failed.some(i => problems.get(i.id))}
+                    onClick={() => this._retry(failed.map(i => i.id))}
+                  >Retry Failed</button>
+                }
+              </section>
+
+              {this.state.hasRun && !isRunning && this._summary()}
+            </>
+          </MainContainerContent>
+        }
+      </MainContainer>
+    );
+  }
+}
+
+export default BatchUpload;
\ No newline at end of file
@@ -53,11 +53,11 @@ import AuthBox from '../components/AuthBox';
 import InputField, { InputFieldProps } from '../components/Input/InputField';
 import '../css/AuthBox.scss';
 import * as tokenStorage from '../scripts/tokenStorage';
-import * as http from '../scripts/http';
 import Checkbox from '../components/Input/InputCheckbox';
 import * as util from '../scripts/validators';
-import HTTPMethod from 'http-method-enum';
 import ReCAPTCHA from 'react-google-recaptcha';
+import { registry } from '../scripts/registryClient';
+import RegistryError from '../scripts/registryError';
 
 class Create extends Component {
 
@@ -145,66 +145,33 @@ class Create extends Component {
     } as Partial<CreateState>);
     const { email, password, name } = values;
 
-    http.httpRequest(`${window.REGISTRY_URL}/auth/create`, HTTPMethod.POST, void (0), {
-      email,
-      password,
-      name,
-      validation: this.state.recaptchaToken as string
-    }, (err, r) => {
+    let token: string;
+    try {
+      token = await registry.createAccount(email, name, password, this.state.recaptchaToken as string);
+    } catch (e) {
       setSubmitting(false);
-      if (err) {
-        this.setState({
-          errorMessage: 'Could not connect to server'
-        });
-        return console.error(err);
-      }
-      const resp = r as XMLHttpRequest;
 
-      if (resp.status !== 200) {
-        let errorMessage = 'An unknown error occured';
-        switch (resp.status) {
-        case 400:
-          errorMessage = 'Bad request';
-          break;
-        case 403: {
-          const itemInUse = resp.responseText as 'email' | 'name';
-          errorMessage = `${itemInUse === 'email' ? 'Email' : 'Name'}`;
-          break;
-        }
-        case 409:
-          errorMessage = 'Unable, suspicious activity';
-          this._removeMessageAfterDelay();
-          break;
-        case 418: 
-          errorMessage = 'Ensure you have filled out the captcha';
-          this._removeMessageAfterDelay();
-          break;
-        case 429: 
-          errorMessage = 'You are doing that too much, please slow down';
-          this._removeMessageAfterDelay(); 
-          break;
-        case 500:
-          errorMessage = 'Internal server error, please try again later';
-          this._removeMessageAfterDelay();
-          break;
-        }
-        
-        this.setState({
-          errorMessage
-        } as Partial<CreateState>);
-      } else {
-        const { token } = JSON.parse(resp.response);
-        tokenStorage.saveToken(token, values.rememberMe);
+      const errorMessage = e instanceof RegistryError ? e.userMessage : 'An unknown error occured.';
+      if (!(e instanceof RegistryError) || (e.status !== 400 && e.status !== 403))
+        this._removeMessageAfterDelay();
+
+      this.setState({
+        errorMessage
+      } as Partial<CreateState>);
+      return;
+    }
+
+    setSubmitting(false);
+    tokenStorage.saveToken(token, values.rememberMe);
         
-        const possibleRedir = sessionStorage.getItem('post-auth-redirect');
-        if (possibleRedir) {
-          sessionStorage.removeItem('post-auth-redirect');
-          return window.location.href = possibleRedir;
-        }
+    const possibleRedir = sessionStorage.getItem('post-auth-redirect');
+    if (possibleRedir) {
+      sessionStorage.removeItem('post-auth-redirect');
+      window.location.href = possibleRedir;
+      return;
+    }
 
-        window.location.href = '/packages';
-      }
-    });
+    window.location.href = '/packages';
   }
 
   render() {
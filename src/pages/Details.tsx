@@ -18,46 +18,62 @@
  * 
  * @typedef {Object} DetailsState
  * @property {boolean} isLoading True if the page is loading (getting data from the registry).
+ * @property {number} [retryAt] The timestamp (in milliseconds) at which a request for the data of the page will be retried, if the registry asked us to wait.
  * @property {string} [errorMessage] Any errors that occured while fetching package data. If not undefined, it will display the error page with this message.
  * @property {[string, string][]} dependencies The dependencies of the version being modified. An array of tuples where the first value is the id of the package that this version depends on, and the second value is the selection string of the dependency. 
  * @property {[string, string][]} incompatibilities The incompatibilities of the version being modified. An array of tuples where the first value is the id of the package that this version is incompatible with, and the second value is the selection string of the incompatibility.
  * @property {string} xpSelectionStr The X-Plane version selection (not parsed).
  * @property {VersionSelection} xpSelection The parsed X-Plane version selection.
  * @property {File} [file] The file that will be re-uploaded in order to re-process.
+ * @property {boolean} isCheckingFile True if the file is being checked for problems before it is re-uploaded.
+ * @property {PreflightIssue[]} [preflightIssues] The problems found with the file, or undefined if no file has been checked.
  * @property {boolean} isSubmitting True if anything is currently being submitted.
  * @property {boolean} isUploading True if the a file is being re-uploaded.
- * @property {number} uploadProgress The upload progress, which is a number between 0 and 1, where 0 is 0% uploaded, and 1 is 100% uploaded. 
+ * @property {UploadStatus} [uploadStatus] The status of the current re-upload, or undefined if nothing is being re-uploaded.
  * @property {string} [uploadError] A human-readable message, which is set if there was an error with the upload.
  * @property {boolean} incompatibilityErr True if there is an error with the incompatibility list.
  * @property {string} [popupTitle] If defined, the title to display in the popup.
  * @property {string} [popupText] If defined, the text to display in the popup.
  * @property {() => void} [popupAction] If defined, the action to perform after closing the popup. Only run once, then reset.
  * @property {TimeChartData} [downloadsData] The data for the downloads chart (the current period).
+ * @property {number} graphDepth The depth limit to resolve the dependency graph with.
+ * @property {boolean} isResolvingGraph True if the dependency graph is being resolved.
+ * @property {DependencyGraph} [dependencyGraph] The resolved dependency graph, or undefined if it has not been resolved.
+ * @property {string} [graphError] A human-readable message, which is set if the dependency graph could not be resolved.
+ * @property {boolean} isBrowsingFiles True if the files of the stored package file are being shown.
  */
 type DetailsState = {
   isLoading: boolean;
+  retryAt?: number;
   errorMessage?: string;
   dependencies: [string, string][];
   incompatibilities: [string, string][];
   xpSelectionStr: string;
   xpSelection: VersionSelection;
   file?: File;
+  isCheckingFile: boolean;
+  preflightIssues?: PreflightIssue[];
   isSubmitting: boolean;
   isUploading: boolean;
-  uploadProgress: number;
+  uploadStatus?: UploadStatus;
   uploadError?: string;
   incompatibilityErr: boolean;
   popupTitle?: string;
   popupText?: string;
   popupAction?: () => void;
   downloadsData?: TimeChartData[];
+  graphDepth: number;
+  isResolvingGraph: boolean;
+  dependencyGraph?: DependencyGraphData;
+  graphError?: string;
+  isBrowsingFiles: boolean;
 };
 
 import { Component, ReactNode } from 'react';
 import * as tokenStorage from '../scripts/tokenStorage';
 import Version from '../scripts/version';
-import { downloadFile, httpRequest } from '../scripts/http';
-import HTTPMethod from 'http-method-enum';
+import { downloadFile } from '../scripts/http';
+import { downloadInstallationFile } from '../scripts/installationFile';
 import MainContainer from '../components/Main Container/MainContainer';
 import MainContainerContent from '../components/Main Container/MainContainerContent';
 import MainContainerLoading from '../components/Main Container/MainContainerLoading';
@@ -66,15 +82,30 @@ import PackageInfoFields from '../components/PackageInfoFields';
 import PackageList, { PackageListProps } from '../components/PackageList';
 import '../css/Details.scss';
 import InputFile, { InputFileProps } from '../components/Input/InputFile';
-import LoadingBarPopup from '../components/LoadingBarPopup';
-import axios, { AxiosError } from 'axios';
-import InputField, { InputFieldProps } from '../components/Input/InputField';
+import UploadProgressPopup from '../components/UploadProgressPopup';
+import VersionSelectionEditor, { VersionSelectionEditorProps } from '../components/VersionSelectionEditor';
+import { XPLANE_CATALOG } from '../scripts/releaseCatalog';
 import ConfirmPopup from '../components/ConfirmPopup';
-import { AuthorSingleVersionPackageData, PackageType, VersionStatus, getAuthorPackageVersion } from '../scripts/author';
-import RegistryError from '../scripts/registryError';
+import { AuthorSingleVersionPackageData, PackageType, VersionStatus } from '../scripts/author';
+import { registry } from '../scripts/registryClient';
+import { UploadTarget, uploader } from '../scripts/chunkedUpload';
+import UploadController, { UploadStatus } from '../scripts/uploadController';
+import { PreflightIssue, preflightPackageZip } from '../scripts/zipInspector';
+import PreflightIssues from '../components/PreflightIssues';
+import VerifyFileDropZone from '../components/VerifyFileDropZone';
+import { hashFile, hashesMatch } from '../scripts/fileHash';
+import * as uploadHistory from '../scripts/uploadHistory';
+import RegistryError, { AuthError } from '../scripts/registryError';
 import VersionSelection from '../scripts/versionSelection';
+import { analyzeDependencies, mergeDuplicates } from '../scripts/dependencyAnalyzer';
+import { DEFAULT_GRAPH_DEPTH, DependencyGraph as DependencyGraphData, MAX_GRAPH_DEPTH, RegistryPackageSource, resolveDependencyGraph } from '../scripts/dependencyResolver';
+import DependencyGraph from '../components/DependencyGraph';
+import ProcessingLog from '../components/ProcessingLog';
+import ZipBrowser from '../components/ZipBrowser';
+import InputDropdown from '../components/Input/InputDropdown';
 import PackageInformation from './PackageInformation';
-import {getAnalytics, AnalyticsData, TimeChartData, formatAnalyticsDataToDays } from '../scripts/analytics';
+import { IncompatibilityGeneratorDefaults, ToolPages } from './Tools';
+import { AnalyticsData, TimeChartData, formatAnalyticsDataToDays } from '../scripts/analytics';
 import { Line }  from 'react-chartjs-2';
 import { DateTime, Duration } from 'luxon';
 import 'chartjs-adapter-luxon';
@@ -113,6 +144,8 @@ class Details extends Component {
   private _backURL?: string;
   private _backText?: string;
 
+  private _uploadController?: UploadController;
+
   private _minDate: DateTime;
   private _maxDate: DateTime;
 
@@ -123,12 +156,15 @@ class Details extends Component {
       isLoading: true,
       dependencies: [],
       incompatibilities: [],
+      isCheckingFile: false,
       isSubmitting: false,
       isUploading: false,
-      uploadProgress: 0,
       incompatibilityErr: false,
       xpSelectionStr: '*',
-      xpSelection: new VersionSelection('*')
+      xpSelection: new VersionSelection('*'),
+      graphDepth: DEFAULT_GRAPH_DEPTH,
+      isResolvingGraph: false,
+      isBrowsingFiles: false
     };
 
     this._maxDate = DateTime.now().startOf('day');
@@ -144,6 +180,7 @@ class Details extends Component {
 
     this._updateIncompatibilities = this._updateIncompatibilities.bind(this);
     this._updateXpSelection = this._updateXpSelection.bind(this);
+    this._resolveGraph = this._resolveGraph.bind(this);
   }
 
   async componentDidMount() {
@@ -182,10 +219,11 @@ class Details extends Component {
     try {
       let analytics: AnalyticsData[];
       let lastAnalyticsData: AnalyticsData[];
+      const retryPolicy = { onWait: (delay: number) => this.setState({ retryAt: Date.now() + delay } as Partial<DetailsState>) };
       [this._data, analytics, lastAnalyticsData] = await Promise.all([
-        getAuthorPackageVersion(packageId, version),
-        getAnalytics(packageId, version, this._minDate),
-        getAnalytics(packageId, version, this._minDate.minus({weeks: 2}), this._minDate)
+        registry.getPackageVersion(packageId, version, retryPolicy),
+        registry.getAnalytics(packageId, version, this._minDate, void 0, retryPolicy),
+        registry.getAnalytics(packageId, version, this._minDate.minus({weeks: 2}), this._minDate, retryPolicy)
       ]);
 
       lastAnalyticsData.forEach(d => d.timestamp = d.timestamp.plus({weeks: 2}));
@@ -202,96 +240,100 @@ class Details extends Component {
       } as Partial<DetailsState>);
     } catch (e) {
       console.error(e);
-      let errorMessage = 'An unknown error occured.';
-      if (e instanceof RegistryError) {
-        switch (e.status) {
-        case 400:
-          errorMessage = 'Invalid package identifier or version provided.';
-          break;
-        case 401:
-          tokenStorage.delToken();
-          sessionStorage.setItem('post-auth-redirect', '/packages');
-          window.location.href = '/';
-          return;
-        case 404:
-          errorMessage = 'Package version not found.';
-          break;
-        case 409:
-        case 429:
-          errorMessage = 'You are doing that too much. Please try again later.';
-          break;
-        case 500:
-          errorMessage = 'Internal server error. Please try again later.';
-          break;  
-        }
+      if (e instanceof AuthError && e.status === 401) {
+        tokenStorage.delToken();
+        sessionStorage.setItem('post-auth-redirect', '/packages');
+        window.location.href = '/';
+        return;
       }
 
+      const errorMessage = e instanceof RegistryError ? e.userMessage : 'An unknown error occured.';
       this.setState({ errorMessage } as Partial<DetailsState>);
     }
   }
 
   // The reupload didn't fail, make a reupload request for a package processing job that failed
   private async _reuploadFailed(): Promise<void> {
+    const packageId = this._data!.packageId;
+    const packageVersion = this._data!.versionData.packageVersion.toString();
+    const file = this.state.file as File;
+
+    const target: UploadTarget = {
+      type: 'retry',
+      packageId,
+      packageVersion
+    };
+
+    const controller = new UploadController((signal, onProgress) => uploader.upload(target, file, onProgress, signal), file.size, uploadStatus => this.setState({ uploadStatus } as Partial<DetailsState>));
+    this._uploadController = controller;
+
     this.setState({
       isSubmitting: true,
       isUploading: true,
-      uploadProgress: 0,
+      uploadStatus: controller.status,
       uploadError: void 0
     } as Partial<DetailsState>);
 
-    const formData = new FormData();
-    formData.append('packageId', this._data?.packageId as string);
-    formData.append('packageVersion', this._data!.versionData.packageVersion.toString());
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    formData.append('file', (document.getElementById('package-file') as any).files[0]);
+    // Hash while uploading, the hash is only needed for the upload history, so it isn't worth failing over
+    const hashAbortController = new AbortController();
+    const hashPromise = hashFile(file, void 0, hashAbortController.signal).catch(e => {
+      if (!hashAbortController.signal.aborted)
+        console.error(e);
+      return void 0;
+    });
 
     try {
-      await axios({
-        url: `${window.REGISTRY_URL}/packages/retry`,
-        method: HTTPMethod.POST,
-        data: formData,
-        headers: {
-          Authorization: tokenStorage.checkAuth() as string
-        }, 
-        onUploadProgress: e  => {
-          this.setState({
-            uploadProgress: e.progress
-          } as Partial<DetailsState>);
-        },
-      });
+
+      // A canceled re-upload leaves the file selected, so that it can be re-uploaded again from the start
+      if (!await controller.run()) {
+        hashAbortController.abort();
+        await uploader.discardUpload(target, file);
+        this.setState({
+          isSubmitting: false,
+          isUploading: false,
+          uploadStatus: void 0
+        } as Partial<DetailsState>);
+        return;
+      }
+
+      const hash = await hashPromise;
+      if (hash)
+        uploadHistory.addUpload({ packageId, packageVersion, fileName: file.name, hash });
 
       window.location.reload();
     } catch (e) {
-      let errorMessage = 'An unknown error occured.';
-      
-      if (e instanceof AxiosError) {
-        switch (e.response?.status) {
-        case 400:
-          errorMessage = {
-            invalid_or_empty_str: 'Invalid or empty string.',
-            no_file: 'File not provided.',
-            invalid_id_or_repo: 'Bad identifier, or wrong repository.',
-            invalid_version: 'Invalid version format.',
-            version_not_exist: 'The package does not contain the provided version.',
-            cant_retry: 'You can not re-upload this package version.'
-          }[e.response?.data as string]
-              ?? `An unknown error occured [${e.response?.data}].`;
-          break;
-        case 500:
-          errorMessage = 'An internal server error occured.';
-          break;
-        }
-      }
+      hashAbortController.abort();
+      const errorMessage = e instanceof RegistryError ? e.userMessage : 'An unknown error occured.';
 
       this.setState({
         uploadError: errorMessage,
         isSubmitting: false,
-        isUploading: false
+        isUploading: false,
+        uploadStatus: void 0
       } as Partial<DetailsState>);
     }
   }
 
+  private async _checkFile(file: File): Promise<void> {
+    this.setState({
+      file,
+      isCheckingFile: true,
+      preflightIssues: void 0
+    } as Partial<DetailsState>);
+
+    const { packageId, packageType } = this._data as AuthorSingleVersionPackageData;
+    const preflightIssues = await preflightPackageZip(file, packageId, packageType);
+
+    // Another file may have been selected while this one was being checked
+    if (this.state.file !== file)
+      return;
+
+    this.setState({
+      isCheckingFile: false,
+      preflightIssues
+    } as Partial<DetailsState>);
+  }
+
   private _reuploadSection(): JSX.Element {
     const status = this._data?.versionData.status as VersionStatus;
     if (status !== VersionStatus.Processed && status !== VersionStatus.Processing) {
@@ -304,9 +346,7 @@ class Details extends Component {
         onChange: e => {
           if (!e.target.files?.length)
             return;
-          this.setState({
-            file: e.target.files[0]
-          } as Partial<DetailsState>);
+          this._checkFile(e.target.files[0]);
         }
       };
 
@@ -316,13 +356,14 @@ class Details extends Component {
             <h3>Re-upload file</h3>
             {this.state.uploadError && <p className='error-message'>{ this.state.uploadError }</p>}
             <InputFile {...fileUploadProps} />
+            <PreflightIssues isChecking={this.state.isCheckingFile} issues={this.state.preflightIssues} />
           </div>
           <div id='reupload-right'>
             <p>Re-upload the zip file that you would like to package. Refer to the documentation to figure out what went wrong, and be sure to make those changes before re-uploading. If necessary, be sure to purchase enough storage to store your package.</p>
             <button
               type='button'
               className='primary-button'
-              disabled={!this.state.file || this.state.isSubmitting}
+              disabled={!this.state.file || this.state.isCheckingFile || this.state.isSubmitting}
               onClick={() => this._reuploadFailed()}
             >Upload</button>
           </div>
@@ -332,10 +373,133 @@ class Details extends Component {
     return (<></>);
   }
 
-  private _getLoadingBarText() {
-    if (this.state.uploadProgress < 1)
-      return `Uploading -- ${Math.round(this.state.uploadProgress)}%`;
-    return 'Waiting for confirmation from registry...';
+  private _checksumSection(): JSX.Element {
+    const { packageId, versionData } = this._data as AuthorSingleVersionPackageData;
+    if (versionData.status !== VersionStatus.Processed || !versionData.hash)
+      return (<></>);
+
+    // The registry hashes the package it creates while processing, not the uploaded file, so a different hash is expected
+    const localUpload = uploadHistory.getLatestUpload(packageId, versionData.packageVersion.toString());
+    let localText: JSX.Element | undefined;
+    if (localUpload && hashesMatch(localUpload.hash, versionData.hash))
+      localText = (<p className='checksum-match'>The checksum matches <b>{localUpload.fileName}</b>, which was uploaded from this browser on {new Date(localUpload.uploadDate).toLocaleString()}.</p>);
+    else if (localUpload)
+      localText = (<p><b>{localUpload.fileName}</b> was uploaded from this browser on {new Date(localUpload.uploadDate).toLocaleString()}, with the checksum {localUpload.hash.toUpperCase()}.</p>);
+
+    return (
+      <section id='checksum-section' className='mt-7'>
+        <div className='left-half'>
+          <h3>Checksum</h3>
+          <p>The checksum is of the package that the registry created while processing this version, which is not the same file that was uploaded. Verify a downloaded copy of the package to check it.</p>
+          {localText}
+        </div>
+        <div className='right-half'>
+          <VerifyFileDropZone expectedHash={versionData.hash} />
+        </div>
+      </section>
+    );
+  }
+
+  private _processingLogSection(): JSX.Element {
+    const { packageId, versionData } = this._data as AuthorSingleVersionPackageData;
+    if ([VersionStatus.Processing, VersionStatus.Processed, VersionStatus.Removed].includes(versionData.status))
+      return (<></>);
+
+    return (
+      <section id='processing-log-section' className='mt-11'>
+        <h3>Processing Log</h3>
+        <ProcessingLog packageId={packageId} packageVersion={versionData.packageVersion.toString()} />
+      </section>
+    );
+  }
+
+  private _fileBrowserSection(): JSX.Element {
+    const { versionData } = this._data as AuthorSingleVersionPackageData;
+    if (!versionData.isStored || versionData.status !== VersionStatus.Processed || !versionData.loc)
+      return (<></>);
+
+    return (
+      <section id='file-browser-section' className='mt-11'>
+        <div className='left-half'>
+          <h3>Package Files</h3>
+          <p>Browse the files of the stored package file, and preview or download individual files, without downloading the whole package.</p>
+        </div>
+        <div className='right-half'>
+          <button
+            type='button'
+            className='primary-button mt-6 float-right'
+            onClick={() => this.setState({ isBrowsingFiles: !this.state.isBrowsingFiles } as Partial<DetailsState>)}
+          >{this.state.isBrowsingFiles ? 'Hide Package Files' : 'Browse Package Files'}</button>
+        </div>
+        {this.state.isBrowsingFiles && <ZipBrowser url={versionData.loc} />}
+      </section>
+    );
+  }
+
+  private _dependencyGraphSection(): JSX.Element {
+    const { dependencies } = (this._data as AuthorSingleVersionPackageData).versionData;
+    if (!dependencies.length)
+      return (<></>);
+
+    const depthItems: Record<string, string> = {};
+    for (let depth = 1; depth <= MAX_GRAPH_DEPTH; ++depth)
+      depthItems[depth] = depth === 1 ? '1 level' : `${depth} levels`;
+
+    return (
+      <section id='dependency-graph-section' className='mt-11'>
+        <div className='left-half'>
+          <h3>Dependency Graph</h3>
+          <p>Resolve each dependency to the highest public version that satisfies its selection, and then resolve the dependencies of those versions. Cycles are highlighted, and dashed lines show incompatibilities between versions in the graph.</p>
+        </div>
+        <div className='right-half'>
+          <InputDropdown
+            name='graph-depth'
+            label='Depth'
+            items={depthItems}
+            defaultValue={DEFAULT_GRAPH_DEPTH.toString()}
+            onChange={e => this.setState({ graphDepth: parseInt((e.target as HTMLSelectElement).value, 10) } as Partial<DetailsState>)}
+          />
+          <button
+            type='button'
+            className='primary-button mt-6 float-right'
+            disabled={this.state.isResolvingGraph}
+            onClick={this._resolveGraph}
+          >{this.state.dependencyGraph ? 'Refresh Dependency Graph' : 'Show Dependency Graph'}</button>
+        </div>
+        {this.state.isResolvingGraph && <p className='graph-status'>Resolving dependencies...</p>}
+        {this.state.graphError && <p className='error-message'>{this.state.graphError}</p>}
+        {!this.state.isResolvingGraph && this.state.dependencyGraph && <DependencyGraph graph={this.state.dependencyGraph} />}
+      </section>
+    );
+  }
+
+  private async _resolveGraph() {
+    const { packageId, packageName, versionData } = this._data as AuthorSingleVersionPackageData;
+    this.setState({
+      isResolvingGraph: true,
+      graphError: void 0
+    } as Partial<DetailsState>);
+
+    try {
+      const dependencyGraph = await resolveDependencyGraph({
+        packageId,
+        packageName,
+        packageVersion: versionData.packageVersion,
+        dependencies: versionData.dependencies,
+        incompatibilities: versionData.incompatibilities
+      }, new RegistryPackageSource(), this.state.graphDepth);
+
+      this.setState({
+        isResolvingGraph: false,
+        dependencyGraph
+      } as Partial<DetailsState>);
+    } catch (e) {
+      console.error(e);
+      this.setState({
+        isResolvingGraph: false,
+        graphError: e instanceof RegistryError ? e.userMessage : 'An unknown error occured.'
+      } as Partial<DetailsState>);
+    }
   }
 
   private async _updateXpSelection() {
@@ -351,71 +515,25 @@ class Details extends Component {
       } as Partial<DetailsState>);
     }
 
-    let response;
     try {
-      response = await httpRequest(`${window.REGISTRY_URL}/packages/xpselection`, HTTPMethod.PATCH, tokenStorage.checkAuth() as string, {
-        packageId: this._data?.packageId as string,
-        packageVersion: this._data?.versionData.packageVersion.toString(),
-        xpSelection: this.state.xpSelection.toString()
-      });
-    } catch (e) {
-      console.error(e);
-      return this.setState({
-        popupTitle: 'X-Plane Version Selection Update Error',
-        popupText: 'Could not connect to the registry to update the X-Plane selection. Please try again later.',
-        isSubmitting: false
-      } as Partial<DetailsState>);
-    }
-
-    switch (response.status) {
-    case 204:
+      await registry.updateXpSelection(this._data?.packageId as string, this._data?.versionData.packageVersion.toString() as string, this.state.xpSelection.toString());
       return this.setState({
         popupTitle: 'X-Plane Version Selection Updated',
         popupText: 'Successfully updated the X-Plane version selection.',
         popupAction: () => window.location.reload(),
       } as Partial<DetailsState>);
-    case 400: {
-      const humanReadableText = {
-        invalid_or_empty_str: 'Invalid or empty string.',
-        invalid_id_or_repo: 'Bad identifier, or wrong repository.',
-        invalid_selection: 'X-Plane selection provided is invalid.',
-        bad_sel_len: 'X-Plane version selection provided is too long',
-        invalid_version: 'The version of this package being modified is invalid.',
-        unknown: 'An unknown error occured.'
-      }[response.responseText ?? 'unknown'] ?? 'An unknown error occured.';
-      return this.setState({
-        popupTitle: 'X-Plane Version Selection Update Error',
-        popupText: humanReadableText,
-        isSubmitting: false
-      } as Partial<DetailsState>);
-    }
-    case 401:
-      tokenStorage.delToken();
-      sessionStorage.setItem('post-auth-redirect', '/packages');
-      window.location.href = '/';
-      return;
-    case 409:
-      return this.setState({
-        popupTitle: 'X-Plane Version Selection Update Error',
-        popupText: 'Unable to uniquely identify user. Please use a different browser, log in again, or try again later.',
-        isSubmitting: false
-      } as Partial<DetailsState>);
-    case 429:
-      return this.setState({
-        popupTitle: 'X-Plane Version Selection Update Error',
-        popupText: 'You are doing that too much. Wait a few seconds, and then try again later.',
-        isSubmitting: false
-      } as Partial<DetailsState>);
-    case 500:
-      return this.setState({
-        popupTitle: 'X-Plane Version Selection Update Error',
-        popupText: 'You are doing that too much. Wait a few seconds, and then try again later.',
-        isSubmitting: false
-      } as Partial<DetailsState>);
-    default:
+    } catch (e) {
+      console.error(e);
+      if (e instanceof AuthError && e.status === 401) {
+        tokenStorage.delToken();
+        sessionStorage.setItem('post-auth-redirect', '/packages');
+        window.location.href = '/';
+        return;
+      }
+
       return this.setState({
         popupTitle: 'X-Plane Version Selection Update Error',
-        popupText: 'An unknown error occured, please try again later.',
+        popupText: e instanceof RegistryError ? e.userMessage : 'An unknown error occured, please try again later.',
         isSubmitting: false
       } as Partial<DetailsState>);
     }
@@ -426,110 +544,45 @@ class Details extends Component {
       isSubmitting: true
     } as Partial<DetailsState>);
 
-    const { incompatibilities, dependencies } = this.state;
-    const dependencyIds = dependencies.map(d => d[0]);
-    for (let [incompatibilityId, incompatibilitySelection] of incompatibilities) {
-      incompatibilityId = incompatibilityId.trim().toLowerCase();
-      incompatibilitySelection = incompatibilitySelection.trim().toLowerCase();
+    const { dependencies } = this.state;
+    const incompatibilities = mergeDuplicates('incompatibilities', this.state.incompatibilities);
 
-      const originalId = incompatibilityId;
-      if (incompatibilityId.includes('xpkg/'))
-        incompatibilityId = incompatibilityId.replace('xpkg/', '');
-
-      if (this._data?.packageId === incompatibilityId || this._data?.packageId === originalId)
-        return this.setState({
-          popupTitle: 'Incompatibility Update Error',
-          popupText: 'Package version can not be incompatible with itself.',
-          isSubmitting: false,
-        } as Partial<DetailsState>);
-      
-      if (dependencyIds.includes(incompatibilityId) || dependencyIds.includes(originalId)) {
-        return this.setState({
-          popupTitle: 'Incompatibility Update Error',
-          popupText: 'Can not have a package in both the dependency and incompatibility lists. Publish a new package with a narrower dependency selection instead.',
-          isSubmitting: false
-        } as Partial<DetailsState>);
-      }
-
-      if (incompatibilities.length > 128) {
-        return this.setState({
-          popupTitle: 'Incompatibility Update Error',
-          popupText: 'Too many incompatibilities submitted. Please contact support.',
-          isSubmitting: false
-        } as Partial<DetailsState>);
-      }
-    }
-
-    let response;
-    try {
-      response = await httpRequest(`${window.REGISTRY_URL}/packages/incompatibilities`, HTTPMethod.PATCH, tokenStorage.checkAuth() as string, {
-        packageId: this._data?.packageId as string,
-        packageVersion: this._data?.versionData.packageVersion.toString(),
-        incompatibilities
-      });
-    } catch (e) {
-      console.error(e);
+    const conflict = analyzeDependencies(this._data?.packageId as string, dependencies, incompatibilities).find(c => c.isError);
+    if (conflict) {
       return this.setState({
         popupTitle: 'Incompatibility Update Error',
-        popupText: 'Could not connect to the registry to update incompatibilities. Please try again later.',
+        popupText: conflict.message,
         isSubmitting: false
       } as Partial<DetailsState>);
     }
 
-    switch (response.status) {
-    case 204:
-      return this.setState({
-        popupTitle: 'Incompatibilities Updated',
-        popupText: 'Successfully updated incompatibilities.',
-        popupAction: () => window.location.reload(),
-      } as Partial<DetailsState>);
-    case 400: {
-      const humanReadableText = {
-        invalid_or_empty_str: 'Invalid or empty string.',
-        too_many_incompatibilities: 'Incompatibility list too long.',
-        invalid_id_or_repo: 'Bad identifier, or wrong repository.',
-        invalid_version: 'The version of this package being modified is invalid.',
-        bad_inc_arr: 'Too many incompatibilities provided.',
-        bad_inc_tuple: 'Incompatibility list has an invalid tuple.',
-        invalid_inc_tuple_types: 'Incompatibility list has a tuple that does not contain only strings.',
-        invalid_inc_tuple_id: 'Incompatibility list contains an invalid package identifier.',
-        dep_or_self_inc: 'Incompatibility list contains an declared incompatibility on itself, or a dependency.',
-        invalid_inc_sel: 'Incompatibility has an invalid selection.',
-        unknown: 'An unknown error occured.'
-      }[response.responseText ?? 'unknown'] ?? 'An unknown error occured.';
+    if (incompatibilities.length > 128) {
       return this.setState({
         popupTitle: 'Incompatibility Update Error',
-        popupText: humanReadableText,
+        popupText: 'Too many incompatibilities submitted. Please contact support.',
         isSubmitting: false
       } as Partial<DetailsState>);
     }
-    case 401: 
-      tokenStorage.delToken();
-      sessionStorage.setItem('post-auth-redirect', '/packages');
-      window.location.href = '/';
-      return;
-    case 409:
-      return this.setState({
-        popupTitle: 'Incompatibility Update Error',
-        popupText: 'Unable to uniquely identify user. Please use a different browser, log in again, or try again later.',
-        isSubmitting: false
-      } as Partial<DetailsState>);
-    case 429:
-      return this.setState({
-        popupTitle: 'Incompatibility Update Error',
-        popupText: 'You are doing that too much. Wait a few seconds, and then try again later.',
-        isSubmitting: false
-      } as Partial<DetailsState>);
-    case 500:
+
+    try {
+      await registry.updateIncompatibilities(this._data?.packageId as string, this._data?.versionData.packageVersion.toString() as string, incompatibilities);
       return this.setState({
-        popupTitle: 'Incompatibility Update Error',
-        popupText: 'You are doing that too much. Wait a few seconds, and then try again later.',
-        isSubmitting: false
+        popupTitle: 'Incompatibilities Updated',
+        popupText: 'Successfully updated incompatibilities.',
+        popupAction: () => window.location.reload(),
       } as Partial<DetailsState>);
-    default:
+    } catch (e) {
+      console.error(e);
+      if (e instanceof AuthError && e.status === 401) {
+        tokenStorage.delToken();
+        sessionStorage.setItem('post-auth-redirect', '/packages');
+        window.location.href = '/';
+        return;
+      }
+
       return this.setState({
         popupTitle: 'Incompatibility Update Error',
-        popupText: 'An unknown error occured, please try again later.',
+        popupText: e instanceof RegistryError ? e.userMessage : 'An unknown error occured, please try again later.',
         isSubmitting: false
       } as Partial<DetailsState>);
     }
@@ -550,7 +603,7 @@ class Details extends Component {
     else if (this.state.isLoading) {
       return (
         <MainContainer>
-          <MainContainerLoading loadingMessage='Fetching version data' />
+          <MainContainerLoading loadingMessage='Fetching version data' retryAt={this.state.retryAt} />
         </MainContainer>
       );
     } else {
@@ -561,11 +614,14 @@ class Details extends Component {
         return (<p>Error... please wait</p>); // Will load error page once state is set
       }
 
+      const conflicts = analyzeDependencies(this._data.packageId, this.state.dependencies, this.state.incompatibilities);
+
       const dependencyListProps: PackageListProps = {
         list: this.state.dependencies,
         title: 'Dependencies',
         noneText: 'No dependencies',        
-        readonly: true
+        readonly: true,
+        conflicts: conflicts.filter(c => c.list === 'dependencies')
       };
 
       const incompatibilityListProps: PackageListProps = {
@@ -576,33 +632,29 @@ class Details extends Component {
           } as Partial<DetailsState>);
         },
         title: 'Incompatibilities',
-        noneText: 'No incompatibilities'
+        noneText: 'No incompatibilities',
+        conflicts: conflicts.filter(c => c.list === 'incompatibilities')
       };
 
-      const xpSelectionFieldProps: InputFieldProps = {
+      const xpSelectionFieldProps: VersionSelectionEditorProps = {
         classes: ['w-full'],
         label: 'X-Plane Selection',
         placeholder: 'x.x.x-x.x.x',
         defaultValue: this._data?.versionData.xpSelection.toString(),
-        hiddenError: !this.state.xpSelection.isValid,
         minLength: 0,
         maxLength: 256,
-        onChange: (e: React.ChangeEvent<HTMLInputElement>) => {
+        catalog: XPLANE_CATALOG,
+        onChange: value => {
           this.setState({
-            xpSelectionStr: e.target.value,
-            xpSelection: new VersionSelection(e.target.value)
+            xpSelectionStr: value,
+            xpSelection: new VersionSelection(value)
           } as Partial<DetailsState>);
         }
       };
 
       return (
         <>
-          <LoadingBarPopup
-            open={this.state.isUploading}
-            progress={this.state.uploadProgress}
-            title='Uploading'
-            text={this._getLoadingBarText()}
-          />
+          <UploadProgressPopup title='Uploading' controller={this._uploadController} status={this.state.uploadStatus} />
 
           <ConfirmPopup
             open={!!(this.state.popupText || this.state.popupTitle)}
@@ -649,7 +701,11 @@ class Details extends Component {
                           className='primary-button'
                         >Download Package File</button>
                         <button
-                          onClick={() => downloadInstallationFile(this._data!.packageId, this._data!.versionData.packageVersion.toString()!, this._data?.versionData.privateKey)}
+                          onClick={() => downloadInstallationFile({
+                            packageId: this._data!.packageId,
+                            packageVersion: this._data!.versionData.packageVersion.toString(),
+                            privateKey: this._data!.versionData.privateKey
+                          })}
                           className='primary-button'
                         >Download Installation File</button>
                       </>
@@ -691,10 +747,13 @@ class Details extends Component {
                     }}
                   />
                 </section>}
+                {this._checksumSection()}
+                {this._fileBrowserSection()}
+                {this._processingLogSection()}
                 {this._reuploadSection()}
                 <section className='mt-7 no-border'>
                   <div className='left-half'>
-                    <InputField {...xpSelectionFieldProps} />
+                    <VersionSelectionEditor {...xpSelectionFieldProps} />
                     <button
                       className='primary-button mt-6 float-right'
                       disabled={this.state.isSubmitting || !this.state.xpSelection.isValid || this._originalSelection === this.state.xpSelection.toString()}
@@ -714,11 +773,24 @@ class Details extends Component {
                   <div className='float-right'>
                     <button
                       className='primary-button'
-                      disabled={this._originalIncompatibilities === JSON.stringify(this.state.incompatibilities) || this.state.incompatibilityErr || this.state.isSubmitting}
+                      disabled={this._originalIncompatibilities === JSON.stringify(this.state.incompatibilities) || this.state.incompatibilityErr || this.state.isSubmitting || conflicts.some(c => c.isError)}
                       onClick={this._updateIncompatibilities}
                     >Update Incompatibilities</button>
+                    <button
+                      className='secondary-button ml-3'
+                      onClick={() => {
+                        const defaults: IncompatibilityGeneratorDefaults = {
+                          packageId: this._data?.packageId as string,
+                          packageVersion: this._data?.versionData.packageVersion.toString() as string
+                        };
+                        sessionStorage.setItem('defaultTool', ToolPages.IncompatibilityGenerator.toString());
+                        sessionStorage.setItem('incompatibilityGeneratorDefaults', JSON.stringify(defaults));
+                        window.location.href = '/tools';
+                      }}
+                    >Generate Incompatibility</button>
                   </div>
                 </section>
+                {this._dependencyGraphSection()}
               </>
             </MainContainerContent>
           </MainContainer>
@@ -728,16 +800,4 @@ class Details extends Component {
   }
 }
 
-/**
- * Create and download a package installation xpkg file.
- * 
- * @param {string} packageId The id of the package to install.
- * @param {string} packageVersion The version of the package to install.
- * @param {string} [passkey] The optional passkey (if required) to install the file.
- */
-function downloadInstallationFile(packageId: string, packageVersion: string, passkey?: string): void {
-  const blob = new Blob([`>>>>${packageId}>${packageVersion}>${passkey || '!'}`], { type: 'text/plain' });
-  downloadFile(URL.createObjectURL(blob), `${packageId}@${packageVersion}.xpkg`);
-}
-
 export default Details;
\ No newline at end of file
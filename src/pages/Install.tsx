@@ -0,0 +1,47 @@
+/*
+ * Copyright (c) 2022-2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import MainContainer from '../components/Main Container/MainContainer';
+import MainContainerError from '../components/Main Container/MainContainerError';
+import { downloadInstallationFile, parseInstallLink } from '../scripts/installationFile';
+
+function Install() {
+  const data = parseInstallLink(window.location.search);
+
+  if (!data)
+    return (
+      <MainContainer>
+        <MainContainerError
+          message='Invalid install link'
+          subtext='The link is missing the package or version, you may have followed a broken link.'
+          link='/packages'
+          linkName='Return Home'
+        />
+      </MainContainer>
+    );
+
+  return (
+    <MainContainer>
+      <div className='ml-auto mr-auto text-center'>
+        <h1 className='text-3xl'>Install {data.packageId}@{data.packageVersion}</h1>
+        <p className='mt-6'>Download the installation file, and then open it with the X-Pkg client to install the package.</p>
+        {data.privateKey && <p className='mt-2'>This version is private, and can only be installed with this link.</p>}
+        <button className='primary-button mt-6' onClick={() => downloadInstallationFile(data)}>Download Installation File</button>
+      </div>
+    </MainContainer>
+  );
+}
+
+export default Install;
\ No newline at end of file
@@ -47,11 +47,11 @@ import AuthBox from '../components/AuthBox';
 import InputField, { InputFieldProps } from '../components/Input/InputField';
 import '../css/AuthBox.scss';
 import * as tokenStorage from '../scripts/tokenStorage';
-import * as http from '../scripts/http';
 import Checkbox from '../components/Input/InputCheckbox';
 import * as util from '../scripts/validators';
-import HTTPMethod from 'http-method-enum';
 import ReCAPTCHA from 'react-google-recaptcha';
+import { registry } from '../scripts/registryClient';
+import RegistryError from '../scripts/registryError';
 
 class Login extends Component {
 
@@ -121,63 +121,32 @@ class Login extends Component {
     });
     const { email, password } = values;
 
-    http.httpRequest(`${window.REGISTRY_URL}/auth/login`, HTTPMethod.POST, void (0), {
-      email,
-      password,
-      validation: this.state.recaptchaToken as string
-    }, (err, r) => {
+    let token: string;
+    try {
+      token = await registry.login(email, password, this.state.recaptchaToken as string);
+    } catch (e) {
       setSubmitting(false);
-      if (err) {
-        this.setState({
-          errorMessage: 'There was an error connecting to the server'
-        });
-        this._removeMessageAfterDelay();
-        return console.error(err);
-      }
-      
-      const resp = r as XMLHttpRequest;
 
-      if (resp.status !== 200) {
-        let errorMessage = 'An unknown error occured';
-        switch (resp.status) {
-        case 400:
-          errorMessage = 'Bad request';
-          break;
-        case 401:
-          errorMessage = 'Invalid email and/or password';
-          break;
-        case 409:
-          errorMessage = 'Unable, suspicious activity';
-          this._removeMessageAfterDelay();
-          break;
-        case 418:
-          errorMessage = 'Ensure you have filled out the captcha';
-          break;
-        case 429:
-          errorMessage = 'You are doing that too much, please slow down';
-          break;
-        case 500:
-          errorMessage = 'Internal server error, please try again later';
-          break;
-        }
-        this.setState({
-          errorMessage
-        } as Partial<LoginState>);
+      const errorMessage = e instanceof RegistryError ? e.userMessage : 'An unknown error occured.';
+      this.setState({
+        errorMessage
+      } as Partial<LoginState>);
+
+      if (!(e instanceof RegistryError) || e.status !== 400)
+        this._removeMessageAfterDelay();
+      return;
+    }
 
-        if (resp.status !== 400)
-          this._removeMessageAfterDelay();
-      } else {
-        const { token } = JSON.parse(resp.response);
-        tokenStorage.saveToken(token, values.rememberMe);
+    setSubmitting(false);
+    tokenStorage.saveToken(token, values.rememberMe);
 
-        const possibleRedir = sessionStorage.getItem('post-auth-redirect');
-        if (possibleRedir) {
-          sessionStorage.removeItem('post-auth-redirect');
-          return window.location.href = possibleRedir;
-        }
-        window.location.href = '/packages';
-      }
-    });
+    const possibleRedir = sessionStorage.getItem('post-auth-redirect');
+    if (possibleRedir) {
+      sessionStorage.removeItem('post-auth-redirect');
+      window.location.href = possibleRedir;
+      return;
+    }
+    window.location.href = '/packages';
   }
 
   render() {
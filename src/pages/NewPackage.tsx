@@ -55,7 +55,9 @@ import ErrorMessage from '../components/ErrorMessage';
 import '../css/Buttons.scss';
 import { checkAuth, delToken } from '../scripts/tokenStorage';
 import InputArea, { InputAreaProps } from '../components/Input/InputArea';
-import axios, { AxiosError } from 'axios';
+import { registry } from '../scripts/registryClient';
+import RegistryError, { AuthError } from '../scripts/registryError';
+import { PackageType } from '../scripts/author';
 import { validateId } from '../scripts/validators';
 
 // Compute the default option
@@ -132,67 +134,27 @@ class NewPackage extends Component {
     const packageType = (values.packageType || defaultPackage).trim().toLowerCase();
     const description = values.description.trim();
 
-    const formData = new FormData();
-    formData.append('packageId', packageId);
-    formData.append('packageName', packageName);
-    formData.append('packageType', packageType);
-    formData.append('description', description);
-
     try {
-      await axios({
-        url: `${window.REGISTRY_URL}/packages/new`,
-        method: 'POST',
-        data: formData,
-        headers: {
-          Authorization: checkAuth() as string
-        }
+      await registry.newPackage({
+        packageId,
+        packageName,
+        packageType: packageType as PackageType,
+        description
       });
 
       sessionStorage.setItem('success_message', 'Your package is being processed');
       window.location.href = '/packages';
     } catch (e){
-      if (!(e instanceof AxiosError)) {
-        this.setState({
-          submissionError: 'An unkown error occured.'
-        });
-      } else {
-        switch (e.response?.status) {
-        case 400:
-          this.setState({
-            submissionError: {
-              missing_form_data: 'Missing form data.',
-              short_id: 'Package identifier is too short.',
-              long_id: 'Package identifier is too long',
-              invalid_id: 'Package identifier uses invalid characters.',
-              short_name: 'Package name is too short',
-              long_name: 'Package name is too long',
-              short_desc: 'Description is too short',
-              long_desc: 'Description is too long',
-              profane_id: 'Do not use profanity in package identifier (contact support if you believe this is in error).',
-              profane_name: 'Do not use profanity in package name (contact support if you believe this is in error).',
-              profane_desc: 'Do not use profanity in description (contact support if you believe this is in error).',
-              id_in_use: 'Package identifier already in use.',
-              name_in_use: 'Package name already in use.'
-            }[e.response?.data as string]
-                ?? ('Unkown issue with form: ' + e.response?.data as string + '.'),
-            uploading: false
-          } as Partial<NewPackageState>);
-          break;
-        case 401:
-          window.location.href = '/';
-          delToken();
-          break;
-        case 500:
-          this.setState({
-            submissionError: 'Internal server error, try again',
-          } as Partial<NewPackageState>);
-          break;
-        default:
-          this.setState({
-            submissionError: 'An unknown error occured',
-          } as Partial<NewPackageState>);
-        }
+      if (e instanceof AuthError && e.status === 401) {
+        window.location.href = '/';
+        delToken();
+        return;
       }
+
+      this.setState({
+        submissionError: e instanceof RegistryError ? e.userMessage : 'An unknown error occured.',
+        uploading: false
+      } as Partial<NewPackageState>);
     } finally {
       setSubmitting(false);
     }
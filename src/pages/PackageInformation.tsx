@@ -53,21 +53,20 @@ import MainContainerLoading from '../components/Main Container/MainContainerLoad
 import MainContainerError from '../components/Main Container/MainContainerError';
 import MainContainerContent from '../components/Main Container/MainContainerContent';
 import * as tokenStorage from '../scripts/tokenStorage';
-import { httpRequest } from '../scripts/http';
+import { registry } from '../scripts/registryClient';
 import { getStatusTextShort } from './Packages';
 import { Formik, FormikErrors } from 'formik';
 import InputArea, { InputAreaProps } from '../components/Input/InputArea';
 import '../css/PackageInformation.scss';
 import '../css/SubrowStyles.scss';
 import Table, { TableProps } from '../components/Table';
-import $ from 'jquery';
 import ConfirmPopup, { ConfirmPopupConfig } from '../components/ConfirmPopup';
-import Big from 'big.js';
-import HTTPMethod from 'http-method-enum';
 import PackageInfoFields from '../components/PackageInfoFields';
-import { AuthorPackageData, AuthorVersionData, PackageType, VersionStatus, getAuthorPackage } from '../scripts/author';
-import RegistryError from '../scripts/registryError';
+import PrivateKey from '../components/PrivateKey';
+import { AuthorPackageData, AuthorVersionData, PackageType, VersionStatus } from '../scripts/author';
+import RegistryError, { AuthError } from '../scripts/registryError';
 import { getBestUnits } from '../scripts/displayUtil';
+import { processingTracker, StatusChange } from '../scripts/processingTracker';
 import { Line } from 'react-chartjs-2';
 
 class PackageInformation extends Component {
@@ -75,6 +74,8 @@ class PackageInformation extends Component {
   state: PackageInformationState; 
 
   private _originalDesc: string;
+  private _unsubscribe?: () => void;
+  private _isMounted = false;
 
   constructor(props: Record<string, never>) {
     super(props);
@@ -101,6 +102,7 @@ class PackageInformation extends Component {
   }
 
   async componentDidMount(): Promise<void> {
+    this._isMounted = true;
     const urlParams = new URLSearchParams(location.search);
     let packageId;
     try {
@@ -112,12 +114,12 @@ class PackageInformation extends Component {
     }
     
     try {
-      const currentPackageData = await getAuthorPackage(packageId);
+      const currentPackageData = await registry.getPackage(packageId);
       this._originalDesc = currentPackageData.description;
       currentPackageData.versions.sort((a, b) => {
 
         // Flipping a and b reverses the sort
-        return b.packageVersion.toFloat().cmp(a.packageVersion.toFloat() as Big).valueOf() as number;
+        return b.packageVersion.compare(a.packageVersion);
       });
 
       this.setState({
@@ -125,30 +127,51 @@ class PackageInformation extends Component {
         isLoading: false,
         currentPackageData
       } as Partial<PackageInformationState>);
+
+      // The page may have been unmounted while loading, or mounted again in strict mode, which would subscribe twice
+      if (!this._isMounted)
+        return;
+      this._unsubscribe?.();
+      this._unsubscribe = processingTracker.subscribe(this._onStatusChange.bind(this));
+      processingTracker.trackPackages([currentPackageData]);
     } catch (e) {
       console.error(e);
-      if (e instanceof RegistryError) {
-        switch (e.status) {
-        case 401:
-          tokenStorage.delToken();
-          sessionStorage.setItem('post-auth-redirect', '/packages');
-          window.location.href = '/';
-          return;
-        case 404:
-          return this.setState({
-            isLoading: false,
-            errorMessage: 'Package does not exist'
-          } as Partial<PackageInformationState>);
-        }
+      if (e instanceof AuthError && e.status === 401) {
+        tokenStorage.delToken();
+        sessionStorage.setItem('post-auth-redirect', '/packages');
+        window.location.href = '/';
+        return;
       }
 
       return this.setState({
         isLoading: false,
-        errorMessage: 'An unknown error occured'
+        errorMessage: e instanceof RegistryError ? e.userMessage : 'An unknown error occured.'
       } as Partial<PackageInformationState>);
     }
   }
 
+  componentWillUnmount(): void {
+    this._isMounted = false;
+    this._unsubscribe?.();
+    this._unsubscribe = void 0;
+  }
+
+  /**
+   * Update a version in the table once it finishes processing.
+   * 
+   * @param {StatusChange} change The version which finished processing, and its new data.
+   */
+  private _onStatusChange({ packageId, packageVersion, versionData }: StatusChange): void {
+    const currentPackageData = this.state.currentPackageData;
+    const version = currentPackageData?.packageId === packageId ? currentPackageData.versions.find(v => v.packageVersion.toString() === packageVersion) : void 0;
+    if (!version)
+      return;
+
+    // Update the existing object, since an open subrow keeps a reference to it
+    Object.assign(version, versionData);
+    this.setState({ currentPackageData } as Partial<PackageInformationState>);
+  }
+
   private _validateDescription({ description }: DescUpdateValues): FormikErrors<DescUpdateValues> {
     description = (description ?? '').trim();
 
@@ -177,41 +200,24 @@ class PackageInformation extends Component {
           isFormSubmitting: true
         } as Partial<PackageInformationState>); 
         
-        httpRequest(`${window.REGISTRY_URL}/packages/description`, HTTPMethod.PATCH, tokenStorage.checkAuth() as string, {
-          newDescription: description,
-          packageId: this.state.currentPackageData?.packageId as string
-        }, (err, res) => {
-          if (err || res?.status !== 204) {
+        registry.updateDescription(this.state.currentPackageData?.packageId as string, description)
+          .then(() => {
+            sessionStorage.setItem('success_message', `The package description for '${this.state.currentPackageData?.packageName}' (${this.state.currentPackageData?.packageId}) was updated successfully`);
+            window.location.href = '/packages'; 
+          })
+          .catch(e => {
             this.setState({
               isFormSubmitting: true
             } as Partial<PackageInformationState>);   
 
-            let errMsg = 'an unknown error occured.';
-            if (res)
-              switch (res.status) {
-              case 401:
-                tokenStorage.delToken();
-                sessionStorage.setItem('post-auth-redirect', '/packages');
-                window.location.href = '/';
-                break;
-              case 400:
-                errMsg = {
-                  no_desc: 'no description.',
-                  no_id: 'no package id.',
-                  invalid_type: 'invalid data type.',
-                  short_desc: 'description too short.',
-                  long_desc: 'description too long.',
-                }[res.responseText]
-                  ?? `an unknown error occured [${res.responseText}].`;
-                break;
-              case 403:
-                errMsg = 'package not owned.';
-                break;
-              case 500:
-                errMsg = 'internal server error.';
-                break;
-              }
+            if (e instanceof AuthError && e.status === 401) {
+              tokenStorage.delToken();
+              sessionStorage.setItem('post-auth-redirect', '/packages');
+              window.location.href = '/';
+              return;
+            }
 
+            const errMsg = e instanceof RegistryError ? e.userMessage : 'An unknown error occured.';
             const popupConfig: ConfirmPopupConfig = {
               title: 'Update failed',
               showClose: false,
@@ -221,18 +227,14 @@ class PackageInformation extends Component {
                   isPopupVisible: false
                 } as Partial<PackageInformationState>);
               },
-              children: <p className='generic-popup-text'>Could not update description, { errMsg }</p>
+              children: <p className='generic-popup-text'>Could not update description. { errMsg }</p>
             };
 
             this.setState({
               popupConfig,
               isPopupVisible: true
             } as Partial<PackageInformationState>);
-          } else {
-            sessionStorage.setItem('success_message', `The package description for '${this.state.currentPackageData?.packageName}' (${this.state.currentPackageData?.packageId}) was updated successfully`);
-            window.location.href = '/packages'; 
-          } 
-        });
+          });
 
         return;
       },
@@ -256,13 +258,12 @@ class PackageInformation extends Component {
         {PackageInformation.getVersionInfoText(this.state.currentPackageData!.packageId, this.state.currentPackageData!.packageType, version)}
 
         {
-          !version.isPublic && 
-            <p><a
-              className='subrow-private-key-link'
-              onClick={e => {
-                e.preventDefault(); 
-                $(e.target).parent().html(`Private key: ${version.privateKey}`);
-              }}>Click to reveal private key</a></p>
+          !version.isPublic && version.privateKey &&
+            <PrivateKey
+              packageId={this.state.currentPackageData!.packageId}
+              packageVersion={version.packageVersion.toString()}
+              privateKey={version.privateKey}
+            />
         }
 
         <div className='subrow-top-right'>
@@ -397,6 +398,10 @@ class PackageInformation extends Component {
                   className='primary-button float-right'
                   onClick={ () => window.location.href = `/packages/upload?packageId=${this.state.currentPackageData?.packageId}` }
                 >Upload new version</button>
+                <button
+                  className='secondary-button float-right mr-4'
+                  onClick={ () => window.location.href = `/packages/upload/batch?packageId=${this.state.currentPackageData?.packageId}` }
+                >Upload multiple versions</button>
               </section>
             </>
           </MainContainerContent>
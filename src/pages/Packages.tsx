@@ -90,12 +90,14 @@ export type VersionData = {
  * @typedef {Object} PackagesState
  * @property {PackagePage} page The current page
  * @property {boolean} isLoading True if the packages are currently loading.
+ * @property {number} [retryAt] The timestamp (in milliseconds) at which a request for the packages will be retried, if the registry asked us to wait.
  * @property {string} [errorMessage] Undefined if there is no error, otherwise has the error message.
  * @property {string} [successMessage] The success message passed in through the query parameters.
  */
 type PackagesState = {
   page: PackagePage;
   isLoading: boolean;
+  retryAt?: number;
   errorMessage?: string;
   successMessage?: string;
 }
@@ -112,10 +114,11 @@ import '../css/Buttons.scss';
 import '../css/SubrowStyles.scss';
 import Table, { TableProps } from '../components/Table';
 import { nanoid } from 'nanoid';
-import Big from 'big.js';
-import { AuthorData, AuthorPackageData, PackageType, VersionStatus, getAllAuthorPackages, getAuthorData } from '../scripts/author';
+import { AuthorData, AuthorPackageData, PackageType, VersionStatus } from '../scripts/author';
+import { registry } from '../scripts/registryClient';
 import StorageBar from '../components/StorageBar';
 import RegistryError from '../scripts/registryError';
+import { processingTracker, StatusChange } from '../scripts/processingTracker';
 
 class Packages extends Component {
 
@@ -123,6 +126,8 @@ class Packages extends Component {
   
   private _authorData?: AuthorData;
   private _packageData?: AuthorPackageData[];
+  private _unsubscribe?: () => void;
+  private _isMounted = false;
 
   constructor(props: Record<string, never>) {
     super(props);
@@ -275,18 +280,27 @@ class Packages extends Component {
   }
 
   async componentDidMount(): Promise<void> {
+    this._isMounted = true;
     try {
+      const retryPolicy = { onWait: (delay: number) => this.setState({ retryAt: Date.now() + delay } as Partial<PackagesState>) };
       [this._authorData, this._packageData] = await Promise.all([
-        getAuthorData(),
-        getAllAuthorPackages()
+        registry.getAuthorData(retryPolicy),
+        registry.getAllPackages(retryPolicy)
       ]);
 
       this._packageData.forEach(pkg => {
         pkg.versions.sort((a, b) => {
-          return b.packageVersion.toFloat().cmp(a.packageVersion.toFloat() as Big).valueOf() as number;
+          return b.packageVersion.compare(a.packageVersion);
         });
       });
 
+      // The page may have been unmounted while loading, or mounted again in strict mode, which would subscribe twice
+      if (!this._isMounted)
+        return;
+      this._unsubscribe?.();
+      this._unsubscribe = processingTracker.subscribe(this._onStatusChange.bind(this));
+      processingTracker.trackPackages(this._packageData);
+
       this.setState({
         isLoading: false
       } as Partial<PackagesState>);
@@ -303,6 +317,29 @@ class Packages extends Component {
     }
   }
 
+  componentWillUnmount(): void {
+    this._isMounted = false;
+    this._unsubscribe?.();
+    this._unsubscribe = void 0;
+  }
+
+  /**
+   * Update a version in the table once it finishes processing.
+   * 
+   * @param {StatusChange} change The version which finished processing, and its new data.
+   */
+  private _onStatusChange({ packageId, packageVersion, versionData }: StatusChange): void {
+    const version = this._packageData
+      ?.find(p => p.packageId === packageId)
+      ?.versions.find(v => v.packageVersion.toString() === packageVersion);
+    if (!version)
+      return;
+
+    // Update the existing object, since an open subrow keeps a reference to its package
+    Object.assign(version, versionData);
+    this.forceUpdate();
+  }
+
   render(): ReactNode {
     const isPackagePageActive = this.state.page === PackagePage.Packages;
     const isResourcesPageActive = this.state.page === PackagePage.Resources;
@@ -349,7 +386,7 @@ class Packages extends Component {
               );
             } else if (this.state.isLoading) {
               return (
-                <MainContainerLoading loadingMessage='Loading Packages and Resources'/>
+                <MainContainerLoading loadingMessage='Loading Packages and Resources' retryAt={this.state.retryAt} />
               );
             } else if (isPackagePageActive) 
               return this._packagesPage();
@@ -21,6 +21,21 @@ import InputField, { InputFieldProps } from '../components/Input/InputField';
 import '../css/Tools.scss';
 import Version from '../scripts/version';
 import SelectionChecker from '../scripts/versionSelection';
+import PackageList, { PackageListProps } from '../components/PackageList';
+import InputDropdown from '../components/Input/InputDropdown';
+import { InstallPlan, PLATFORM_NAMES, Platform, simulateInstall } from '../scripts/installSimulator';
+import { RegistryPackageSource } from '../scripts/dependencyResolver';
+import RegistryError, { AuthError } from '../scripts/registryError';
+import InputCheckbox from '../components/Input/InputCheckbox';
+import { generateSelection } from '../scripts/selectionGenerator';
+import { analyzeDependencies, mergeDuplicates, normalizePackageId } from '../scripts/dependencyAnalyzer';
+import { validateId } from '../scripts/validators';
+import { registry } from '../scripts/registryClient';
+import { AuthorPackageData, VersionStatus } from '../scripts/author';
+import * as tokenStorage from '../scripts/tokenStorage';
+import ConfirmPopup, { ConfirmPopupConfig } from '../components/ConfirmPopup';
+import PrivateKey from '../components/PrivateKey';
+import { getStatusTextShort } from './Packages';
 
 /**
  * An enumeration for all of the different tools available.
@@ -31,7 +46,8 @@ import SelectionChecker from '../scripts/versionSelection';
 export enum ToolPages {
   VersionStrings = 0,
   IncompatibilityGenerator,
-  HiddenPackages
+  HiddenPackages,
+  ResolutionSimulator
 }
 
 /**
@@ -53,11 +69,73 @@ type VersionTesterValues = {
  * @property {ToolPages} currentPage The current page.
  * @property {Partial<VersionTesterValues>} versionTesterErrors Any errors that occur with the version tester form.
  * @property {string} versionTesterOutput The output of the version tester.
+ * @property {[string, string][]} simulatorPackages The packages to simulate installing, as tuples of package identifiers and selection strings.
+ * @property {boolean} simulatorListErr True if there is an error with the list of packages to simulate installing.
+ * @property {string} simulatorXpVersion The X-Plane version to simulate installing for (not parsed).
+ * @property {Platform} simulatorPlatform The platform to simulate installing for.
+ * @property {boolean} isSimulating True if an installation is being simulated.
+ * @property {InstallPlan} [simulatorPlan] The result of the last simulation.
+ * @property {string} [simulatorError] A human-readable message, which is set if the simulation could not be completed.
+ * @property {string} generatorTargetId The identifier of the package to generate an incompatibility string for (not normalized).
+ * @property {Version[]} [generatorVersions] The known versions of the target package, from greatest to least, or undefined if they have not been loaded.
+ * @property {string[]} generatorSelected The versions of the target package which have been picked, as strings.
+ * @property {boolean} generatorIncludeFuture True if the generated string should include versions greater than every known version.
+ * @property {boolean} isLoadingGeneratorVersions True if the versions of the target package are being loaded.
+ * @property {string} [generatorError] A human-readable message, which is set if the versions of the target package could not be loaded.
+ * @property {AuthorPackageData[]} [authorPackages] The packages of the logged in author, which the incompatibility can be applied to, and which private versions are listed from.
+ * @property {string} [authorPackagesError] A human-readable message, which is set if the packages of the author could not be loaded.
+ * @property {string} applyPackageId The identifier of the package to apply the incompatibility to.
+ * @property {string} applyVersion The version to apply the incompatibility to.
+ * @property {boolean} isApplying True if the incompatibility is being applied.
+ * @property {string} [applyMessage] A human-readable message, which is set once the incompatibility has been applied.
+ * @property {string} [applyError] A human-readable message, which is set if the incompatibility could not be applied.
+ * @property {string} [rotatingVersion] The identifier and version of the private version whose key is being rotated, joined with an "@".
+ * @property {string} [rotateMessage] A human-readable message, which is set once a private key has been rotated.
+ * @property {string} [rotateError] A human-readable message, which is set if a private key could not be rotated.
+ * @property {boolean} isPopupVisible True if the popup is visible.
+ * @property {ConfirmPopupConfig} [popupConfig] Configuration for the popup.
  */
 type ToolsState = {
   currentPage: ToolPages;
   versionTesterErrors: Partial<VersionTesterValues>;
   versionTesterOutput: string;
+  simulatorPackages: [string, string][];
+  simulatorListErr: boolean;
+  simulatorXpVersion: string;
+  simulatorPlatform: Platform;
+  isSimulating: boolean;
+  simulatorPlan?: InstallPlan;
+  simulatorError?: string;
+  generatorTargetId: string;
+  generatorVersions?: Version[];
+  generatorSelected: string[];
+  generatorIncludeFuture: boolean;
+  isLoadingGeneratorVersions: boolean;
+  generatorError?: string;
+  authorPackages?: AuthorPackageData[];
+  authorPackagesError?: string;
+  applyPackageId: string;
+  applyVersion: string;
+  isApplying: boolean;
+  applyMessage?: string;
+  applyError?: string;
+  rotatingVersion?: string;
+  rotateMessage?: string;
+  rotateError?: string;
+  isPopupVisible: boolean;
+  popupConfig?: ConfirmPopupConfig;
+};
+
+/**
+ * The values which the incompatibility generator starts with, which are stored in session storage when the generator is opened from another page.
+ * 
+ * @typedef {Object} IncompatibilityGeneratorDefaults
+ * @property {string} packageId The identifier of the package to apply the incompatibility to.
+ * @property {string} packageVersion The version to apply the incompatibility to.
+ */
+export type IncompatibilityGeneratorDefaults = {
+  packageId: string;
+  packageVersion: string;
 };
 
 const DEFAULT_VERSION_OUTPUT = 'Input a valid version into the \'Version\' field, and a valid selection into the \'Version Selection\' field to see how version strings and version selection strings are parsed.';
@@ -70,26 +148,514 @@ export default class Tools extends Component {
     super(props);
 
     let defaultPage = ToolPages.VersionStrings;
+    let generatorDefaults: Partial<IncompatibilityGeneratorDefaults> = {};
     const storedDefault = sessionStorage.getItem('defaultTool');
     if (storedDefault) {
       defaultPage = parseInt(storedDefault, 10) as ToolPages;
       sessionStorage.removeItem('defaultTool');
 
-    // if (defaultPage === ToolPages.IncompatibilityGenerator)
-    //TODO load default values
+      const storedGeneratorDefaults = sessionStorage.getItem('incompatibilityGeneratorDefaults');
+      sessionStorage.removeItem('incompatibilityGeneratorDefaults');
+      if (defaultPage === ToolPages.IncompatibilityGenerator && storedGeneratorDefaults) {
+
+        // Session storage can be edited, so a malformed value should only lose the defaults
+        try {
+          generatorDefaults = JSON.parse(storedGeneratorDefaults) as IncompatibilityGeneratorDefaults ?? {};
+        } catch {
+          generatorDefaults = {};
+        }
+      }
     }
 
     this.state = {
       currentPage: defaultPage,
       versionTesterErrors: {},
-      versionTesterOutput: DEFAULT_VERSION_OUTPUT
+      versionTesterOutput: DEFAULT_VERSION_OUTPUT,
+      simulatorPackages: [],
+      simulatorListErr: false,
+      simulatorXpVersion: '',
+      simulatorPlatform: 'windows',
+      isSimulating: false,
+      generatorTargetId: '',
+      generatorSelected: [],
+      generatorIncludeFuture: false,
+      isLoadingGeneratorVersions: false,
+      applyPackageId: generatorDefaults.packageId ?? '',
+      applyVersion: generatorDefaults.packageVersion ?? '',
+      isApplying: false,
+      isPopupVisible: false
     };
+
+    this._simulate = this._simulate.bind(this);
+    this._loadGeneratorVersions = this._loadGeneratorVersions.bind(this);
+    this._applyIncompatibility = this._applyIncompatibility.bind(this);
+  }
+
+  componentDidMount() {
+    if (this.state.currentPage === ToolPages.IncompatibilityGenerator || this.state.currentPage === ToolPages.HiddenPackages)
+      this._loadAuthorPackages();
   }
 
   setCurrentPage(page: ToolPages) {
     this.setState({
       currentPage: page
     });
+
+    if (page === ToolPages.IncompatibilityGenerator || page === ToolPages.HiddenPackages)
+      this._loadAuthorPackages();
+  }
+
+  private async _loadAuthorPackages() {
+    if (this.state.authorPackages || !tokenStorage.checkAuth())
+      return;
+
+    try {
+      const authorPackages = await registry.getAllPackages();
+      authorPackages.sort((a, b) => a.packageId.localeCompare(b.packageId));
+      for (const pkg of authorPackages)
+        pkg.versions.sort((a, b) => b.packageVersion.compare(a.packageVersion));
+
+      const applyPackage = authorPackages.find(p => p.packageId === this.state.applyPackageId) ?? authorPackages[0];
+      this.setState({
+        authorPackages,
+        applyPackageId: applyPackage?.packageId ?? '',
+        applyVersion: applyPackage?.versions.some(v => v.packageVersion.toString() === this.state.applyVersion) ? this.state.applyVersion : applyPackage?.versions[0]?.packageVersion.toString() ?? ''
+      } as Partial<ToolsState>);
+    } catch (e) {
+      this.setState({
+        authorPackagesError: e instanceof RegistryError ? e.userMessage : 'An unknown error occured.'
+      } as Partial<ToolsState>);
+    }
+  }
+
+  private async _loadGeneratorVersions() {
+    const packageId = normalizePackageId(this.state.generatorTargetId);
+    this.setState({
+      isLoadingGeneratorVersions: true,
+      generatorError: void 0,
+      generatorVersions: void 0,
+      generatorSelected: []
+    } as Partial<ToolsState>);
+
+    try {
+
+      // The author can see every version of their own packages, including the private ones
+      const ownPackage = this.state.authorPackages?.find(p => p.packageId === packageId);
+      const generatorVersions = ownPackage ?
+        ownPackage.versions.filter(v => v.status === VersionStatus.Processed).map(v => v.packageVersion) :
+        (await registry.getPublicPackage(packageId)).versions.map(v => v.packageVersion);
+
+      generatorVersions.sort((a, b) => b.compare(a));
+      this.setState({
+        isLoadingGeneratorVersions: false,
+        generatorVersions
+      } as Partial<ToolsState>);
+    } catch (e) {
+      this.setState({
+        isLoadingGeneratorVersions: false,
+        generatorError: e instanceof RegistryError ? e.userMessage : 'An unknown error occured.'
+      } as Partial<ToolsState>);
+    }
+  }
+
+  private _generatedSelection(): string | undefined {
+    const { generatorVersions, generatorSelected, generatorIncludeFuture } = this.state;
+    if (!generatorVersions)
+      return;
+    const selected = generatorVersions.filter(v => generatorSelected.includes(v.toString()));
+    return generateSelection(selected, generatorVersions, generatorIncludeFuture);
+  }
+
+  private async _applyIncompatibility() {
+    const { applyPackageId, applyVersion } = this.state;
+    const targetId = normalizePackageId(this.state.generatorTargetId);
+    const selectionStr = this._generatedSelection() as string;
+    this.setState({
+      isApplying: true,
+      applyMessage: void 0,
+      applyError: void 0
+    } as Partial<ToolsState>);
+
+    try {
+      const { versionData } = await registry.getPackageVersion(applyPackageId, applyVersion);
+      const incompatibilities = mergeDuplicates('incompatibilities', [...versionData.incompatibilities, [targetId, selectionStr]]);
+
+      const conflict = analyzeDependencies(applyPackageId, versionData.dependencies, incompatibilities).find(c => c.isError);
+      if (conflict) {
+        return this.setState({
+          isApplying: false,
+          applyError: conflict.message
+        } as Partial<ToolsState>);
+      }
+
+      if (incompatibilities.length > 128) {
+        return this.setState({
+          isApplying: false,
+          applyError: 'Too many incompatibilities. Please contact support.'
+        } as Partial<ToolsState>);
+      }
+
+      await registry.updateIncompatibilities(applyPackageId, applyVersion, incompatibilities);
+      this.setState({
+        isApplying: false,
+        applyMessage: `${applyPackageId}@${applyVersion} is now incompatible with ${targetId} ${incompatibilities.find(([id]) => normalizePackageId(id) === targetId)?.[1]}.`
+      } as Partial<ToolsState>);
+    } catch (e) {
+      if (e instanceof AuthError && e.status === 401) {
+        tokenStorage.delToken();
+        sessionStorage.setItem('post-auth-redirect', '/tools');
+        window.location.href = '/';
+        return;
+      }
+
+      this.setState({
+        isApplying: false,
+        applyError: e instanceof RegistryError ? e.userMessage : 'An unknown error occured.'
+      } as Partial<ToolsState>);
+    }
+  }
+
+  private _incompatibilityGeneratorPage(): ReactNode {
+    const { generatorVersions, generatorSelected, authorPackages } = this.state;
+    const selectionStr = this._generatedSelection();
+    const selection = selectionStr && new SelectionChecker(selectionStr);
+    const targetId = normalizePackageId(this.state.generatorTargetId);
+
+    const targetFieldProps: InputFieldProps = {
+      label: 'Package Identifier',
+      name: 'generatorTargetId',
+      placeholder: 'Package Identifier',
+      maxLength: 32,
+      extendOnSlash: true,
+      onChange: e => this.setState({ generatorTargetId: (e.target as HTMLInputElement).value } as Partial<ToolsState>),
+      error: this.state.generatorTargetId && !validateId(this.state.generatorTargetId) ? 'Invalid package identifier' : void 0
+    };
+
+    const applyPackage = authorPackages?.find(p => p.packageId === this.state.applyPackageId);
+    const packageItems: Record<string, string> = {};
+    for (const pkg of authorPackages ?? [])
+      packageItems[pkg.packageId] = pkg.packageId;
+    const versionItems: Record<string, string> = {};
+    for (const version of applyPackage?.versions ?? [])
+      versionItems[version.packageVersion.toString()] = version.packageVersion.toString();
+
+    return (
+      <MainContainerContent title='Incompatibility Strings'>
+        <>
+          <p id='generator-description'>Enter a package and pick the versions to be incompatible with, to get the shortest version selection which includes those versions and none of the other known versions.</p>
+          <section className='input-section no-border my-6'>
+            <div className='left-half'>
+              <InputField {...targetFieldProps} />
+            </div>
+            <div className='right-half'>
+              <button
+                type='button'
+                className='primary-button mt-6'
+                disabled={this.state.isLoadingGeneratorVersions || !validateId(this.state.generatorTargetId)}
+                onClick={this._loadGeneratorVersions}
+              >Load Versions</button>
+            </div>
+          </section>
+          <section id='generator-output' className='no-border'>
+            {this.state.isLoadingGeneratorVersions && <p>Loading versions...</p>}
+            {this.state.generatorError && <p className='error-message'>{this.state.generatorError}</p>}
+            {generatorVersions && !generatorVersions.length && <p>{targetId} does not have any versions.</p>}
+            {generatorVersions && !!generatorVersions.length &&
+              <>
+                <ul className='generator-versions'>
+                  {generatorVersions.map(version => {
+                    const versionStr = version.toString();
+                    const isIncluded = !!selection && selection.containsVersion(version);
+                    return (
+                      <li key={versionStr} className={isIncluded ? 'generator-included' : 'generator-excluded'}>
+                        <InputCheckbox
+                          name={'generator-version-' + versionStr}
+                          title={`${versionStr} (${isIncluded ? 'included' : 'excluded'})`}
+                          checked={generatorSelected.includes(versionStr)}
+                          onChange={e => this.setState({
+                            generatorSelected: (e.target as HTMLInputElement).checked ? [...generatorSelected, versionStr] : generatorSelected.filter(v => v !== versionStr)
+                          } as Partial<ToolsState>)}
+                        />
+                      </li>
+                    );
+                  })}
+                </ul>
+                <InputCheckbox
+                  name='generator-include-future'
+                  title='Include versions greater than every known version'
+                  checked={this.state.generatorIncludeFuture}
+                  onChange={e => this.setState({ generatorIncludeFuture: (e.target as HTMLInputElement).checked } as Partial<ToolsState>)}
+                />
+                <p id='generator-selection'>{selectionStr ? <>Selection: <b>{selectionStr}</b></> : 'Pick at least one version to generate a selection.'}</p>
+              </>
+            }
+          </section>
+          <section id='generator-apply' className='no-border mt-9'>
+            <h3>Apply to a Version</h3>
+            {
+              !authorPackages ?
+                <p>Log in to add the selection to the incompatibilities of one of your versions.</p> :
+                <>
+                  <div className='left-half'>
+                    <InputDropdown
+                      name='applyPackageId'
+                      label='Package'
+                      items={packageItems}
+                      defaultValue={this.state.applyPackageId}
+                      onChange={e => {
+                        const packageId = (e.target as HTMLSelectElement).value;
+                        const pkg = authorPackages.find(p => p.packageId === packageId);
+                        this.setState({
+                          applyPackageId: packageId,
+                          applyVersion: pkg?.versions[0]?.packageVersion.toString() ?? ''
+                        } as Partial<ToolsState>);
+                      }}
+                    />
+                  </div>
+                  <div className='right-half'>
+                    <InputDropdown
+                      key={this.state.applyPackageId}
+                      name='applyVersion'
+                      label='Version'
+                      items={versionItems}
+                      defaultValue={this.state.applyVersion}
+                      onChange={e => this.setState({ applyVersion: (e.target as HTMLSelectElement).value } as Partial<ToolsState>)}
+                    />
+                  </div>
+                  <button
+                    type='button'
+                    className='primary-button mt-6 float-right'
+                    disabled={this.state.isApplying || !selectionStr || !this.state.applyVersion || targetId === this.state.applyPackageId}
+                    onClick={this._applyIncompatibility}
+                  >Add to Incompatibilities</button>
+                </>
+            }
+            {this.state.authorPackagesError && <p className='error-message'>{this.state.authorPackagesError}</p>}
+            {this.state.applyMessage && <p className='generator-applied'>{this.state.applyMessage}</p>}
+            {this.state.applyError && <p className='error-message'>{this.state.applyError}</p>}
+          </section>
+        </>
+      </MainContainerContent>
+    );
+  }
+
+  private _confirmRotate(packageId: string, packageVersion: string) {
+    const popupConfig: ConfirmPopupConfig = {
+      title: 'Rotate Private Key',
+      confirmText: 'Rotate',
+      closeText: 'Cancel',
+      onConfirm: () => this._rotatePrivateKey(packageId, packageVersion),
+      onClose: () => this.setState({ isPopupVisible: false } as Partial<ToolsState>),
+      children: <p className='generic-popup-text'>Are you sure you want to rotate the private key of {packageId}@{packageVersion}? Installation files and install links which were shared with the old key will no longer work.</p>
+    };
+
+    this.setState({
+      popupConfig,
+      isPopupVisible: true
+    } as Partial<ToolsState>);
+  }
+
+  private async _rotatePrivateKey(packageId: string, packageVersion: string) {
+    this.setState({
+      rotatingVersion: `${packageId}@${packageVersion}`,
+      rotateMessage: void 0,
+      rotateError: void 0
+    } as Partial<ToolsState>);
+
+    try {
+      const privateKey = await registry.rotatePrivateKey(packageId, packageVersion);
+      const authorPackages = this.state.authorPackages?.map(pkg => pkg.packageId !== packageId ? pkg : {
+        ...pkg,
+        versions: pkg.versions.map(v => v.packageVersion.toString() !== packageVersion ? v : { ...v, privateKey })
+      });
+
+      this.setState({
+        authorPackages,
+        rotatingVersion: void 0,
+        rotateMessage: `The private key of ${packageId}@${packageVersion} was rotated.`
+      } as Partial<ToolsState>);
+    } catch (e) {
+      if (e instanceof AuthError && e.status === 401) {
+        tokenStorage.delToken();
+        sessionStorage.setItem('post-auth-redirect', '/tools');
+        window.location.href = '/';
+        return;
+      }
+
+      this.setState({
+        rotatingVersion: void 0,
+        rotateError: e instanceof RegistryError ? e.userMessage : 'An unknown error occured.'
+      } as Partial<ToolsState>);
+    }
+  }
+
+  private _hiddenPackagesPage(): ReactNode {
+    const { authorPackages } = this.state;
+    const privateVersions = (authorPackages ?? []).flatMap(pkg => pkg.versions
+      .filter(v => !v.isPublic)
+      .map(version => ({ pkg, version })));
+
+    let content: ReactNode;
+    if (this.state.authorPackagesError)
+      content = <p className='error-message'>{this.state.authorPackagesError}</p>;
+    else if (!tokenStorage.checkAuth())
+      content = <p>Log in to see the private versions of your packages.</p>;
+    else if (!authorPackages)
+      content = <p>Loading packages...</p>;
+    else if (!privateVersions.length)
+      content = <p>None of your packages have any private versions.</p>;
+    else
+      content = (
+        <ul className='hidden-versions'>
+          {privateVersions.map(({ pkg, version }) => {
+            const versionStr = version.packageVersion.toString();
+            const label = `${pkg.packageId}@${versionStr}`;
+            return (
+              <li key={label}>
+                <div className='hidden-version-header'>
+                  <h3>{pkg.packageName} <span className='hidden-version-id'>{label}</span></h3>
+                  <span className='hidden-version-status'>{getStatusTextShort(version.status)}</span>
+                </div>
+                {version.privateKey && <PrivateKey packageId={pkg.packageId} packageVersion={versionStr} privateKey={version.privateKey} />}
+                <div className='hidden-version-actions'>
+                  <button
+                    type='button'
+                    className='secondary-button'
+                    onClick={() => window.location.href = `/packages/details?packageId=${pkg.packageId}&packageVersion=${versionStr}`}
+                  >Details</button>
+                  <button
+                    type='button'
+                    className='primary-button'
+                    disabled={!!this.state.rotatingVersion}
+                    onClick={() => this._confirmRotate(pkg.packageId, versionStr)}
+                  >{this.state.rotatingVersion === label ? 'Rotating...' : 'Rotate Key'}</button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      );
+
+    return (
+      <MainContainerContent title='Hidden Packages'>
+        <>
+          {this.state.popupConfig && <ConfirmPopup {...this.state.popupConfig} open={this.state.isPopupVisible} />}
+          <p id='hidden-description'>Private versions can only be installed with their private key. Share an installation file or an install link with the people who should have access, and rotate the key to revoke access from everyone who has the old one.</p>
+          {this.state.rotateMessage && <p className='hidden-rotated'>{this.state.rotateMessage}</p>}
+          {this.state.rotateError && <p className='error-message'>{this.state.rotateError}</p>}
+          <section id='hidden-versions-section' className='no-border mt-6'>
+            {content}
+          </section>
+        </>
+      </MainContainerContent>
+    );
+  }
+
+  private async _simulate() {
+    const xpVersion = Version.fromString(this.state.simulatorXpVersion) as Version;
+    this.setState({
+      isSimulating: true,
+      simulatorError: void 0
+    } as Partial<ToolsState>);
+
+    try {
+      const simulatorPlan = await simulateInstall(this.state.simulatorPackages, xpVersion, this.state.simulatorPlatform, new RegistryPackageSource());
+      this.setState({
+        isSimulating: false,
+        simulatorPlan
+      } as Partial<ToolsState>);
+    } catch (e) {
+      this.setState({
+        isSimulating: false,
+        simulatorPlan: void 0,
+        simulatorError: e instanceof RegistryError ? e.userMessage : 'An unknown error occured.'
+      } as Partial<ToolsState>);
+    }
+  }
+
+  private _resolutionSimulatorPage(): ReactNode {
+    const xpVersionFieldProps: InputFieldProps = {
+      label: 'X-Plane Version',
+      name: 'simulatorXpVersion',
+      placeholder: 'x.x.x',
+      maxLength: 15,
+      onChange: e => this.setState({ simulatorXpVersion: (e.target as HTMLInputElement).value.trim() } as Partial<ToolsState>),
+      error: this.state.simulatorXpVersion && !Version.fromString(this.state.simulatorXpVersion) ? 'Invalid version string' : void 0
+    };
+
+    const packageListProps: PackageListProps = {
+      list: this.state.simulatorPackages,
+      onChange: err => this.setState({ simulatorListErr: err } as Partial<ToolsState>),
+      title: 'Packages',
+      noneText: 'No packages'
+    };
+
+    return (
+      <MainContainerContent title='Resolution Simulator'>
+        <>
+          <p id='simulator-description'>List the packages to install and the version of X-Plane and platform to install them for, to see which versions would be installed, or why no versions can be installed. Only public versions are used.</p>
+          <section className='input-section no-border my-6'>
+            <div className='left-half'>
+              <InputField {...xpVersionFieldProps} />
+            </div>
+            <div className='right-half'>
+              <InputDropdown
+                name='simulatorPlatform'
+                label='Platform'
+                items={PLATFORM_NAMES}
+                defaultValue={this.state.simulatorPlatform}
+                onChange={e => this.setState({ simulatorPlatform: (e.target as HTMLSelectElement).value as Platform } as Partial<ToolsState>)}
+              />
+            </div>
+          </section>
+          <section className='no-border'>
+            <PackageList {...packageListProps} />
+            <button
+              type='button'
+              className='primary-button mt-6 float-right'
+              disabled={this.state.isSimulating || this.state.simulatorListErr || !this.state.simulatorPackages.length || !Version.fromString(this.state.simulatorXpVersion)}
+              onClick={this._simulate}
+            >Simulate</button>
+          </section>
+          <section id='simulator-output' className='no-border mt-11'>
+            {this._simulatorOutput()}
+          </section>
+        </>
+      </MainContainerContent>
+    );
+  }
+
+  private _simulatorOutput(): ReactNode {
+    const plan = this.state.simulatorPlan;
+    if (this.state.isSimulating)
+      return (<p className='simulator-status'>Resolving packages...</p>);
+    else if (this.state.simulatorError)
+      return (<p className='error-message'>{this.state.simulatorError}</p>);
+    else if (!plan)
+      return (<></>);
+
+    return (
+      <>
+        {
+          plan.isSolved ?
+            <>
+              <h3>These versions would be installed:</h3>
+              <ul className='simulator-packages'>
+                {plan.packages.map(p => <li key={p.packageId}><b>{p.packageId}@{p.packageVersion.toString()}</b> ({p.packageName}), required by {p.requiredBy.join(', ')}</li>)}
+              </ul>
+            </> :
+            <h3 className='error-message'>No versions can be installed which satisfy every requirement.</h3>
+        }
+        {!!plan.problems.length &&
+          <>
+            <h4>{plan.isSolved ? 'Versions skipped' : 'Problems found'}</h4>
+            <ul className='simulator-problems'>
+              {plan.problems.map(problem => <li key={problem} className={plan.isSolved ? 'warning-message' : 'error-message'}>{problem}</li>)}
+            </ul>
+          </>
+        }
+      </>
+    );
   }
 
   render(): ReactNode {
@@ -101,14 +667,18 @@ export default class Tools extends Component {
               text: 'Version Testing',
               action: () => this.setCurrentPage(ToolPages.VersionStrings)
             },
-            // {
-            //   text: 'Hidden Packages',
-            //   action: () => this.setCurrentPage(ToolPages.HiddenPackages)
-            // },
-            // {
-            //   text: 'Incompatibility Strings',
-            //   action: () => this.setCurrentPage(ToolPages.IncompatibilityGenerator)
-            // }
+            {
+              text: 'Resolution Simulator',
+              action: () => this.setCurrentPage(ToolPages.ResolutionSimulator)
+            },
+            {
+              text: 'Incompatibility Strings',
+              action: () => this.setCurrentPage(ToolPages.IncompatibilityGenerator)
+            },
+            {
+              text: 'Hidden Packages',
+              action: () => this.setCurrentPage(ToolPages.HiddenPackages)
+            }
           ]}
         />}
 
@@ -153,7 +723,7 @@ export default class Tools extends Component {
                       rangeStr += ' and ';
 
                     // Since we're using bold tags here we have to set the HTML dangerously
-                    if (range.max.eq(range.min))
+                    if (range.max === range.min)
                       rangeStr += '<b>' + range.maxVersion.toString() + '</b>';
                     else
                       rangeStr += `<b>${range.minVersion.toString()}&#8211;${range.maxVersion.toString()}</b>`;
@@ -220,6 +790,9 @@ export default class Tools extends Component {
             </Formik>
           </MainContainerContent>
           }
+          {this.state.currentPage === ToolPages.ResolutionSimulator && this._resolutionSimulatorPage()}
+          {this.state.currentPage === ToolPages.IncompatibilityGenerator && this._incompatibilityGeneratorPage()}
+          {this.state.currentPage === ToolPages.HiddenPackages && this._hiddenPackagesPage()}
         </>
       }
       />
@@ -46,38 +46,45 @@ type UploadValues = {
  * @property {boolean} isLoading True if the page is fetching data from the server.
  * @property {string} [errorMessage] The message to display in an error, undefined if no error exists. 
  * @property {AuthorPackageData} [packageData] The data of the package that this page is uploading for.
- * @property {boolean} isUploading True if we are currently uploading data to the server, and if the loading bar popup should be up.
- * @property {number} uploadProgress The progress of the upload, a number from 0 to 1, where 0 is 0% and 1 is 100%.
+ * @property {boolean} isUploading True if we are currently uploading data to the server.
+ * @property {UploadStatus} [uploadStatus] The status of the current upload, or undefined if nothing is being uploaded.
  * @property {string} [uploadError] Any error that was returned from the server during upload (human-readable).
  * @property {boolean} uploadErrorEffectsButton True if the upload button is affected by the {@code uploadError}.
  * @property {Partial<UploadValues>} errors Any errors with the form.
  * @property {[string, string][]} dependencies The dependencies of the new version being uploaded. An array of tuples where the first value is the id of the package that this version depends on, and the second value is the selection string of the dependency. 
  * @property {[string, string][]} incompatibilities The incompatibilities of the new version being uploaded. An array of tuples where the first value is the id of the package that this version is incompatible with, and the second value is the selection string of the incompatibility.
+ * @property {File} [file] The zip file to upload.
+ * @property {SelectedFolder} [folder] The folder to create the zip file from, or undefined if a zip file was chosen instead.
+ * @property {boolean} isCheckingFile True if the file is being checked for problems before it is uploaded.
+ * @property {PreflightIssue[]} [preflightIssues] The problems found with the file, or undefined if no file has been checked.
  * @property {boolean} dependencyErr True if there is an error with the dependency list.
  * @property {boolean} incompatibilityErr True if there is an error with the incompatibility list.
+ * @property {number} settingsRevision Incremented whenever settings are applied from a version or template, so that fields which only read their initial value are recreated.
  */
 type UploadState = {
   isLoading: boolean;
   errorMessage?: string;
   packageData?: AuthorPackageData;
   isUploading: boolean;
-  uploadProgress: number;
+  uploadStatus?: UploadStatus;
   uploadError?: string;
   uploadErrorEffectsButton: boolean;
   errors: Partial<UploadValues>;
   file?: File;
+  folder?: SelectedFolder;
+  isCheckingFile: boolean;
+  preflightIssues?: PreflightIssue[];
   dependencies: [string, string][];
   incompatibilities: [string, string][];
   dependencyErr: boolean;
   incompatibilityErr: boolean;
+  settingsRevision: number;
 }
 
 import { Component } from 'react';
 import * as tokenStorage from '../scripts/tokenStorage';
-import HTTPMethod from 'http-method-enum';
 import Version from '../scripts/version';
-import Big from 'big.js';
-import LoadingBarPopup, { LoadingPopupConfig } from '../components/LoadingBarPopup';
+import UploadProgressPopup from '../components/UploadProgressPopup';
 import MainContainer from '../components/Main Container/MainContainer';
 import MainContainerError from '../components/Main Container/MainContainerError';
 import MainContainerLoading from '../components/Main Container/MainContainerLoading';
@@ -85,22 +92,38 @@ import MainContainerContent from '../components/Main Container/MainContainerCont
 import { Formik, FormikErrors } from 'formik';
 import ErrorMessage from '../components/ErrorMessage';
 import InputField, { InputFieldProps } from '../components/Input/InputField';
+import VersionSelectionEditor, { VersionSelectionEditorProps } from '../components/VersionSelectionEditor';
+import { XPLANE_CATALOG } from '../scripts/releaseCatalog';
 import InputFile, { InputFileProps } from '../components/Input/InputFile';
 import InputCheckbox from '../components/Input/InputCheckbox';
 import PackageList, { PackageListProps } from '../components/PackageList';
-import axios, { AxiosError } from 'axios';
 import SelectionChecker from '../scripts/versionSelection';
 import PackageInfoFields from '../components/PackageInfoFields';
 import '../css/Upload.scss';
-import { AuthorPackageData, AuthorVersionData, PackageType, getAuthorPackage } from '../scripts/author';
-import RegistryError from '../scripts/registryError';
+import { AuthorPackageData, AuthorVersionData, PackageType } from '../scripts/author';
+import { registry } from '../scripts/registryClient';
+import { UploadTarget, uploader } from '../scripts/chunkedUpload';
+import UploadController, { UploadStatus } from '../scripts/uploadController';
+import { PreflightIssue, preflightPackageZip } from '../scripts/zipInspector';
+import PreflightIssues from '../components/PreflightIssues';
+import { hashFile } from '../scripts/fileHash';
+import * as uploadHistory from '../scripts/uploadHistory';
+import RegistryError, { AuthError, ValidationError } from '../scripts/registryError';
 import VersionSelection from '../scripts/versionSelection';
+import { analyzeDependencies, mergeDuplicates } from '../scripts/dependencyAnalyzer';
+import { defaultNextVersion } from '../scripts/versionBump';
+import VersionBump from '../components/VersionBump';
+import UploadTemplates from '../components/UploadTemplates';
+import { UploadSettings } from '../scripts/uploadTemplates';
+import { SelectedFolder } from '../scripts/folderReader';
+import FolderPackager from '../components/FolderPackager';
 
 class Upload extends Component {
   
   state: UploadState;
 
   private _packageId?: string;
+  private _uploadController?: UploadController;
 
   private _defaultVersion = '1.0.0';
   private _defaultXpSelection = new VersionSelection('*');
@@ -116,13 +139,14 @@ class Upload extends Component {
     this.state = {
       isLoading: true,
       isUploading: false,
-      uploadProgress: 0,
       uploadErrorEffectsButton: true,
+      isCheckingFile: false,
       errors: {},
       dependencies: [],
       incompatibilities: [],
       dependencyErr: false,
-      incompatibilityErr: false
+      incompatibilityErr: false,
+      settingsRevision: 0
     };    
 
     const token = tokenStorage.checkAuth();
@@ -149,28 +173,16 @@ class Upload extends Component {
     let defaultIncompatibilities: [string, string][] = [];
 
     try {
-      const packageData = await getAuthorPackage(this._packageId);
+      const packageData = await registry.getPackage(this._packageId);
       packageData.versions.sort((a, b) => {
 
         // Flipping a and b reverses the sort
-        return b.packageVersion.toFloat().cmp(a.packageVersion.toFloat() as Big).valueOf() as number;
+        return b.packageVersion.compare(a.packageVersion);
       });
 
-      // Increment the last version as the default version
+      // Bump the last version as the default version
       if (packageData.versions.length) {
-        const lastVersion = packageData.versions[0].packageVersion;
-
-        if (lastVersion.isPreRelease) {
-          const preReleaseNum = lastVersion.preReleaseNum;
-          if (typeof preReleaseNum === 'number' && preReleaseNum !== 999)
-            lastVersion.preReleaseNum = preReleaseNum + 1;
-        } else {
-          const patchNum = lastVersion.patch;
-          if (patchNum !== 999)
-            lastVersion.patch = patchNum + 1;
-        }
-
-        this._defaultVersion = lastVersion.toString();
+        this._defaultVersion = defaultNextVersion(packageData.versions[0].packageVersion).toString();
 
         const lastVersionData = packageData.versions[0];
         this._defaultXpSelection = lastVersionData.xpSelection;
@@ -191,24 +203,16 @@ class Upload extends Component {
       } as Partial<UploadState>);
     } catch (e) {
       console.error(e);
-      if (e instanceof RegistryError) {
-        switch (e.status) {
-        case 401:
-          tokenStorage.delToken();
-          sessionStorage.setItem('post-auth-redirect', '/packages');
-          window.location.href = '/';
-          return;
-        case 404:
-          return this.setState({
-            isLoading: false,
-            errorMessage: 'Package does not exist'
-          } as Partial<UploadState>);
-        }
+      if (e instanceof AuthError && e.status === 401) {
+        tokenStorage.delToken();
+        sessionStorage.setItem('post-auth-redirect', '/packages');
+        window.location.href = '/';
+        return;
       }
 
       return this.setState({
         isLoading: false,
-        errorMessage: 'An unknown error occured'
+        errorMessage: e instanceof RegistryError ? e.userMessage : 'An unknown error occured.'
       } as Partial<UploadState>);
     }
   }
@@ -243,76 +247,137 @@ class Upload extends Component {
     return {};
   }
 
-  private async _submit(values: UploadValues, { setSubmitting }: { setSubmitting: (isSubmitting: boolean) => void; }): Promise<void> {
+  private _getSettings(values: UploadValues): UploadSettings {
+    return {
+      isPublic: values.isPublic,
+      isPrivate: values.isPrivate,
+      isStored: values.isStored,
+      platforms: {
+        macOS: values.macOS,
+        windows: values.windows,
+        linux: values.linux
+      },
+      xpSelection: values.xplaneSelection.trim(),
+      dependencies: mergeDuplicates('dependencies', this.state.dependencies),
+      incompatibilities: mergeDuplicates('incompatibilities', this.state.incompatibilities)
+    };
+  }
+
+  private _applySettings(settings: Partial<UploadSettings>, setFieldValue: (field: string, value: unknown) => void): void {
+    if (settings.isPublic !== void 0) {
+      setFieldValue('isPublic', settings.isPublic);
+      setFieldValue('isPrivate', settings.isPrivate);
+      setFieldValue('isStored', settings.isStored);
+    }
+
+    if (settings.platforms) {
+      setFieldValue('macOS', settings.platforms.macOS);
+      setFieldValue('windows', settings.platforms.windows);
+      setFieldValue('linux', settings.platforms.linux);
+    }
+
+    if (settings.xpSelection !== void 0)
+      setFieldValue('xplaneSelection', settings.xpSelection);
+
+    // The lists are replaced rather than changed, since the package lists only update when their list changes
+    const newState: Partial<UploadState> = {
+      settingsRevision: this.state.settingsRevision + 1
+    };
+    if (settings.dependencies) {
+      newState.dependencies = settings.dependencies;
+      newState.dependencyErr = PackageList.doesListHaveError(settings.dependencies);
+    }
+    if (settings.incompatibilities) {
+      newState.incompatibilities = settings.incompatibilities;
+      newState.incompatibilityErr = PackageList.doesListHaveError(settings.incompatibilities);
+    }
+    this.setState(newState);
+  }
+
+  private async _checkFile(file: File): Promise<void> {
     this.setState({
-      isUploading: true,
-      uploadProgress: 0
+      file,
+      isCheckingFile: true,
+      preflightIssues: void 0
+    } as Partial<UploadState>);
+
+    const { packageId, packageType } = this.state.packageData as AuthorPackageData;
+    const preflightIssues = await preflightPackageZip(file, packageId, packageType);
+
+    // Another file may have been selected while this one was being checked
+    if (this.state.file !== file)
+      return;
+
+    this.setState({
+      isCheckingFile: false,
+      preflightIssues
     } as Partial<UploadState>);
+  }
+
+  private async _submit(values: UploadValues, { setSubmitting }: { setSubmitting: (isSubmitting: boolean) => void; }): Promise<void> {
     setSubmitting(true);
                 
     const packageVersion = values.packageVersion.trim().toLowerCase(); 
     const xplaneSelection = values.xplaneSelection.trim().toLowerCase();
     const { isPublic, isPrivate, isStored, macOS, windows, linux } = values;
+    const packageId = this.state.packageData?.packageId as string;
+    const file = this.state.file as File;
+
+    const target: UploadTarget = {
+      type: 'upload',
+      packageId,
+      packageVersion,
+      xpSelection: xplaneSelection,
+      isPublic,
+      isPrivate,
+      isStored,
+      dependencies: mergeDuplicates('dependencies', this.state.dependencies),
+      incompatibilities: mergeDuplicates('incompatibilities', this.state.incompatibilities),
+      platforms: { macOS, windows, linux }
+    };
+
+    const controller = new UploadController((signal, onProgress) => uploader.upload(target, file, onProgress, signal), file.size, uploadStatus => this.setState({ uploadStatus } as Partial<UploadState>));
+    this._uploadController = controller;
+
+    this.setState({
+      isUploading: true,
+      uploadStatus: controller.status,
+      uploadError: void 0
+    } as Partial<UploadState>);
+
+    // Hash while uploading, the hash is only needed for the upload history, so it isn't worth failing over
+    const hashAbortController = new AbortController();
+    const hashPromise = hashFile(file, void 0, hashAbortController.signal).catch(e => {
+      if (!hashAbortController.signal.aborted)
+        console.error(e);
+      return void 0;
+    });
 
-    const formData = new FormData();
-    formData.append('packageId', this.state.packageData?.packageId as string);
-    formData.append('packageVersion', packageVersion);
-    formData.append('xpSelection', xplaneSelection);
-    formData.append('isPublic', isPublic ? 'true' : 'false');
-    formData.append('isPrivate', isPrivate ? 'true' : 'false');
-    formData.append('isStored', isStored ? 'true' : 'false');
-    formData.append('dependencies', JSON.stringify(this.state.dependencies));
-    formData.append('incompatibilities', JSON.stringify(this.state.incompatibilities));
-    formData.append('supportsMacOS', macOS ? 'true' : 'false');
-    formData.append('supportsWindows', windows ? 'true' : 'false');
-    formData.append('supportsLinux', linux ? 'true' : 'false');
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    formData.append('file', (document.getElementById('package-file') as any).files[0]);
     try {
-      await axios({
-        url: `${window.REGISTRY_URL}/packages/upload`,
-        method: HTTPMethod.POST,
-        data: formData,
-        headers: {
-          Authorization: tokenStorage.checkAuth() as string
-        }, 
-        onUploadProgress: e  => {
-          this.setState({
-            uploadProgress: e.progress
-          } as Partial<UploadState>);
-        },
-      });
+
+      // A canceled upload leaves the form as it was, so that it can be submitted again from the start
+      if (!await controller.run()) {
+        hashAbortController.abort();
+        await uploader.discardUpload(target, file);
+        this.setState({
+          isUploading: false,
+          uploadStatus: void 0
+        } as Partial<UploadState>);
+        return;
+      }
+
+      const hash = await hashPromise;
+      if (hash)
+        uploadHistory.addUpload({ packageId, packageVersion, fileName: file.name, hash });
 
       sessionStorage.setItem('success_message', 'Uploaded new package version successfully');
       window.location.href = '/packages';
     } catch (e) {
-      let errorMessage = 'An unknown error occured.';
-      let shouldAutoEnable = true;
-
-      if (e instanceof AxiosError) {
-        switch (e.response?.status) {
-        case 400: 
-          shouldAutoEnable = false;
-          errorMessage = {
-            missing_form_data: 'Missing form data.',
-            no_version: 'A version must be provided.',
-            long_version: 'The version provided is too long.',
-            invalid_version: 'The version provided is invalid',
-            version_exists: 'The version provided already exists.',
-            plat_supp: 'You are required to support at least one platform.'
-          }[e.response?.data as string]
-              ?? `An unknown error occured [${e.response?.data}].`;
-          break;
-        case 403:
-          shouldAutoEnable = false;
-          errorMessage = `You do not own the package ${this.state.packageData?.packageId as string}.`;
-          break;
-        case 500:
-          errorMessage = 'An internal server error occured.';
-          break;
-        }
-      }
+      hashAbortController.abort();
+      const errorMessage = e instanceof RegistryError ? e.userMessage : 'An unknown error occured.';
+
+      // The upload can not succeed without changes to the form if the registry rejected the data
+      const shouldAutoEnable = !(e instanceof ValidationError || e instanceof AuthError);
 
       if (shouldAutoEnable) {
         setTimeout(() => {
@@ -327,6 +392,7 @@ class Upload extends Component {
       this.setState({
         uploadError: errorMessage,
         isUploading: false,
+        uploadStatus: void 0,
         uploadErrorEffectsButton: true
       } as Partial<UploadState>);
     } finally {
@@ -335,12 +401,8 @@ class Upload extends Component {
   }
 
   render(): JSX.Element {
-    const loadingBarProps: LoadingPopupConfig =  {
-      open: this.state.isUploading,
-      progress: this.state.uploadProgress,
-      title: 'Uploading',
-      text: this.state.uploadProgress < 1 ? `Uploading -- ${Math.round(this.state.uploadProgress * 100)}%` : 'Waiting for Upload Confirmation...'
-    };
+    const conflicts = analyzeDependencies(this.state.packageData?.packageId ?? '', this.state.dependencies, this.state.incompatibilities);
+    const hasConflictError = conflicts.some(c => c.isError);
 
     const dependencyListProps: PackageListProps = {
       list: this.state.dependencies,
@@ -350,7 +412,8 @@ class Upload extends Component {
         });
       },
       title: 'Dependencies',
-      noneText: 'No dependencies'
+      noneText: 'No dependencies',
+      conflicts: conflicts.filter(c => c.list === 'dependencies')
     };
 
     const incompatibilityListProps: PackageListProps = {
@@ -361,12 +424,13 @@ class Upload extends Component {
         });
       },
       title: 'Incompatibilities',
-      noneText: 'No incompatibilities'
+      noneText: 'No incompatibilities',
+      conflicts: conflicts.filter(c => c.list === 'incompatibilities')
     };
 
     return (
       <>
-        <LoadingBarPopup {...loadingBarProps} />
+        <UploadProgressPopup title='Uploading' controller={this._uploadController} status={this.state.uploadStatus} />
         <MainContainer>
           {this.state.errorMessage && <MainContainerError
             message={this.state.errorMessage}
@@ -402,7 +466,10 @@ class Upload extends Component {
                     name: 'packageVersion',
                     label: parsedVersion ? `Package Version (${parsedVersion.toString()})` : 'Package Version',
                     placeholder: 'x.x.x',
-                    defaultValue: this._defaultVersion,
+                    value: values.packageVersion,
+
+                    // The form handles the change, but React requires a handler for controlled fields
+                    onChange: handleChange,
                     minLength: 1,
                     maxLength: 15,
                     error: this.state.errors.packageVersion,
@@ -416,21 +483,28 @@ class Upload extends Component {
                     onChange: e => {
                       if (!e.target.files?.length)
                         return;
-                      this.setState({
-                        file: e.target.files[0]
-                      } as Partial<UploadState>);
-                    }
+                      this.setState({ folder: void 0 } as Partial<UploadState>);
+                      this._checkFile(e.target.files[0]);
+                    },
+                    onFolder: folder => this.setState({
+                      folder,
+                      file: void 0,
+                      isCheckingFile: false,
+                      preflightIssues: void 0
+                    } as Partial<UploadState>)
                   };
 
-                  const xpCompatiblityFieldProps: InputFieldProps = {
+                  const xpCompatiblityFieldProps: VersionSelectionEditorProps = {
                     classes: ['w-10/12'],
                     label: 'X-Plane Compatiblity',
                     placeholder: 'x.x.x-x.x.x',
                     name: 'xplaneSelection',
-                    defaultValue: this._defaultXpSelection.toString(),
+                    defaultValue: values.xplaneSelection,
                     minLength: 1,
                     maxLength: 256,
-                    error: this.state.errors.xplaneSelection
+                    error: this.state.errors.xplaneSelection,
+                    onChange: value => setFieldValue('xplaneSelection', value),
+                    catalog: XPLANE_CATALOG
                   };
 
                   // Make sure access config is valid once a checkbox is updated
@@ -456,6 +530,16 @@ class Upload extends Component {
                   return (
                     <>
                       <ErrorMessage text={this.state.uploadError ?? ''} show={!!this.state.uploadError} />
+
+                      {/* Outside of the form, so that its fields are not added to the form values */}
+                      <section className='mt-9'>
+                        <UploadTemplates
+                          packageId={this.state.packageData?.packageId as string}
+                          versions={this.state.packageData?.versions ?? []}
+                          getSettings={() => this._getSettings(values)}
+                          onApply={settings => this._applySettings(settings, setFieldValue)}
+                        />
+                      </section>
                       <form
                         id='upload-form'
                         onSubmit={handleSubmit}
@@ -472,17 +556,34 @@ class Upload extends Component {
 
                           <div className='left-half'>
                             <InputField {...packageVersionProps} />
+                            <VersionBump
+                              versions={this.state.packageData?.versions.map(v => v.packageVersion) ?? []}
+                              value={values.packageVersion}
+                              onSelect={version => setFieldValue('packageVersion', version)}
+                            />
                           </div>
 
                           <div className='right-half'>
                             <InputFile {...fileUploadProps} /> 
+                            {this.state.folder &&
+                              <FolderPackager
+                                folder={this.state.folder}
+                                packageId={this.state.packageData?.packageId as string}
+                                onZip={file => file ? this._checkFile(file) : this.setState({
+                                  file: void 0,
+                                  isCheckingFile: false,
+                                  preflightIssues: void 0
+                                } as Partial<UploadState>)}
+                              />
+                            }
+                            <PreflightIssues isChecking={this.state.isCheckingFile} issues={this.state.preflightIssues} />
                           </div>
 
                         </section>
                         <section className='no-border mt-9'>
                           
                           <div className='left-half'>
-                            <InputField {...xpCompatiblityFieldProps} />
+                            <VersionSelectionEditor key={this.state.settingsRevision} {...xpCompatiblityFieldProps} />
                           </div>
 
                           <div className='right-half triple-config'>
@@ -514,10 +615,10 @@ class Upload extends Component {
                         </section>
                         <section className='mt-[5.5rem]'>
                           <div className='left-half'>              
-                            <PackageList {...dependencyListProps} />
+                            <PackageList key={this.state.settingsRevision} {...dependencyListProps} />
                           </div>
                           <div className='right-half'>
-                            <PackageList {...incompatibilityListProps} />
+                            <PackageList key={this.state.settingsRevision} {...incompatibilityListProps} />
                           </div>
                         </section>
                         <section className='relative mt-9'>
@@ -526,7 +627,7 @@ class Upload extends Component {
                             className='primary-button float-right'
                             type='submit'
                             value='Upload'
-                            disabled={this.state.isUploading || !!Object.keys(this.state.errors).length || (this.state.uploadErrorEffectsButton && !!this.state.uploadError) || !this.state.file || this.state.dependencyErr || this.state.incompatibilityErr}
+                            disabled={this.state.isUploading || !!Object.keys(this.state.errors).length || (this.state.uploadErrorEffectsButton && !!this.state.uploadError) || !this.state.file || this.state.isCheckingFile || this.state.dependencyErr || this.state.incompatibilityErr || hasConflictError}
                           />
                         </section>
                       </form>
@@ -43,11 +43,11 @@ import { Component, ReactNode } from 'react';
 import MainContainer from '../components/Main Container/MainContainer';
 import { checkAuth } from '../scripts/tokenStorage';
 import MainContainerLoading from '../components/Main Container/MainContainerLoading';
-import { httpRequest } from '../scripts/http';
-import HTTPMethod from 'http-method-enum';
 import MainContainerError from '../components/Main Container/MainContainerError';
 import { useParams } from 'react-router-dom';
 import ReCAPTCHA from 'react-google-recaptcha';
+import { registry } from '../scripts/registryClient';
+import RegistryError from '../scripts/registryError';
 
 class Verify extends Component {
 
@@ -87,51 +87,20 @@ class Verify extends Component {
       submitted: true
     } as Partial<VerifyState>);
 
-    console.log('he');
-    
     let errorMessage;
-    let response;
     try {
-      response = await httpRequest(`${window.REGISTRY_URL}/auth/verify/` + verificationToken, HTTPMethod.POST, void (0), {
-        validation: recaptchaToken
-      });
+      await registry.verify(verificationToken, recaptchaToken);
       errorMessage = void 0;
-    } catch {
-      errorMessage = 'Could not connect to server. Please try again later.';
+    } catch (e) {
+      errorMessage = e instanceof RegistryError ? e.userMessage : 'An unknown error occured.';
     }
 
     this.setState({
       doneLoading: true
     } as Partial<VerifyState>);
 
-    if (response) {
-      switch (response.status) {
-      case 204:
-        return;
-      case 401:
-        errorMessage = 'Token is invalid or expired.';
-        break;
-      case 403:
-        errorMessage = 'You have already been verified.';
-        break;
-      case 409:
-        errorMessage = 'Unable to identify request.';
-        break;
-      case 400:
-      case 418:
-        errorMessage = 'Invalid reCAPTCHA.';
-        break;
-      case 429:
-        errorMessage = 'You are doing that too much, please try again later.';
-        break;
-      case 500:
-        errorMessage = 'Internal server error, please try again later.';
-        break;
-      default:
-        errorMessage = 'An unknown error occured.';
-        break;
-      }
-    }
+    if (!errorMessage)
+      return;
 
     this.setState({ errorMessage } as Partial<VerifyState>);
   }
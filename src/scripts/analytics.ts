@@ -57,36 +57,8 @@ export type AnalyticsData = {
   downloads: number;
 };
 
-import RegistryError from './registryError';
-import * as tokenStorage from './tokenStorage';
-import * as http from './http';
-import HTTPMethod from 'http-method-enum';
 import { DateTime, Duration } from 'luxon';
 
-/**
- * Get the analytics data for the specified time using the current credentials.
- * 
- * @param {string} packageId The id of the package to get the analytics of 
- * @param {string} packageVersion The version string of the package to get the analytics of.
- * @param {Date} after The date after which to get the analytics.
- * @param {Date} [before] The date before which to get the analytics. Defaults to now.
- * @returns {Promise<AnalyticsData[]>} The analytics data for the specified time.
- * @throws {RegistryError} Error thrown if there was a response error.
- */
-export async function getAnalytics(packageId: string, packageVersion: string, after: DateTime, before = DateTime.now().startOf('day')): Promise<AnalyticsData[]> {
-  const token = tokenStorage.checkAuth();
-  if (!token)
-    throw new RegistryError(401, 'Unauthorized');
-  
-  const response = await http.httpRequest(`${window.REGISTRY_URL}/analytics/${packageId}/${packageVersion.toString()}?after=${after.valueOf()}&before=${before.valueOf()}`, HTTPMethod.GET, token, {});
-  if (response.status !== 200)
-    throw new RegistryError(response.status, response.responseText ?? response.statusText);
-  
-  const data = JSON.parse(response.responseText) as (Omit<AnalyticsData, 'timestamp'> & { timestamp: DateTime | string; })[];
-  data.forEach(d => d.timestamp = DateTime.fromISO(d.timestamp as string));
-  return data as AnalyticsData[];
-}
-
 /**
  * Format analytics data from {@code minDate} to {@code maxDate}. Ignores any data that is outside of this range. Formatting involves setting any dates without values to zero.
  * 
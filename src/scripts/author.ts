@@ -63,7 +63,7 @@ export type AuthorData = {
   id: string;
   name: string;
   email: string;
-  isVerified: string;
+  isVerified: boolean;
   usedStorage: number;
   totalStorage: number;
 };
@@ -136,139 +136,5 @@ export type AuthorSingleVersionPackageData = Omit<AuthorPackageData, 'versions'>
   versionData: AuthorVersionData;
 };
 
-// The data retrieved from the registry which needs to be parsed
-type RegistryPackageData = Omit<AuthorPackageData, 'versions'> & {
-  versions: RegistryVersionData[];
-}
-type RegistryVersionData = Omit<Omit<Omit<AuthorVersionData, 'packageVersion'>, 'xpSelection'>, 'uploadDate'> & {
-  packageVersion: string;
-  xpSelection: string;
-  uploadDate: string;
-};
-
-type RegistrySinglePackageData = Omit<AuthorSingleVersionPackageData, 'version'> & {
-  versionData: RegistryVersionData;
-};
-
-import * as tokenStorage from './tokenStorage';
-import * as http from './http';
-import HTTPMethod from 'http-method-enum';
 import VersionSelection from './versionSelection';
-import Version from './version';
-import RegistryError from './registryError';
-
-/**
- * Try to get the storage data for the currently logged in author. 
- * 
- * @async
- * @returns {Promise<AuthorData>} The storage data of the currently logged in author.
- * @throws {Error} An error is thrown if the author does not have a token, or if the request fails.
- */
-export async function getAuthorData(): Promise<AuthorData> {
-  const token = tokenStorage.checkAuth();
-  if (!token)
-    throw new RegistryError(401, 'Unauthorized');
-  
-  const response = await http.httpRequest(`${window.REGISTRY_URL}/account/data`, HTTPMethod.GET, token, {});
-  if (response.status !== 200)
-    throw new RegistryError(response.status, response.responseText ?? response.statusText);
-  
-  return JSON.parse(response.responseText);
-}
-
-/**
- * Try to get all package data for the currently logged in author.
- * 
- * @async
- * @returns {Promise<AuthorPackageData[]>} A promise which resolves to all of the package data for the author.
- * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails for any other reason.
- */
-export async function getAllAuthorPackages(): Promise<AuthorPackageData[]> {
-  const token = tokenStorage.checkAuth();
-  if (!token)
-    throw new RegistryError(401, 'Unauthorized');
-
-  const response = await http.httpRequest(`${window.REGISTRY_URL}/account/packages`, HTTPMethod.GET, token, {});
-  if (response.status !== 200)
-    throw new RegistryError(response.status, response.responseText ?? response.statusText);
-  
-  const responseData = JSON.parse(response.responseText).packages as RegistryPackageData[];
-  const retData: AuthorPackageData[] = [];
-
-  for (const pkgData of responseData) {
-
-    const versions: AuthorVersionData[] = pkgData.versions.map(v => ({
-      ...v,
-      uploadDate: new Date(v.uploadDate),
-      xpSelection: new VersionSelection(v.xpSelection),
-      packageVersion: Version.fromString(v.packageVersion)!
-    }));
-
-    retData.push({
-      ...pkgData,
-      versions
-    });
-  }
-  return retData;
-}
-
-/**
- * Get the data for all versions of the specified package.
- * 
- * @param {string} packageId The id of the package to get the versions of.
- * @returns {Promise<AuthorPackageData>} The data of the specified package.
- * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails for any other reason.
- */
-export async function getAuthorPackage(packageId: string): Promise<AuthorPackageData> {
-  const token = tokenStorage.checkAuth();
-  if (!token)
-    throw new RegistryError(401, 'Unauthorized');
-
-  const response = await http.httpRequest(`${window.REGISTRY_URL}/account/packages/${packageId}`, HTTPMethod.GET, token, {});
-  if (response.status !== 200)
-    throw new RegistryError(response.status, response.responseText ?? response.statusText);
-  
-  const responseData = JSON.parse(response.responseText) as RegistryPackageData;
-  const versions: AuthorVersionData[] = responseData.versions.map(v => ({
-    ...v,
-    packageVersion: Version.fromString(v.packageVersion)!,
-    xpSelection: new VersionSelection(v.xpSelection),
-    uploadDate: new Date(v.uploadDate)
-  }));
-
-  return {
-    ...responseData,
-    versions
-  };
-}
-
-/**
- * Get the data for the specified package version.
- * 
- * @param {string} packageId The id of the package to get the version data of.
- * @param {string} packageVersion The version string of the version to get the data of.
- * @returns {Promise<AuthorSingleVersionPackageData>} The data of the package at the specified version.
- * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails for any other reason.
- */
-export async function getAuthorPackageVersion(packageId: string, packageVersion: string): Promise<AuthorSingleVersionPackageData> {
-  const token = tokenStorage.checkAuth();
-  if (!token)
-    throw new RegistryError(401, 'Unauthorized');
-
-  const response = await http.httpRequest(`${window.REGISTRY_URL}/account/packages/${packageId}/${packageVersion}`, HTTPMethod.GET, token, {});
-  if (response.status !== 200)
-    throw new RegistryError(response.status, response.responseText ?? response.statusText);
-  
-  const responseData = JSON.parse(response.responseText) as RegistrySinglePackageData;
-  const versionData: AuthorVersionData = {
-    ...responseData.versionData,
-    packageVersion: Version.fromString(responseData.versionData.packageVersion)!,
-    uploadDate: new Date(responseData.versionData.uploadDate),
-    xpSelection: new VersionSelection(responseData.versionData.xpSelection)
-  };
-
-  return {
-    ...responseData,
-    versionData
-  };
-}
\ No newline at end of file
+import Version from './version';
\ No newline at end of file
@@ -0,0 +1,105 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import { BatchItem, BatchItemStatus, guessPlatforms, nextBatchVersion, runWithConcurrency, validateBatchItem } from './batchUpload';
+import Version from './version';
+
+function v(versionStr: string): Version {
+  return Version.fromString(versionStr) as Version;
+}
+
+function createItem(id: string, packageVersion: string, overrides: Partial<BatchItem> = {}): BatchItem {
+  return {
+    id,
+    file: new File([], id + '.zip'),
+    packageVersion,
+    platforms: { macOS: true, windows: true, linux: true },
+    access: 'public',
+    status: BatchItemStatus.Queued,
+    progress: 0,
+    attempts: 0,
+    ...overrides
+  };
+}
+
+describe('platforms', () => {
+  it('finds platforms in file names', () => {
+    expect(guessPlatforms('plugin-win64.zip')).toEqual({ macOS: false, windows: true, linux: false });
+    expect(guessPlatforms('Plugin_MacOS_Linux.zip')).toEqual({ macOS: true, windows: false, linux: true });
+  });
+
+  it('supports every platform if none are named', () => {
+    expect(guessPlatforms('plugin-twin.zip')).toEqual({ macOS: true, windows: true, linux: true });
+  });
+});
+
+describe('versions', () => {
+  it('bumps past existing and queued versions', () => {
+    expect(nextBatchVersion([v('1.0.0')], [])).toBe('1.0.1');
+    expect(nextBatchVersion([v('1.0.0')], ['1.2.0', 'invalid'])).toBe('1.2.1');
+    expect(nextBatchVersion([], [])).toBe('1.0.0');
+  });
+});
+
+describe('validation', () => {
+  const existing = [v('1.0.0')];
+
+  it('accepts valid items', () => {
+    const item = createItem('a', '1.0.1');
+    expect(validateBatchItem(item, [item], existing)).toBeUndefined();
+  });
+
+  it('rejects invalid versions', () => {
+    expect(validateBatchItem(createItem('a', '1.x'), [], existing)).toBe('Invalid version string');
+  });
+
+  it('rejects existing versions until they are uploaded', () => {
+    expect(validateBatchItem(createItem('a', '1.0'), [], existing)).toBe('Version 1.0.0 already exists');
+    expect(validateBatchItem(createItem('a', '1.0', { status: BatchItemStatus.Succeeded }), [], existing)).toBeUndefined();
+  });
+
+  it('rejects versions used by other items', () => {
+    const items = [createItem('a', '1.1.0'), createItem('b', '1.1')];
+    expect(validateBatchItem(items[0], items, existing)).toBe('Version 1.1.0 is used by another file');
+  });
+
+  it('requires a platform', () => {
+    expect(validateBatchItem(createItem('a', '1.1.0', { platforms: { macOS: false, windows: false, linux: false } }), [], existing)).toBe('At least one platform is required');
+  });
+});
+
+describe('concurrency', () => {
+  it('runs every task in order without exceeding the limit', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const started: number[] = [];
+
+    await runWithConcurrency([1, 2, 3, 4, 5], 2, async task => {
+      started.push(task);
+      maxRunning = Math.max(maxRunning, ++running);
+      await new Promise(resolve => setTimeout(resolve, task % 2 ? 5 : 1));
+      --running;
+    });
+
+    expect(started).toEqual([1, 2, 3, 4, 5]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('runs at least one task at a time', async () => {
+    const run = jest.fn(async () => void 0);
+    await runWithConcurrency([1, 2], 0, run);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+});
\ No newline at end of file
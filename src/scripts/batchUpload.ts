@@ -0,0 +1,179 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * How a version in a batch is accessed, which is one of the valid combinations of the public, private, and stored flags.
+ * 
+ * @typedef {'public'|'private'|'unstored'} AccessOption
+ */
+export type AccessOption = 'public' | 'private' | 'unstored';
+
+/**
+ * A file queued to be uploaded as a new version.
+ * 
+ * @typedef {Object} BatchItem
+ * @property {string} id The unique identifier of the item within the batch.
+ * @property {File} file The zip file to upload.
+ * @property {string} packageVersion The version to upload the file as (not parsed).
+ * @property {Object} platforms The platforms that the version supports.
+ * @property {boolean} platforms.macOS True if the version supports MacOS.
+ * @property {boolean} platforms.windows True if the version supports Windows.
+ * @property {boolean} platforms.linux True if the version supports Linux.
+ * @property {AccessOption} access How the version is accessed.
+ * @property {BatchItemStatus} status The status of the upload of the item.
+ * @property {number} progress The progress of the upload, a number from 0 to 1, where 0 is 0% and 1 is 100%.
+ * @property {string} [error] The human-readable error of the last attempt to upload the item, if it failed.
+ * @property {number} attempts The number of times that uploading the item was started.
+ */
+export type BatchItem = {
+  id: string;
+  file: File;
+  packageVersion: string;
+  platforms: AuthorVersionData['platforms'];
+  access: AccessOption;
+  status: BatchItemStatus;
+  progress: number;
+  error?: string;
+  attempts: number;
+};
+
+import { AuthorVersionData } from './author';
+import Version from './version';
+import { defaultNextVersion } from './versionBump';
+
+/**
+ * The status of the upload of a batch item.
+ * 
+ * @enum {string}
+ */
+export enum BatchItemStatus {
+  Queued = 'queued',
+  Uploading = 'uploading',
+  Succeeded = 'succeeded',
+  Failed = 'failed'
+}
+
+/**
+ * The most files which can be uploaded at the same time.
+ */
+export const MAX_CONCURRENCY = 3;
+
+/**
+ * The name and flags of each access option.
+ */
+export const ACCESS_OPTIONS: Record<AccessOption, { name: string; isPublic: boolean; isPrivate: boolean; isStored: boolean; }> = {
+  public: {
+    name: 'Public',
+    isPublic: true,
+    isPrivate: false,
+    isStored: true
+  },
+  private: {
+    name: 'Private',
+    isPublic: false,
+    isPrivate: true,
+    isStored: true
+  },
+  unstored: {
+    name: 'Private, not saved',
+    isPublic: false,
+    isPrivate: true,
+    isStored: false
+  }
+};
+
+// Words in file names which suggest that a build is only for one platform
+const PLATFORM_WORDS: Record<keyof AuthorVersionData['platforms'], string[]> = {
+  macOS: ['mac', 'macos', 'osx', 'darwin'],
+  windows: ['win', 'windows', 'win64', 'win32'],
+  linux: ['linux', 'lin']
+};
+
+/**
+ * Guess which platforms a build supports from its file name. Words are separated by any character which is not a letter or digit, so "plugin-win64.zip" is a Windows build.
+ * 
+ * @param {string} fileName The name of the file.
+ * @returns {Object} The platforms named in the file, or every platform if none are named.
+ */
+export function guessPlatforms(fileName: string): AuthorVersionData['platforms'] {
+  const words = fileName.toLowerCase().replace(/\.zip$/, '').split(/[^a-z0-9]+/);
+  const platforms = {
+    macOS: PLATFORM_WORDS.macOS.some(w => words.includes(w)),
+    windows: PLATFORM_WORDS.windows.some(w => words.includes(w)),
+    linux: PLATFORM_WORDS.linux.some(w => words.includes(w))
+  };
+
+  if (!platforms.macOS && !platforms.windows && !platforms.linux)
+    return { macOS: true, windows: true, linux: true };
+  return platforms;
+}
+
+/**
+ * Get the default version of a new batch item, which is the version after every existing and queued version.
+ * 
+ * @param {Version[]} existing The existing versions of the package.
+ * @param {string[]} queued The versions of the items already in the batch (not parsed). Invalid versions are ignored.
+ * @returns {string} The default version of the new item.
+ */
+export function nextBatchVersion(existing: Version[], queued: string[]): string {
+  const latest = [...existing, ...queued.map(v => Version.fromString(v.trim().toLowerCase()))]
+    .reduce<Version | undefined>((latest, v) => v && (!latest || v.compare(latest) > 0) ? v : latest, void 0);
+  return defaultNextVersion(latest).toString();
+}
+
+/**
+ * Check if an item can be uploaded.
+ * 
+ * @param {BatchItem} item The item to check.
+ * @param {BatchItem[]} items Every item in the batch, which may include the item.
+ * @param {Version[]} existing The existing versions of the package.
+ * @returns {string|undefined} The human-readable problem with the item, or undefined if it can be uploaded.
+ */
+export function validateBatchItem(item: BatchItem, items: BatchItem[], existing: Version[]): string | undefined {
+  const version = Version.fromString(item.packageVersion.trim().toLowerCase());
+  if (!version)
+    return 'Invalid version string';
+
+  if (item.status !== BatchItemStatus.Succeeded && existing.some(v => v.equals(version)))
+    return `Version ${version} already exists`;
+
+  if (items.some(i => i.id !== item.id && Version.fromString(i.packageVersion.trim().toLowerCase())?.equals(version)))
+    return `Version ${version} is used by another file`;
+
+  if (!item.platforms.macOS && !item.platforms.windows && !item.platforms.linux)
+    return 'At least one platform is required';
+}
+
+/**
+ * Run tasks with a limited number running at the same time. Tasks are started in order, each as soon as another finishes.
+ * 
+ * @async
+ * @param {T[]} tasks The tasks to run.
+ * @param {number} concurrency The most tasks to run at the same time.
+ * @param {(T) => Promise<void>} run The function which runs a single task. It should handle its own errors, since an error stops any more tasks from starting.
+ * @returns {Promise<void>} A promise which resolves once every task has finished.
+ */
+export async function runWithConcurrency<T>(tasks: T[], concurrency: number, run: (task: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length)
+      await run(tasks[next++]);
+  };
+
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < Math.min(Math.max(concurrency, 1), tasks.length); ++i)
+    workers.push(worker());
+  await Promise.all(workers);
+}
\ No newline at end of file
@@ -0,0 +1,167 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import ChunkedUploader, { MemoryUploadStore, UploadTarget } from './chunkedUpload';
+import RegistryClient from './registryClient';
+import { NotFoundError, ServerError, ValidationError } from './registryError';
+import { VersionStatus } from './author';
+import VersionSelection from './versionSelection';
+import MockRegistry from '../mock/mockRegistry';
+
+const SESSION_PATH = '/packages/upload/session';
+
+const TARGET: UploadTarget = {
+  type: 'upload',
+  packageId: 'mock.aircraft',
+  packageVersion: '2.0.0',
+  xpSelection: '*',
+  isPublic: true,
+  isPrivate: false,
+  isStored: true,
+  dependencies: [],
+  incompatibilities: [],
+  platforms: { macOS: true, windows: true, linux: true }
+};
+
+let mockRegistry: MockRegistry;
+let client: RegistryClient;
+let store: MemoryUploadStore;
+let uploader: ChunkedUploader;
+let file: File;
+
+beforeEach(() => {
+  mockRegistry = new MockRegistry();
+  const token = mockRegistry.createToken('mock-author');
+  client = new RegistryClient({
+    registryUrl: 'http://mock.registry',
+    getToken: () => token,
+    adapter: mockRegistry.adapter
+  });
+  store = new MemoryUploadStore();
+  uploader = new ChunkedUploader(client, store, 4);
+  file = new File(['0123456789'], 'mock.zip');
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// Fail the upload of the second part without retrying, leaving the first part uploaded
+async function failSecondChunk(target: UploadTarget = TARGET): Promise<void> {
+  const onProgress = jest.fn(({ chunk, chunkProgress }) => {
+    if (chunk === 1 && chunkProgress === 0)
+      mockRegistry.injectFault({ status: 400, method: 'PUT', path: SESSION_PATH, count: 1 });
+  });
+  await expect(uploader.upload(target, file, onProgress)).rejects.toBeInstanceOf(ValidationError);
+}
+
+it('deletes the upload record once the upload completes', async () => {
+  await uploader.upload(TARGET, file);
+
+  expect(await uploader.hasUnfinishedUpload(TARGET, file)).toBe(false);
+  const data = await client.getPackageVersion('mock.aircraft', '2.0.0');
+  expect(data.versionData.status).toBe(VersionStatus.Processing);
+});
+
+it('resumes after a failure from the first part that was not uploaded', async () => {
+  await failSecondChunk();
+  expect(await uploader.hasUnfinishedUpload(TARGET, file)).toBe(true);
+
+  const onProgress = jest.fn();
+  await uploader.upload(TARGET, file, onProgress);
+  expect(onProgress).not.toHaveBeenCalledWith(expect.objectContaining({ chunk: 0 }));
+  expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ chunk: 1, chunkProgress: 0, progress: 0.4 }));
+  expect(await uploader.hasUnfinishedUpload(TARGET, file)).toBe(false);
+});
+
+it('starts a new session if the registry lost the previous one', async () => {
+  await failSecondChunk();
+  mockRegistry.injectFault({ status: 404, method: 'GET', path: SESSION_PATH, count: 1 });
+
+  const onProgress = jest.fn();
+  await uploader.upload(TARGET, file, onProgress);
+  expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ chunk: 0, chunkProgress: 0, progress: 0 }));
+  expect(await uploader.hasUnfinishedUpload(TARGET, file)).toBe(false);
+});
+
+it('starts a new session if the metadata changed', async () => {
+  await failSecondChunk();
+  const target: UploadTarget = { ...TARGET, xpSelection: '12.0.0-12.999.999' };
+  expect(await uploader.hasUnfinishedUpload(target, file)).toBe(false);
+
+  const onProgress = jest.fn();
+  await uploader.upload(target, file, onProgress);
+  expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ chunk: 0, chunkProgress: 0 }));
+  expect(await uploader.hasUnfinishedUpload(TARGET, file)).toBe(false);
+
+  const data = await client.getPackageVersion('mock.aircraft', '2.0.0');
+  expect(data.versionData.xpSelection.toString()).toBe(new VersionSelection('12.0.0-12.999.999').toString());
+});
+
+it('starts a new session once an unfinished upload is discarded', async () => {
+  await failSecondChunk();
+  await uploader.discardUpload(TARGET, file);
+  expect(await uploader.hasUnfinishedUpload(TARGET, file)).toBe(false);
+
+  const onProgress = jest.fn();
+  await uploader.upload(TARGET, file, onProgress);
+  expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ chunk: 0, chunkProgress: 0 }));
+});
+
+it('retries a part that failed to upload', async () => {
+  jest.spyOn(Math, 'random').mockReturnValue(0);
+  mockRegistry.injectFault({ status: 503, method: 'PUT', path: SESSION_PATH, count: 2 });
+
+  await uploader.upload(TARGET, file);
+  expect(await uploader.hasUnfinishedUpload(TARGET, file)).toBe(false);
+});
+
+it('keeps the upload record if a part can not be uploaded', async () => {
+  jest.spyOn(Math, 'random').mockReturnValue(0);
+  mockRegistry.injectFault({ status: 503, method: 'PUT', path: SESSION_PATH });
+
+  await expect(uploader.upload(TARGET, file)).rejects.toBeInstanceOf(ServerError);
+  expect(await uploader.hasUnfinishedUpload(TARGET, file)).toBe(true);
+});
+
+it('uploads the whole file in one request if the registry does not have upload sessions', async () => {
+  mockRegistry.injectFault({ status: 404, method: 'POST', path: SESSION_PATH, body: 'not_found' });
+  const onProgress = jest.fn();
+
+  await uploader.upload(TARGET, file, onProgress);
+  expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ chunk: 0, chunkCount: 1 }));
+  expect(await uploader.hasUnfinishedUpload(TARGET, file)).toBe(false);
+
+  const data = await client.getPackageVersion('mock.aircraft', '2.0.0');
+  expect(data.versionData.status).toBe(VersionStatus.Processing);
+});
+
+it('keeps using upload sessions if the registry can not find something else', async () => {
+  mockRegistry.injectFault({ status: 404, method: 'POST', path: SESSION_PATH, count: 1, body: 'no_version' });
+  await expect(uploader.upload(TARGET, file)).rejects.toBeInstanceOf(NotFoundError);
+
+  const onProgress = jest.fn();
+  await uploader.upload(TARGET, file, onProgress);
+  expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ chunkCount: 3, isCompleting: true }));
+});
+
+it('re-uploads the whole file in one request if the registry does not have upload sessions', async () => {
+  mockRegistry.injectFault({ status: 404, method: 'POST', path: SESSION_PATH, body: 'not_found' });
+
+  await uploader.upload({ type: 'retry', packageId: 'mock.plugin', packageVersion: '0.1.0' }, file);
+
+  const data = await client.getPackageVersion('mock.plugin', '0.1.0');
+  expect(data.versionData.status).toBe(VersionStatus.Processing);
+});
\ No newline at end of file
@@ -0,0 +1,441 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * The progress of a chunked upload.
+ * 
+ * @typedef {Object} ChunkedUploadProgress
+ * @property {number} chunk The index of the part currently being uploaded, starting at zero.
+ * @property {number} chunkCount The total number of parts of the file. A file which is uploaded whole, because the registry does not have upload sessions, is a single part.
+ * @property {number} chunkProgress The progress of the current part, a number from 0 to 1, where 0 is 0% and 1 is 100%.
+ * @property {number} progress The progress of the entire file, a number from 0 to 1, where 0 is 0% and 1 is 100%.
+ * @property {boolean} isCompleting True once every part has been uploaded, and the registry is being asked to complete the upload.
+ */
+export type ChunkedUploadProgress = {
+  chunk: number;
+  chunkCount: number;
+  chunkProgress: number;
+  progress: number;
+  isCompleting: boolean;
+};
+
+/**
+ * A callback which is executed as the parts of a file are uploaded.
+ * 
+ * @callback ChunkedUploadProgressCallback
+ * @param {ChunkedUploadProgress} progress The progress of the upload.
+ */
+export type ChunkedUploadProgressCallback = (progress: ChunkedUploadProgress) => void;
+
+/**
+ * The data kept locally about an upload that has not yet completed, so that it can be resumed.
+ * 
+ * @typedef {Object} UploadRecord
+ * @property {string} key The key which identifies the file and its destination.
+ * @property {string} metadata The JSON of the upload target that the session was created with, so that a session is not resumed with different metadata.
+ * @property {string} uploadId The id of the upload session on the registry.
+ * @property {number} chunkSize The size of each part in bytes.
+ * @property {number[]} completedChunks The indices of the parts which have been uploaded.
+ */
+export type UploadRecord = {
+  key: string;
+  metadata: string;
+  uploadId: string;
+  chunkSize: number;
+  completedChunks: number[];
+};
+
+/**
+ * Persistent storage for upload records.
+ * 
+ * @interface UploadRecordStore
+ */
+export interface UploadRecordStore {
+  get(key: string): Promise<UploadRecord | undefined>;
+  put(record: UploadRecord): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * The data of the session to upload a file to, which is the session data without any of the file information.
+ * 
+ * @typedef {Object} UploadTarget
+ */
+export type UploadTarget = DistributiveOmit<UploadSessionData, 'fileName' | 'fileSize' | 'chunkSize'>;
+
+// Omit from every member of a union, instead of the union itself
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+import RegistryClient, { registry, UploadSessionData } from './registryClient';
+import { CanceledRequestError, NotFoundError } from './registryError';
+import { UNKNOWN_ENDPOINT_CODE } from './errorCatalog';
+
+/**
+ * The default size of each part of a file, 8 MiB.
+ */
+export const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+
+const DB_NAME = 'xpkg-portal';
+const DB_VERSION = 1;
+const STORE_NAME = 'uploads';
+
+// A dropped connection should be waited out for much longer than a normal request
+const CHUNK_RETRY_POLICY = {
+  retries: 6,
+  baseDelay: 1000,
+  maxDelay: 30000
+};
+
+/**
+ * Store upload records in IndexedDB, so that uploads can be resumed after a reload.
+ */
+export class IndexedDBUploadStore implements UploadRecordStore {
+
+  private _db?: Promise<IDBDatabase>;
+
+  /**
+   * Get a stored record.
+   * 
+   * @async
+   * @param {string} key The key of the record to get.
+   * @returns {Promise<UploadRecord|undefined>} A promise which resolves to the record, or undefined if it does not exist.
+   */
+  async get(key: string): Promise<UploadRecord | undefined> {
+    return this._transaction('readonly', store => store.get(key));
+  }
+
+  /**
+   * Store a record, replacing any record with the same key.
+   * 
+   * @async
+   * @param {UploadRecord} record The record to store.
+   * @returns {Promise<void>} A promise which resolves once the record is stored.
+   */
+  async put(record: UploadRecord): Promise<void> {
+    await this._transaction('readwrite', store => store.put(record));
+  }
+
+  /**
+   * Delete a stored record.
+   * 
+   * @async
+   * @param {string} key The key of the record to delete.
+   * @returns {Promise<void>} A promise which resolves once the record is deleted.
+   */
+  async delete(key: string): Promise<void> {
+    await this._transaction('readwrite', store => store.delete(key));
+  }
+
+  /**
+   * Open the database, or get the database if it has already been opened.
+   * 
+   * @returns {Promise<IDBDatabase>} A promise which resolves to the open database.
+   */
+  private _open(): Promise<IDBDatabase> {
+    if (!this._db) {
+      this._db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this._db;
+  }
+
+  /**
+   * Run a single request against the object store.
+   * 
+   * @async
+   * @param {IDBTransactionMode} mode The mode of the transaction.
+   * @param {(store: IDBObjectStore) => IDBRequest} run The function which makes the request.
+   * @returns {Promise<T>} A promise which resolves to the result of the request.
+   */
+  private async _transaction<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this._open();
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Store upload records in memory, for environments without IndexedDB. Uploads can only be resumed until the page is closed.
+ */
+export class MemoryUploadStore implements UploadRecordStore {
+
+  private _records = new Map<string, UploadRecord>();
+
+  /**
+   * Get a stored record.
+   * 
+   * @async
+   * @param {string} key The key of the record to get.
+   * @returns {Promise<UploadRecord|undefined>} A promise which resolves to a copy of the record, or undefined if it does not exist.
+   */
+  async get(key: string): Promise<UploadRecord | undefined> {
+    const record = this._records.get(key);
+    return record && { ...record, completedChunks: [...record.completedChunks] };
+  }
+
+  /**
+   * Store a copy of a record, replacing any record with the same key.
+   * 
+   * @async
+   * @param {UploadRecord} record The record to store.
+   * @returns {Promise<void>} A promise which resolves once the record is stored.
+   */
+  async put(record: UploadRecord): Promise<void> {
+    this._records.set(record.key, { ...record, completedChunks: [...record.completedChunks] });
+  }
+
+  /**
+   * Delete a stored record.
+   * 
+   * @async
+   * @param {string} key The key of the record to delete.
+   * @returns {Promise<void>} A promise which resolves once the record is deleted.
+   */
+  async delete(key: string): Promise<void> {
+    this._records.delete(key);
+  }
+}
+
+/**
+ * Upload files to the registry in parts, keeping track of which parts have been uploaded so that an interrupted upload of the same file can be resumed. Registries without upload sessions are sent the whole file in a single request instead.
+ */
+export default class ChunkedUploader {
+
+  private _client: RegistryClient;
+  private _store: UploadRecordStore;
+  private _chunkSize: number;
+
+  // Set once the registry responds that it does not have upload sessions, so that it isn't asked again
+  private _supportsSessions = true;
+
+  /**
+   * Create a new uploader.
+   * 
+   * @constructor
+   * @param {RegistryClient} [client] The client to upload with. Defaults to the client used throughout the portal.
+   * @param {UploadRecordStore} [store] The store to keep upload records in. Defaults to IndexedDB if it is available, otherwise memory.
+   * @param {number} [chunkSize] The size of each part of new uploads in bytes. Defaults to {@link DEFAULT_CHUNK_SIZE}.
+   */
+  constructor(client = registry, store?: UploadRecordStore, chunkSize = DEFAULT_CHUNK_SIZE) {
+    this._client = client;
+    this._store = store ?? (typeof indexedDB === 'undefined' ? new MemoryUploadStore() : new IndexedDBUploadStore());
+    this._chunkSize = chunkSize;
+  }
+
+  /**
+   * Upload a file, resuming a previous upload of the same file to the same destination if one exists.
+   * 
+   * @async
+   * @param {UploadTarget} target The destination of the file.
+   * @param {File} file The file to upload.
+   * @param {ChunkedUploadProgressCallback} [onProgress] The callback to execute as the file is uploaded.
+   * @param {AbortSignal} [signal] The signal which stops the upload. Once every part has been uploaded, the upload can no longer be stopped.
+   * @returns {Promise<void>} A promise which resolves once the registry has accepted the entire upload.
+   * @throws {RegistryError} An error is thrown if any request fails, or a {@link CanceledRequestError} if the signal stops the upload. The upload record is kept, so uploading the same file again resumes the upload.
+   */
+  async upload(target: UploadTarget, file: File, onProgress?: ChunkedUploadProgressCallback, signal?: AbortSignal): Promise<void> {
+    throwIfCanceled(signal);
+    if (!this._supportsSessions)
+      return this._uploadWhole(target, file, onProgress, signal);
+
+    const key = getUploadKey(target, file);
+    const metadata = JSON.stringify(target);
+    let record = await this._store.get(key);
+
+    // A session which was created with different metadata would keep that metadata, so it can't be resumed
+    if (record && record.metadata !== metadata) {
+      await this._store.delete(key);
+      record = void 0;
+    }
+
+    // The registry is the source of truth for which parts it has, the record may be behind it
+    if (record) {
+      try {
+        record.completedChunks = await this._client.getUploadSession(record.uploadId);
+      } catch (e) {
+        if (!(e instanceof NotFoundError))
+          throw e;
+        record = void 0;
+      }
+    }
+
+    if (!record) {
+      let uploadId: string;
+      try {
+        uploadId = await this._client.createUploadSession({
+          ...target,
+          fileName: file.name,
+          fileSize: file.size,
+          chunkSize: this._chunkSize
+        } as UploadSessionData);
+      } catch (e) {
+
+        // Other responses which are not found are about the upload itself, such as a version that doesn't exist
+        if (!(e instanceof NotFoundError) || e.code !== UNKNOWN_ENDPOINT_CODE)
+          throw e;
+
+        this._supportsSessions = false;
+        return this._uploadWhole(target, file, onProgress, signal);
+      }
+
+      record = {
+        key,
+        metadata,
+        uploadId,
+        chunkSize: this._chunkSize,
+        completedChunks: []
+      };
+    }
+    await this._store.put(record);
+
+    const { uploadId, chunkSize } = record;
+    const chunkCount = Math.max(Math.ceil(file.size / chunkSize), 1);
+    const completed = new Set(record.completedChunks);
+    let uploadedBytes = [...completed].reduce((total, index) => total + getChunkLength(file, chunkSize, index), 0);
+
+    for (let chunk = 0; chunk < chunkCount; ++chunk) {
+      if (completed.has(chunk))
+        continue;
+      throwIfCanceled(signal);
+
+      const start = chunk * chunkSize;
+      const data = file.slice(start, start + chunkSize);
+      const reportProgress = (chunkProgress: number) => onProgress?.({
+        chunk,
+        chunkCount,
+        chunkProgress,
+        progress: file.size ? (uploadedBytes + chunkProgress * data.size) / file.size : chunkProgress,
+        isCompleting: false
+      });
+
+      reportProgress(0);
+      await this._client.uploadChunk(uploadId, chunk, data, reportProgress, CHUNK_RETRY_POLICY, signal);
+      completed.add(chunk);
+      uploadedBytes += data.size;
+
+      record.completedChunks = [...completed];
+      await this._store.put(record);
+    }
+
+    throwIfCanceled(signal);
+    onProgress?.({
+      chunk: chunkCount - 1,
+      chunkCount,
+      chunkProgress: 1,
+      progress: 1,
+      isCompleting: true
+    });
+    await this._client.completeUploadSession(uploadId);
+    await this._store.delete(key);
+  }
+
+  /**
+   * Check if there is an unfinished upload of a file to a destination.
+   * 
+   * @async
+   * @param {UploadTarget} target The destination of the file.
+   * @param {File} file The file to check.
+   * @returns {Promise<boolean>} A promise which resolves to true if uploading the file would resume a previous upload.
+   */
+  async hasUnfinishedUpload(target: UploadTarget, file: File): Promise<boolean> {
+    const record = await this._store.get(getUploadKey(target, file));
+    return record?.metadata === JSON.stringify(target);
+  }
+
+  /**
+   * Forget an unfinished upload of a file to a destination, so that uploading the file again starts a new upload.
+   * 
+   * @async
+   * @param {UploadTarget} target The destination of the file.
+   * @param {File} file The file that was being uploaded.
+   * @returns {Promise<void>} A promise which resolves once the upload record has been deleted.
+   */
+  async discardUpload(target: UploadTarget, file: File): Promise<void> {
+    await this._store.delete(getUploadKey(target, file));
+  }
+
+  /**
+   * Upload a file in a single request, for registries which do not have upload sessions. The upload can not be resumed.
+   * 
+   * @async
+   * @param {UploadTarget} target The destination of the file.
+   * @param {File} file The file to upload.
+   * @param {ChunkedUploadProgressCallback} [onProgress] The callback to execute as the file is uploaded. The whole file is reported as a single part.
+   * @param {AbortSignal} [signal] The signal which stops the upload.
+   * @returns {Promise<void>} A promise which resolves once the registry has accepted the upload.
+   * @throws {RegistryError} An error is thrown if the request fails, or a {@link CanceledRequestError} if the signal stops the upload.
+   */
+  private async _uploadWhole(target: UploadTarget, file: File, onProgress?: ChunkedUploadProgressCallback, signal?: AbortSignal): Promise<void> {
+    const reportProgress = (progress: number) => onProgress?.({
+      chunk: 0,
+      chunkCount: 1,
+      chunkProgress: progress,
+      progress,
+      isCompleting: false
+    });
+
+    reportProgress(0);
+    if (target.type === 'upload')
+      await this._client.upload({ ...target, file }, reportProgress, signal);
+    else
+      await this._client.retry(target.packageId, target.packageVersion, file, reportProgress, signal);
+  }
+}
+
+/**
+ * The uploader used throughout the portal.
+ */
+export const uploader = new ChunkedUploader();
+
+/**
+ * Get the key of an upload record. Files are considered the same if their name, size, and modification time are the same.
+ * 
+ * @param {UploadTarget} target The destination of the file.
+ * @param {File} file The file being uploaded.
+ * @returns {string} The key of the record.
+ */
+function getUploadKey(target: UploadTarget, file: File): string {
+  return [target.type, target.packageId, target.packageVersion, file.name, file.size, file.lastModified].join(':');
+}
+
+/**
+ * Get the size of a part of a file in bytes.
+ * 
+ * @param {File} file The file which the part is of.
+ * @param {number} chunkSize The size of each part in bytes.
+ * @param {number} index The index of the part.
+ * @returns {number} The size of the part, which is smaller than the chunk size if it is the last part.
+ */
+function getChunkLength(file: File, chunkSize: number, index: number): number {
+  return Math.max(Math.min(chunkSize, file.size - index * chunkSize), 0);
+}
+
+/**
+ * Stop an upload if its signal has been aborted.
+ * 
+ * @param {AbortSignal} [signal] The signal of the upload.
+ * @throws {CanceledRequestError} An error is thrown if the signal has been aborted.
+ */
+function throwIfCanceled(signal?: AbortSignal): void {
+  if (signal?.aborted)
+    throw new CanceledRequestError(0, 'canceled', 'The request was canceled.');
+}
\ No newline at end of file
@@ -0,0 +1,103 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import { analyzeDependencies, mergeDuplicates, normalizePackageId } from './dependencyAnalyzer';
+
+describe('normalizing identifiers', () => {
+  it.each([
+    ['mock.plugin', 'mock.plugin'],
+    [' Mock.Plugin ', 'mock.plugin'],
+    ['xpkg/mock.plugin', 'mock.plugin'],
+    ['XPKG/mock.plugin', 'mock.plugin'],
+    ['other/mock.plugin', 'other/mock.plugin']
+  ])('normalizes %p', (packageId, expected) => {
+    expect(normalizePackageId(packageId)).toBe(expected);
+  });
+});
+
+describe('merging duplicates', () => {
+  it('merges the selections of the same incompatible package into their union', () => {
+    expect(mergeDuplicates('incompatibilities', [['mock.plugin', '1-2'], ['mock.other', '*'], ['xpkg/mock.plugin', '3']])).toEqual([['mock.plugin', '1-3'], ['mock.other', '*']]);
+  });
+
+  it('merges the selections of the same dependency into their intersection', () => {
+    expect(mergeDuplicates('dependencies', [['mock.plugin', '1-3'], ['mock.other', '*'], ['xpkg/mock.plugin', '2-4']])).toEqual([['mock.plugin', '2-3'], ['mock.other', '*']]);
+  });
+
+  it('keeps dependencies without versions in common', () => {
+    expect(mergeDuplicates('dependencies', [['mock.plugin', '1'], ['mock.plugin', '2']])).toEqual([['mock.plugin', '1'], ['mock.plugin', '2']]);
+  });
+
+  it('keeps invalid entries', () => {
+    expect(mergeDuplicates('incompatibilities', [['mock.plugin', 'x'], ['mock.plugin', '1']])).toEqual([['mock.plugin', 'x'], ['mock.plugin', '1']]);
+  });
+});
+
+describe('analyzing', () => {
+  it('does not find conflicts in valid lists', () => {
+    expect(analyzeDependencies('mock.aircraft', [['mock.plugin', '1-2']], [['mock.other', '*']])).toEqual([]);
+  });
+
+  it('finds self-references', () => {
+    const conflicts = analyzeDependencies('mock.aircraft', [['xpkg/mock.aircraft', '1']], [['Mock.Aircraft', '*']]);
+    expect(conflicts).toEqual([
+      expect.objectContaining({ list: 'dependencies', packageId: 'mock.aircraft', isError: true }),
+      expect.objectContaining({ list: 'incompatibilities', packageId: 'mock.aircraft', isError: true })
+    ]);
+  });
+
+  it('warns about duplicates', () => {
+    const conflicts = analyzeDependencies('mock.aircraft', [['mock.plugin', '1-3'], ['xpkg/mock.plugin', '2-']], [['mock.other', '1'], ['mock.other', '2']]);
+    expect(conflicts).toEqual([{
+      list: 'dependencies',
+      packageId: 'mock.plugin',
+      isError: false,
+      message: 'mock.plugin is listed 2 times. Its selections will be merged into 2-3.'
+    }, {
+      list: 'incompatibilities',
+      packageId: 'mock.other',
+      isError: false,
+      message: 'mock.other is listed 2 times. Its selections will be merged into 1-2.'
+    }]);
+  });
+
+  it('finds duplicate dependencies without versions in common', () => {
+    const conflicts = analyzeDependencies('mock.aircraft', [['mock.plugin', '1'], ['xpkg/mock.plugin', '2']], [['mock.plugin', '3']]);
+    expect(conflicts).toEqual([expect.objectContaining({ list: 'dependencies', packageId: 'mock.plugin', isError: true })]);
+    expect(conflicts[0].message).toContain('no versions in common');
+  });
+
+  it('finds overlapping selections', () => {
+    const [conflict] = analyzeDependencies('mock.aircraft', [['mock.plugin', '1-3']], [['xpkg/mock.plugin', '2-']]);
+    expect(conflict.isError).toBe(true);
+    expect(conflict.message).toContain('Versions 2-3 of mock.plugin');
+  });
+
+  it('finds dependencies which can never be satisfied', () => {
+    const [conflict] = analyzeDependencies('mock.aircraft', [['mock.plugin', '2']], [['mock.plugin', '1-3']]);
+    expect(conflict.isError).toBe(true);
+    expect(conflict.message).toContain('can never be satisfied');
+  });
+
+  it('finds packages in both lists without overlapping selections', () => {
+    const [conflict] = analyzeDependencies('mock.aircraft', [['mock.plugin', '1']], [['mock.plugin', '2-']]);
+    expect(conflict.isError).toBe(true);
+    expect(conflict.message).toContain('not needed');
+  });
+
+  it('ignores invalid entries', () => {
+    expect(analyzeDependencies('mock.aircraft', [['mock.plugin', 'x']], [['mock.plugin', '*']])).toEqual([]);
+  });
+});
\ No newline at end of file
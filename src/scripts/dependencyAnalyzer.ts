@@ -0,0 +1,206 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * Which list a dependency conflict was found in.
+ * 
+ * @typedef {'dependencies'|'incompatibilities'} PackageListType
+ */
+export type PackageListType = 'dependencies' | 'incompatibilities';
+
+/**
+ * A problem with the dependencies or incompatibilities of a package version.
+ * 
+ * @typedef {Object} DependencyConflict
+ * @property {PackageListType} list The list which the conflict should be shown under.
+ * @property {string} packageId The normalized identifier of the package which the conflict is about.
+ * @property {boolean} isError True if the registry would reject the lists, or false if the conflict is only a warning.
+ * @property {string} message The human-readable explanation of the conflict.
+ */
+export type DependencyConflict = {
+  list: PackageListType;
+  packageId: string;
+  isError: boolean;
+  message: string;
+};
+
+import VersionSelection from './versionSelection';
+import { validateId } from './validators';
+
+/**
+ * The repository which packages without a repository prefix are from.
+ */
+export const DEFAULT_REPOSITORY = 'xpkg';
+
+/**
+ * Normalize a package identifier, so that identifiers which refer to the same package are equal. Removes the default repository prefix, since packages from the default repository can be written with or without it.
+ * 
+ * @param {string} packageId The package identifier to normalize.
+ * @returns {string} The normalized package identifier.
+ */
+export function normalizePackageId(packageId: string): string {
+  packageId = packageId.trim().toLowerCase();
+  if (packageId.startsWith(DEFAULT_REPOSITORY + '/'))
+    packageId = packageId.slice(DEFAULT_REPOSITORY.length + 1);
+  return packageId;
+}
+
+/**
+ * Merge entries of a dependency or incompatibility list which are for the same package, combining their selections. Every dependency must be satisfied, so dependencies are merged into the versions that all of their selections have in common, while incompatibilities are merged into the versions of any of their selections. Entries which are not valid are kept as they are, as are dependencies which have no versions in common with the entries before them.
+ * 
+ * @param {PackageListType} listType The type of the list.
+ * @param {[string, string][]} list The list to merge the entries of.
+ * @returns {[string, string][]} A new list, with at most one entry for each package unless the dependencies of a package have no versions in common. Merged entries take the place of the first entry for the package.
+ */
+export function mergeDuplicates(listType: PackageListType, list: [string, string][]): [string, string][] {
+  const merged: [string, string][] = [];
+  const selections = new Map<string, [number, VersionSelection]>();
+
+  for (const [packageId, selectionStr] of list) {
+    const selection = new VersionSelection(selectionStr);
+    if (!validateId(packageId) || !selection.isValid) {
+      merged.push([packageId, selectionStr]);
+      continue;
+    }
+
+    const normalizedId = normalizePackageId(packageId);
+    const existing = selections.get(normalizedId);
+    if (existing) {
+      const [index, existingSelection] = existing;
+      const combined = combineSelections(listType, existingSelection, selection);
+
+      // The analysis reports dependencies that can't be combined as an error, so they aren't merged into an empty selection
+      if (combined.isEmpty()) {
+        merged.push([packageId, selectionStr]);
+        continue;
+      }
+
+      selections.set(normalizedId, [index, combined]);
+      merged[index] = [merged[index][0], combined.toString()];
+    } else {
+      selections.set(normalizedId, [merged.length, selection]);
+      merged.push([packageId, selectionStr]);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Find every conflict between the dependencies and incompatibilities of a package version. Entries which are not valid are ignored, since the lists already show them as errors.
+ * 
+ * @param {string} packageId The identifier of the package which the lists are for.
+ * @param {[string, string][]} dependencies The dependencies of the version.
+ * @param {[string, string][]} incompatibilities The incompatibilities of the version.
+ * @returns {DependencyConflict[]} Every conflict found, in the order of the lists.
+ */
+export function analyzeDependencies(packageId: string, dependencies: [string, string][], incompatibilities: [string, string][]): DependencyConflict[] {
+  packageId = normalizePackageId(packageId);
+
+  const conflicts: DependencyConflict[] = [];
+  const dependencySelections = groupSelections('dependencies', dependencies, packageId, conflicts);
+  const incompatibilitySelections = groupSelections('incompatibilities', incompatibilities, packageId, conflicts);
+
+  for (const [id, incompatibility] of incompatibilitySelections) {
+    const dependency = dependencySelections.get(id);
+    if (!dependency || dependency.isEmpty())
+      continue;
+
+    const overlap = dependency.intersect(incompatibility);
+    let message: string;
+    if (dependency.isSubsetOf(incompatibility))
+      message = `Every version of ${id} that is depended on (${dependency}) is also incompatible, so the dependency can never be satisfied.`;
+    else if (!overlap.isEmpty())
+      message = `Versions ${overlap} of ${id} are both depended on and incompatible. Publish a new version with a narrower dependency selection instead.`;
+    else
+      message = `${id} can not be both a dependency and an incompatibility. The incompatibility is not needed, since the dependency only allows versions ${dependency}.`;
+
+    conflicts.push({
+      list: 'incompatibilities',
+      packageId: id,
+      isError: true,
+      message
+    });
+  }
+
+  return conflicts;
+}
+
+/**
+ * Group the selections of a list by their normalized package identifiers, finding self-references and duplicates along the way.
+ * 
+ * @param {PackageListType} listType The type of the list.
+ * @param {[string, string][]} list The list to group.
+ * @param {string} packageId The normalized identifier of the package which the list is for.
+ * @param {DependencyConflict[]} conflicts The array to add any conflicts found to.
+ * @returns {Map<string, VersionSelection>} The merged selection of each package in the list, excluding the package itself.
+ */
+function groupSelections(listType: PackageListType, list: [string, string][], packageId: string, conflicts: DependencyConflict[]): Map<string, VersionSelection> {
+  const selections = new Map<string, VersionSelection>();
+  const counts = new Map<string, number>();
+
+  for (const [id, selectionStr] of list) {
+    const selection = new VersionSelection(selectionStr);
+    if (!validateId(id) || !selection.isValid)
+      continue;
+
+    const normalizedId = normalizePackageId(id);
+    counts.set(normalizedId, (counts.get(normalizedId) ?? 0) + 1);
+    if (normalizedId === packageId)
+      continue;
+
+    const existing = selections.get(normalizedId);
+    selections.set(normalizedId, existing ? combineSelections(listType, existing, selection) : selection);
+  }
+
+  for (const [id, count] of counts) {
+    if (id === packageId) {
+      conflicts.push({
+        list: listType,
+        packageId: id,
+        isError: true,
+        message: listType === 'dependencies' ? 'A package can not depend on itself.' : 'A package can not be incompatible with itself.'
+      });
+    } else if (count > 1 && selections.get(id)?.isEmpty()) {
+      conflicts.push({
+        list: listType,
+        packageId: id,
+        isError: true,
+        message: `${id} is listed ${count} times, but its selections have no versions in common, so the dependency can never be satisfied.`
+      });
+    } else if (count > 1) {
+      conflicts.push({
+        list: listType,
+        packageId: id,
+        isError: false,
+        message: `${id} is listed ${count} times. Its selections will be merged into ${selections.get(id)}.`
+      });
+    }
+  }
+
+  return selections;
+}
+
+/**
+ * Combine two selections of the same package from a dependency or incompatibility list.
+ * 
+ * @param {PackageListType} listType The type of the list which the selections are from.
+ * @param {VersionSelection} first The first selection.
+ * @param {VersionSelection} second The second selection.
+ * @returns {VersionSelection} The intersection of the selections if they are dependencies, since both must be satisfied, or their union if they are incompatibilities.
+ */
+function combineSelections(listType: PackageListType, first: VersionSelection, second: VersionSelection): VersionSelection {
+  return listType === 'dependencies' ? first.intersect(second) : first.union(second);
+}
\ No newline at end of file
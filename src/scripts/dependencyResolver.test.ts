@@ -0,0 +1,105 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import { GraphNodeStatus, MemoryPackageSource, resolveDependencyGraph } from './dependencyResolver';
+import { createTestPackage } from './packageTestUtil';
+import Version from './version';
+import VersionSelection from './versionSelection';
+
+function createRoot(dependencies: [string, string][], incompatibilities: [string, string][] = []) {
+  return {
+    packageId: 'root',
+    packageVersion: Version.fromString('1.0.0') as Version,
+    dependencies,
+    incompatibilities
+  };
+}
+
+const source = new MemoryPackageSource([
+  createTestPackage('lib.a', [['1.0.0'], ['1.2.0', [['lib.b', '2.0']]], ['2.0.0']]),
+  createTestPackage('lib.b', [['2.0.0', [['lib.c', '*']]], ['2.1.0b1']]),
+  createTestPackage('lib.c', [['1.0.0', [['lib.a', '1']]]]),
+  createTestPackage('lib.d', [['1.0.0', [], [['lib.a', '1.2']]]]),
+  createTestPackage('lib.deep', [['1.0.0', [['lib.deeper', '*']]]]),
+  createTestPackage('lib.deeper', [['1.0.0', [['lib.deepest', '*']]]]),
+  createTestPackage('lib.deepest', [['1.0.0']])
+]);
+
+describe('resolving', () => {
+  it('resolves to the highest version within each selection', async () => {
+    const graph = await resolveDependencyGraph(createRoot([['lib.a', '1'], ['xpkg/lib.b', '2']]), source, 1);
+    expect(Array.from(graph.nodes.keys())).toEqual(['root@1.0.0', 'lib.a@1.2.0', 'lib.b@2.1.0b1']);
+    expect(graph.nodes.get('lib.a@1.2.0')?.depth).toBe(1);
+  });
+
+  it('marks packages that do not exist', async () => {
+    const graph = await resolveDependencyGraph(createRoot([['lib.missing', '*']]), source);
+    expect(graph.nodes.get('lib.missing')?.status).toBe(GraphNodeStatus.NotFound);
+  });
+
+  it('marks selections that no version satisfies', async () => {
+    const graph = await resolveDependencyGraph(createRoot([['lib.a', '3']]), source);
+    const node = Array.from(graph.nodes.values()).find(n => n.packageId === 'lib.a');
+    expect(node?.status).toBe(GraphNodeStatus.Unsatisfiable);
+    expect(node?.selection).toBe(new VersionSelection('3').toString());
+  });
+
+  it('does not request packages from other repositories', async () => {
+    const graph = await resolveDependencyGraph(createRoot([['other/lib.a', '*']]), source);
+    expect(graph.nodes.get('other/lib.a')?.status).toBe(GraphNodeStatus.External);
+  });
+
+  it('stops expanding at the depth limit', async () => {
+    const graph = await resolveDependencyGraph(createRoot([['lib.deep', '*']]), source, 2);
+    expect(graph.nodes.has('lib.deepest@1.0.0')).toBe(false);
+    expect(graph.nodes.get('lib.deeper@1.0.0')?.isTruncated).toBe(true);
+    expect(graph.nodes.get('lib.deep@1.0.0')?.isTruncated).toBe(false);
+  });
+
+  it('only expands each version once', async () => {
+    const graph = await resolveDependencyGraph(createRoot([['lib.deep', '*'], ['lib.deeper', '*']]), source, 3);
+    expect(graph.edges.filter(e => e.to === 'lib.deepest@1.0.0')).toHaveLength(1);
+    expect(graph.nodes.get('lib.deeper@1.0.0')?.depth).toBe(1);
+  });
+});
+
+describe('cycles', () => {
+  it('marks every edge and node in a cycle', async () => {
+    const graph = await resolveDependencyGraph(createRoot([['lib.a', '1']]), source, 5);
+    const cycleEdges = graph.edges.filter(e => e.isCycle).map(e => `${e.from} -> ${e.to}`);
+    expect(cycleEdges).toEqual(['lib.a@1.2.0 -> lib.b@2.0.0', 'lib.b@2.0.0 -> lib.c@1.0.0', 'lib.c@1.0.0 -> lib.a@1.2.0']);
+    expect(graph.nodes.get('root@1.0.0')?.isInCycle).toBe(false);
+    expect(graph.nodes.get('lib.c@1.0.0')?.isInCycle).toBe(true);
+  });
+});
+
+describe('incompatibilities', () => {
+  it('finds violated incompatibilities between resolved versions', async () => {
+    const graph = await resolveDependencyGraph(createRoot([['lib.a', '1'], ['lib.d', '*']]), source, 1);
+    expect(graph.edges.filter(e => e.type === 'incompatibility')).toEqual([{
+      from: 'lib.d@1.0.0',
+      to: 'lib.a@1.2.0',
+      type: 'incompatibility',
+      selection: '1.2',
+      isCycle: false,
+      isViolated: true
+    }]);
+  });
+
+  it('does not mark incompatibilities outside of their selection as violated', async () => {
+    const graph = await resolveDependencyGraph(createRoot([['lib.a', '2']], [['lib.a', '1']]), source);
+    expect(graph.edges.find(e => e.type === 'incompatibility')?.isViolated).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,395 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A source of public package data to resolve dependencies against.
+ * 
+ * @interface PackageSource
+ */
+export interface PackageSource {
+  getPackage(packageId: string): Promise<PublicPackageData | undefined>;
+}
+
+/**
+ * The package version which a dependency graph starts at.
+ * 
+ * @typedef {Object} GraphRoot
+ * @property {string} packageId The identifier of the package.
+ * @property {string} [packageName] The name of the package.
+ * @property {Version} packageVersion The version of the package.
+ * @property {[string, string][]} dependencies The dependencies of the version.
+ * @property {[string, string][]} incompatibilities The incompatibilities of the version.
+ */
+export type GraphRoot = {
+  packageId: string;
+  packageName?: string;
+  packageVersion: Version;
+  dependencies: [string, string][];
+  incompatibilities: [string, string][];
+};
+
+/**
+ * A single package in a dependency graph.
+ * 
+ * @typedef {Object} GraphNode
+ * @property {string} key The unique key of the node in the graph.
+ * @property {string} packageId The normalized identifier of the package.
+ * @property {string} [packageName] The name of the package, if the package was found.
+ * @property {Version} [packageVersion] The version which the dependency resolved to, only if the node is resolved.
+ * @property {string} [selection] The selection which could not be satisfied, only if the node is unsatisfiable.
+ * @property {GraphNodeStatus} status How the dependency was resolved.
+ * @property {number} depth The least number of dependency edges between the root and this node.
+ * @property {[string, string][]} dependencies The dependencies of the resolved version, or an empty array if the node is not resolved.
+ * @property {[string, string][]} incompatibilities The incompatibilities of the resolved version, or an empty array if the node is not resolved.
+ * @property {boolean} isTruncated True if the node has dependencies which were not resolved because of the depth limit.
+ * @property {boolean} isInCycle True if the node is part of a dependency cycle.
+ */
+export type GraphNode = {
+  key: string;
+  packageId: string;
+  packageName?: string;
+  packageVersion?: Version;
+  selection?: string;
+  status: GraphNodeStatus;
+  depth: number;
+  dependencies: [string, string][];
+  incompatibilities: [string, string][];
+  isTruncated: boolean;
+  isInCycle: boolean;
+};
+
+/**
+ * A directed edge between two nodes in a dependency graph.
+ * 
+ * @typedef {Object} GraphEdge
+ * @property {string} from The key of the node which has the dependency or incompatibility.
+ * @property {string} to The key of the node which is depended on or incompatible.
+ * @property {'dependency'|'incompatibility'} type The type of the edge.
+ * @property {string} selection The version selection of the dependency or incompatibility.
+ * @property {boolean} isCycle True if the edge is part of a dependency cycle. Always false for incompatibility edges.
+ * @property {boolean} isViolated True if the edge is an incompatibility, and the version of the node it points to is within its selection.
+ */
+export type GraphEdge = {
+  from: string;
+  to: string;
+  type: 'dependency' | 'incompatibility';
+  selection: string;
+  isCycle: boolean;
+  isViolated: boolean;
+};
+
+/**
+ * The resolved dependencies of a package version.
+ * 
+ * @typedef {Object} DependencyGraph
+ * @property {string} root The key of the root node.
+ * @property {Map<string, GraphNode>} nodes Every node in the graph, by key, in the order that they were resolved.
+ * @property {GraphEdge[]} edges Every edge in the graph.
+ * @property {number} maxDepth The depth limit that the graph was resolved with.
+ */
+export type DependencyGraph = {
+  root: string;
+  nodes: Map<string, GraphNode>;
+  edges: GraphEdge[];
+  maxDepth: number;
+};
+
+import RegistryClient, { PublicPackageData, registry } from './registryClient';
+import { NotFoundError } from './registryError';
+import { normalizePackageId } from './dependencyAnalyzer';
+import Version from './version';
+import VersionSelection from './versionSelection';
+
+/**
+ * How a dependency in a graph was resolved.
+ */
+export enum GraphNodeStatus {
+  Resolved = 'resolved',
+  NotFound = 'not_found',
+  Unsatisfiable = 'unsatisfiable',
+  External = 'external'
+}
+
+/**
+ * The default depth limit of a dependency graph.
+ */
+export const DEFAULT_GRAPH_DEPTH = 3;
+
+/**
+ * The greatest depth limit of a dependency graph.
+ */
+export const MAX_GRAPH_DEPTH = 8;
+
+/**
+ * Get public package data from the registry, requesting each package at most once.
+ */
+export class RegistryPackageSource implements PackageSource {
+
+  private _client: RegistryClient;
+  private _cache = new Map<string, Promise<PublicPackageData | undefined>>();
+
+  /**
+   * Create a new source which gets packages from the registry.
+   * 
+   * @param {RegistryClient} [client] The client used to make requests.
+   */
+  constructor(client: RegistryClient = registry) {
+    this._client = client;
+  }
+
+  /**
+   * Get the public data of a package.
+   * 
+   * @async
+   * @param {string} packageId The identifier of the package to get.
+   * @returns {Promise<PublicPackageData|undefined>} A promise which resolves to the package data, or undefined if the package does not exist.
+   * @throws {RegistryError} An error is thrown if the request fails for any reason other than the package not existing.
+   */
+  getPackage(packageId: string): Promise<PublicPackageData | undefined> {
+    let data = this._cache.get(packageId);
+    if (!data) {
+      data = this._client.getPublicPackage(packageId).catch(e => {
+        if (e instanceof NotFoundError)
+          return void 0;
+
+        // Don't keep failures around, so that the package can be requested again
+        this._cache.delete(packageId);
+        throw e;
+      });
+      this._cache.set(packageId, data);
+    }
+    return data;
+  }
+}
+
+/**
+ * Get public package data from memory, for resolving dependencies without the registry.
+ */
+export class MemoryPackageSource implements PackageSource {
+
+  private _packages: Map<string, PublicPackageData>;
+
+  /**
+   * Create a new source from a list of packages.
+   * 
+   * @param {PublicPackageData[]} packages Every package that the source has.
+   */
+  constructor(packages: PublicPackageData[]) {
+    this._packages = new Map(packages.map(p => [p.packageId, p]));
+  }
+
+  async getPackage(packageId: string): Promise<PublicPackageData | undefined> {
+    return this._packages.get(packageId);
+  }
+}
+
+/**
+ * Resolve the dependencies of a package version, and the dependencies of those dependencies, to the highest version of each package which satisfies its selection. Each resolved version is only expanded once, even if it is depended on multiple times.
+ * 
+ * @async
+ * @param {GraphRoot} root The package version to resolve the dependencies of.
+ * @param {PackageSource} source Where to get the data of dependencies from.
+ * @param {number} [maxDepth] The greatest number of dependency edges between the root and any node. Nodes at this depth are not expanded.
+ * @returns {Promise<DependencyGraph>} A promise which resolves to the graph of dependencies.
+ * @throws {RegistryError} An error is thrown if any package could not be retrieved from the source.
+ */
+export async function resolveDependencyGraph(root: GraphRoot, source: PackageSource, maxDepth = DEFAULT_GRAPH_DEPTH): Promise<DependencyGraph> {
+  const rootId = normalizePackageId(root.packageId);
+  const rootNode = createNode(`${rootId}@${root.packageVersion}`, rootId, GraphNodeStatus.Resolved, {
+    packageName: root.packageName,
+    packageVersion: root.packageVersion,
+    dependencies: root.dependencies,
+    incompatibilities: root.incompatibilities
+  });
+
+  const nodes = new Map([[rootNode.key, rootNode]]);
+  const edges: GraphEdge[] = [];
+
+  // Resolve one level at a time, so that every node gets the least depth that it can be reached at
+  let level = [rootNode];
+  while (level.length) {
+    const expandable = level.filter(node => node.dependencies.length);
+    for (const node of expandable)
+      node.isTruncated = node.depth >= maxDepth;
+
+    const resolved = await Promise.all(expandable
+      .filter(node => !node.isTruncated)
+      .map(async node => [node, await Promise.all(node.dependencies.map(([id, selection]) => resolveSelection(id, selection, source)))] as const));
+
+    const nextLevel: GraphNode[] = [];
+    for (const [node, targets] of resolved) {
+      targets.forEach((target, i) => {
+        if (!nodes.has(target.key)) {
+          target.depth = node.depth + 1;
+          nodes.set(target.key, target);
+          if (target.status === GraphNodeStatus.Resolved)
+            nextLevel.push(target);
+        }
+
+        edges.push({
+          from: node.key,
+          to: target.key,
+          type: 'dependency',
+          selection: node.dependencies[i][1],
+          isCycle: false,
+          isViolated: false
+        });
+      });
+    }
+    level = nextLevel;
+  }
+
+  markCycles(nodes, edges);
+  edges.push(...findIncompatibilityEdges(nodes));
+
+  return {
+    root: rootNode.key,
+    nodes,
+    edges,
+    maxDepth
+  };
+}
+
+/**
+ * Resolve a single dependency to a node.
+ * 
+ * @async
+ * @param {string} packageId The identifier of the package depended on.
+ * @param {string} selectionStr The version selection of the dependency.
+ * @param {PackageSource} source Where to get the data of the package from.
+ * @returns {Promise<GraphNode>} A promise which resolves to a new node for the dependency, with a depth of zero.
+ */
+async function resolveSelection(packageId: string, selectionStr: string, source: PackageSource): Promise<GraphNode> {
+  packageId = normalizePackageId(packageId);
+
+  // Only packages from the default repository are on this registry
+  if (packageId.includes('/'))
+    return createNode(packageId, packageId, GraphNodeStatus.External);
+
+  const data = await source.getPackage(packageId);
+  if (!data)
+    return createNode(packageId, packageId, GraphNodeStatus.NotFound);
+
+  const selection = new VersionSelection(selectionStr);
+  const best = selection.isValid ? data.versions
+    .filter(v => selection.containsVersion(v.packageVersion))
+    .reduce<typeof data.versions[number] | undefined>((best, v) => !best || v.packageVersion.compare(best.packageVersion) > 0 ? v : best, void 0) : void 0;
+
+  if (!best) {
+    const normalizedSelection = selection.isValid ? selection.toString() : selectionStr;
+    return createNode(`${packageId}@${normalizedSelection}`, packageId, GraphNodeStatus.Unsatisfiable, {
+      packageName: data.packageName,
+      selection: normalizedSelection
+    });
+  }
+
+  return createNode(`${packageId}@${best.packageVersion}`, packageId, GraphNodeStatus.Resolved, {
+    packageName: data.packageName,
+    packageVersion: best.packageVersion,
+    dependencies: best.dependencies,
+    incompatibilities: best.incompatibilities
+  });
+}
+
+/**
+ * Create a new node with a depth of zero.
+ * 
+ * @param {string} key The key of the node.
+ * @param {string} packageId The normalized identifier of the package.
+ * @param {GraphNodeStatus} status How the dependency was resolved.
+ * @param {Partial<GraphNode>} [values] Any other values of the node which are not the defaults.
+ * @returns {GraphNode} The new node.
+ */
+function createNode(key: string, packageId: string, status: GraphNodeStatus, values?: Partial<GraphNode>): GraphNode {
+  return {
+    key,
+    packageId,
+    status,
+    depth: 0,
+    dependencies: [],
+    incompatibilities: [],
+    isTruncated: false,
+    isInCycle: false,
+    ...values
+  };
+}
+
+/**
+ * Mark every dependency edge and node which is part of a cycle. An edge is part of a cycle if the node it starts at can be reached from the node it ends at.
+ * 
+ * @param {Map<string, GraphNode>} nodes Every node in the graph.
+ * @param {GraphEdge[]} edges Every dependency edge in the graph.
+ */
+function markCycles(nodes: Map<string, GraphNode>, edges: GraphEdge[]): void {
+  const adjacent = new Map<string, string[]>();
+  for (const edge of edges)
+    adjacent.set(edge.from, [...adjacent.get(edge.from) ?? [], edge.to]);
+
+  const canReach = (start: string, target: string): boolean => {
+    const visited = new Set<string>();
+    const stack = [start];
+    while (stack.length) {
+      const key = stack.pop() as string;
+      if (key === target)
+        return true;
+      if (visited.has(key))
+        continue;
+      visited.add(key);
+      stack.push(...adjacent.get(key) ?? []);
+    }
+    return false;
+  };
+
+  for (const edge of edges) {
+    edge.isCycle = canReach(edge.to, edge.from);
+    if (edge.isCycle) {
+      (nodes.get(edge.from) as GraphNode).isInCycle = true;
+      (nodes.get(edge.to) as GraphNode).isInCycle = true;
+    }
+  }
+}
+
+/**
+ * Find every incompatibility between resolved nodes in the graph. Incompatibilities with packages that are not in the graph are not included.
+ * 
+ * @param {Map<string, GraphNode>} nodes Every node in the graph.
+ * @returns {GraphEdge[]} An incompatibility edge for every resolved node of a package which another resolved node is incompatible with.
+ */
+function findIncompatibilityEdges(nodes: Map<string, GraphNode>): GraphEdge[] {
+  const resolvedNodes = Array.from(nodes.values()).filter(node => node.status === GraphNodeStatus.Resolved);
+  const edges: GraphEdge[] = [];
+
+  for (const node of resolvedNodes) {
+    for (const [id, selectionStr] of node.incompatibilities) {
+      const packageId = normalizePackageId(id);
+      const selection = new VersionSelection(selectionStr);
+      for (const target of resolvedNodes) {
+        if (target.packageId !== packageId || target === node)
+          continue;
+
+        edges.push({
+          from: node.key,
+          to: target.key,
+          type: 'incompatibility',
+          selection: selectionStr,
+          isCycle: false,
+          isViolated: selection.isValid && selection.containsVersion(target.packageVersion as Version)
+        });
+      }
+    }
+  }
+
+  return edges;
+}
\ No newline at end of file
@@ -34,4 +34,22 @@ export function getBestUnits(size: number): string {
   if (size > kib) 
     return `${Math.round(size * 10 / kib) / 10} KiB`;
   return `${size} B`;
+}
+
+/**
+ * Format a duration as hours, minutes, and seconds, only showing the two largest units.
+ * 
+ * @param {number} seconds The duration in seconds.
+ * @returns {string} The formatted duration, such as "1 h 5 min" or "42 s".
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(Math.round(seconds), 0);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor(total % 3600 / 60);
+
+  if (hours)
+    return `${hours} h ${minutes} min`;
+  if (minutes)
+    return `${minutes} min ${total % 60} s`;
+  return `${total} s`;
 }
\ No newline at end of file
@@ -0,0 +1,46 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import { createRegistryError, RegistryEndpoint } from './errorCatalog';
+import RegistryError, { AuthError, ConflictError, NetworkError, NotFoundError, RateLimitError, ServerError, ValidationError } from './registryError';
+
+describe('errors', () => {
+  it.each([
+    [RegistryEndpoint.AccountData, 0, 'network_error', NetworkError, 'Could not connect to the registry. Please try again later.'],
+    [RegistryEndpoint.Upload, 400, 'version_exists', ValidationError, 'The version provided already exists.'],
+    [RegistryEndpoint.Upload, 400, 'new_code', ValidationError, 'An unknown error occured [new_code].'],
+    [RegistryEndpoint.ChangeName, 406, 'recent_change', ValidationError, 'You changed your username within the last 30 days.'],
+    [RegistryEndpoint.Verify, 418, 'captcha', ValidationError, 'Invalid reCAPTCHA.'],
+    [RegistryEndpoint.Login, 401, 'Unauthorized', AuthError, 'Invalid email and/or password.'],
+    [RegistryEndpoint.Upload, 403, 'not_owner', AuthError, 'You do not own this package.'],
+    [RegistryEndpoint.AllPackages, 403, 'forbidden', AuthError, 'You do not have permission to do that.'],
+    [RegistryEndpoint.Package, 404, 'no_package', NotFoundError, 'Package does not exist.'],
+    [RegistryEndpoint.AllPackages, 409, 'conflict', ConflictError, 'Unable to uniquely identify user. Please use a different browser, log in again, or try again later.'],
+    [RegistryEndpoint.AllPackages, 429, 'too_many_requests', RateLimitError, 'You are doing that too much. Wait a few seconds, and then try again later.'],
+    [RegistryEndpoint.AllPackages, 503, 'unavailable', ServerError, 'Internal server error. Please try again later.'],
+    [RegistryEndpoint.AllPackages, 302, 'found', RegistryError, 'An unknown error occured.']
+  ])('maps %s %i %s', (endpoint, status, code, errorClass, message) => {
+    const error = createRegistryError(endpoint, status, code);
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error.constructor).toBe(errorClass);
+    expect(error.status).toBe(status);
+    expect(error.code).toBe(code);
+    expect(error.userMessage).toBe(message);
+  });
+
+  it.each(['invalid_or_empty_str', 'no_file', 'invalid_id_or_repo', 'version_not_exist', 'cant_retry', 'version_exists', 'invalid_chunk_size'])('has a message for the upload session code %s', code => {
+    expect(createRegistryError(RegistryEndpoint.UploadSession, 400, code).userMessage).not.toContain('unknown');
+  });
+});
\ No newline at end of file
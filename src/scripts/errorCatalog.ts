@@ -0,0 +1,284 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * Enumeration of all registry endpoints that the portal uses.
+ * 
+ * @name RegistryEndpoint
+ * @enum {string}
+ */
+export enum RegistryEndpoint {
+  Login = 'login',
+  CreateAccount = 'create_account',
+  Verify = 'verify',
+  AccountData = 'account_data',
+  ChangeName = 'change_name',
+  Reverify = 'reverify',
+  AllPackages = 'all_packages',
+  Package = 'package',
+  PackageVersion = 'package_version',
+  PublicPackage = 'public_package',
+  NewPackage = 'new_package',
+  Description = 'description',
+  Upload = 'upload',
+  Retry = 'retry',
+  XpSelection = 'xp_selection',
+  Incompatibilities = 'incompatibilities',
+  PrivateKey = 'private_key',
+  Analytics = 'analytics',
+  ProcessingLog = 'processing_log',
+  UploadSession = 'upload_session',
+  UploadChunk = 'upload_chunk',
+  CompleteUpload = 'complete_upload',
+  StatusEvents = 'status_events'
+}
+
+/**
+ * The messages of a single endpoint for each status code. A string is used for every code of that status, otherwise the message is looked up by the code that the registry sent.
+ * 
+ * @typedef {Object<number, string|Object<string, string>>} EndpointMessages
+ */
+type EndpointMessages = Partial<Record<number, string | Record<string, string>>>;
+
+import RegistryError, { AuthError, ConflictError, NetworkError, NotFoundError, RateLimitError, ServerError, ValidationError } from './registryError';
+
+/**
+ * The code that the registry responds with to requests for endpoints that it does not have, as opposed to resources that do not exist.
+ */
+export const UNKNOWN_ENDPOINT_CODE = 'not_found';
+
+const UNKNOWN_ERROR = 'An unknown error occured.';
+
+// Used when an endpoint does not have a message for the status
+const DEFAULT_MESSAGES: Record<number, string> = {
+  0: 'Could not connect to the registry. Please try again later.',
+  400: 'Bad request.',
+  401: 'You are not logged in.',
+  403: 'You do not have permission to do that.',
+  404: 'Not found.',
+  409: 'Unable to uniquely identify user. Please use a different browser, log in again, or try again later.',
+  418: 'Ensure you have filled out the captcha.',
+  429: 'You are doing that too much. Wait a few seconds, and then try again later.',
+  500: 'Internal server error. Please try again later.'
+};
+
+// Creating an upload session validates the same data as a single upload
+const UPLOAD_VALIDATION_MESSAGES: Record<string, string> = {
+  missing_form_data: 'Missing form data.',
+  no_version: 'A version must be provided.',
+  long_version: 'The version provided is too long.',
+  invalid_version: 'The version provided is invalid.',
+  version_exists: 'The version provided already exists.',
+  plat_supp: 'You are required to support at least one platform.'
+};
+
+// Creating an upload session to re-upload a version validates the same data as a retry
+const RETRY_VALIDATION_MESSAGES: Record<string, string> = {
+  invalid_or_empty_str: 'Invalid or empty string.',
+  no_file: 'File not provided.',
+  invalid_id_or_repo: 'Bad identifier, or wrong repository.',
+  invalid_version: 'Invalid version format.',
+  version_not_exist: 'The package does not contain the provided version.',
+  cant_retry: 'You can not re-upload this package version.'
+};
+
+const CATALOG: Record<RegistryEndpoint, EndpointMessages> = {
+  [RegistryEndpoint.Login]: {
+    401: 'Invalid email and/or password.',
+    409: 'Unable, suspicious activity.'
+  },
+  [RegistryEndpoint.CreateAccount]: {
+    403: {
+      email: 'Email already in use.',
+      name: 'Name already in use.'
+    },
+    409: 'Unable, suspicious activity.'
+  },
+  [RegistryEndpoint.Verify]: {
+    400: 'Invalid reCAPTCHA.',
+    401: 'Token is invalid or expired.',
+    403: 'You have already been verified.',
+    409: 'Unable to identify request.',
+    418: 'Invalid reCAPTCHA.'
+  },
+  [RegistryEndpoint.AccountData]: {},
+  [RegistryEndpoint.ChangeName]: {
+    400: 'Invalid username.',
+    406: 'You changed your username within the last 30 days.'
+  },
+  [RegistryEndpoint.Reverify]: {
+    400: 'You have already verified your account.'
+  },
+  [RegistryEndpoint.AllPackages]: {},
+  [RegistryEndpoint.Package]: {
+    404: 'Package does not exist.'
+  },
+  [RegistryEndpoint.PackageVersion]: {
+    400: 'Invalid package identifier or version provided.',
+    404: 'Package version not found.'
+  },
+  [RegistryEndpoint.PublicPackage]: {
+    404: 'Package does not exist.'
+  },
+  [RegistryEndpoint.NewPackage]: {
+    400: {
+      missing_form_data: 'Missing form data.',
+      short_id: 'Package identifier is too short.',
+      long_id: 'Package identifier is too long.',
+      invalid_id: 'Package identifier uses invalid characters.',
+      short_name: 'Package name is too short.',
+      long_name: 'Package name is too long.',
+      short_desc: 'Description is too short.',
+      long_desc: 'Description is too long.',
+      profane_id: 'Do not use profanity in package identifier (contact support if you believe this is in error).',
+      profane_name: 'Do not use profanity in package name (contact support if you believe this is in error).',
+      profane_desc: 'Do not use profanity in description (contact support if you believe this is in error).',
+      id_in_use: 'Package identifier already in use.',
+      name_in_use: 'Package name already in use.'
+    }
+  },
+  [RegistryEndpoint.Description]: {
+    400: {
+      no_desc: 'No description.',
+      no_id: 'No package identifier.',
+      invalid_type: 'Invalid data type.',
+      short_desc: 'Description too short.',
+      long_desc: 'Description too long.'
+    },
+    403: 'You do not own this package.'
+  },
+  [RegistryEndpoint.Upload]: {
+    400: UPLOAD_VALIDATION_MESSAGES,
+    403: 'You do not own this package.'
+  },
+  [RegistryEndpoint.Retry]: {
+    400: RETRY_VALIDATION_MESSAGES
+  },
+  [RegistryEndpoint.XpSelection]: {
+    400: {
+      invalid_or_empty_str: 'Invalid or empty string.',
+      invalid_id_or_repo: 'Bad identifier, or wrong repository.',
+      invalid_selection: 'X-Plane selection provided is invalid.',
+      bad_sel_len: 'X-Plane version selection provided is too long.',
+      invalid_version: 'The version of this package being modified is invalid.'
+    }
+  },
+  [RegistryEndpoint.Incompatibilities]: {
+    400: {
+      invalid_or_empty_str: 'Invalid or empty string.',
+      too_many_incompatibilities: 'Incompatibility list too long.',
+      invalid_id_or_repo: 'Bad identifier, or wrong repository.',
+      invalid_version: 'The version of this package being modified is invalid.',
+      bad_inc_arr: 'Too many incompatibilities provided.',
+      bad_inc_tuple: 'Incompatibility list has an invalid tuple.',
+      invalid_inc_tuple_types: 'Incompatibility list has a tuple that does not contain only strings.',
+      invalid_inc_tuple_id: 'Incompatibility list contains an invalid package identifier.',
+      dep_or_self_inc: 'Incompatibility list contains an declared incompatibility on itself, or a dependency.',
+      invalid_inc_sel: 'Incompatibility has an invalid selection.'
+    }
+  },
+  [RegistryEndpoint.PrivateKey]: {
+    400: {
+      invalid_or_empty_str: 'Invalid or empty string.',
+      invalid_id_or_repo: 'Bad identifier, or wrong repository.',
+      invalid_version: 'The version of this package being modified is invalid.',
+      version_public: 'Public versions do not have a private key.'
+    }
+  },
+  [RegistryEndpoint.Analytics]: {
+    404: 'Package version not found.'
+  },
+  [RegistryEndpoint.ProcessingLog]: {
+    404: {
+      no_version: 'Package version not found.',
+      no_log: 'The processing log of this version is no longer available.'
+    }
+  },
+  [RegistryEndpoint.UploadSession]: {
+    400: {
+      ...RETRY_VALIDATION_MESSAGES,
+      ...UPLOAD_VALIDATION_MESSAGES,
+      invalid_size: 'The file is too large.',
+      invalid_chunk_size: 'The upload part size is invalid.'
+    },
+    403: 'You do not own this package.',
+    404: 'The upload could not be found, it may have expired.'
+  },
+  [RegistryEndpoint.UploadChunk]: {
+    400: {
+      invalid_index: 'The upload part is out of range.',
+      invalid_chunk: 'The upload part is the wrong size.'
+    },
+    404: 'The upload could not be found, it may have expired.'
+  },
+  [RegistryEndpoint.CompleteUpload]: {
+    400: {
+      missing_chunks: 'Not all parts of the file were uploaded.'
+    },
+    404: 'The upload could not be found, it may have expired.'
+  },
+  [RegistryEndpoint.StatusEvents]: {}
+};
+
+/**
+ * Get the human-readable message for an error returned by the registry.
+ * 
+ * @param {RegistryEndpoint} endpoint The endpoint that returned the error.
+ * @param {number} status The status code of the response, or zero if the registry could not be reached.
+ * @param {string} code The machine-readable code from the registry.
+ * @returns {string} The human-readable message of the error.
+ */
+export function getErrorMessage(endpoint: RegistryEndpoint, status: number, code: string): string {
+  const messages = CATALOG[endpoint][status];
+  if (typeof messages === 'string')
+    return messages;
+  else if (messages)
+    return messages[code] ?? `An unknown error occured [${code}].`;
+
+  return DEFAULT_MESSAGES[status] ?? (status >= 500 ? DEFAULT_MESSAGES[500] : UNKNOWN_ERROR);
+}
+
+/**
+ * Create the error for a response from the registry, choosing the error class by the status code.
+ * 
+ * @param {RegistryEndpoint} endpoint The endpoint that returned the error.
+ * @param {number} status The status code of the response, or zero if the registry could not be reached.
+ * @param {string} code The machine-readable code from the registry.
+ * @returns {RegistryError} The error for the response.
+ */
+export function createRegistryError(endpoint: RegistryEndpoint, status: number, code: string): RegistryError {
+  const userMessage = getErrorMessage(endpoint, status, code);
+  switch (status) {
+  case 0:
+    return new NetworkError(status, code, userMessage);
+  case 400:
+  case 406:
+  case 418:
+    return new ValidationError(status, code, userMessage);
+  case 401:
+  case 403:
+    return new AuthError(status, code, userMessage);
+  case 404:
+    return new NotFoundError(status, code, userMessage);
+  case 409:
+    return new ConflictError(status, code, userMessage);
+  case 429:
+    return new RateLimitError(status, code, userMessage);
+  default:
+    if (status >= 500)
+      return new ServerError(status, code, userMessage);
+    return new RegistryError(status, code, userMessage);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,87 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A callback which is executed as a file is hashed.
+ * 
+ * @callback HashProgressCallback
+ * @param {number} progress The progress of the hash, a number from 0 to 1, where 0 is 0% and 1 is 100%.
+ */
+export type HashProgressCallback = (progress: number) => void;
+
+import { HashWorkerMessage } from './hash.worker';
+
+/**
+ * Compute the SHA-256 hash of a file in a Web Worker, so that large files don't block the page.
+ * 
+ * @async
+ * @param {Blob} file The file to hash.
+ * @param {HashProgressCallback} [onProgress] The callback to execute as the file is hashed.
+ * @param {AbortSignal} [signal] The signal which stops hashing the file, and stops the worker.
+ * @returns {Promise<string>} A promise which resolves to the lowercase hexadecimal hash of the file.
+ * @throws {Error} An error is thrown if the file could not be read, or if Web Workers are not supported. An error named AbortError is thrown if the signal stops hashing the file.
+ */
+export function hashFile(file: Blob, onProgress?: HashProgressCallback, signal?: AbortSignal): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted)
+      return reject(new DOMException('Hashing the file was canceled.', 'AbortError'));
+
+    const worker = new Worker(new URL('./hash.worker.ts', import.meta.url));
+    const onAbort = () => {
+      worker.terminate();
+      reject(new DOMException('Hashing the file was canceled.', 'AbortError'));
+    };
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (e: MessageEvent<HashWorkerMessage>) => {
+      const message = e.data;
+      switch (message.type) {
+      case 'progress':
+        onProgress?.(message.progress);
+        break;
+      case 'done':
+        finish();
+        resolve(message.hash);
+        break;
+      case 'error':
+        finish();
+        reject(new Error(message.error));
+        break;
+      }
+    };
+
+    worker.onerror = e => {
+      finish();
+      reject(new Error(e.message));
+    };
+
+    worker.postMessage(file);
+  });
+}
+
+/**
+ * Check if two hexadecimal hashes are the same, ignoring case.
+ * 
+ * @param {string} a The first hash.
+ * @param {string} b The second hash.
+ * @returns {boolean} True if the hashes are the same.
+ */
+export function hashesMatch(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
\ No newline at end of file
@@ -0,0 +1,196 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A file within a folder that was selected.
+ * 
+ * @typedef {Object} FolderFile
+ * @property {string} path The path of the file relative to the folder, separated with forward slashes.
+ * @property {File} file The file.
+ */
+export type FolderFile = {
+  path: string;
+  file: File;
+};
+
+/**
+ * A folder that was selected or dropped, and every file within it.
+ * 
+ * @typedef {Object} SelectedFolder
+ * @property {string} name The name of the folder.
+ * @property {FolderFile[]} files Every file in the folder and its subfolders. Empty folders are not included.
+ */
+export type SelectedFolder = {
+  name: string;
+  files: FolderFile[];
+};
+
+// The parts of the File System Access API that we use, which TypeScript does not have types for yet
+type DirectoryHandle = {
+  kind: 'directory';
+  name: string;
+  values(): AsyncIterable<DirectoryHandle | FileHandle>;
+};
+type FileHandle = {
+  kind: 'file';
+  name: string;
+  getFile(): Promise<File>;
+};
+type FileSystemAccessWindow = {
+  showDirectoryPicker?: (options?: { mode?: 'read'; }) => Promise<DirectoryHandle>;
+};
+type FileSystemAccessItem = {
+  getAsFileSystemHandle?: () => Promise<DirectoryHandle | FileHandle | null>;
+};
+
+/**
+ * Check if the browser can open a folder picker using the File System Access API. If it can't, a file input with the {@code webkitdirectory} attribute should be used instead.
+ * 
+ * @returns {boolean} True if {@link pickFolder} is supported.
+ */
+export function canPickFolder(): boolean {
+  return typeof (window as FileSystemAccessWindow).showDirectoryPicker === 'function';
+}
+
+/**
+ * Ask the user to choose a folder using the File System Access API.
+ * 
+ * @async
+ * @returns {Promise<SelectedFolder|undefined>} A promise which resolves to the folder, or undefined if the user did not choose one.
+ * @throws {Error} An error is thrown if the File System Access API is not supported, or if the folder could not be read.
+ */
+export async function pickFolder(): Promise<SelectedFolder | undefined> {
+  const showDirectoryPicker = (window as FileSystemAccessWindow).showDirectoryPicker;
+  if (!showDirectoryPicker)
+    throw new Error('Folders can not be chosen in this browser');
+
+  let handle: DirectoryHandle;
+  try {
+    handle = await showDirectoryPicker({ mode: 'read' });
+  } catch (e) {
+    if (e instanceof DOMException && e.name === 'AbortError')
+      return;
+    throw e;
+  }
+
+  return {
+    name: handle.name,
+    files: await readDirectoryHandle(handle, '')
+  };
+}
+
+/**
+ * Read the folder from the files of a file input with the {@code webkitdirectory} attribute.
+ * 
+ * @param {FileList|File[]} files The files of the input.
+ * @returns {SelectedFolder|undefined} The folder, or undefined if no files were selected.
+ */
+export function readFolderInput(files: FileList | File[]): SelectedFolder | undefined {
+  const folderFiles: FolderFile[] = [];
+  let name: string | undefined;
+
+  for (const file of Array.from(files)) {
+    const [folderName, ...path] = (file.webkitRelativePath || file.name).split('/');
+    name ??= folderName;
+    if (path.length)
+      folderFiles.push({ path: path.join('/'), file });
+  }
+
+  return name === void 0 ? void 0 : { name, files: folderFiles };
+}
+
+/**
+ * Read a folder that was dropped, using the File System Access API if it is supported, or the File and Directory Entries API if it is not. This function must be called before the drop event handler returns, since the items can not be accessed afterwards.
+ * 
+ * @async
+ * @param {DataTransferItemList} items The items of the drop event.
+ * @returns {Promise<SelectedFolder|undefined>} A promise which resolves to the first folder that was dropped, or undefined if no folder was dropped.
+ * @throws {Error} An error is thrown if the folder could not be read.
+ */
+export async function readDroppedFolder(items: DataTransferItemList): Promise<SelectedFolder | undefined> {
+  const fileItems = Array.from(items).filter(item => item.kind === 'file');
+
+  // Both of these have to be requested synchronously, before anything is awaited
+  const handlePromises = fileItems.map(item => (item as FileSystemAccessItem).getAsFileSystemHandle?.());
+  const entries = fileItems.map(item => item.webkitGetAsEntry());
+
+  for (let i = 0; i < fileItems.length; ++i) {
+    const handle = await handlePromises[i]?.catch(() => null);
+    if (handle?.kind === 'directory') {
+      return {
+        name: handle.name,
+        files: await readDirectoryHandle(handle, '')
+      };
+    }
+
+    const entry = entries[i];
+    if (!handle && entry?.isDirectory) {
+      return {
+        name: entry.name,
+        files: await readDirectoryEntry(entry as FileSystemDirectoryEntry, '')
+      };
+    }
+  }
+}
+
+/**
+ * Recursively read every file in a directory using the File System Access API.
+ * 
+ * @async
+ * @param {DirectoryHandle} handle The directory to read.
+ * @param {string} prefix The path of the directory relative to the selected folder, ending with a slash, or an empty string for the selected folder.
+ * @returns {Promise<FolderFile[]>} A promise which resolves to every file within the directory.
+ */
+async function readDirectoryHandle(handle: DirectoryHandle, prefix: string): Promise<FolderFile[]> {
+  const files: FolderFile[] = [];
+  for await (const child of handle.values()) {
+    const path = prefix + child.name;
+    if (child.kind === 'directory')
+      files.push(...await readDirectoryHandle(child, path + '/'));
+    else
+      files.push({ path, file: await child.getFile() });
+  }
+  return files;
+}
+
+/**
+ * Recursively read every file in a directory using the File and Directory Entries API.
+ * 
+ * @async
+ * @param {FileSystemDirectoryEntry} directory The directory to read.
+ * @param {string} prefix The path of the directory relative to the selected folder, ending with a slash, or an empty string for the selected folder.
+ * @returns {Promise<FolderFile[]>} A promise which resolves to every file within the directory.
+ */
+async function readDirectoryEntry(directory: FileSystemDirectoryEntry, prefix: string): Promise<FolderFile[]> {
+  const reader = directory.createReader();
+  const files: FolderFile[] = [];
+
+  // Each call only returns some of the entries, so keep reading until no more are returned
+  let entries: FileSystemEntry[];
+  do {
+    entries = await new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+    for (const entry of entries) {
+      const path = prefix + entry.name;
+      if (entry.isDirectory)
+        files.push(...await readDirectoryEntry(entry as FileSystemDirectoryEntry, path + '/'));
+      else {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        files.push({ path, file });
+      }
+    }
+  } while (entries.length);
+
+  return files;
+}
\ No newline at end of file
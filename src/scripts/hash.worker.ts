@@ -0,0 +1,70 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A message sent from the hash worker.
+ * 
+ * @typedef {Object} HashWorkerMessage
+ * @property {'progress'|'done'|'error'} type The type of the message.
+ * @property {number} [progress] The progress of the hash, a number from 0 to 1, if the type is {@code 'progress'}.
+ * @property {string} [hash] The hexadecimal hash of the file, if the type is {@code 'done'}.
+ * @property {string} [error] The message of the error, if the type is {@code 'error'}.
+ */
+export type HashWorkerMessage = {
+  type: 'progress';
+  progress: number;
+} | {
+  type: 'done';
+  hash: string;
+} | {
+  type: 'error';
+  error: string;
+};
+
+import Sha256 from './sha256';
+
+// Large enough to be fast, small enough to not hold much of the file in memory
+const READ_SIZE = 4 * 1024 * 1024;
+
+// The global scope of a worker is not a window, which is what TypeScript thinks it is
+const ctx = globalThis as unknown as {
+  onmessage: (e: MessageEvent<Blob>) => void;
+  postMessage: (message: HashWorkerMessage) => void;
+};
+
+ctx.onmessage = async e => {
+  const file = e.data;
+  const hash = new Sha256();
+
+  try {
+    for (let offset = 0; offset < file.size; offset += READ_SIZE) {
+      hash.update(new Uint8Array(await file.slice(offset, offset + READ_SIZE).arrayBuffer()));
+      ctx.postMessage({
+        type: 'progress',
+        progress: Math.min(offset + READ_SIZE, file.size) / file.size
+      });
+    }
+
+    ctx.postMessage({
+      type: 'done',
+      hash: hash.digest()
+    });
+  } catch (err) {
+    ctx.postMessage({
+      type: 'error',
+      error: err instanceof Error ? err.message : String(err)
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,185 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import { AxiosAdapter, AxiosRequestConfig, AxiosResponse, CanceledError } from 'axios';
+import { request, requestWithRetry, saveBlob } from './http';
+import RegistryClient from './registryClient';
+import { ServerError } from './registryError';
+
+// Respond with each status in order, repeating the last status once there are no more
+function createAdapter(statuses: number[], headers: Record<string, string> = {}): jest.Mock<Promise<AxiosResponse>> & AxiosAdapter {
+  let i = 0;
+  return jest.fn(async config => ({
+    data: 'body',
+    status: statuses[Math.min(i++, statuses.length - 1)],
+    statusText: '',
+    headers,
+    config,
+    request: {}
+  }));
+}
+
+function createConfig(adapter: AxiosAdapter, signal?: AbortSignal): AxiosRequestConfig {
+  return {
+    url: 'http://mock.registry/account/data',
+    method: 'GET',
+    adapter,
+    signal
+  };
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('requests', () => {
+  it('resolves with responses of every status without parsing the body', async () => {
+    const response = await request(createConfig(createAdapter([404])));
+    expect(response.status).toBe(404);
+    expect(response.data).toBe('body');
+  });
+});
+
+describe('retrying', () => {
+  it('retries until the response has a status that is not retried', async () => {
+    const adapter = createAdapter([503, 429, 200]);
+    const onWait = jest.fn();
+    const response = await requestWithRetry(createConfig(adapter), { baseDelay: 0, onWait });
+
+    expect(response.status).toBe(200);
+    expect(adapter).toHaveBeenCalledTimes(3);
+    expect(onWait.mock.calls.map(([, attempt, status]) => [attempt, status])).toEqual([[1, 503], [2, 429]]);
+  });
+
+  it('does not retry statuses that are not in the policy', async () => {
+    const adapter = createAdapter([409]);
+    const response = await requestWithRetry(createConfig(adapter), { baseDelay: 0 });
+    expect(response.status).toBe(409);
+    expect(adapter).toHaveBeenCalledTimes(1);
+  });
+
+  it('resolves with the last response once the retries are exhausted', async () => {
+    const adapter = createAdapter([500]);
+    const response = await requestWithRetry(createConfig(adapter), { baseDelay: 0, retries: 2 });
+    expect(response.status).toBe(500);
+    expect(adapter).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries requests which receive no response', async () => {
+    let calls = 0;
+    const adapter: AxiosAdapter = async config => {
+      if (!calls++)
+        throw new Error('Network Error');
+      return { data: '', status: 200, statusText: '', headers: {}, config, request: {} };
+    };
+    const response = await requestWithRetry(createConfig(adapter), { baseDelay: 0 });
+    expect(response.status).toBe(200);
+    expect(calls).toBe(2);
+  });
+});
+
+describe('backoff', () => {
+  it('doubles the delay up to the maximum', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    const onWait = jest.fn();
+    await requestWithRetry(createConfig(createAdapter([503])), { baseDelay: 1, maxDelay: 3, retries: 3, onWait });
+    expect(onWait.mock.calls.map(([delay]) => delay)).toEqual([1, 2, 3]);
+  });
+
+  it('jitters the delay between zero and the backoff', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    const onWait = jest.fn();
+    await requestWithRetry(createConfig(createAdapter([503, 200])), { baseDelay: 4, onWait });
+    expect(onWait).toHaveBeenCalledWith(2, 1, 503);
+  });
+});
+
+describe('Retry-After', () => {
+
+  // Cancel as soon as the first wait starts, so that the test doesn't wait for the delay
+  async function getFirstDelay(retryAfter: string): Promise<number> {
+    const abortController = new AbortController();
+    const onWait = jest.fn<void, [number, number, number]>(() => abortController.abort());
+    const request = requestWithRetry(createConfig(createAdapter([429], { 'retry-after': retryAfter }), abortController.signal), { onWait });
+    await expect(request).rejects.toBeInstanceOf(CanceledError);
+    return onWait.mock.calls[0][0];
+  }
+
+  it('waits for a number of seconds', async () => {
+    expect(await getFirstDelay('2')).toBe(2000);
+  });
+
+  it('waits until an HTTP date', async () => {
+    const delay = await getFirstDelay(new Date(Date.now() + 5000).toUTCString());
+    expect(delay).toBeGreaterThan(3000);
+    expect(delay).toBeLessThanOrEqual(5000);
+  });
+
+  it('does not wait for dates in the past', async () => {
+    expect(await getFirstDelay(new Date(Date.now() - 5000).toUTCString())).toBe(0);
+  });
+
+  it('uses the backoff if the header is invalid', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    expect(await getFirstDelay('soon')).toBe(500);
+  });
+});
+
+describe('cancellation', () => {
+  it('stops waiting and does not retry once canceled', async () => {
+    const adapter = createAdapter([503]);
+    const abortController = new AbortController();
+    const onWait = jest.fn<void, [number, number, number]>(() => abortController.abort());
+
+    await expect(requestWithRetry(createConfig(adapter, abortController.signal), { maxDelay: 60000, baseDelay: 60000, onWait })).rejects.toBeInstanceOf(CanceledError);
+    expect(adapter).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('registry requests', () => {
+  it('only retries idempotent requests', async () => {
+    const adapter = createAdapter([503]);
+    const client = new RegistryClient({ registryUrl: 'http://mock.registry', getToken: () => 'token', adapter });
+
+    await expect(client.updateDescription('mock.package', 'A description.')).rejects.toBeInstanceOf(ServerError);
+    expect(adapter).toHaveBeenCalledTimes(1);
+
+    await expect(client.getAuthorData({ baseDelay: 0, retries: 2 })).rejects.toBeInstanceOf(ServerError);
+    expect(adapter).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('saving', () => {
+  it('saves a blob with a file name and revokes its URL afterwards', () => {
+    jest.useFakeTimers();
+
+    // jsdom does not implement object URLs
+    URL.createObjectURL = jest.fn(() => 'blob:mock');
+    URL.revokeObjectURL = jest.fn();
+    const createElement = jest.spyOn(document, 'createElement');
+    const dispatchEvent = jest.spyOn(HTMLAnchorElement.prototype, 'dispatchEvent').mockReturnValue(true);
+
+    saveBlob(new Blob(['contents']), 'file.txt');
+    const link = createElement.mock.results[0].value as HTMLAnchorElement;
+    expect(dispatchEvent.mock.calls[0][0].type).toBe('click');
+    expect(link.download).toBe('file.txt');
+    expect(link.href).toBe('blob:mock');
+    expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+
+    jest.runAllTimers();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:mock');
+    jest.useRealTimers();
+  });
+});
\ No newline at end of file
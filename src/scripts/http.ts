@@ -13,51 +13,124 @@
  * either express or implied limitations under the License.
  */
 
-import HTTPMethod from 'http-method-enum';
+/**
+ * A callback which is executed before waiting to retry a request.
+ * 
+ * @callback RetryWaitCallback
+ * @param {number} delay The time in milliseconds until the request is retried.
+ * @param {number} attempt The retry that will be made once the wait is over, starting at 1.
+ * @param {number} status The status code of the response which caused the retry, or zero if no response was received.
+ */
+export type RetryWaitCallback = (delay: number, attempt: number, status: number) => void;
 
 /**
- * Make an HTTP post request asynchronously, executing a callback after completion.
+ * The policy that determines how and when a request is retried.
  * 
- * @param {string} url The URL to make the request to.
- * @param {HTTPMethod} method The http method to use.
- * @param {string} [authorization=] The token to send in the authorization, null if no token.
- * @param {Record<string, string>} body The body of the request as on object to send as key/value pairs.
- * @param {(err: ProgressEvent | undefined, response: XMLHttpRequest | undefined) => void} cb The callback to execute after the operation completes.
+ * @typedef {Object} RetryPolicy
+ * @property {number} retries The maximum number of times to retry the request after the first attempt.
+ * @property {number} baseDelay The delay in milliseconds before the first retry, which is doubled for each subsequent retry.
+ * @property {number} maxDelay The maximum delay in milliseconds between retries, if the server does not send a Retry-After header.
+ * @property {number[]} retryStatuses The status codes which cause the request to be retried. Requests which receive no response are always retried.
+ * @property {RetryWaitCallback} [onWait] The callback to execute before waiting to retry.
+ */
+export type RetryPolicy = {
+  retries: number;
+  baseDelay: number;
+  maxDelay: number;
+  retryStatuses: number[];
+  onWait?: RetryWaitCallback;
+};
+
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+
+/**
+ * The retry policy used for any values not provided to {@link requestWithRetry}.
  */
-export function httpRequest(url: string, method: HTTPMethod, authorization: string | undefined, body: Record<string, unknown>, cb: (err: ProgressEvent | undefined, response: XMLHttpRequest | undefined) => void): void;
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelay: 500,
+  maxDelay: 10000,
+  retryStatuses: [429, 500, 502, 503, 504]
+};
 
 /**
- * Make an HTTP post request asynchronously, returning a promise. 
+ * Make an HTTP request, resolving with the response regardless of its status code. The body of the response is never parsed, and is always the raw text sent by the server.
  * 
- * @param {string} url The URL to make the request to.
- * @param {'PUT'|'PATCH'|'POST'|'GET'|'DELETE'} method The http method
- * @param {string} [authorization=] The token to send in the authorization, null if no token.
- * @param {Record<string, string>} body The body of the request as on object to send as key/value pairs.
- * @return {Promise<XMLHttpRequest>} The request after it completes, or errors.
+ * @async
+ * @param {AxiosRequestConfig} config The configuration of the request to make.
+ * @returns {Promise<AxiosResponse<string>>} A promise which resolves to the response once the request completes.
+ * @throws {AxiosError} An error is thrown if the request could not be made, or if no response was received.
  */
-export function httpRequest(url: string, method: HTTPMethod, authorization: string | undefined, body: Record<string, unknown>): Promise<XMLHttpRequest>;
-
-export function httpRequest(url: string, method: HTTPMethod, authorization: string | undefined, body: Record<string, unknown>, cb?: (err: ProgressEvent | undefined, response: XMLHttpRequest | undefined) => void): Promise<XMLHttpRequest> | void
-{
-  if (cb) {
-    const xhttp = new XMLHttpRequest();
-    xhttp.onload = function () {
-      cb(void (0), this);
-    };
-    xhttp.onerror = ev => cb(ev, undefined);
-    xhttp.open(method, url, true);
-    if (authorization)
-      xhttp.setRequestHeader('Authorization', authorization);
-    xhttp.setRequestHeader('Content-Type', 'application/json');
-    xhttp.send(JSON.stringify(body));
-  } else 
-    return new Promise((resolve, reject) => {
-      httpRequest(url, method, authorization, body, (err, res) => {
-        if (err)
-          return reject(err);
-        resolve(res as XMLHttpRequest);
-      });
+export function request(config: AxiosRequestConfig): Promise<AxiosResponse<string>> {
+  return axios({
+    ...config,
+    responseType: 'text',
+    transformResponse: data => data,
+    validateStatus: () => true
+  });
+}
+
+/**
+ * Make an HTTP request, retrying it if no response is received, or if the status code of the response is one that should be retried. Should only be used for idempotent requests. Waits between attempts use jittered exponential backoff, unless the server sends a Retry-After header, which is always honored. Requests canceled with the signal of the configuration are never retried.
+ * 
+ * @async
+ * @param {AxiosRequestConfig} config The configuration of the request to make.
+ * @param {Partial<RetryPolicy>} [policy] The retry policy of the request. Values that are not provided default to the values in {@link DEFAULT_RETRY_POLICY}.
+ * @returns {Promise<AxiosResponse<string>>} A promise which resolves to the response of the last attempt.
+ * @throws {AxiosError} An error is thrown if no response was received on the last attempt.
+ * @throws {CanceledError} An error is thrown if the request is canceled, including while waiting to retry.
+ */
+export async function requestWithRetry(config: AxiosRequestConfig, policy: Partial<RetryPolicy> = {}): Promise<AxiosResponse<string>> {
+  const { retries, baseDelay, maxDelay, retryStatuses, onWait } = { ...DEFAULT_RETRY_POLICY, ...policy };
+
+  for (let attempt = 0; ; ++attempt) {
+    let response: AxiosResponse<string> | undefined;
+    try {
+      response = await request(config);
+    } catch (e) {
+      if (attempt >= retries || axios.isCancel(e))
+        throw e;
+    }
+
+    if (response && (attempt >= retries || !retryStatuses.includes(response.status)))
+      return response;
+
+    const backoff = Math.random() * Math.min(maxDelay, baseDelay * 2 ** attempt);
+    const delay = parseRetryAfter(response?.headers['retry-after']) ?? backoff;
+    onWait?.(delay, attempt + 1, response?.status ?? 0);
+
+    // Stop waiting as soon as the request is canceled, the next attempt then fails immediately
+    const signal = config.signal;
+    await new Promise<void>(resolve => {
+      const done = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener?.('abort', done);
+        resolve();
+      };
+      const timeout = setTimeout(done, delay);
+      signal?.addEventListener?.('abort', done);
+
+      // The abort event is only dispatched once, so it may have already been missed
+      if (signal?.aborted)
+        done();
     });
+  }
+}
+
+/**
+ * Save a blob to the local machine.
+ * 
+ * @param {Blob} blob The blob to save.
+ * @param {string} fileName The name of the file to save as.
+ */
+export function saveBlob(blob: Blob, fileName: string) {
+  const a = document.createElement('a');
+  a.href = window.URL.createObjectURL(blob);
+  a.download = fileName;
+  a.dispatchEvent(new MouseEvent('click'));
+
+  // The download starts from the click, so the URL is only needed until then
+  setTimeout(() => window.URL.revokeObjectURL(a.href));
 }
 
 /**
@@ -86,7 +159,7 @@ export function downloadFile(url: string, fileName: string) {
  * @param {Record<string, string>} obj The object to encode.
  * @returns {string} The object URI encoded.
  */
-function encodeURIObject(obj: Record<string, string>): string {
+export function encodeURIObject(obj: Record<string, string>): string {
   let retStr = '';
   for (const [k, v] of Object.entries(obj))
     retStr += encodeURIComponent(k) + '=' + encodeURIComponent(v) + '&';
@@ -94,14 +167,20 @@ function encodeURIObject(obj: Record<string, string>): string {
 }
 
 /**
- * Save an XHR blob to the local machine.
+ * Parse the value of a Retry-After header, which is either a number of seconds, or an HTTP date.
  * 
- * @param {Blob} blob The blob to save.
- * @param {string} fileName The name of the file to save as.
+ * @param {unknown} header The value of the header, if it was sent.
+ * @returns {number|undefined} The time in milliseconds to wait, or undefined if the header was not sent or is invalid.
  */
-function saveBlob(blob: Blob, fileName: string) {
-  const a = document.createElement('a');
-  a.href = window.URL.createObjectURL(blob);
-  a.download = fileName;
-  a.dispatchEvent(new MouseEvent('click'));
+function parseRetryAfter(header: unknown): number | undefined {
+  if (typeof header !== 'string' || !header.trim())
+    return;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds))
+    return Math.max(seconds * 1000, 0);
+
+  const date = Date.parse(header);
+  if (!isNaN(date))
+    return Math.max(date - Date.now(), 0);
 }
\ No newline at end of file
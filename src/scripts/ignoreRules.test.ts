@@ -0,0 +1,74 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import { DEFAULT_IGNORE_PATTERNS, filterIgnored, isIgnored, parseIgnoreRules } from './ignoreRules';
+
+const defaultRules = parseIgnoreRules(DEFAULT_IGNORE_PATTERNS.join('\n'));
+
+describe('parsing', () => {
+  it('skips blank lines and comments', () => {
+    const rules = parseIgnoreRules('\n# A comment\n  *.log  \n\\#notes');
+    expect(rules.map(r => r.pattern)).toEqual(['*.log', '\\#notes']);
+  });
+
+  it('parses negated and directory only patterns', () => {
+    const [rule] = parseIgnoreRules('!build/');
+    expect(rule.isNegated).toBe(true);
+    expect(rule.isDirectoryOnly).toBe(true);
+  });
+});
+
+describe('matching', () => {
+  it('matches names without slashes at any depth', () => {
+    expect(isIgnored('.DS_Store', false, defaultRules)).toBe(true);
+    expect(isIgnored('plugins/mac/.DS_Store', false, defaultRules)).toBe(true);
+    expect(isIgnored('plugins/mac/._icon.png', false, defaultRules)).toBe(true);
+    expect(isIgnored('plugins/mac/icon.png', false, defaultRules)).toBe(false);
+  });
+
+  it('matches patterns with slashes from the root', () => {
+    const rules = parseIgnoreRules('/docs\nsrc/*.c');
+    expect(isIgnored('docs', true, rules)).toBe(true);
+    expect(isIgnored('plugins/docs', true, rules)).toBe(false);
+    expect(isIgnored('src/main.c', false, rules)).toBe(true);
+    expect(isIgnored('src/lib/main.c', false, rules)).toBe(false);
+  });
+
+  it('matches any number of directories with double asterisks', () => {
+    const rules = parseIgnoreRules('src/**/*.c');
+    expect(isIgnored('src/main.c', false, rules)).toBe(true);
+    expect(isIgnored('src/lib/util/main.c', false, rules)).toBe(true);
+  });
+
+  it('only matches directories with directory only patterns', () => {
+    expect(isIgnored('__MACOSX', true, defaultRules)).toBe(true);
+    expect(isIgnored('__MACOSX', false, defaultRules)).toBe(false);
+  });
+
+  it('uses the last matching rule', () => {
+    const rules = parseIgnoreRules('*.txt\n!readme.txt');
+    expect(isIgnored('notes.txt', false, rules)).toBe(true);
+    expect(isIgnored('docs/readme.txt', false, rules)).toBe(false);
+  });
+});
+
+describe('filtering', () => {
+  it('ignores every file in an ignored directory', () => {
+    const rules = parseIgnoreRules([...DEFAULT_IGNORE_PATTERNS, '!.git/config'].join('\n'));
+    const { kept, ignored } = filterIgnored(['plane.acf', '.git/config', '.git/objects/ab/cd', '__MACOSX/plane.acf', 'liveries/.DS_Store'], rules);
+    expect(kept).toEqual(['plane.acf']);
+    expect(ignored).toEqual(['.git/config', '.git/objects/ab/cd', '__MACOSX/plane.acf', 'liveries/.DS_Store']);
+  });
+});
\ No newline at end of file
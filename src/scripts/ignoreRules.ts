@@ -0,0 +1,185 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A single parsed line of an ignore file.
+ * 
+ * @typedef {Object} IgnoreRule
+ * @property {string} pattern The line that the rule was parsed from.
+ * @property {RegExp} regex The expression which matches the paths that the pattern matches.
+ * @property {boolean} isNegated True if the pattern starts with an exclamation point, which includes paths that an earlier rule ignored.
+ * @property {boolean} isDirectoryOnly True if the pattern ends with a slash, so that it only matches directories.
+ */
+export type IgnoreRule = {
+  pattern: string;
+  regex: RegExp;
+  isNegated: boolean;
+  isDirectoryOnly: boolean;
+};
+
+/**
+ * The patterns which are always ignored when zipping a folder. These are files created by operating systems and version control, which the registry rejects or which are never needed in a package.
+ */
+export const DEFAULT_IGNORE_PATTERNS = [
+  '.DS_Store',
+  '._*',
+  '__MACOSX/',
+  'Thumbs.db',
+  'desktop.ini',
+  '.git/',
+  '.svn/'
+];
+
+/**
+ * Parse the lines of an ignore file, using the same syntax as a .gitignore file. Blank lines and lines starting with a number sign are skipped. Patterns without a slash (other than a trailing slash) match a name at any depth, and other patterns are matched from the root of the folder.
+ * 
+ * @param {string} text The text of the ignore file, with one pattern on each line.
+ * @returns {IgnoreRule[]} The rules of every pattern, in the same order as the lines.
+ */
+export function parseIgnoreRules(text: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    let pattern = line.trim();
+    if (!pattern || pattern.startsWith('#'))
+      continue;
+
+    const isNegated = pattern.startsWith('!');
+    if (isNegated)
+      pattern = pattern.slice(1);
+    else if (pattern.startsWith('\\!') || pattern.startsWith('\\#'))
+      pattern = pattern.slice(1);
+
+    const isDirectoryOnly = pattern.endsWith('/');
+    if (isDirectoryOnly)
+      pattern = pattern.slice(0, -1);
+
+    const isAnchored = pattern.includes('/');
+    if (pattern.startsWith('/'))
+      pattern = pattern.slice(1);
+    if (!pattern)
+      continue;
+
+    rules.push({
+      pattern: line.trim(),
+      regex: new RegExp((isAnchored ? '^' : '(?:^|/)') + globToRegex(pattern) + '$'),
+      isNegated,
+      isDirectoryOnly
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Check if a single path is ignored by a list of rules, without checking its parent directories. The last rule which matches the path decides if it is ignored.
+ * 
+ * @param {string} path The path relative to the root of the folder, separated with forward slashes.
+ * @param {boolean} isDirectory True if the path is a directory.
+ * @param {IgnoreRule[]} rules The rules to check.
+ * @returns {boolean} True if the path is ignored.
+ */
+export function isIgnored(path: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.isDirectoryOnly && !isDirectory)
+      continue;
+    if (rule.regex.test(path))
+      ignored = !rule.isNegated;
+  }
+  return ignored;
+}
+
+/**
+ * Split the paths of files into the files which are kept, and the files which are ignored. A file is ignored if it is matched by the rules, or if any directory that contains it is. Like git, files in an ignored directory can not be included again by a negated pattern.
+ * 
+ * @param {string[]} paths The paths of every file, relative to the root of the folder, separated with forward slashes.
+ * @param {IgnoreRule[]} rules The rules to check.
+ * @returns {{kept: string[], ignored: string[]}} The paths which are kept and ignored, in the same order as the given paths.
+ */
+export function filterIgnored(paths: string[], rules: IgnoreRule[]): { kept: string[]; ignored: string[]; } {
+  const directoryCache = new Map<string, boolean>();
+  const isDirectoryIgnored = (directory: string): boolean => {
+    let ignored = directoryCache.get(directory);
+    if (ignored === void 0) {
+      const slash = directory.lastIndexOf('/');
+      ignored = (slash > 0 && isDirectoryIgnored(directory.slice(0, slash))) || isIgnored(directory, true, rules);
+      directoryCache.set(directory, ignored);
+    }
+    return ignored;
+  };
+
+  const kept: string[] = [];
+  const ignored: string[] = [];
+  for (const path of paths) {
+    const slash = path.lastIndexOf('/');
+    if ((slash > 0 && isDirectoryIgnored(path.slice(0, slash))) || isIgnored(path, false, rules))
+      ignored.push(path);
+    else
+      kept.push(path);
+  }
+  return { kept, ignored };
+}
+
+/**
+ * Convert a glob pattern into the source of a regular expression. Single asterisks and question marks do not match slashes, while double asterisks match any number of directories.
+ * 
+ * @param {string} glob The glob pattern, without any leading or trailing slash.
+ * @returns {string} The source of the regular expression, without anchors.
+ */
+function globToRegex(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; ++i) {
+    const char = glob[i];
+
+    if (char === '*' && glob[i + 1] === '*') {
+      const isWholeSegment = (i === 0 || glob[i - 1] === '/') && (i + 2 === glob.length || glob[i + 2] === '/');
+      if (!isWholeSegment)
+        source += '[^/]*';
+      else if (i + 2 === glob.length)
+        source += '.*';
+      else {
+        source += '(?:.*/)?';
+        ++i;
+      }
+      ++i;
+    } else if (char === '*')
+      source += '[^/]*';
+    else if (char === '?')
+      source += '[^/]';
+    else if (char === '[' && glob.indexOf(']', i + 2) > 0) {
+      const end = glob.indexOf(']', i + 2);
+      let set = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+      if (set.startsWith('!'))
+        set = '^' + set.slice(1);
+      source += `[${set}]`;
+      i = end;
+    } else if (char === '\\' && i + 1 < glob.length)
+      source += escapeRegex(glob[++i]);
+    else
+      source += escapeRegex(char);
+  }
+  return source;
+}
+
+/**
+ * Escape a character so that it is matched literally in a regular expression.
+ * 
+ * @param {string} char The character to escape.
+ * @returns {string} The escaped character.
+ */
+function escapeRegex(char: string): string {
+  return char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
\ No newline at end of file
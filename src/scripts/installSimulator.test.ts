@@ -0,0 +1,82 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import { MemoryPackageSource } from './dependencyResolver';
+import { InstallPlan, simulateInstall } from './installSimulator';
+import { createTestPackage } from './packageTestUtil';
+import Version from './version';
+
+const XP_12 = Version.fromString('12.0.0') as Version;
+
+const source = new MemoryPackageSource([
+  createTestPackage('lib.a', [['1.0.0'], ['1.1.0', [['lib.b', '1']]], ['2.0.0', [], [], { xpSelection: '12.1-12.999.999' }]]),
+  createTestPackage('lib.b', [['1.0.0'], ['1.1.0', [], [], { platforms: { linux: false } }], ['2.0.0']]),
+  createTestPackage('lib.c', [['1.0.0', [], [['lib.b', '1.0']]]]),
+  createTestPackage('lib.d', [['1.0.0', [['lib.b', '2']]]]),
+  createTestPackage('lib.e', [['1.0.0', [['lib.a', '1']]], ['2.0.0', [['lib.a', '2']]]])
+]);
+
+function versions(plan: InstallPlan): string[] {
+  return plan.packages.map(p => `${p.packageId}@${p.packageVersion}`);
+}
+
+describe('solving', () => {
+  it('chooses the highest version which supports the X-Plane version and platform', async () => {
+    const plan = await simulateInstall([['lib.a', '*']], XP_12, 'linux', source);
+    expect(plan.isSolved).toBe(true);
+    expect(versions(plan)).toEqual(['lib.a@1.1.0', 'lib.b@1.0.0']);
+    expect(plan.packages[1].requiredBy).toEqual(['lib.a@1.1.0']);
+    expect(plan.problems).toEqual([
+      'lib.a@2.0.0 does not support X-Plane 12.0.0 (it supports 12.1-12).',
+      'lib.b@1.1.0 does not support Linux.'
+    ]);
+  });
+
+  it('backtracks when a version leads to a dead end', async () => {
+    const plan = await simulateInstall([['lib.e', '*'], ['xpkg/lib.a', '*']], XP_12, 'windows', source);
+    expect(versions(plan)).toEqual(['lib.e@1.0.0', 'lib.a@1.1.0', 'lib.b@1.1.0']);
+  });
+
+  it('accounts for incompatibilities in both directions', async () => {
+    const plan = await simulateInstall([['lib.b', '1'], ['lib.c', '*']], XP_12, 'macOS', source);
+    expect(versions(plan)).toEqual(['lib.b@1.1.0', 'lib.c@1.0.0']);
+
+    const reversed = await simulateInstall([['lib.c', '*'], ['lib.b', '1.0']], XP_12, 'macOS', source);
+    expect(reversed.isSolved).toBe(false);
+    expect(reversed.problems).toContain('lib.c@1.0.0 is incompatible with lib.b@1.0.0 (1.0).');
+  });
+});
+
+describe('explaining', () => {
+  it('explains packages that do not exist', async () => {
+    const plan = await simulateInstall([['lib.missing', '*']], XP_12, 'macOS', source);
+    expect(plan).toEqual({
+      isSolved: false,
+      packages: [],
+      problems: ['lib.missing does not exist (required by requested).']
+    });
+  });
+
+  it('explains selections that no version matches', async () => {
+    const plan = await simulateInstall([['lib.a', '3']], XP_12, 'macOS', source);
+    expect(plan.problems).toEqual(['No version of lib.a matches 3 (required by requested).']);
+  });
+
+  it('explains selections that conflict with each other', async () => {
+    const plan = await simulateInstall([['lib.d', '*'], ['lib.b', '1']], XP_12, 'macOS', source);
+    expect(plan.isSolved).toBe(false);
+    expect(plan.problems).toEqual(['No version of lib.b matches every selection of it (1 by requested, 2 by lib.d@1.0.0).']);
+  });
+});
\ No newline at end of file
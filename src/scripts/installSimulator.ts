@@ -0,0 +1,263 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A platform that a package version can support.
+ * 
+ * @typedef {'macOS'|'windows'|'linux'} Platform
+ */
+export type Platform = keyof PublicVersionData['platforms'];
+
+/**
+ * A package version which would be installed.
+ * 
+ * @typedef {Object} PlannedPackage
+ * @property {string} packageId The normalized identifier of the package.
+ * @property {string} packageName The name of the package.
+ * @property {Version} packageVersion The version which would be installed.
+ * @property {string[]} requiredBy What caused the package to be installed, either "requested", or the identifier and version of a package which depends on it.
+ */
+export type PlannedPackage = {
+  packageId: string;
+  packageName: string;
+  packageVersion: Version;
+  requiredBy: string[];
+};
+
+/**
+ * The result of simulating an installation.
+ * 
+ * @typedef {Object} InstallPlan
+ * @property {boolean} isSolved True if a version was found for every package.
+ * @property {PlannedPackage[]} packages The versions which would be installed, in the order that they were chosen. Empty if there is no solution.
+ * @property {string[]} problems Every reason that a version was skipped while searching, which explains why there is no solution if there is none.
+ */
+export type InstallPlan = {
+  isSolved: boolean;
+  packages: PlannedPackage[];
+  problems: string[];
+};
+
+import { PackageSource } from './dependencyResolver';
+import { normalizePackageId } from './dependencyAnalyzer';
+import { PublicPackageData, PublicVersionData } from './registryClient';
+import Version from './version';
+import VersionSelection from './versionSelection';
+
+/**
+ * The most versions that are tried before giving up on finding a solution.
+ */
+export const MAX_SOLVER_STEPS = 5000;
+
+/**
+ * The human-readable name of each platform.
+ */
+export const PLATFORM_NAMES: Record<Platform, string> = {
+  macOS: 'macOS',
+  windows: 'Windows',
+  linux: 'Linux'
+};
+
+// A selection of a package, and what selected it
+type Requirement = {
+  by: string;
+  selectionStr: string;
+  selection: VersionSelection;
+};
+
+type ChosenVersion = {
+  data: PublicPackageData;
+  version: PublicVersionData;
+};
+
+// Each step of the search copies its state, so that backtracking doesn't need to undo anything
+type SolverState = {
+  chosen: Map<string, ChosenVersion>;
+  requirements: Map<string, Requirement[]>;
+};
+
+type SolverContext = {
+  source: PackageSource;
+  xpVersion: Version;
+  platform: Platform;
+  steps: number;
+  problems: Set<string>;
+};
+
+/**
+ * Find the versions that would be installed for a set of requested packages. Each package is resolved to the highest version which satisfies every selection of it, supports the X-Plane version and platform, and is not incompatible with any other version chosen. If a version leads to a dead end, the next highest version is tried.
+ * 
+ * @async
+ * @param {[string, string][]} requested The packages to install, as tuples of package identifiers and selection strings.
+ * @param {Version} xpVersion The version of X-Plane to install for.
+ * @param {Platform} platform The platform to install for.
+ * @param {PackageSource} source Where to get the data of packages from.
+ * @returns {Promise<InstallPlan>} A promise which resolves to the versions that would be installed, or why there are none.
+ * @throws {RegistryError} An error is thrown if any package could not be retrieved from the source.
+ */
+export async function simulateInstall(requested: [string, string][], xpVersion: Version, platform: Platform, source: PackageSource): Promise<InstallPlan> {
+  const state: SolverState = {
+    chosen: new Map(),
+    requirements: new Map()
+  };
+  for (const [packageId, selectionStr] of requested)
+    addRequirement(state.requirements, normalizePackageId(packageId), 'requested', selectionStr);
+
+  const context: SolverContext = {
+    source,
+    xpVersion,
+    platform,
+    steps: 0,
+    problems: new Set()
+  };
+  const solution = await solve(state, context);
+
+  return {
+    isSolved: !!solution,
+    packages: solution ? Array.from(solution.chosen.entries()).map(([packageId, { data, version }]) => ({
+      packageId,
+      packageName: data.packageName,
+      packageVersion: version.packageVersion,
+      requiredBy: (solution.requirements.get(packageId) as Requirement[]).map(r => r.by)
+    })) : [],
+    problems: Array.from(context.problems)
+  };
+}
+
+/**
+ * Choose a version for the next package which has requirements but no version, and then recursively for every package after it.
+ * 
+ * @async
+ * @param {SolverState} state The versions chosen so far, and the requirements of every package.
+ * @param {SolverContext} context The options of the search, and the problems found so far.
+ * @returns {Promise<SolverState|undefined>} A promise which resolves to the state once every package has a version, or undefined if there is no solution from this state.
+ */
+async function solve(state: SolverState, context: SolverContext): Promise<SolverState | undefined> {
+  const packageId = Array.from(state.requirements.keys()).find(id => !state.chosen.has(id));
+  if (!packageId)
+    return state;
+
+  const requirements = state.requirements.get(packageId) as Requirement[];
+  const requiredBy = requirements.map(r => r.by).join(', ');
+
+  if (packageId.includes('/')) {
+    context.problems.add(`${packageId} is from another repository, and can not be resolved (required by ${requiredBy}).`);
+    return;
+  }
+
+  const invalid = requirements.find(r => !r.selection.isValid);
+  if (invalid) {
+    context.problems.add(`${invalid.selectionStr} is not a valid selection of ${packageId} (required by ${invalid.by}).`);
+    return;
+  }
+
+  const data = await context.source.getPackage(packageId);
+  if (!data) {
+    context.problems.add(`${packageId} does not exist (required by ${requiredBy}).`);
+    return;
+  }
+
+  const selection = requirements.reduce((selection, r) => selection.intersect(r.selection), new VersionSelection('*'));
+  const candidates = data.versions
+    .filter(v => selection.containsVersion(v.packageVersion))
+    .sort((a, b) => b.packageVersion.compare(a.packageVersion));
+
+  if (!candidates.length) {
+    if (requirements.length === 1)
+      context.problems.add(`No version of ${packageId} matches ${requirements[0].selectionStr} (required by ${requiredBy}).`);
+    else
+      context.problems.add(`No version of ${packageId} matches every selection of it (${requirements.map(r => `${r.selectionStr} by ${r.by}`).join(', ')}).`);
+    return;
+  }
+
+  for (const version of candidates) {
+    if (++context.steps > MAX_SOLVER_STEPS) {
+      context.problems.add(`Gave up after trying ${MAX_SOLVER_STEPS} versions.`);
+      return;
+    }
+
+    const problem = checkCandidate(state, context, packageId, version);
+    if (problem) {
+      context.problems.add(problem);
+      continue;
+    }
+
+    const label = `${packageId}@${version.packageVersion}`;
+    const nextState: SolverState = {
+      chosen: new Map(state.chosen).set(packageId, { data, version }),
+      requirements: new Map(state.requirements)
+    };
+    for (const [dependencyId, selectionStr] of version.dependencies)
+      addRequirement(nextState.requirements, normalizePackageId(dependencyId), label, selectionStr);
+
+    const solution = await solve(nextState, context);
+    if (solution || context.steps > MAX_SOLVER_STEPS)
+      return solution;
+  }
+}
+
+/**
+ * Check if a version of a package can be chosen, given the versions already chosen.
+ * 
+ * @param {SolverState} state The versions chosen so far.
+ * @param {SolverContext} context The options of the search.
+ * @param {string} packageId The normalized identifier of the package.
+ * @param {PublicVersionData} version The version to check.
+ * @returns {string|undefined} Why the version can not be chosen, or undefined if it can be.
+ */
+function checkCandidate(state: SolverState, context: SolverContext, packageId: string, version: PublicVersionData): string | undefined {
+  const label = `${packageId}@${version.packageVersion}`;
+
+  if (!version.xpSelection.containsVersion(context.xpVersion))
+    return `${label} does not support X-Plane ${context.xpVersion} (it supports ${version.xpSelection}).`;
+
+  if (!version.platforms[context.platform])
+    return `${label} does not support ${PLATFORM_NAMES[context.platform]}.`;
+
+  for (const [chosenId, { version: chosenVersion }] of state.chosen) {
+    const chosenLabel = `${chosenId}@${chosenVersion.packageVersion}`;
+
+    for (const [id, selectionStr] of version.incompatibilities) {
+      if (normalizePackageId(id) === chosenId && new VersionSelection(selectionStr).containsVersion(chosenVersion.packageVersion))
+        return `${label} is incompatible with ${chosenLabel} (${selectionStr}).`;
+    }
+
+    for (const [id, selectionStr] of chosenVersion.incompatibilities) {
+      if (normalizePackageId(id) === packageId && new VersionSelection(selectionStr).containsVersion(version.packageVersion))
+        return `${chosenLabel} is incompatible with ${label} (${selectionStr}).`;
+    }
+
+    for (const [id, selectionStr] of version.dependencies) {
+      if (normalizePackageId(id) === chosenId && !new VersionSelection(selectionStr).containsVersion(chosenVersion.packageVersion))
+        return `${label} depends on ${chosenId} ${selectionStr}, but ${chosenLabel} was already chosen.`;
+    }
+  }
+}
+
+/**
+ * Add a requirement of a package, without modifying the requirements of any other state.
+ * 
+ * @param {Map<string, Requirement[]>} requirements The requirements to add to.
+ * @param {string} packageId The normalized identifier of the package which is required.
+ * @param {string} by What requires the package.
+ * @param {string} selectionStr The selection of the package which is required.
+ */
+function addRequirement(requirements: Map<string, Requirement[]>, packageId: string, by: string, selectionStr: string): void {
+  requirements.set(packageId, [...requirements.get(packageId) ?? [], {
+    by,
+    selectionStr,
+    selection: new VersionSelection(selectionStr)
+  }]);
+}
\ No newline at end of file
@@ -0,0 +1,50 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import { createInstallLink, createInstallationFile, parseInstallLink } from './installationFile';
+
+describe('installation files', () => {
+  it('creates files for public versions', () => {
+    expect(createInstallationFile({ packageId: 'mock.aircraft', packageVersion: '1.0.0' })).toBe('>>>>mock.aircraft>1.0.0>!');
+  });
+
+  it('creates files for private versions', () => {
+    expect(createInstallationFile({ packageId: 'mock.aircraft', packageVersion: '1.0.1', privateKey: 'ABC123' })).toBe('>>>>mock.aircraft>1.0.1>ABC123');
+  });
+});
+
+describe('install links', () => {
+  it('reads the data that the link was created with', () => {
+    const data = { packageId: 'mock.aircraft', packageVersion: '1.0.1b2', privateKey: 'ABC123' };
+    const link = new URL(createInstallLink(data));
+    expect(link.pathname).toBe('/install');
+    expect(parseInstallLink(link.search)).toEqual(data);
+  });
+
+  it('does not require a private key', () => {
+    expect(parseInstallLink('?packageId=mock.aircraft&packageVersion=1.0.0')).toEqual({
+      packageId: 'mock.aircraft',
+      packageVersion: '1.0.0',
+      privateKey: void 0
+    });
+  });
+
+  it('rejects invalid links', () => {
+    expect(parseInstallLink('?packageId=mock.aircraft')).toBeUndefined();
+    expect(parseInstallLink('?packageId=mock.aircraft&packageVersion=one')).toBeUndefined();
+    expect(parseInstallLink('?packageId=a&packageVersion=1.0.0')).toBeUndefined();
+    expect(parseInstallLink('?packageId=mock.aircraft&packageVersion=1.0.0&key=<script>')).toBeUndefined();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,94 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * The data needed to install a package version, which is stored in installation files and install links.
+ * 
+ * @typedef {Object} InstallationData
+ * @property {string} packageId The identifier of the package to install.
+ * @property {string} packageVersion The version of the package to install.
+ * @property {string} [privateKey] The private key of the version, only needed if the version is private.
+ */
+export type InstallationData = {
+  packageId: string;
+  packageVersion: string;
+  privateKey?: string;
+};
+
+import { downloadFile, encodeURIObject } from './http';
+import { validateId } from './validators';
+import Version from './version';
+
+/**
+ * The path of the page which install links open.
+ */
+export const INSTALL_PATH = '/install';
+
+/**
+ * Create the contents of an installation file, which the client opens to install a package version.
+ * 
+ * @param {InstallationData} data The version to install.
+ * @returns {string} The contents of the file.
+ */
+export function createInstallationFile({ packageId, packageVersion, privateKey }: InstallationData): string {
+  return `>>>>${packageId}>${packageVersion}>${privateKey || '!'}`;
+}
+
+/**
+ * Create and download a package installation xpkg file.
+ * 
+ * @param {InstallationData} data The version to install.
+ */
+export function downloadInstallationFile(data: InstallationData): void {
+  const blob = new Blob([createInstallationFile(data)], { type: 'text/plain' });
+  downloadFile(URL.createObjectURL(blob), `${data.packageId}@${data.packageVersion}.xpkg`);
+}
+
+/**
+ * Create a link which anyone can open to download the installation file of a version. Links to private versions include the private key, so anyone with the link can install the version.
+ * 
+ * @param {InstallationData} data The version to install.
+ * @returns {string} The absolute URL of the link.
+ */
+export function createInstallLink({ packageId, packageVersion, privateKey }: InstallationData): string {
+  const query: Record<string, string> = { packageId, packageVersion };
+  if (privateKey)
+    query.key = privateKey;
+  return `${window.location.origin}${INSTALL_PATH}?${encodeURIObject(query)}`;
+}
+
+/**
+ * Read the version to install from the query of an install link.
+ * 
+ * @param {string} search The query string of the link, with or without the leading question mark.
+ * @returns {InstallationData|undefined} The version to install, or undefined if the link is invalid.
+ */
+export function parseInstallLink(search: string): InstallationData | undefined {
+  const params = new URLSearchParams(search);
+  const packageId = params.get('packageId')?.trim().toLowerCase();
+  const packageVersion = params.get('packageVersion')?.trim().toLowerCase();
+  const privateKey = params.get('key')?.trim() || void 0;
+
+  if (!packageId || !packageVersion || !validateId(packageId) || !Version.fromString(packageVersion))
+    return;
+  if (privateKey && !/^[a-zA-Z0-9_-]+$/.test(privateKey))
+    return;
+
+  return {
+    packageId,
+    packageVersion,
+    privateKey
+  };
+}
\ No newline at end of file
@@ -0,0 +1,66 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import { SelectedFolder } from './folderReader';
+import { DEFAULT_IGNORE_PATTERNS, parseIgnoreRules } from './ignoreRules';
+import { buildFileTree, PackageRootMode, planPackageFolder } from './packageFolder';
+
+const rules = parseIgnoreRules(DEFAULT_IGNORE_PATTERNS.join('\n'));
+
+function createFolder(name: string, paths: string[]): SelectedFolder {
+  return {
+    name,
+    files: paths.map(path => ({ path, file: new File(['x'.repeat(path.length)], path.split('/').pop() as string) }))
+  };
+}
+
+describe('planning', () => {
+  it('uses a folder named after the package as the root directory', () => {
+    const plan = planPackageFolder(createFolder('mock.package', ['plane.acf', 'liveries/default.png']), 'mock.package', rules);
+    expect(plan.rootMode).toBe(PackageRootMode.Folder);
+    expect(plan.files.map(f => f.path)).toEqual(['mock.package/plane.acf', 'mock.package/liveries/default.png']);
+  });
+
+  it('only zips a subfolder named after the package', () => {
+    const plan = planPackageFolder(createFolder('Downloads', ['mock.package/plane.acf', 'readme.txt']), 'mock.package', rules);
+    expect(plan.rootMode).toBe(PackageRootMode.Subfolder);
+    expect(plan.files.map(f => f.path)).toEqual(['mock.package/plane.acf']);
+    expect(plan.outside).toEqual(['readme.txt']);
+  });
+
+  it('wraps any other folder in a directory named after the package', () => {
+    const plan = planPackageFolder(createFolder('My Plane', ['plane.acf', 'mock.package.txt']), 'mock.package', rules);
+    expect(plan.rootMode).toBe(PackageRootMode.Wrapped);
+    expect(plan.files.map(f => f.path)).toEqual(['mock.package/plane.acf', 'mock.package/mock.package.txt']);
+    expect(plan.outside).toEqual([]);
+  });
+
+  it('leaves out ignored files', () => {
+    const plan = planPackageFolder(createFolder('mock.package', ['plane.acf', '.DS_Store', '__MACOSX/._plane.acf']), 'mock.package', rules);
+    expect(plan.files.map(f => f.path)).toEqual(['mock.package/plane.acf']);
+    expect(plan.ignored).toEqual(['.DS_Store', '__MACOSX/._plane.acf']);
+    expect(plan.totalSize).toBe('plane.acf'.length);
+  });
+});
+
+describe('trees', () => {
+  it('nests files in directories, with directories first', () => {
+    const tree = buildFileTree(createFolder('mock.package', ['mock.package/b.txt', 'mock.package/a/c.txt', 'mock.package/a.txt']).files);
+    expect(tree).toHaveLength(1);
+    expect(tree[0].size).toBe(56);
+    expect(tree[0].children.map(c => c.path)).toEqual(['mock.package/a', 'mock.package/a.txt', 'mock.package/b.txt']);
+    expect(tree[0].children[0].children[0]).toMatchObject({ name: 'c.txt', isDirectory: false, size: 20 });
+  });
+});
\ No newline at end of file
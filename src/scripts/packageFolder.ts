@@ -0,0 +1,160 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * How the files of a folder are placed in the root directory of a package zip file.
+ * 
+ * @name PackageRootMode
+ * @enum {string}
+ */
+export enum PackageRootMode {
+  Folder = 'folder',
+  Subfolder = 'subfolder',
+  Wrapped = 'wrapped'
+}
+
+/**
+ * The files of a folder which would be put in a package zip file, and where.
+ * 
+ * @typedef {Object} PackageFolderPlan
+ * @property {string} packageId The identifier of the package, which is the name of the root directory of the zip file.
+ * @property {PackageRootMode} rootMode How the files are placed in the root directory. {@code Folder} if the folder is named after the package, {@code Subfolder} if the folder contains a directory named after the package, and {@code Wrapped} if the contents of the folder are put in a new directory.
+ * @property {FolderFile[]} files The files which would be zipped, with paths starting with the root directory.
+ * @property {string[]} ignored The paths of the files which match an ignore rule, relative to the selected folder.
+ * @property {string[]} outside The paths of the files which are not ignored, but are outside of the directory named after the package, relative to the selected folder. Only used in the {@code Subfolder} mode.
+ * @property {number} totalSize The total size of all of the files which would be zipped in bytes.
+ */
+export type PackageFolderPlan = {
+  packageId: string;
+  rootMode: PackageRootMode;
+  files: FolderFile[];
+  ignored: string[];
+  outside: string[];
+  totalSize: number;
+};
+
+/**
+ * A file or directory in the tree of a folder.
+ * 
+ * @typedef {Object} FileTreeNode
+ * @property {string} name The name of the file or directory.
+ * @property {string} path The full path of the file or directory.
+ * @property {boolean} isDirectory True if the node is a directory.
+ * @property {number} size The size of the file, or the total size of every file in the directory, in bytes.
+ * @property {FileTreeNode[]} children The contents of the directory, with directories first, then sorted by name. Empty for files.
+ */
+export type FileTreeNode = {
+  name: string;
+  path: string;
+  isDirectory: boolean;
+  size: number;
+  children: FileTreeNode[];
+};
+
+import { FolderFile, SelectedFolder } from './folderReader';
+import { filterIgnored, IgnoreRule } from './ignoreRules';
+
+/**
+ * Decide which files of a folder are put in a package zip file, and where. The registry requires every file to be in a directory named after the package at the root of the zip file, so the folder is used as that directory if it has the right name, its subdirectory is used if it has one with the right name, and otherwise the contents of the folder are wrapped in a new directory.
+ * 
+ * @param {SelectedFolder} folder The folder to zip.
+ * @param {string} packageId The identifier of the package the zip file is for.
+ * @param {IgnoreRule[]} rules The rules of the files which should not be zipped, which are matched against paths relative to the folder.
+ * @returns {PackageFolderPlan} The files that would be zipped, and the files which would not be.
+ */
+export function planPackageFolder(folder: SelectedFolder, packageId: string, rules: IgnoreRule[]): PackageFolderPlan {
+  const { kept, ignored } = filterIgnored(folder.files.map(f => f.path), rules);
+  const keptPaths = new Set(kept);
+  const keptFiles = folder.files.filter(f => keptPaths.has(f.path));
+
+  let rootMode = PackageRootMode.Wrapped;
+  if (folder.name === packageId)
+    rootMode = PackageRootMode.Folder;
+  else if (keptFiles.some(f => f.path.startsWith(packageId + '/')))
+    rootMode = PackageRootMode.Subfolder;
+
+  const files: FolderFile[] = [];
+  const outside: string[] = [];
+  for (const { path, file } of keptFiles) {
+    if (rootMode !== PackageRootMode.Subfolder)
+      files.push({ path: `${packageId}/${path}`, file });
+    else if (path.startsWith(packageId + '/'))
+      files.push({ path, file });
+    else
+      outside.push(path);
+  }
+
+  return {
+    packageId,
+    rootMode,
+    files,
+    ignored,
+    outside,
+    totalSize: files.reduce((total, { file }) => total + file.size, 0)
+  };
+}
+
+/**
+ * Build a tree of directories from the paths of files.
+ * 
+ * @param {FolderFile[]} files The files to put in the tree.
+ * @returns {FileTreeNode[]} The nodes at the root of the tree.
+ */
+export function buildFileTree(files: FolderFile[]): FileTreeNode[] {
+  const root: FileTreeNode = {
+    name: '',
+    path: '',
+    isDirectory: true,
+    size: 0,
+    children: []
+  };
+
+  for (const { path, file } of files) {
+    const segments = path.split('/');
+    let node = root;
+    node.size += file.size;
+
+    segments.forEach((name, i) => {
+      const isDirectory = i < segments.length - 1;
+      let child = node.children.find(c => c.name === name && c.isDirectory === isDirectory);
+      if (!child) {
+        child = {
+          name,
+          path: segments.slice(0, i + 1).join('/'),
+          isDirectory,
+          size: 0,
+          children: []
+        };
+        node.children.push(child);
+      }
+      child.size += file.size;
+      node = child;
+    });
+  }
+
+  sortTree(root);
+  return root.children;
+}
+
+/**
+ * Sort the children of a directory and all of its subdirectories, with directories first, then by name.
+ * 
+ * @param {FileTreeNode} node The directory to sort.
+ */
+function sortTree(node: FileTreeNode): void {
+  node.children.sort((a, b) => Number(b.isDirectory) - Number(a.isDirectory) || a.name.localeCompare(b.name));
+  for (const child of node.children)
+    sortTree(child);
+}
\ No newline at end of file
@@ -0,0 +1,63 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A version of a test package, written as the version string, its dependencies, its incompatibilities, and any other values which are not the defaults.
+ * 
+ * @typedef {Array} TestVersion
+ */
+export type TestVersion = [string, [string, string][]?, [string, string][]?, TestVersionOptions?];
+
+/**
+ * The values of a test version which have defaults.
+ * 
+ * @typedef {Object} TestVersionOptions
+ * @property {string} [xpSelection] The X-Plane selection of the version, which is every version by default.
+ * @property {Partial<PublicVersionData['platforms']>} [platforms] The platforms that the version supports, which are all platforms by default.
+ */
+export type TestVersionOptions = {
+  xpSelection?: string;
+  platforms?: Partial<PublicVersionData['platforms']>;
+};
+
+import { PublicPackageData, PublicVersionData } from './registryClient';
+import { PackageType } from './author';
+import Version from './version';
+import VersionSelection from './versionSelection';
+
+/**
+ * Create the public data of a package for tests.
+ * 
+ * @param {string} packageId The identifier of the package, which is also used as its name.
+ * @param {TestVersion[]} versions The versions of the package.
+ * @returns {PublicPackageData} The package data.
+ */
+export function createTestPackage(packageId: string, versions: TestVersion[]): PublicPackageData {
+  return {
+    packageId,
+    packageName: packageId,
+    authorId: 'mock-author',
+    authorName: 'Mock Author',
+    description: '',
+    packageType: PackageType.Other,
+    versions: versions.map(([packageVersion, dependencies = [], incompatibilities = [], options = {}]) => ({
+      packageVersion: Version.fromString(packageVersion) as Version,
+      dependencies,
+      incompatibilities,
+      xpSelection: new VersionSelection(options.xpSelection ?? '*'),
+      platforms: { macOS: true, windows: true, linux: true, ...options.platforms }
+    }))
+  };
+}
\ No newline at end of file
@@ -0,0 +1,65 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A callback which is executed as a folder is zipped.
+ * 
+ * @callback ZipProgressCallback
+ * @param {number} progress The progress of the zip, a number from 0 to 1, where 0 is 0% and 1 is 100%.
+ */
+export type ZipProgressCallback = (progress: number) => void;
+
+import { PackageFolderPlan } from './packageFolder';
+import { PackageZipMessage, PackageZipRequest } from './packageZip.worker';
+
+/**
+ * Stream the files of a folder into a zip file in a Web Worker, so that large folders don't block the page.
+ * 
+ * @async
+ * @param {PackageFolderPlan} plan The files to zip.
+ * @param {ZipProgressCallback} [onProgress] The callback to execute as the folder is zipped.
+ * @returns {Promise<File>} A promise which resolves to the zip file, named after the package.
+ * @throws {Error} An error is thrown if any file could not be read, or if Web Workers are not supported.
+ */
+export function zipPackageFolder(plan: PackageFolderPlan, onProgress?: ZipProgressCallback): Promise<File> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./packageZip.worker.ts', import.meta.url));
+
+    worker.onmessage = (e: MessageEvent<PackageZipMessage>) => {
+      const message = e.data;
+      switch (message.type) {
+      case 'progress':
+        onProgress?.(message.progress);
+        break;
+      case 'done':
+        worker.terminate();
+        resolve(new File([message.zip], `${plan.packageId}.zip`, { type: 'application/zip' }));
+        break;
+      case 'error':
+        worker.terminate();
+        reject(new Error(message.error));
+        break;
+      }
+    };
+
+    worker.onerror = e => {
+      worker.terminate();
+      reject(new Error(e.message));
+    };
+
+    const request: PackageZipRequest = { files: plan.files };
+    worker.postMessage(request);
+  });
+}
\ No newline at end of file
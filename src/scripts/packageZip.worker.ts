@@ -0,0 +1,179 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A message sent to the package zip worker, with every file to put in the zip.
+ * 
+ * @typedef {Object} PackageZipRequest
+ * @property {Object[]} files The files to zip, in the order that they are written.
+ * @property {string} files.path The full path of the file within the zip file.
+ * @property {File} files.file The file.
+ */
+export type PackageZipRequest = {
+  files: {
+    path: string;
+    file: File;
+  }[];
+};
+
+/**
+ * A message sent from the package zip worker.
+ * 
+ * @typedef {Object} PackageZipMessage
+ * @property {'progress'|'done'|'error'} type The type of the message.
+ * @property {number} [progress] The progress of the zip, a number from 0 to 1, if the type is {@code 'progress'}.
+ * @property {Blob} [zip] The zip file, if the type is {@code 'done'}.
+ * @property {string} [error] The message of the error, if the type is {@code 'error'}.
+ */
+export type PackageZipMessage = {
+  type: 'progress';
+  progress: number;
+} | {
+  type: 'done';
+  zip: Blob;
+} | {
+  type: 'error';
+  error: string;
+};
+
+// The encoded data of a single file
+type EncodedFile = {
+  crc: number;
+  data: Blob;
+  isDeflated: boolean;
+};
+
+import ZipWriter, { crc32 } from './zipWriter';
+
+// Not in the TypeScript DOM types yet, and not supported by every browser
+declare const CompressionStream: {
+  new(format: string): TransformStream<Uint8Array, Uint8Array>;
+} | undefined;
+
+// Large enough to be fast, small enough to not hold much of the file in memory
+const READ_SIZE = 4 * 1024 * 1024;
+
+// Compressed data is held in memory until the file is done, so larger files are stored without compression
+const MAX_DEFLATE_SIZE = 64 * 1024 * 1024;
+
+// The global scope of a worker is not a window, which is what TypeScript thinks it is
+const ctx = globalThis as unknown as {
+  onmessage: (e: MessageEvent<PackageZipRequest>) => void;
+  postMessage: (message: PackageZipMessage) => void;
+};
+
+ctx.onmessage = async e => {
+  const { files } = e.data;
+  const writer = new ZipWriter();
+  const parts: BlobPart[] = [];
+  const directories = new Set<string>();
+  const totalSize = files.reduce((total, { file }) => total + file.size, 0);
+  let zippedSize = 0;
+
+  try {
+    for (const { path, file } of files) {
+      const segments = path.split('/');
+      for (let i = 1; i < segments.length; ++i) {
+        const directory = segments.slice(0, i).join('/') + '/';
+        if (directories.has(directory))
+          continue;
+
+        directories.add(directory);
+        parts.push(writer.addEntry({
+          path: directory,
+          date: new Date(),
+          crc: 0,
+          size: 0,
+          compressedSize: 0,
+          isDeflated: false
+        }));
+      }
+
+      const { crc, data, isDeflated } = await encodeFile(file, bytes => ctx.postMessage({
+        type: 'progress',
+        progress: totalSize ? (zippedSize + bytes) / totalSize : 1
+      }));
+      zippedSize += file.size;
+
+      parts.push(writer.addEntry({
+        path,
+        date: new Date(file.lastModified),
+        crc,
+        size: file.size,
+        compressedSize: data.size,
+        isDeflated
+      }), data);
+    }
+
+    parts.push(writer.finish());
+    ctx.postMessage({
+      type: 'done',
+      zip: new Blob(parts, { type: 'application/zip' })
+    });
+  } catch (err) {
+    ctx.postMessage({
+      type: 'error',
+      error: err instanceof Error ? err.message : String(err)
+    });
+  }
+};
+
+/**
+ * Read a file to find its CRC-32, and compress it if compression is supported and makes it smaller.
+ * 
+ * @async
+ * @param {File} file The file to encode.
+ * @param {(number) => void} onProgress The callback to execute as the file is read. Parameter is the number of bytes read so far.
+ * @returns {Promise<EncodedFile>} A promise which resolves to the data to write to the zip file. If the file is stored, the data is the file itself, so it is never copied.
+ */
+async function encodeFile(file: File, onProgress: (bytes: number) => void): Promise<EncodedFile> {
+  const compressor = file.size && file.size <= MAX_DEFLATE_SIZE ? createCompressor() : void 0;
+  const input = compressor?.writable.getWriter();
+  const output = compressor && new Response(compressor.readable).blob();
+
+  let crc = 0;
+  for (let offset = 0; offset < file.size; offset += READ_SIZE) {
+    const chunk = new Uint8Array(await file.slice(offset, offset + READ_SIZE).arrayBuffer());
+    crc = crc32(chunk, crc);
+    await input?.write(chunk);
+    onProgress(Math.min(offset + READ_SIZE, file.size));
+  }
+
+  if (input && output) {
+    await input.close();
+    const compressed = await output;
+    if (compressed.size < file.size)
+      return { crc, data: compressed, isDeflated: true };
+  }
+  return { crc, data: file, isDeflated: false };
+}
+
+/**
+ * Create a stream which compresses data with raw deflate, which is what zip files use.
+ * 
+ * @returns {TransformStream<Uint8Array, Uint8Array>|undefined} The stream, or undefined if the browser can not compress data.
+ */
+function createCompressor(): TransformStream<Uint8Array, Uint8Array> | undefined {
+  if (typeof CompressionStream === 'undefined')
+    return;
+
+  try {
+    return new CompressionStream('deflate-raw');
+  } catch {
+
+    // Older browsers only support the formats with headers
+    return;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,77 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import { DateTime } from 'luxon';
+import { DEFAULT_FILTER, LogLevel, ProcessingLogEntry, ProcessingStage, filterLog, formatLog, getFailedStage, getOffendingFiles } from './processingLog';
+
+function entry(stage: ProcessingStage, level: LogLevel, message: string, files: string[] = []): ProcessingLogEntry {
+  return {
+    timestamp: DateTime.fromISO('2023-06-01T12:00:00Z'),
+    stage,
+    level,
+    message,
+    files
+  };
+}
+
+const log = [
+  entry(ProcessingStage.Unzip, LogLevel.Info, 'Started unzipping.'),
+  entry(ProcessingStage.Scan, LogLevel.Warning, 'Found a .DS_Store file.', ['pkg/.DS_Store']),
+  entry(ProcessingStage.Scan, LogLevel.Error, 'Found executables.', ['pkg/run.sh', 'pkg/bin/app.exe']),
+  entry(ProcessingStage.Scan, LogLevel.Error, 'Found symbolic links.', ['pkg/lib/current', 'pkg/run.sh'])
+];
+
+describe('filtering', () => {
+  it('keeps every entry with the default filter', () => {
+    expect(filterLog(log, DEFAULT_FILTER)).toEqual(log);
+  });
+
+  it('filters by stage', () => {
+    expect(filterLog(log, { ...DEFAULT_FILTER, stages: [ProcessingStage.Unzip] })).toEqual([log[0]]);
+  });
+
+  it('filters by minimum level', () => {
+    expect(filterLog(log, { ...DEFAULT_FILTER, minLevel: LogLevel.Warning })).toEqual(log.slice(1));
+    expect(filterLog(log, { ...DEFAULT_FILTER, minLevel: LogLevel.Error })).toEqual(log.slice(2));
+  });
+
+  it('searches messages and files without matching case', () => {
+    expect(filterLog(log, { ...DEFAULT_FILTER, search: 'EXECUTABLES' })).toEqual([log[2]]);
+    expect(filterLog(log, { ...DEFAULT_FILTER, search: ' run.sh ' })).toEqual(log.slice(2));
+  });
+});
+
+describe('failures', () => {
+  it('lists each offending file once', () => {
+    expect(getOffendingFiles(log)).toEqual(['pkg/bin/app.exe', 'pkg/lib/current', 'pkg/run.sh']);
+  });
+
+  it('finds the stage which failed', () => {
+    expect(getFailedStage(log)).toBe(ProcessingStage.Scan);
+    expect(getFailedStage(log.slice(0, 2))).toBeUndefined();
+  });
+});
+
+describe('formatting', () => {
+  it('writes one line for each entry and file', () => {
+    expect(formatLog(log.slice(1, 3))).toBe([
+      '2023-06-01T12:00:00.000Z [scan] WARNING Found a .DS_Store file.',
+      '    pkg/.DS_Store',
+      '2023-06-01T12:00:00.000Z [scan] ERROR Found executables.',
+      '    pkg/run.sh',
+      '    pkg/bin/app.exe'
+    ].join('\n'));
+  });
+});
\ No newline at end of file
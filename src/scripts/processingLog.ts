@@ -0,0 +1,159 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A single line of the log that the registry writes while it processes a version.
+ * 
+ * @typedef {Object} ProcessingLogEntry
+ * @property {DateTime} timestamp When the entry was written.
+ * @property {ProcessingStage} stage The stage of processing which wrote the entry.
+ * @property {LogLevel} level How severe the entry is.
+ * @property {string} message The human-readable message of the entry.
+ * @property {string[]} files The paths of the files in the zip which the entry is about, such as the files which caused processing to fail. Empty if the entry is not about any files.
+ */
+export type ProcessingLogEntry = {
+  timestamp: DateTime;
+  stage: ProcessingStage;
+  level: LogLevel;
+  message: string;
+  files: string[];
+};
+
+/**
+ * Which entries of a processing log to show.
+ * 
+ * @typedef {Object} LogFilter
+ * @property {ProcessingStage[]} stages Only show entries from these stages.
+ * @property {LogLevel} minLevel Only show entries which are at least this severe.
+ * @property {string} search Only show entries whose message or files contain this text, ignoring case. Every entry matches an empty string.
+ */
+export type LogFilter = {
+  stages: ProcessingStage[];
+  minLevel: LogLevel;
+  search: string;
+};
+
+import { DateTime } from 'luxon';
+
+/**
+ * Every stage of processing, in the order that the registry runs them. Same as in the registry.
+ * 
+ * @name ProcessingStage
+ * @enum {string}
+ */
+export enum ProcessingStage {
+  Unzip = 'unzip',
+  Scan = 'scan',
+  Package = 'package',
+  Store = 'store'
+}
+
+/**
+ * How severe a log entry is, from least to most severe.
+ * 
+ * @name LogLevel
+ * @enum {string}
+ */
+export enum LogLevel {
+  Info = 'info',
+  Warning = 'warning',
+  Error = 'error'
+}
+
+/**
+ * The human-readable name of each stage.
+ */
+export const STAGE_NAMES: Record<ProcessingStage, string> = {
+  [ProcessingStage.Unzip]: 'Unzip',
+  [ProcessingStage.Scan]: 'Scan',
+  [ProcessingStage.Package]: 'Package',
+  [ProcessingStage.Store]: 'Store'
+};
+
+/**
+ * The human-readable name of each level.
+ */
+export const LEVEL_NAMES: Record<LogLevel, string> = {
+  [LogLevel.Info]: 'Info',
+  [LogLevel.Warning]: 'Warning',
+  [LogLevel.Error]: 'Error'
+};
+
+/**
+ * The filter which shows every entry.
+ */
+export const DEFAULT_FILTER: LogFilter = {
+  stages: Object.values(ProcessingStage),
+  minLevel: LogLevel.Info,
+  search: ''
+};
+
+const LEVEL_ORDER = Object.values(LogLevel);
+
+/**
+ * Get the entries of a log which match a filter.
+ * 
+ * @param {ProcessingLogEntry[]} entries The entries of the log, in the order that they were written.
+ * @param {LogFilter} filter Which entries to keep.
+ * @returns {ProcessingLogEntry[]} The entries which match the filter, in the same order.
+ */
+export function filterLog(entries: ProcessingLogEntry[], filter: LogFilter): ProcessingLogEntry[] {
+  const minLevel = LEVEL_ORDER.indexOf(filter.minLevel);
+  const search = filter.search.trim().toLowerCase();
+
+  return entries.filter(entry =>
+    filter.stages.includes(entry.stage) &&
+    LEVEL_ORDER.indexOf(entry.level) >= minLevel &&
+    (!search || [entry.message, ...entry.files].some(text => text.toLowerCase().includes(search)))
+  );
+}
+
+/**
+ * Get every file which caused an error while processing, so that an author can see everything that they need to fix at once.
+ * 
+ * @param {ProcessingLogEntry[]} entries The entries of the log.
+ * @returns {string[]} The unique paths of the files of every error entry, sorted.
+ */
+export function getOffendingFiles(entries: ProcessingLogEntry[]): string[] {
+  const files = entries
+    .filter(e => e.level === LogLevel.Error)
+    .flatMap(e => e.files);
+  return Array.from(new Set(files)).sort();
+}
+
+/**
+ * Get the stage of processing which failed.
+ * 
+ * @param {ProcessingLogEntry[]} entries The entries of the log.
+ * @returns {ProcessingStage|undefined} The stage of the first error entry, or undefined if there are no errors.
+ */
+export function getFailedStage(entries: ProcessingLogEntry[]): ProcessingStage | undefined {
+  return entries.find(e => e.level === LogLevel.Error)?.stage;
+}
+
+/**
+ * Format log entries as plain text, with one line for each entry, and an indented line for each of its files.
+ * 
+ * @param {ProcessingLogEntry[]} entries The entries to format.
+ * @returns {string} The text of the entries.
+ */
+export function formatLog(entries: ProcessingLogEntry[]): string {
+  return entries
+    .map(entry => [
+      `${entry.timestamp.toUTC().toISO()} [${entry.stage}] ${entry.level.toUpperCase()} ${entry.message}`,
+      ...entry.files.map(file => '    ' + file)
+    ].join('\n'))
+    .join('\n');
+}
\ No newline at end of file
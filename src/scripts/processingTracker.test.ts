@@ -0,0 +1,229 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import ProcessingTracker, { StatusChange } from './processingTracker';
+import RegistryClient from './registryClient';
+import MockRegistry from '../mock/mockRegistry';
+import { VersionStatus } from './author';
+
+let mockRegistry: MockRegistry;
+let client: RegistryClient;
+let tracker: ProcessingTracker;
+
+// The fixture version which is processing
+const PACKAGE_ID = 'mock.aircraft';
+const PACKAGE_VERSION = '1.1.0b1';
+
+function setStatus(status: VersionStatus) {
+  const pkg = mockRegistry.data.packages.find(p => p.packageId === PACKAGE_ID);
+  const version = pkg?.versions.find(v => v.packageVersion === PACKAGE_VERSION);
+  if (version)
+    version.status = status;
+}
+
+function wait(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function nextChange(): Promise<StatusChange> {
+  return new Promise(resolve => {
+    const unsubscribe = tracker.subscribe(change => {
+      unsubscribe();
+      resolve(change);
+    });
+  });
+}
+
+// An event source which the test opens, sends messages with, and fails
+function createEvents() {
+  const events = {
+    onopen: null,
+    onmessage: null,
+    onerror: null,
+    close: jest.fn()
+  } as unknown as EventSource;
+  jest.spyOn(client, 'openStatusEvents').mockResolvedValue(events);
+  return events;
+}
+
+beforeEach(() => {
+  mockRegistry = new MockRegistry();
+  const token = mockRegistry.createToken('mock-author');
+  client = new RegistryClient({
+    registryUrl: 'http://mock.registry',
+    getToken: () => token,
+    adapter: mockRegistry.adapter
+  });
+  tracker = new ProcessingTracker({ client, pollInterval: 10, maxPollInterval: 40 });
+});
+
+afterEach(() => {
+  tracker.stop();
+});
+
+describe('polling', () => {
+  it('notifies listeners once a version is processed', async () => {
+    tracker.track(PACKAGE_ID, PACKAGE_VERSION);
+    const change = nextChange();
+    await wait(30);
+    expect(tracker.isTracking).toBe(true);
+
+    setStatus(VersionStatus.Processed);
+    const { packageName, versionData } = await change;
+    expect(packageName).toBe('Mock Aircraft');
+    expect(versionData.status).toBe(VersionStatus.Processed);
+    expect(tracker.isTracking).toBe(false);
+  });
+
+  it('notifies listeners when a version fails', async () => {
+    tracker.track(PACKAGE_ID, PACKAGE_VERSION);
+    setStatus(VersionStatus.FailedServer);
+    expect((await nextChange()).versionData.status).toBe(VersionStatus.FailedServer);
+  });
+
+  it('only tracks versions which are processing', async () => {
+    const packages = await client.getAllPackages();
+    const getVersion = jest.spyOn(client, 'getPackageVersion');
+    tracker.trackPackages(packages);
+    await wait(15);
+    expect(new Set(getVersion.mock.calls.map(([packageId, packageVersion]) => `${packageId}@${packageVersion}`))).toEqual(new Set([`${PACKAGE_ID}@${PACKAGE_VERSION}`]));
+  });
+
+  it('stops tracking versions which do not exist', async () => {
+    const listener = jest.fn();
+    tracker.subscribe(listener);
+    tracker.track(PACKAGE_ID, '9.9.9');
+    await wait(30);
+    expect(tracker.isTracking).toBe(false);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('keeps polling after server errors', async () => {
+    mockRegistry.injectFault({ status: 503, count: 2 });
+    tracker.track(PACKAGE_ID, PACKAGE_VERSION);
+    setStatus(VersionStatus.Processed);
+    expect((await nextChange()).versionData.status).toBe(VersionStatus.Processed);
+  });
+
+  it('does not notify unsubscribed listeners', async () => {
+    const listener = jest.fn();
+    tracker.subscribe(listener)();
+    tracker.track(PACKAGE_ID, PACKAGE_VERSION);
+    setStatus(VersionStatus.Processed);
+    await wait(30);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('server-sent events', () => {
+  it('only checks versions when an event is received', async () => {
+    const events = createEvents();
+    const getVersion = jest.spyOn(client, 'getPackageVersion');
+    tracker.track(PACKAGE_ID, PACKAGE_VERSION);
+    await wait(0);
+    events.onopen?.(new Event('open'));
+    expect(tracker.isStreaming).toBe(true);
+    await wait(30);
+    expect(getVersion).toHaveBeenCalledTimes(1);
+
+    setStatus(VersionStatus.Processed);
+    const change = nextChange();
+    events.onmessage?.(new MessageEvent('message', { data: JSON.stringify({ packageId: PACKAGE_ID, packageVersion: PACKAGE_VERSION }) }));
+    expect((await change).versionData.status).toBe(VersionStatus.Processed);
+    expect(events.close).toHaveBeenCalled();
+  });
+
+  it('checks a version again if an event is received while it is being checked', async () => {
+    const events = createEvents();
+    tracker.track(PACKAGE_ID, PACKAGE_VERSION);
+    await wait(0);
+
+    // Hold the first check after it gets the status, until the status has changed and the event has been received
+    let release!: () => void;
+    const isReleased = new Promise<void>(resolve => release = resolve);
+    let isFetched: Promise<void> = Promise.resolve();
+    const getPackageVersion = client.getPackageVersion.bind(client);
+    jest.spyOn(client, 'getPackageVersion').mockImplementationOnce((...args) => {
+      const dataPromise = getPackageVersion(...args);
+      isFetched = dataPromise.then(() => void 0);
+      return isReleased.then(() => dataPromise);
+    });
+    events.onopen?.(new Event('open'));
+    await isFetched;
+
+    setStatus(VersionStatus.Processed);
+    const change = nextChange();
+    events.onmessage?.(new MessageEvent('message', { data: JSON.stringify({ packageId: PACKAGE_ID, packageVersion: PACKAGE_VERSION }) }));
+    release();
+    expect((await change).versionData.status).toBe(VersionStatus.Processed);
+  });
+
+  it('keeps checking a version after a failed check', async () => {
+    const events = createEvents();
+    tracker.track(PACKAGE_ID, PACKAGE_VERSION);
+    await wait(0);
+
+    mockRegistry.injectFault({ status: 503, count: 1 });
+    setStatus(VersionStatus.Processed);
+    events.onopen?.(new Event('open'));
+    expect((await nextChange()).versionData.status).toBe(VersionStatus.Processed);
+  });
+
+  it('polls if the registry does not send events', async () => {
+    jest.spyOn(client, 'openStatusEvents').mockResolvedValue(void 0);
+    tracker.track(PACKAGE_ID, PACKAGE_VERSION);
+    await wait(0);
+    expect(tracker.isStreaming).toBe(false);
+
+    setStatus(VersionStatus.Processed);
+    expect((await nextChange()).versionData.status).toBe(VersionStatus.Processed);
+  });
+
+  it('falls back to polling if the stream fails', async () => {
+    const events = createEvents();
+    tracker.track(PACKAGE_ID, PACKAGE_VERSION);
+    await wait(0);
+    events.onopen?.(new Event('open'));
+    events.onerror?.(new Event('error'));
+    expect(tracker.isStreaming).toBe(false);
+
+    setStatus(VersionStatus.Processed);
+    expect((await nextChange()).versionData.status).toBe(VersionStatus.Processed);
+  });
+});
+
+describe('opening the stream', () => {
+  const EventSourceMock = jest.fn();
+
+  beforeEach(() => {
+    EventSourceMock.mockClear();
+    Object.assign(globalThis, { EventSource: EventSourceMock });
+  });
+
+  afterEach(() => {
+    delete (globalThis as { EventSource?: unknown; }).EventSource;
+  });
+
+  it('does not open the stream if the registry does not send events', async () => {
+    expect(await client.openStatusEvents()).toBeUndefined();
+    expect(EventSourceMock).not.toHaveBeenCalled();
+  });
+
+  it('authenticates the stream with a ticket instead of the token', async () => {
+    mockRegistry.injectFault({ status: 200, method: 'POST', path: '/account/packages/events/ticket', body: JSON.stringify({ ticket: 'mock-ticket' }) });
+    await client.openStatusEvents();
+    expect(EventSourceMock).toHaveBeenCalledWith('http://mock.registry/account/packages/events?ticket=mock-ticket');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,340 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A change in the status of a tracked version, from processing to any other status.
+ * 
+ * @typedef {Object} StatusChange
+ * @property {string} packageId The identifier of the package of the version.
+ * @property {string} packageVersion The version string of the version.
+ * @property {string} packageName The name of the package of the version.
+ * @property {AuthorVersionData} versionData The new data of the version.
+ */
+export type StatusChange = {
+  packageId: string;
+  packageVersion: string;
+  packageName: string;
+  versionData: AuthorVersionData;
+};
+
+/**
+ * A callback which is executed whenever a tracked version finishes processing.
+ * 
+ * @callback StatusListener
+ * @param {StatusChange} change The version which finished processing, and its new data.
+ */
+export type StatusListener = (change: StatusChange) => void;
+
+/**
+ * Options used to create a new processing tracker.
+ * 
+ * @typedef {Object} ProcessingTrackerOptions
+ * @property {RegistryClient} [client] The client used to check the statuses of versions. Defaults to the client used throughout the portal.
+ * @property {number} [pollInterval=5000] The time in milliseconds between checks of each version.
+ * @property {number} [maxPollInterval=60000] The longest time in milliseconds between checks of a version, which the interval grows to while checks fail.
+ */
+export type ProcessingTrackerOptions = {
+  client?: RegistryClient;
+  pollInterval?: number;
+  maxPollInterval?: number;
+};
+
+// A version which is being tracked, and when it will be checked next
+type TrackedVersion = {
+  packageId: string;
+  packageVersion: string;
+  delay: number;
+  timeout?: ReturnType<typeof setTimeout>;
+  isChecking: boolean;
+  shouldRecheck: boolean;
+};
+
+import RegistryClient, { registry } from './registryClient';
+import { AuthError, NotFoundError } from './registryError';
+import { AuthorPackageData, AuthorVersionData, VersionStatus } from './author';
+
+/**
+ * Watch versions which are processing until they are processed or fail. Versions are checked by polling, unless the registry sends server-sent events when the statuses of versions change, in which case versions are only checked when an event is received for them.
+ */
+export default class ProcessingTracker {
+
+  private _client: RegistryClient;
+  private _pollInterval: number;
+  private _maxPollInterval: number;
+  private _tracked = new Map<string, TrackedVersion>();
+  private _listeners = new Set<StatusListener>();
+  private _events?: EventSource;
+  private _isOpeningEvents = false;
+  private _isStreaming = false;
+  private _hasEventsFailed = false;
+
+  /**
+   * Check if any versions are being tracked.
+   * 
+   * @returns {boolean} True if at least one version is still processing.
+   */
+  get isTracking(): boolean {
+    return this._tracked.size > 0;
+  }
+
+  /**
+   * Check if the statuses of versions are being received from server-sent events, instead of polling.
+   * 
+   * @returns {boolean} True if the event stream is open.
+   */
+  get isStreaming(): boolean {
+    return this._isStreaming;
+  }
+
+  /**
+   * Create a new tracker which isn't tracking any versions.
+   * 
+   * @constructor
+   * @param {ProcessingTrackerOptions} [options] The options of the tracker.
+   */
+  constructor(options: ProcessingTrackerOptions = {}) {
+    this._client = options.client ?? registry;
+    this._pollInterval = options.pollInterval ?? 5000;
+    this._maxPollInterval = options.maxPollInterval ?? 60000;
+  }
+
+  /**
+   * Start tracking a version which is processing. Nothing happens if the version is already tracked.
+   * 
+   * @param {string} packageId The identifier of the package of the version.
+   * @param {string} packageVersion The version string of the version.
+   */
+  track(packageId: string, packageVersion: string): void {
+    const key = versionKey(packageId, packageVersion);
+    if (this._tracked.has(key))
+      return;
+
+    const tracked: TrackedVersion = {
+      packageId,
+      packageVersion,
+      delay: this._pollInterval,
+      isChecking: false,
+      shouldRecheck: false
+    };
+    this._tracked.set(key, tracked);
+
+    this._openEvents();
+    if (!this._isStreaming)
+      this._schedule(tracked);
+  }
+
+  /**
+   * Track every version of some packages which is processing.
+   * 
+   * @param {AuthorPackageData[]} packages The packages with versions to track.
+   */
+  trackPackages(packages: AuthorPackageData[]): void {
+    for (const pkg of packages)
+      for (const version of pkg.versions)
+        if (version.status === VersionStatus.Processing)
+          this.track(pkg.packageId, version.packageVersion.toString());
+  }
+
+  /**
+   * Stop tracking a version, without notifying any listeners.
+   * 
+   * @param {string} packageId The identifier of the package of the version.
+   * @param {string} packageVersion The version string of the version.
+   */
+  untrack(packageId: string, packageVersion: string): void {
+    const key = versionKey(packageId, packageVersion);
+    const tracked = this._tracked.get(key);
+    if (!tracked)
+      return;
+
+    clearTimeout(tracked.timeout);
+    this._tracked.delete(key);
+    if (!this._tracked.size)
+      this._closeEvents();
+  }
+
+  /**
+   * Stop tracking every version.
+   */
+  stop(): void {
+    for (const { timeout } of this._tracked.values())
+      clearTimeout(timeout);
+    this._tracked.clear();
+    this._closeEvents();
+  }
+
+  /**
+   * Execute a callback whenever a tracked version finishes processing.
+   * 
+   * @param {StatusListener} listener The callback to execute.
+   * @returns {() => void} A function which stops executing the callback.
+   */
+  subscribe(listener: StatusListener): () => void {
+    this._listeners.add(listener);
+    return () => this._listeners.delete(listener);
+  }
+
+  /**
+   * Check a version after its delay.
+   * 
+   * @param {TrackedVersion} tracked The version to check.
+   */
+  private _schedule(tracked: TrackedVersion): void {
+    clearTimeout(tracked.timeout);
+    tracked.timeout = setTimeout(() => this._check(tracked), tracked.delay);
+  }
+
+  /**
+   * Get the current status of a version, and notify the listeners if it is no longer processing. If it is still processing, and the statuses are being polled or the check failed, the version is checked again later. If the version is already being checked, it is checked again once that check finishes, since its status may have changed after the check started.
+   * 
+   * @async
+   * @param {TrackedVersion} tracked The version to check.
+   * @returns {Promise<void>} A promise which resolves once the version has been checked.
+   */
+  private async _check(tracked: TrackedVersion): Promise<void> {
+    if (tracked.isChecking) {
+      tracked.shouldRecheck = true;
+      return;
+    }
+    tracked.isChecking = true;
+
+    let hasFailed = false;
+    try {
+
+      // The tracker checks again on its own schedule, so it shouldn't wait on the default retries
+      const data = await this._client.getPackageVersion(tracked.packageId, tracked.packageVersion, { retries: 0 });
+      tracked.delay = this._pollInterval;
+
+      if (data.versionData.status !== VersionStatus.Processing) {
+        this.untrack(tracked.packageId, tracked.packageVersion);
+        const change: StatusChange = {
+          packageId: tracked.packageId,
+          packageVersion: tracked.packageVersion,
+          packageName: data.packageName,
+          versionData: data.versionData
+        };
+        for (const listener of Array.from(this._listeners))
+          listener(change);
+        return;
+      }
+    } catch (e) {
+      if (e instanceof AuthError && e.status === 401)
+        return this.stop();
+      else if (e instanceof NotFoundError)
+        return this.untrack(tracked.packageId, tracked.packageVersion);
+
+      hasFailed = true;
+      tracked.delay = Math.min(tracked.delay * 2, this._maxPollInterval);
+    } finally {
+      tracked.isChecking = false;
+
+      const isTracked = this._tracked.get(versionKey(tracked.packageId, tracked.packageVersion)) === tracked;
+      if (isTracked && tracked.shouldRecheck) {
+        tracked.shouldRecheck = false;
+        this._check(tracked);
+      } else if (isTracked && (hasFailed || !this._isStreaming))
+        this._schedule(tracked);
+    }
+  }
+
+  /**
+   * Open the event stream, if it isn't already open, and if it hasn't failed before. Versions are polled until the stream opens, and if the registry does not send events or the stream fails, every version is polled instead.
+   * 
+   * @async
+   * @returns {Promise<void>} A promise which resolves once the stream has been created, or once it is known that it can not be.
+   */
+  private async _openEvents(): Promise<void> {
+    if (this._events || this._isOpeningEvents || this._hasEventsFailed)
+      return;
+
+    this._isOpeningEvents = true;
+    let events: EventSource | undefined;
+    try {
+      events = await this._client.openStatusEvents();
+    } catch {
+      events = void 0;
+    } finally {
+      this._isOpeningEvents = false;
+    }
+
+    if (!events) {
+      this._hasEventsFailed = true;
+      return;
+    }
+
+    // Every version may have finished processing while the stream was being requested
+    if (!this._tracked.size) {
+      events.close();
+      return;
+    }
+    this._events = events;
+
+    events.onopen = () => {
+      this._isStreaming = true;
+      for (const tracked of this._tracked.values()) {
+        clearTimeout(tracked.timeout);
+
+        // Versions may have finished processing before the stream opened
+        this._check(tracked);
+      }
+    };
+
+    events.onmessage = e => {
+      let data: { packageId?: unknown; packageVersion?: unknown; };
+      try {
+        data = JSON.parse(e.data);
+      } catch {
+        return;
+      }
+
+      const tracked = this._tracked.get(versionKey(String(data.packageId), String(data.packageVersion)));
+      if (tracked)
+        this._check(tracked);
+    };
+
+    // Event sources reconnect on their own, but an error usually means that the registry doesn't support them, so fall back to polling for the rest of the session
+    events.onerror = () => {
+      this._hasEventsFailed = true;
+      this._closeEvents();
+      for (const tracked of this._tracked.values())
+        this._schedule(tracked);
+    };
+  }
+
+  /**
+   * Close the event stream if it is open.
+   */
+  private _closeEvents(): void {
+    this._events?.close();
+    this._events = void 0;
+    this._isStreaming = false;
+  }
+}
+
+/**
+ * Get the key of a tracked version.
+ * 
+ * @param {string} packageId The identifier of the package of the version.
+ * @param {string} packageVersion The version string of the version.
+ * @returns {string} The key of the version.
+ */
+function versionKey(packageId: string, packageVersion: string): string {
+  return `${packageId.toLowerCase()}@${packageVersion}`;
+}
+
+/**
+ * The tracker used throughout the portal.
+ */
+export const processingTracker = new ProcessingTracker();
\ No newline at end of file
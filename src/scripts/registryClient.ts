@@ -0,0 +1,760 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A callback which is executed as a file is uploaded.
+ * 
+ * @callback UploadProgressCallback
+ * @param {number} progress The progress of the upload, a number from 0 to 1, where 0 is 0% and 1 is 100%.
+ */
+export type UploadProgressCallback = (progress: number) => void;
+
+/**
+ * Options used to create a new registry client.
+ * 
+ * @typedef {Object} RegistryClientOptions
+ * @property {string} [registryUrl] The base URL of the registry. Defaults to {@code window.REGISTRY_URL} at the time of each request.
+ * @property {() => string | null} [getToken] A function which returns the token to authorize requests with. Defaults to the token in the cookies.
+ * @property {AxiosAdapter} [adapter] An alternate adapter to send the requests with, instead of the default adapter.
+ */
+export type RegistryClientOptions = {
+  registryUrl?: string;
+  getToken?: () => string | null;
+  adapter?: AxiosAdapter;
+};
+
+/**
+ * The data required to create a new package.
+ * 
+ * @typedef {Object} NewPackageData
+ * @property {string} packageId The identifier of the new package.
+ * @property {string} packageName The name of the new package.
+ * @property {PackageType} packageType The type of the new package.
+ * @property {string} description The description of the new package.
+ */
+export type NewPackageData = {
+  packageId: string;
+  packageName: string;
+  packageType: PackageType;
+  description: string;
+};
+
+/**
+ * The data required to upload a new package version.
+ * 
+ * @typedef {Object} UploadData
+ * @property {string} packageId The identifier of the package to upload a new version for.
+ * @property {string} packageVersion The version string of the new version.
+ * @property {string} xpSelection The X-Plane selection string of the new version.
+ * @property {boolean} isPublic True if the new version is public.
+ * @property {boolean} isPrivate True if the new version is private.
+ * @property {boolean} isStored True if the new version is stored.
+ * @property {[string, string][]} dependencies The dependencies of the new version.
+ * @property {[string, string][]} incompatibilities The incompatibilities of the new version.
+ * @property {Object} platforms The platforms that the new version supports.
+ * @property {Blob} file The zip file to upload.
+ */
+export type UploadData = {
+  packageId: string;
+  packageVersion: string;
+  xpSelection: string;
+  isPublic: boolean;
+  isPrivate: boolean;
+  isStored: boolean;
+  dependencies: [string, string][];
+  incompatibilities: [string, string][];
+  platforms: AuthorVersionData['platforms'];
+  file: Blob;
+};
+
+/**
+ * The data required to start an upload session, which is either for a new package version, or to re-upload the file of a version which failed processing.
+ * 
+ * @typedef {Object} UploadSessionData
+ * @property {'upload'|'retry'} type The type of upload. If it is {@code 'upload'} then all of the data of {@link UploadData} (other than the file) is required. If it is {@code 'retry'} then only the identifier and version are.
+ * @property {string} fileName The name of the file being uploaded.
+ * @property {number} fileSize The size of the file in bytes.
+ * @property {number} chunkSize The size of each part of the file in bytes. Only the last part may be smaller.
+ */
+export type UploadSessionData = ({
+  type: 'upload';
+} & Omit<UploadData, 'file'> | {
+  type: 'retry';
+  packageId: string;
+  packageVersion: string;
+}) & {
+  fileName: string;
+  fileSize: number;
+  chunkSize: number;
+};
+
+/**
+ * The data of a version that anyone can see, which only includes versions which are public and processed.
+ * 
+ * @typedef {Object} PublicVersionData
+ * @property {Version} packageVersion The version.
+ * @property {[string, string][]} dependencies The dependencies of the version.
+ * @property {[string, string][]} incompatibilities The incompatibilities of the version.
+ * @property {VersionSelection} xpSelection The X-Plane selection of the version.
+ * @property {Object} platforms The platforms that the version supports.
+ */
+export type PublicVersionData = Pick<AuthorVersionData, 'packageVersion' | 'dependencies' | 'incompatibilities' | 'xpSelection' | 'platforms'>;
+
+/**
+ * The data of a package that anyone can see.
+ * 
+ * @typedef {Object} PublicPackageData
+ * @property {string} packageId The identifier of the package.
+ * @property {string} packageName The name of the package.
+ * @property {string} authorId The identifier of the author of the package.
+ * @property {string} authorName The name of the author of the package.
+ * @property {string} description The description of the package.
+ * @property {PackageType} packageType The type of the package.
+ * @property {PublicVersionData[]} versions Every public and processed version of the package.
+ */
+export type PublicPackageData = Omit<AuthorPackageData, 'versions'> & {
+  authorId: string;
+  authorName: string;
+  versions: PublicVersionData[];
+};
+
+/**
+ * Options for a single request to the registry.
+ * 
+ * @typedef {Object} RequestOptions
+ * @property {Record<string, unknown>|FormData|Blob} [body] The body of the request. Sent as JSON unless it is form data, or binary data.
+ * @property {Record<string, string>} [query] The query parameters of the request.
+ * @property {boolean} [auth=true] True if the request requires authorization.
+ * @property {UploadProgressCallback} [onUploadProgress] The callback to execute as the body is uploaded.
+ * @property {Partial<RetryPolicy>} [retryPolicy] The retry policy of the request. Only used for GET and PUT requests, which are always retried using the default policy if this is not provided.
+ * @property {AbortSignal} [signal] The signal which cancels the request.
+ */
+type RequestOptions = {
+  body?: Record<string, unknown> | FormData | Blob;
+  query?: Record<string, string>;
+  auth?: boolean;
+  onUploadProgress?: UploadProgressCallback;
+  retryPolicy?: Partial<RetryPolicy>;
+  signal?: AbortSignal;
+};
+
+// The data retrieved from the registry which needs to be parsed
+type RegistryPackageData = Omit<AuthorPackageData, 'versions'> & {
+  versions: RegistryVersionData[];
+};
+type RegistryVersionData = Omit<AuthorVersionData, 'packageVersion' | 'xpSelection' | 'uploadDate'> & {
+  packageVersion: string;
+  xpSelection: string;
+  uploadDate: string;
+};
+type RegistrySinglePackageData = Omit<AuthorSingleVersionPackageData, 'versionData'> & {
+  versionData: RegistryVersionData;
+};
+type RegistryPublicPackageData = Omit<PublicPackageData, 'versions'> & {
+  versions: (Omit<PublicVersionData, 'packageVersion' | 'xpSelection'> & {
+    packageVersion: string;
+    xpSelection: string;
+  })[];
+};
+type RegistryAnalyticsData = Omit<AnalyticsData, 'timestamp'> & {
+  timestamp: string;
+};
+type RegistryLogEntry = Omit<ProcessingLogEntry, 'timestamp' | 'files'> & {
+  timestamp: string;
+  files?: string[];
+};
+
+import axios, { AxiosAdapter, AxiosRequestConfig, AxiosResponse } from 'axios';
+import HTTPMethod from 'http-method-enum';
+import { DateTime } from 'luxon';
+import * as http from './http';
+import { RetryPolicy } from './http';
+import * as tokenStorage from './tokenStorage';
+import { RegistryEndpoint, createRegistryError } from './errorCatalog';
+import { CanceledRequestError, NotFoundError, ServerError } from './registryError';
+import Version from './version';
+import VersionSelection from './versionSelection';
+import { AnalyticsData } from './analytics';
+import { ProcessingLogEntry } from './processingLog';
+import { AuthorData, AuthorPackageData, AuthorSingleVersionPackageData, AuthorVersionData, PackageType } from './author';
+
+/**
+ * A client for every registry endpoint that the portal uses. Every method resolves to parsed data, or rejects with a {@link RegistryError}.
+ */
+export default class RegistryClient {
+
+  private _registryUrl?: string;
+  private _getToken: () => string | null;
+  private _adapter?: AxiosAdapter;
+
+  /**
+   * Get the base URL of the registry that this client sends requests to.
+   * 
+   * @returns {string} The base URL of the registry.
+   */
+  get registryUrl(): string {
+    return this._registryUrl ?? window.REGISTRY_URL;
+  }
+
+  /**
+   * Create a new registry client.
+   * 
+   * @constructor
+   * @param {RegistryClientOptions} [options] The options of the client.
+   */
+  constructor(options: RegistryClientOptions = {}) {
+    this._registryUrl = options.registryUrl;
+    this._getToken = options.getToken ?? tokenStorage.checkAuth;
+    this._adapter = options.adapter;
+  }
+
+  /**
+   * Change the adapter that requests are sent with.
+   * 
+   * @param {AxiosAdapter} [adapter] The new adapter, or undefined to use the default adapter.
+   */
+  setAdapter(adapter?: AxiosAdapter): void {
+    this._adapter = adapter;
+  }
+
+  /**
+   * Log in to an existing account.
+   * 
+   * @async
+   * @param {string} email The email of the account.
+   * @param {string} password The password of the account.
+   * @param {string} validation The reCAPTCHA token.
+   * @returns {Promise<string>} A promise which resolves to the token of the author.
+   * @throws {RegistryError} An error is thrown if the registry rejects the request.
+   */
+  async login(email: string, password: string, validation: string): Promise<string> {
+    const data = await this._request<{ token: string; }>(RegistryEndpoint.Login, HTTPMethod.POST, '/auth/login', {
+      auth: false,
+      body: { email, password, validation }
+    });
+    return data.token;
+  }
+
+  /**
+   * Create a new account.
+   * 
+   * @async
+   * @param {string} email The email of the new account.
+   * @param {string} name The name of the new account.
+   * @param {string} password The password of the new account.
+   * @param {string} validation The reCAPTCHA token.
+   * @returns {Promise<string>} A promise which resolves to the token of the new author.
+   * @throws {RegistryError} An error is thrown if the registry rejects the request.
+   */
+  async createAccount(email: string, name: string, password: string, validation: string): Promise<string> {
+    const data = await this._request<{ token: string; }>(RegistryEndpoint.CreateAccount, HTTPMethod.POST, '/auth/create', {
+      auth: false,
+      body: { email, name, password, validation }
+    });
+    return data.token;
+  }
+
+  /**
+   * Verify the email of an account.
+   * 
+   * @async
+   * @param {string} verificationToken The verification token sent to the author's email.
+   * @param {string} validation The reCAPTCHA token.
+   * @returns {Promise<void>} A promise which resolves once the account is verified.
+   * @throws {RegistryError} An error is thrown if the registry rejects the request.
+   */
+  async verify(verificationToken: string, validation: string): Promise<void> {
+    await this._request(RegistryEndpoint.Verify, HTTPMethod.POST, `/auth/verify/${verificationToken}`, {
+      auth: false,
+      body: { validation }
+    });
+  }
+
+  /**
+   * Get the data of the currently logged in author.
+   * 
+   * @async
+   * @param {Partial<RetryPolicy>} [retryPolicy] The policy used to retry the request.
+   * @returns {Promise<AuthorData>} A promise which resolves to the data of the currently logged in author.
+   * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails.
+   */
+  async getAuthorData(retryPolicy?: Partial<RetryPolicy>): Promise<AuthorData> {
+    return this._request<AuthorData>(RegistryEndpoint.AccountData, HTTPMethod.GET, '/account/data', { retryPolicy });
+  }
+
+  /**
+   * Change the name of the currently logged in author.
+   * 
+   * @async
+   * @param {string} newName The new name of the author.
+   * @returns {Promise<void>} A promise which resolves once the name has been changed.
+   * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails.
+   */
+  async changeName(newName: string): Promise<void> {
+    await this._request(RegistryEndpoint.ChangeName, HTTPMethod.PATCH, '/account/changename', {
+      body: { newName }
+    });
+  }
+
+  /**
+   * Resend the verification email to the currently logged in author.
+   * 
+   * @async
+   * @returns {Promise<void>} A promise which resolves once the email has been sent.
+   * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails.
+   */
+  async reverify(): Promise<void> {
+    await this._request(RegistryEndpoint.Reverify, HTTPMethod.POST, '/account/reverify');
+  }
+
+  /**
+   * Get all package data for the currently logged in author.
+   * 
+   * @async
+   * @param {Partial<RetryPolicy>} [retryPolicy] The policy used to retry the request.
+   * @returns {Promise<AuthorPackageData[]>} A promise which resolves to all of the package data for the author.
+   * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails.
+   */
+  async getAllPackages(retryPolicy?: Partial<RetryPolicy>): Promise<AuthorPackageData[]> {
+    const data = await this._request<{ packages: RegistryPackageData[]; }>(RegistryEndpoint.AllPackages, HTTPMethod.GET, '/account/packages', { retryPolicy });
+    return data.packages.map(parsePackageData);
+  }
+
+  /**
+   * Get the data for all versions of the specified package.
+   * 
+   * @async
+   * @param {string} packageId The id of the package to get the versions of.
+   * @param {Partial<RetryPolicy>} [retryPolicy] The policy used to retry the request.
+   * @returns {Promise<AuthorPackageData>} A promise which resolves to the data of the specified package.
+   * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails.
+   */
+  async getPackage(packageId: string, retryPolicy?: Partial<RetryPolicy>): Promise<AuthorPackageData> {
+    return parsePackageData(await this._request<RegistryPackageData>(RegistryEndpoint.Package, HTTPMethod.GET, `/account/packages/${packageId}`, { retryPolicy }));
+  }
+
+  /**
+   * Get the data for the specified package version.
+   * 
+   * @async
+   * @param {string} packageId The id of the package to get the version data of.
+   * @param {string} packageVersion The version string of the version to get the data of.
+   * @param {Partial<RetryPolicy>} [retryPolicy] The policy used to retry the request.
+   * @returns {Promise<AuthorSingleVersionPackageData>} A promise which resolves to the data of the package at the specified version.
+   * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails.
+   */
+  async getPackageVersion(packageId: string, packageVersion: string, retryPolicy?: Partial<RetryPolicy>): Promise<AuthorSingleVersionPackageData> {
+    const responseData = await this._request<RegistrySinglePackageData>(RegistryEndpoint.PackageVersion, HTTPMethod.GET, `/account/packages/${packageId}/${packageVersion}`, { retryPolicy });
+    return {
+      ...responseData,
+      versionData: parseVersionData(responseData.versionData)
+    };
+  }
+
+  /**
+   * Open a stream of server-sent events which are sent whenever the status of one of the author's versions changes. The data of each event is a JSON object with the {@code packageId} and {@code packageVersion} of the version. Event sources can not send headers, and the token should not end up in any logs, so a short-lived ticket for the stream is requested first and sent in the query instead. Registries which do not send the events do not have the ticket endpoint.
+   * 
+   * @async
+   * @returns {Promise<EventSource|undefined>} A promise which resolves to the stream, or undefined if the browser does not support server-sent events, if the author does not have a token, or if the registry does not send the events.
+   * @throws {RegistryError} An error is thrown if the ticket could not be requested for any other reason.
+   */
+  async openStatusEvents(): Promise<EventSource | undefined> {
+    if (typeof EventSource === 'undefined' || !this._getToken())
+      return;
+
+    let ticket: string;
+    try {
+      ({ ticket } = await this._request<{ ticket: string; }>(RegistryEndpoint.StatusEvents, HTTPMethod.POST, '/account/packages/events/ticket'));
+    } catch (e) {
+      if (e instanceof NotFoundError)
+        return;
+      throw e;
+    }
+    return new EventSource(`${this.registryUrl}/account/packages/events?` + http.encodeURIObject({ ticket }));
+  }
+
+  /**
+   * Get the public data of any package, which does not require authorization.
+   * 
+   * @async
+   * @param {string} packageId The id of the package to get.
+   * @param {Partial<RetryPolicy>} [retryPolicy] The policy used to retry the request.
+   * @returns {Promise<PublicPackageData>} A promise which resolves to the public data of the package.
+   * @throws {RegistryError} An error is thrown if the request fails.
+   */
+  async getPublicPackage(packageId: string, retryPolicy?: Partial<RetryPolicy>): Promise<PublicPackageData> {
+    const responseData = await this._request<RegistryPublicPackageData>(RegistryEndpoint.PublicPackage, HTTPMethod.GET, `/packages/${encodeURIComponent(packageId)}`, { auth: false, retryPolicy });
+    return {
+      ...responseData,
+      versions: responseData.versions.map(v => ({
+        ...v,
+        packageVersion: Version.fromString(v.packageVersion)!,
+        xpSelection: new VersionSelection(v.xpSelection)
+      }))
+    };
+  }
+
+  /**
+   * Create a new package.
+   * 
+   * @async
+   * @param {NewPackageData} data The data of the new package.
+   * @returns {Promise<void>} A promise which resolves once the package has been created.
+   * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails.
+   */
+  async newPackage({ packageId, packageName, packageType, description }: NewPackageData): Promise<void> {
+    const formData = new FormData();
+    formData.append('packageId', packageId);
+    formData.append('packageName', packageName);
+    formData.append('packageType', packageType);
+    formData.append('description', description);
+
+    await this._request(RegistryEndpoint.NewPackage, HTTPMethod.POST, '/packages/new', {
+      body: formData
+    });
+  }
+
+  /**
+   * Update the description of a package.
+   * 
+   * @async
+   * @param {string} packageId The identifier of the package to update.
+   * @param {string} newDescription The new description of the package.
+   * @returns {Promise<void>} A promise which resolves once the description has been updated.
+   * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails.
+   */
+  async updateDescription(packageId: string, newDescription: string): Promise<void> {
+    await this._request(RegistryEndpoint.Description, HTTPMethod.PATCH, '/packages/description', {
+      body: { packageId, newDescription }
+    });
+  }
+
+  /**
+   * Upload a new package version.
+   * 
+   * @async
+   * @param {UploadData} data The data of the new version, including the file.
+   * @param {UploadProgressCallback} [onUploadProgress] The callback to execute as the file is uploaded.
+   * @param {AbortSignal} [signal] The signal which cancels the upload.
+   * @returns {Promise<void>} A promise which resolves once the registry has accepted the upload.
+   * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails. A {@link CanceledRequestError} is thrown if the signal cancels the upload.
+   */
+  async upload(data: UploadData, onUploadProgress?: UploadProgressCallback, signal?: AbortSignal): Promise<void> {
+    const formData = new FormData();
+    formData.append('packageId', data.packageId);
+    formData.append('packageVersion', data.packageVersion);
+    formData.append('xpSelection', data.xpSelection);
+    formData.append('isPublic', data.isPublic ? 'true' : 'false');
+    formData.append('isPrivate', data.isPrivate ? 'true' : 'false');
+    formData.append('isStored', data.isStored ? 'true' : 'false');
+    formData.append('dependencies', JSON.stringify(data.dependencies));
+    formData.append('incompatibilities', JSON.stringify(data.incompatibilities));
+    formData.append('supportsMacOS', data.platforms.macOS ? 'true' : 'false');
+    formData.append('supportsWindows', data.platforms.windows ? 'true' : 'false');
+    formData.append('supportsLinux', data.platforms.linux ? 'true' : 'false');
+    formData.append('file', data.file);
+
+    await this._request(RegistryEndpoint.Upload, HTTPMethod.POST, '/packages/upload', {
+      body: formData,
+      onUploadProgress,
+      signal
+    });
+  }
+
+  /**
+   * Re-upload the file of a package version which failed processing.
+   * 
+   * @async
+   * @param {string} packageId The identifier of the package to re-upload.
+   * @param {string} packageVersion The version string of the version to re-upload.
+   * @param {Blob} file The new zip file of the version.
+   * @param {UploadProgressCallback} [onUploadProgress] The callback to execute as the file is uploaded.
+   * @param {AbortSignal} [signal] The signal which cancels the upload.
+   * @returns {Promise<void>} A promise which resolves once the registry has accepted the upload.
+   * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails. A {@link CanceledRequestError} is thrown if the signal cancels the upload.
+   */
+  async retry(packageId: string, packageVersion: string, file: Blob, onUploadProgress?: UploadProgressCallback, signal?: AbortSignal): Promise<void> {
+    const formData = new FormData();
+    formData.append('packageId', packageId);
+    formData.append('packageVersion', packageVersion);
+    formData.append('file', file);
+
+    await this._request(RegistryEndpoint.Retry, HTTPMethod.POST, '/packages/retry', {
+      body: formData,
+      onUploadProgress,
+      signal
+    });
+  }
+
+  /**
+   * Start a new upload session, which the file is then uploaded to in parts.
+   * 
+   * @async
+   * @param {UploadSessionData} data The data of the upload.
+   * @returns {Promise<string>} A promise which resolves to the id of the new upload session.
+   * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails.
+   */
+  async createUploadSession(data: UploadSessionData): Promise<string> {
+    const responseData = await this._request<{ uploadId: string; }>(RegistryEndpoint.UploadSession, HTTPMethod.POST, '/packages/upload/session', {
+      body: data
+    });
+    return responseData.uploadId;
+  }
+
+  /**
+   * Get the parts of the file which the registry has already received for an upload session.
+   * 
+   * @async
+   * @param {string} uploadId The id of the upload session.
+   * @param {Partial<RetryPolicy>} [retryPolicy] The policy used to retry the request.
+   * @returns {Promise<number[]>} A promise which resolves to the indices of every part that the registry has received.
+   * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails.
+   */
+  async getUploadSession(uploadId: string, retryPolicy?: Partial<RetryPolicy>): Promise<number[]> {
+    const data = await this._request<{ completedChunks: number[]; }>(RegistryEndpoint.UploadSession, HTTPMethod.GET, `/packages/upload/session/${uploadId}`, { retryPolicy });
+    return data.completedChunks;
+  }
+
+  /**
+   * Upload a single part of the file of an upload session. Uploading the same part more than once replaces it.
+   * 
+   * @async
+   * @param {string} uploadId The id of the upload session.
+   * @param {number} index The index of the part, starting at zero.
+   * @param {Blob} chunk The data of the part.
+   * @param {UploadProgressCallback} [onUploadProgress] The callback to execute as the part is uploaded.
+   * @param {Partial<RetryPolicy>} [retryPolicy] The policy used to retry the request.
+   * @param {AbortSignal} [signal] The signal which cancels the upload of the part.
+   * @returns {Promise<void>} A promise which resolves once the registry has received the part.
+   * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails. A {@link CanceledRequestError} is thrown if the signal cancels the upload.
+   */
+  async uploadChunk(uploadId: string, index: number, chunk: Blob, onUploadProgress?: UploadProgressCallback, retryPolicy?: Partial<RetryPolicy>, signal?: AbortSignal): Promise<void> {
+    await this._request(RegistryEndpoint.UploadChunk, HTTPMethod.PUT, `/packages/upload/session/${uploadId}/${index}`, {
+      body: chunk,
+      onUploadProgress,
+      retryPolicy,
+      signal
+    });
+  }
+
+  /**
+   * Complete an upload session once every part has been uploaded, after which the registry processes the file.
+   * 
+   * @async
+   * @param {string} uploadId The id of the upload session.
+   * @returns {Promise<void>} A promise which resolves once the registry has accepted the upload.
+   * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails.
+   */
+  async completeUploadSession(uploadId: string): Promise<void> {
+    await this._request(RegistryEndpoint.CompleteUpload, HTTPMethod.POST, `/packages/upload/session/${uploadId}/complete`);
+  }
+
+  /**
+   * Update the X-Plane selection of a package version.
+   * 
+   * @async
+   * @param {string} packageId The identifier of the package to update.
+   * @param {string} packageVersion The version string of the version to update.
+   * @param {string} xpSelection The new X-Plane selection string.
+   * @returns {Promise<void>} A promise which resolves once the selection has been updated.
+   * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails.
+   */
+  async updateXpSelection(packageId: string, packageVersion: string, xpSelection: string): Promise<void> {
+    await this._request(RegistryEndpoint.XpSelection, HTTPMethod.PATCH, '/packages/xpselection', {
+      body: { packageId, packageVersion, xpSelection }
+    });
+  }
+
+  /**
+   * Update the incompatibilities of a package version.
+   * 
+   * @async
+   * @param {string} packageId The identifier of the package to update.
+   * @param {string} packageVersion The version string of the version to update.
+   * @param {[string, string][]} incompatibilities The new incompatibilities of the version.
+   * @returns {Promise<void>} A promise which resolves once the incompatibilities have been updated.
+   * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails.
+   */
+  async updateIncompatibilities(packageId: string, packageVersion: string, incompatibilities: [string, string][]): Promise<void> {
+    await this._request(RegistryEndpoint.Incompatibilities, HTTPMethod.PATCH, '/packages/incompatibilities', {
+      body: { packageId, packageVersion, incompatibilities }
+    });
+  }
+
+  /**
+   * Replace the private key of a private package version with a new key, so that the old key can no longer be used to install it.
+   * 
+   * @async
+   * @param {string} packageId The identifier of the package to rotate the key of.
+   * @param {string} packageVersion The version string of the version to rotate the key of.
+   * @returns {Promise<string>} A promise which resolves to the new private key.
+   * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails.
+   */
+  async rotatePrivateKey(packageId: string, packageVersion: string): Promise<string> {
+    const data = await this._request<{ privateKey: string; }>(RegistryEndpoint.PrivateKey, HTTPMethod.PATCH, '/packages/privatekey', {
+      body: { packageId, packageVersion }
+    });
+    return data.privateKey;
+  }
+
+  /**
+   * Get the analytics data of a package version for the specified time.
+   * 
+   * @async
+   * @param {string} packageId The id of the package to get the analytics of.
+   * @param {string} packageVersion The version string of the package to get the analytics of.
+   * @param {DateTime} after The date after which to get the analytics.
+   * @param {DateTime} [before] The date before which to get the analytics. Defaults to the start of today.
+   * @param {Partial<RetryPolicy>} [retryPolicy] The policy used to retry the request.
+   * @returns {Promise<AnalyticsData[]>} A promise which resolves to the analytics data for the specified time.
+   * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails.
+   */
+  async getAnalytics(packageId: string, packageVersion: string, after: DateTime, before = DateTime.now().startOf('day'), retryPolicy?: Partial<RetryPolicy>): Promise<AnalyticsData[]> {
+    const data = await this._request<RegistryAnalyticsData[]>(RegistryEndpoint.Analytics, HTTPMethod.GET, `/analytics/${packageId}/${packageVersion}`, {
+      query: {
+        after: after.valueOf().toString(),
+        before: before.valueOf().toString()
+      },
+      retryPolicy
+    });
+
+    return data.map(d => ({
+      ...d,
+      timestamp: DateTime.fromISO(d.timestamp)
+    }));
+  }
+
+  /**
+   * Get the log that the registry wrote while processing a version.
+   * 
+   * @async
+   * @param {string} packageId The id of the package to get the log of.
+   * @param {string} packageVersion The version string of the version to get the log of.
+   * @param {Partial<RetryPolicy>} [retryPolicy] The policy used to retry the request.
+   * @returns {Promise<ProcessingLogEntry[]>} A promise which resolves to the entries of the log, in the order that they were written.
+   * @throws {RegistryError} An error is thrown if the author does not have a token, or if the request fails.
+   */
+  async getProcessingLog(packageId: string, packageVersion: string, retryPolicy?: Partial<RetryPolicy>): Promise<ProcessingLogEntry[]> {
+    const data = await this._request<RegistryLogEntry[]>(RegistryEndpoint.ProcessingLog, HTTPMethod.GET, `/account/packages/${packageId}/${packageVersion}/log`, { retryPolicy });
+    return data.map(e => ({
+      ...e,
+      timestamp: DateTime.fromISO(e.timestamp),
+      files: e.files ?? []
+    }));
+  }
+
+  /**
+   * Send a request to the registry, make sure that it succeeded, and parse the body of the response.
+   * 
+   * @async
+   * @template T
+   * @param {RegistryEndpoint} endpoint The endpoint that the request is sent to, used to create any errors.
+   * @param {HTTPMethod} method The HTTP method of the request.
+   * @param {string} path The path of the endpoint, starting with a slash.
+   * @param {RequestOptions} [options] The options of the request.
+   * @returns {Promise<T>} A promise which resolves to the parsed JSON body of the response if its status code is successful, or undefined if the body is empty.
+   * @throws {RegistryError} An error is thrown if authorization is required but no token exists, if the registry could not be reached, or if the response status code is not successful. A {@link ServerError} is thrown if the body of a successful response is not valid JSON.
+   */
+  private async _request<T = void>(endpoint: RegistryEndpoint, method: HTTPMethod, path: string, options: RequestOptions = {}): Promise<T> {
+    const headers: Record<string, string> = {};
+    if (options.auth ?? true) {
+      const token = this._getToken();
+      if (!token)
+        throw createRegistryError(endpoint, 401, 'Unauthorized');
+      headers.Authorization = token;
+    }
+
+    if (options.body instanceof Blob)
+      headers['Content-Type'] = 'application/octet-stream';
+
+    let url = this.registryUrl + path;
+    if (options.query)
+      url += '?' + http.encodeURIObject(options.query);
+
+    const onUploadProgress = options.onUploadProgress;
+
+    const config: AxiosRequestConfig = {
+      url,
+      method,
+      headers,
+      data: options.body ?? {},
+      adapter: this._adapter,
+      onUploadProgress: onUploadProgress && (e => onUploadProgress(e.progress ?? 0)),
+      signal: options.signal
+    };
+
+    let response: AxiosResponse<string>;
+    try {
+
+      // Only GET and PUT requests are idempotent, so they're the only ones we can safely retry
+      if (method === HTTPMethod.GET || method === HTTPMethod.PUT)
+        response = await http.requestWithRetry(config, options.retryPolicy);
+      else
+        response = await http.request(config);
+    } catch (e) {
+      if (axios.isCancel(e))
+        throw new CanceledRequestError(0, 'canceled', 'The request was canceled.');
+
+      console.error(e);
+      throw createRegistryError(endpoint, 0, 'network_error');
+    }
+
+    if (response.status < 200 || response.status >= 300)
+      throw createRegistryError(endpoint, response.status, response.data || response.statusText);
+
+    if (!response.data)
+      return void 0 as T;
+
+    try {
+      return JSON.parse(response.data);
+    } catch (e) {
+      console.error(e);
+      throw new ServerError(response.status, 'invalid_response', 'The registry sent an invalid response. Please try again later.');
+    }
+  }
+}
+
+/**
+ * The client used throughout the portal, which sends requests to {@code window.REGISTRY_URL}.
+ */
+export const registry = new RegistryClient();
+
+/**
+ * Parse the data of a version retrieved from the registry.
+ * 
+ * @param {RegistryVersionData} versionData The version data as sent by the registry.
+ * @returns {AuthorVersionData} The parsed version data.
+ */
+function parseVersionData(versionData: RegistryVersionData): AuthorVersionData {
+  return {
+    ...versionData,
+    packageVersion: Version.fromString(versionData.packageVersion)!,
+    xpSelection: new VersionSelection(versionData.xpSelection),
+    uploadDate: new Date(versionData.uploadDate)
+  };
+}
+
+/**
+ * Parse the data of a package, and all of its versions, retrieved from the registry.
+ * 
+ * @param {RegistryPackageData} packageData The package data as sent by the registry.
+ * @returns {AuthorPackageData} The parsed package data.
+ */
+function parsePackageData(packageData: RegistryPackageData): AuthorPackageData {
+  return {
+    ...packageData,
+    versions: packageData.versions.map(parseVersionData)
+  };
+}
\ No newline at end of file
@@ -19,7 +19,8 @@
 export default class RegistryError extends Error {
 
   private _status;
-  private _message;
+  private _code;
+  private _userMessage;
 
   /**
    * The status code that was sent which caused this error.
@@ -29,22 +30,71 @@ export default class RegistryError extends Error {
   }
 
   /**
-   * The message from the registry.
+   * The machine-readable code from the registry, which is the body of the response.
    */
-  get message() {
-    return this._message;
+  get code() {
+    return this._code;
   }
 
   /**
-   * Create a new error with its status code and message.
+   * The human-readable message to display to the user.
+   */
+  get userMessage() {
+    return this._userMessage;
+  }
+
+  /**
+   * Create a new error with its status code, code, and message.
    * 
    * @constructor
-   * @param {string} status The registry status code.
-   * @param {string} message The error message from the registry.
+   * @param {number} status The registry status code, or zero if the registry could not be reached.
+   * @param {string} code The machine-readable code from the registry.
+   * @param {string} [userMessage] The human-readable message to display to the user. Defaults to the code.
    */
-  constructor(status: number, message: string) {
-    super(`[Status Code ${status}] ${message}`);
+  constructor(status: number, code: string, userMessage = code) {
+    super(`[Status Code ${status}] ${code}`);
     this._status = status;
-    this._message = message;
+    this._code = code;
+    this._userMessage = userMessage;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * An error thrown if the registry could not be reached at all.
+ */
+export class NetworkError extends RegistryError {}
+
+/**
+ * An error thrown if a request was canceled before it completed. It has no status code, since the request may not have reached the registry.
+ */
+export class CanceledRequestError extends RegistryError {}
+
+/**
+ * An error thrown if the registry rejected the data sent to it (400, 406, or 418).
+ */
+export class ValidationError extends RegistryError {}
+
+/**
+ * An error thrown if the author is not logged in, or is not allowed to perform the action (401 or 403).
+ */
+export class AuthError extends RegistryError {}
+
+/**
+ * An error thrown if the requested resource does not exist (404).
+ */
+export class NotFoundError extends RegistryError {}
+
+/**
+ * An error thrown if the registry could not uniquely identify the request (409).
+ */
+export class ConflictError extends RegistryError {}
+
+/**
+ * An error thrown if too many requests have been sent to the registry (429).
+ */
+export class RateLimitError extends RegistryError {}
+
+/**
+ * An error thrown if the registry encountered an internal error (5xx).
+ */
+export class ServerError extends RegistryError {}
\ No newline at end of file
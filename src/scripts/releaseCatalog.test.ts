@@ -0,0 +1,78 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import { createCatalog, matchReleases, XPLANE_CATALOG } from './releaseCatalog';
+import VersionSelection from './versionSelection';
+import xplaneReleases from './xplaneReleases.json';
+
+const catalog = createCatalog({
+  product: 'Test',
+  releases: [
+    { name: '1.0', version: '1.0.0' },
+    { name: '1.1 beta 1', version: '1.1.0b1' },
+    { name: '1.1', version: '1.1.0' },
+    { name: '1.2', version: '1.2.0' },
+    { name: '2.0', version: '2.0.0' }
+  ],
+  presets: [{ name: 'Version 1', selection: '1' }]
+});
+
+describe('matching', () => {
+  it('joins consecutive releases into spans', () => {
+    const matches = matchReleases(catalog, new VersionSelection('1'));
+    expect(matches.spans).toEqual(['1.0–1.2']);
+    expect(matches.releases).toHaveLength(4);
+    expect(matches.preReleaseCount).toBe(1);
+  });
+
+  it('splits spans at releases that are not matched', () => {
+    expect(matchReleases(catalog, new VersionSelection('1.0,1.2-')).spans).toEqual(['1.0', '1.2–2.0']);
+  });
+
+  it('matches nothing if no release is selected', () => {
+    const matches = matchReleases(catalog, new VersionSelection('3-'));
+    expect(matches.releases).toEqual([]);
+    expect(matches.spans).toEqual([]);
+  });
+});
+
+describe('catalogs', () => {
+  it('rejects invalid versions and presets', () => {
+    expect(() => createCatalog({ product: 'Test', releases: [{ name: 'Bad', version: '1.x' }], presets: [] })).toThrow();
+    expect(() => createCatalog({ product: 'Test', releases: [], presets: [{ name: 'Bad', selection: '2-1' }] })).toThrow();
+  });
+});
+
+describe('X-Plane catalog', () => {
+  it('lists releases in order', () => {
+    const versions = xplaneReleases.releases.map(r => r.version);
+    expect(XPLANE_CATALOG.releases.map(r => r.version.toString())).toEqual(versions);
+  });
+
+  it('maps release names to versions', () => {
+    for (const { name, version } of xplaneReleases.releases) {
+
+      // Two digit versions (11.55) use a digit each for the minor and patch numbers, others (12.1.0) are already versions
+      const [, major, digits, rest] = name.match(/^(\d+)\.(\d\d)([abr]\d+)?$/) ?? [];
+      const expected = major ? `${major}.${digits[0]}.${digits[1]}${rest ?? ''}` : name;
+      expect(version).toBe(expected);
+    }
+  });
+
+  it('has presets which match releases', () => {
+    for (const preset of XPLANE_CATALOG.presets)
+      expect(matchReleases(XPLANE_CATALOG, new VersionSelection(preset.selection)).releases.length).toBeGreaterThan(0);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,142 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A known release of a product that selections are made for.
+ * 
+ * @typedef {Object} KnownRelease
+ * @property {string} name The name that the product uses for the release.
+ * @property {Version} version The release as a version.
+ */
+export type KnownRelease = {
+  name: string;
+  version: Version;
+};
+
+/**
+ * A common selection, which can be used instead of typing a selection.
+ * 
+ * @typedef {Object} SelectionPreset
+ * @property {string} name The name of the preset.
+ * @property {string} selection The selection string of the preset.
+ */
+export type SelectionPreset = {
+  name: string;
+  selection: string;
+};
+
+/**
+ * The known releases of a product, and common selections of them.
+ * 
+ * @typedef {Object} ReleaseCatalog
+ * @property {string} product The name of the product.
+ * @property {KnownRelease[]} releases The releases of the product, from least to greatest.
+ * @property {SelectionPreset[]} presets Common selections of the releases.
+ */
+export type ReleaseCatalog = {
+  product: string;
+  releases: KnownRelease[];
+  presets: SelectionPreset[];
+};
+
+/**
+ * The releases of a catalog which a selection matches.
+ * 
+ * @typedef {Object} CatalogMatches
+ * @property {KnownRelease[]} releases Every matched release, including pre-releases.
+ * @property {string[]} spans The names of the matched full releases, with consecutive releases joined into spans, such as "11.00–11.55".
+ * @property {number} preReleaseCount The number of matched betas and release candidates.
+ */
+export type CatalogMatches = {
+  releases: KnownRelease[];
+  spans: string[];
+  preReleaseCount: number;
+};
+
+import Version from './version';
+import VersionSelection from './versionSelection';
+import xplaneReleases from './xplaneReleases.json';
+
+/**
+ * The known releases of X-Plane, which are bundled from xplaneReleases.json so that the catalog can be updated without changing any code.
+ */
+export const XPLANE_CATALOG = createCatalog(xplaneReleases);
+
+/**
+ * Create a catalog from its JSON representation, in which versions are strings.
+ * 
+ * @param {Object} json The JSON representation of the catalog.
+ * @param {string} json.product The name of the product.
+ * @param {Object[]} json.releases The releases, each with a name and a version string.
+ * @param {SelectionPreset[]} json.presets Common selections of the releases.
+ * @returns {ReleaseCatalog} The catalog, with its releases sorted.
+ * @throws {Error} An error is thrown if any version or preset is invalid.
+ */
+export function createCatalog(json: { product: string; releases: { name: string; version: string; }[]; presets: SelectionPreset[]; }): ReleaseCatalog {
+  const releases = json.releases.map(({ name, version: versionStr }) => {
+    const version = Version.fromString(versionStr);
+    if (!version)
+      throw new Error(`Invalid version for ${json.product} ${name}: ${versionStr}`);
+    return { name, version };
+  });
+  releases.sort((a, b) => a.version.compare(b.version));
+
+  const invalidPreset = json.presets.find(p => !new VersionSelection(p.selection).isValid);
+  if (invalidPreset)
+    throw new Error(`Invalid selection for preset ${invalidPreset.name}: ${invalidPreset.selection}`);
+
+  return {
+    product: json.product,
+    releases,
+    presets: json.presets
+  };
+}
+
+/**
+ * Find the releases of a catalog which a selection matches.
+ * 
+ * @param {ReleaseCatalog} catalog The catalog to search.
+ * @param {VersionSelection} selection The valid selection to match.
+ * @returns {CatalogMatches} The matched releases.
+ */
+export function matchReleases(catalog: ReleaseCatalog, selection: VersionSelection): CatalogMatches {
+  const releases = catalog.releases.filter(r => selection.containsVersion(r.version));
+
+  const spans: string[] = [];
+  let spanStart: KnownRelease | undefined;
+  let spanEnd: KnownRelease | undefined;
+  const endSpan = () => {
+    if (spanStart && spanEnd)
+      spans.push(spanStart === spanEnd ? spanStart.name : `${spanStart.name}–${spanEnd.name}`);
+    spanStart = spanEnd = void 0;
+  };
+
+  for (const release of catalog.releases.filter(r => !r.version.isPreRelease)) {
+    if (!selection.containsVersion(release.version)) {
+      endSpan();
+      continue;
+    }
+
+    spanStart ??= release;
+    spanEnd = release;
+  }
+  endSpan();
+
+  return {
+    releases,
+    spans,
+    preReleaseCount: releases.filter(r => r.version.isPreRelease).length
+  };
+}
\ No newline at end of file
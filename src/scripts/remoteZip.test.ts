@@ -0,0 +1,144 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { TextDecoder, TextEncoder } from 'util';
+import RemoteZip, { buildEntryTree, getPreviewType } from './remoteZip';
+import ZipWriter, { crc32 } from './zipWriter';
+
+// Neither of these are in jsdom, but the browsers we support all have them
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+const encoder = new TextEncoder();
+
+const readme = encoder.encode('A mock package.');
+const zipBytes = createZip({
+  'mock.package/readme.txt': readme,
+  'mock.package/liveries/default.png': new Uint8Array(100)
+});
+
+function createZip(files: Record<string, Uint8Array>): Uint8Array {
+  const writer = new ZipWriter();
+  const parts: Uint8Array[] = [];
+  for (const [path, data] of Object.entries(files))
+    parts.push(writer.addEntry({ path, date: new Date(), crc: crc32(data), size: data.length, compressedSize: data.length, isDeflated: false }), data);
+  parts.push(writer.finish());
+
+  const bytes = new Uint8Array(parts.reduce((total, p) => total + p.length, 0));
+  parts.reduce((offset, p) => {
+    bytes.set(p, offset);
+    return offset + p.length;
+  }, 0);
+  return bytes;
+}
+
+// Serve the zip file like a storage server, recording every range requested
+function createAdapter(ranges: string[], supportsRanges = true): AxiosAdapter {
+  return async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const range = config.headers?.Range as string;
+    ranges.push(range);
+
+    const response = {
+      status: 200,
+      statusText: '200',
+      headers: {} as Record<string, string>,
+      data: zipBytes.slice().buffer,
+      config,
+      request: {}
+    };
+    if (!supportsRanges)
+      return response;
+
+    const [, startStr, endStr] = /^bytes=(\d*)-(\d*)$/.exec(range) as RegExpExecArray;
+    const start = startStr ? parseInt(startStr, 10) : Math.max(zipBytes.length - parseInt(endStr, 10), 0);
+    const end = startStr ? Math.min(parseInt(endStr, 10) + 1, zipBytes.length) : zipBytes.length;
+
+    response.status = 206;
+    response.headers['content-range'] = `bytes ${start}-${end - 1}/${zipBytes.length}`;
+    response.data = zipBytes.slice(start, end).buffer;
+    return response;
+  };
+}
+
+function readText(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(blob);
+  });
+}
+
+describe('reading', () => {
+  it('reads the entries from the end of the file', async () => {
+    const ranges: string[] = [];
+    const zip = new RemoteZip('https://example.com/mock.xpkg', { adapter: createAdapter(ranges) });
+
+    const entries = await zip.getEntries();
+    expect(entries.map(e => e.name)).toEqual(['mock.package/readme.txt', 'mock.package/liveries/default.png']);
+    expect(zip.size).toBe(zipBytes.length);
+
+    // The file is smaller than the end that is requested first, so nothing else is requested
+    await zip.getEntries();
+    expect(ranges).toHaveLength(1);
+  });
+
+  it('extracts a single file', async () => {
+    const ranges: string[] = [];
+    const zip = new RemoteZip('https://example.com/mock.xpkg', { adapter: createAdapter(ranges) });
+
+    const [readmeEntry, imageEntry] = await zip.getEntries();
+    expect(await readText(await zip.extract(readmeEntry))).toBe('A mock package.');
+    expect((await zip.extract(imageEntry)).type).toBe('image/png');
+
+    // The data is within the end of the file that was already requested
+    expect(ranges).toHaveLength(1);
+  });
+
+  it('uses the whole file if the server does not support ranges', async () => {
+    const zip = new RemoteZip('https://example.com/mock.xpkg', { adapter: createAdapter([], false) });
+    const [readmeEntry] = await zip.getEntries();
+    expect(zip.size).toBe(zipBytes.length);
+    expect(await readText(await zip.extract(readmeEntry))).toBe('A mock package.');
+  });
+
+  it('fails if the file can not be requested', async () => {
+    const zip = new RemoteZip('https://example.com/mock.xpkg', {
+      adapter: async config => ({ status: 403, statusText: '403', headers: {}, data: new ArrayBuffer(0), config, request: {} })
+    });
+    await expect(zip.getEntries()).rejects.toThrow('status 403');
+  });
+});
+
+describe('trees', () => {
+  it('nests entries in directories, with directories first', async () => {
+    const zip = new RemoteZip('https://example.com/mock.xpkg', { adapter: createAdapter([]) });
+    const tree = buildEntryTree(await zip.getEntries());
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0]).toMatchObject({ path: 'mock.package', size: readme.length + 100 });
+    expect(tree[0].children.map(c => c.path)).toEqual(['mock.package/liveries', 'mock.package/readme.txt']);
+    expect(tree[0].children[1].entry?.name).toBe('mock.package/readme.txt');
+  });
+});
+
+describe('previews', () => {
+  it('finds the preview type from the extension', () => {
+    expect(getPreviewType('mock.package/plane.ACF')).toBe('text');
+    expect(getPreviewType('mock.package/liveries/default.png')).toBe('image');
+    expect(getPreviewType('mock.package/plugins/mac.xpl')).toBeUndefined();
+    expect(getPreviewType('mock.package/.txt')).toBeUndefined();
+  });
+});
\ No newline at end of file
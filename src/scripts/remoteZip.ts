@@ -0,0 +1,316 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * The options of a remote zip file.
+ * 
+ * @typedef {Object} RemoteZipOptions
+ * @property {AxiosAdapter} [adapter] An alternate adapter to send the requests with, instead of the default adapter.
+ */
+export type RemoteZipOptions = {
+  adapter?: AxiosAdapter;
+};
+
+/**
+ * A file or directory in the tree of a zip file.
+ * 
+ * @typedef {Object} ZipTreeNode
+ * @property {string} name The name of the file or directory.
+ * @property {string} path The full path of the file or directory within the zip file, without a trailing slash.
+ * @property {ZipEntry} [entry] The entry of the file, or undefined if the node is a directory.
+ * @property {number} size The size of the file once extracted, or the total size of every file in the directory, in bytes.
+ * @property {number} compressedSize The size of the file in the zip file, or the total size of every file in the directory, in bytes.
+ * @property {ZipTreeNode[]} children The contents of the directory, with directories first, then sorted by name. Empty for files.
+ */
+export type ZipTreeNode = {
+  name: string;
+  path: string;
+  entry?: ZipEntry;
+  size: number;
+  compressedSize: number;
+  children: ZipTreeNode[];
+};
+
+/**
+ * How a file can be previewed.
+ * 
+ * @typedef {'text'|'image'} PreviewType
+ */
+export type PreviewType = 'text' | 'image';
+
+import axios, { AxiosAdapter, AxiosResponse } from 'axios';
+import { readZipDirectory, ZIP_TAIL_LENGTH, ZipEntry } from './zipInspector';
+
+/**
+ * The largest file that can be previewed or downloaded once extracted, 10 MiB.
+ */
+export const MAX_PREVIEW_SIZE = 10 * 1024 * 1024;
+
+// Not in the TypeScript DOM types yet, and not supported by every browser
+declare const DecompressionStream: {
+  new(format: string): TransformStream<Uint8Array, Uint8Array>;
+} | undefined;
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const LOCAL_HEADER_LENGTH = 30;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+// X-Plane uses many plain text formats, which we can't recognize by their content
+const TEXT_EXTENSIONS = ['.txt', '.md', '.json', '.xml', '.csv', '.log', '.cfg', '.ini', '.lua', '.py', '.acf', '.obj', '.dat', '.ter', '.pol', '.lin', '.fac', '.for', '.agp', '.str', '.html', '.css', '.js'];
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.bmp': 'image/bmp',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml'
+};
+
+/**
+ * A zip file on a server, which is read with HTTP range requests, so that its entries can be listed and extracted without downloading the whole file. Every part of the file that is requested is not requested again, other than the data of entries.
+ */
+export default class RemoteZip {
+
+  private _url: string;
+  private _adapter?: AxiosAdapter;
+  private _size?: number;
+  private _entries?: Promise<ZipEntry[]>;
+
+  // The end of the file, which is read first, and usually contains the central directory
+  private _tailStart = 0;
+  private _tail?: DataView;
+
+  /**
+   * The size of the zip file in bytes, or undefined if it has not been read yet.
+   */
+  get size(): number | undefined {
+    return this._size;
+  }
+
+  /**
+   * Create a new remote zip file. Nothing is requested until the entries are read.
+   * 
+   * @constructor
+   * @param {string} url The URL of the zip file. The server must support range requests, otherwise the whole file is downloaded.
+   * @param {RemoteZipOptions} [options] The options of the zip file.
+   */
+  constructor(url: string, options: RemoteZipOptions = {}) {
+    this._url = url;
+    this._adapter = options.adapter;
+  }
+
+  /**
+   * Read every entry in the central directory of the zip file. The entries are only requested once.
+   * 
+   * @async
+   * @returns {Promise<ZipEntry[]>} A promise which resolves to all of the entries in the zip file.
+   * @throws {Error} An error is thrown if the file could not be requested, or if it is not a valid zip file.
+   */
+  getEntries(): Promise<ZipEntry[]> {
+    if (!this._entries) {
+      this._entries = this._readTail()
+        .then(size => readZipDirectory((start, end) => this._read(start, end), size));
+
+      // Allow the entries to be requested again if they failed, since the failure may be temporary
+      this._entries.catch(() => this._entries = void 0);
+    }
+    return this._entries;
+  }
+
+  /**
+   * Extract a single file from the zip file, only requesting its data.
+   * 
+   * @async
+   * @param {ZipEntry} entry The entry of the file to extract, from {@link RemoteZip#getEntries}.
+   * @returns {Promise<Blob>} A promise which resolves to the extracted file. Images have the type of their extension.
+   * @throws {Error} An error is thrown if the file could not be requested, if it is compressed with an unsupported method, or if the browser can not decompress data.
+   */
+  async extract(entry: ZipEntry): Promise<Blob> {
+    if (entry.isDirectory)
+      throw new Error('Directories can not be extracted');
+    if (entry.compressionMethod !== METHOD_STORED && entry.compressionMethod !== METHOD_DEFLATED)
+      throw new Error(`Compression method ${entry.compressionMethod} is not supported`);
+
+    const header = await this._read(entry.localHeaderOffset, entry.localHeaderOffset + LOCAL_HEADER_LENGTH);
+    if (header.byteLength < LOCAL_HEADER_LENGTH || header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE)
+      throw new Error('Invalid local file header');
+
+    // The extra field of the local header may be different than the one in the central directory
+    const dataStart = entry.localHeaderOffset + LOCAL_HEADER_LENGTH + header.getUint16(26, true) + header.getUint16(28, true);
+    const data = await this._read(dataStart, dataStart + entry.compressedSize);
+    const type = IMAGE_TYPES[getExtension(entry.name)] ?? '';
+
+    if (entry.compressionMethod === METHOD_STORED)
+      return new Blob([data], { type });
+
+    if (typeof DecompressionStream === 'undefined')
+      throw new Error('Compressed files can not be extracted in this browser');
+
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Blob([await new Response(stream).arrayBuffer()], { type });
+  }
+
+  /**
+   * Request the end of the zip file, which also finds the size of the file.
+   * 
+   * @async
+   * @returns {Promise<number>} A promise which resolves to the size of the zip file in bytes.
+   * @throws {Error} An error is thrown if the file could not be requested, or if the size of the file is unknown.
+   */
+  private async _readTail(): Promise<number> {
+    const { status, headers, data } = await this._request(`bytes=-${ZIP_TAIL_LENGTH}`);
+    this._tail = new DataView(data);
+
+    // The server ignored the range, so we have the whole file
+    if (status === 200) {
+      this._tailStart = 0;
+      this._size = data.byteLength;
+      return this._size;
+    }
+
+    const totalMatch = /\/(\d+)$/.exec(headers['content-range'] ?? '');
+    if (!totalMatch)
+      throw new Error('The size of the zip file is unknown');
+
+    this._size = parseInt(totalMatch[1], 10);
+    this._tailStart = this._size - data.byteLength;
+    return this._size;
+  }
+
+  /**
+   * Read part of the zip file, from the end of the file if it has already been requested, otherwise from the server.
+   * 
+   * @async
+   * @param {number} start The offset of the first byte to read.
+   * @param {number} end The offset after the last byte to read.
+   * @returns {Promise<DataView>} A promise which resolves to a view of the bytes read.
+   * @throws {Error} An error is thrown if the bytes could not be requested.
+   */
+  private async _read(start: number, end: number): Promise<DataView> {
+    end = Math.min(end, this._size ?? end);
+    if (end <= start)
+      return new DataView(new ArrayBuffer(0));
+
+    if (this._tail && start >= this._tailStart && end <= this._tailStart + this._tail.byteLength)
+      return new DataView(this._tail.buffer, this._tail.byteOffset + start - this._tailStart, end - start);
+
+    const { status, data } = await this._request(`bytes=${start}-${end - 1}`);
+    return status === 200 ? new DataView(data, start, end - start) : new DataView(data);
+  }
+
+  /**
+   * Request a range of the zip file.
+   * 
+   * @async
+   * @param {string} range The value of the Range header.
+   * @returns {Promise<AxiosResponse<ArrayBuffer>>} A promise which resolves to the response, which has either the requested range, or the whole file.
+   * @throws {Error} An error is thrown if no response was received, or if the status of the response is not 200 or 206.
+   */
+  private async _request(range: string): Promise<AxiosResponse<ArrayBuffer>> {
+    const response = await axios.get<ArrayBuffer>(this._url, {
+      adapter: this._adapter,
+      headers: { Range: range },
+      responseType: 'arraybuffer',
+      validateStatus: () => true
+    });
+
+    if (response.status !== 200 && response.status !== 206)
+      throw new Error(`Could not request the zip file (status ${response.status})`);
+    return response;
+  }
+}
+
+/**
+ * Build a tree of directories from the entries of a zip file. Directories which are not entries themselves are still added.
+ * 
+ * @param {ZipEntry[]} entries The entries of the zip file.
+ * @returns {ZipTreeNode[]} The nodes at the root of the tree.
+ */
+export function buildEntryTree(entries: ZipEntry[]): ZipTreeNode[] {
+  const root: ZipTreeNode = {
+    name: '',
+    path: '',
+    size: 0,
+    compressedSize: 0,
+    children: []
+  };
+
+  for (const entry of entries) {
+    const segments = entry.name.split('/').filter(s => s);
+    let node = root;
+    segments.forEach((name, i) => {
+      const isFile = !entry.isDirectory && i === segments.length - 1;
+      let child = node.children.find(c => c.name === name && !c.entry === !isFile);
+      if (!child) {
+        child = {
+          name,
+          path: segments.slice(0, i + 1).join('/'),
+          entry: isFile ? entry : void 0,
+          size: 0,
+          compressedSize: 0,
+          children: []
+        };
+        node.children.push(child);
+      }
+      if (!entry.isDirectory) {
+        child.size += entry.uncompressedSize;
+        child.compressedSize += entry.compressedSize;
+      }
+      node = child;
+    });
+  }
+
+  sortTree(root);
+  return root.children;
+}
+
+/**
+ * Find how a file can be previewed from its name.
+ * 
+ * @param {string} name The name or path of the file.
+ * @returns {PreviewType|undefined} How the file can be previewed, or undefined if it can not be previewed.
+ */
+export function getPreviewType(name: string): PreviewType | undefined {
+  const extension = getExtension(name);
+  if (TEXT_EXTENSIONS.includes(extension))
+    return 'text';
+  if (extension in IMAGE_TYPES)
+    return 'image';
+}
+
+/**
+ * Get the lowercase extension of a file name.
+ * 
+ * @param {string} name The name or path of the file.
+ * @returns {string} The extension, including the dot, or an empty string if the file has no extension.
+ */
+function getExtension(name: string): string {
+  const fileName = name.slice(name.lastIndexOf('/') + 1);
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(dot).toLowerCase() : '';
+}
+
+/**
+ * Sort the children of a directory and all of its subdirectories, with directories first, then by name.
+ * 
+ * @param {ZipTreeNode} node The directory to sort.
+ */
+function sortTree(node: ZipTreeNode): void {
+  node.children.sort((a, b) => Number(!b.entry) - Number(!a.entry) || a.name.localeCompare(b.name));
+  for (const child of node.children)
+    sortTree(child);
+}
\ No newline at end of file
@@ -0,0 +1,77 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import { generateSelection } from './selectionGenerator';
+import Version from './version';
+import VersionSelection from './versionSelection';
+import { randomInt, randomVersion, seededRandom } from './versionTestUtil';
+
+const PROPERTY_RUNS = 300;
+
+const v = (versionStr: string) => Version.fromString(versionStr) as Version;
+
+describe('generating selections', () => {
+  const known = ['0.9.0', '1.0.0b1', '1.0.0', '1.1.0', '1.2.0r1', '2.0.0', '2.0.1', '3.0.0'].map(v);
+
+  it.each([
+    [[], void 0],
+    [['0.9.0', '1.0.0b1', '1.0.0', '1.1.0', '1.2.0r1', '2.0.0', '2.0.1', '3.0.0'], '-3.0.0'],
+    [['3.0.0'], '3.0.0'],
+    [['0.9.0'], '0.9'],
+    [['1.0.0b1', '1.0.0', '1.1.0', '1.2.0r1'], '1'],
+    [['1.0.0', '1.1.0'], '1.0.0b2-1.1'],
+    [['1.2.0r1'], '1.2'],
+    [['2.0.0', '2.0.1'], '2'],
+    [['2.0.0'], '2.0.0'],
+    [['0.9.0', '2.0.1', '3.0.0'], '0.9,2.0.1-3.0.0']
+  ])('generates the selection of %p', (selected, expected) => {
+    expect(generateSelection(selected.map(v), known)).toBe(expected);
+  });
+
+  it('leaves the last range open if future versions are included', () => {
+    expect(generateSelection([v('2.0.1'), v('3.0.0')], known, true)).toBe('2.0.1-');
+    expect(generateSelection([v('3.0.0')], known, true)).toBe('3');
+    expect(generateSelection(known, known, true)).toBe('*');
+  });
+
+  it('does not include known versions which are not selected', () => {
+    const random = seededRandom(0x67656e);
+
+    for (let i = 0; i < PROPERTY_RUNS; ++i) {
+      const versions: Version[] = [];
+      for (let j = randomInt(random, 1, 4); j > 0; --j) {
+        let version: Version | undefined = randomVersion(random);
+        for (let k = randomInt(random, 1, 4); k > 0 && version; --k) {
+          versions.push(version);
+          version = random() < 0.5 ? version.next() : Version.fromString(`${version.major}.${version.minor}.${Math.min(version.patch + 1, 999)}`);
+        }
+      }
+
+      // A full release can not be separated from the release candidate directly before it, which is a limitation of selection strings
+      const known = versions.filter((a, j) => versions.findIndex(b => b.equals(a)) === j && !versions.some(b => !b.isPreRelease && b.previous()?.equals(a)));
+      const selected = known.filter(() => random() < 0.5);
+      const selectionStr = generateSelection(selected, known, random() < 0.5);
+      if (!selected.length) {
+        expect(selectionStr).toBeUndefined();
+        continue;
+      }
+
+      const selection = new VersionSelection(selectionStr as string);
+      expect(selection.isValid).toBe(true);
+      for (const version of known)
+        expect([selectionStr, version.toString(), selection.containsVersion(version)]).toEqual([selectionStr, version.toString(), selected.includes(version)]);
+    }
+  });
+});
\ No newline at end of file
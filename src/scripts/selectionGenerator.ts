@@ -0,0 +1,137 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import Version from './version';
+import VersionSelection from './versionSelection';
+
+/**
+ * Generate the shortest selection string which includes every selected version, and none of the other known versions. Versions which are not known may be included if it makes the string shorter, since nothing can be installed from them.
+ * 
+ * Each run of selected versions, without an unselected known version between them, becomes a single range. The bounds of each range are rounded as far as they can be without including the known versions on either side of the run.
+ * 
+ * @param {Version[]} selected The versions to include.
+ * @param {Version[]} known Every known version, including the selected versions.
+ * @param {boolean} [includeFutureVersions=false] True if the range containing the greatest known version should be left open, so that it includes all greater versions.
+ * @returns {string|undefined} The selection string, or undefined if no versions are selected.
+ */
+export function generateSelection(selected: Version[], known: Version[], includeFutureVersions = false): string | undefined {
+  const isSelected = (version: Version) => selected.some(v => v.equals(version));
+  const versions = [...known, ...selected]
+    .sort((a, b) => a.compare(b))
+    .filter((v, i, arr) => !i || !v.equals(arr[i - 1]));
+
+  const rangeStrings: string[] = [];
+  let i = 0;
+  while (i < versions.length) {
+    if (!isSelected(versions[i])) {
+      ++i;
+      continue;
+    }
+
+    const first = versions[i];
+    while (i + 1 < versions.length && isSelected(versions[i + 1]))
+      ++i;
+    const last = versions[i];
+
+    const previous = versions[versions.indexOf(first) - 1] as Version | undefined;
+    let next = versions[i + 1] as Version | undefined;
+    if (!next && !includeFutureVersions)
+      next = last.next();
+
+    const singleStr = singleBound(first, last, previous, next);
+    const lowerStr = previous && lowerBound(first, previous);
+    const upperStr = next && upperBound(last, next);
+
+    if (singleStr)
+      rangeStrings.push(singleStr);
+    else if (!lowerStr && !upperStr)
+      return '*';
+    else
+      rangeStrings.push(`${lowerStr ?? ''}-${upperStr ?? ''}`);
+
+    ++i;
+  }
+
+  return rangeStrings.length ? rangeStrings.join(',') : void 0;
+}
+
+/**
+ * Find the shortest single version string which includes a run of versions, but not the versions on either side of it.
+ * 
+ * @param {Version} first The least version which the string must include.
+ * @param {Version} last The greatest version which the string must include.
+ * @param {Version} [previous] The version before the run, which the string must not include.
+ * @param {Version} [next] The version after the run, which the string must not include.
+ * @returns {string|undefined} The version string, or undefined if no single version string includes only the run.
+ */
+function singleBound(first: Version, last: Version, previous?: Version, next?: Version): string | undefined {
+  const candidates = roundedStrings(last);
+  candidates.push(last.toString());
+
+  return candidates.find(str => {
+    const [{ min, max }] = new VersionSelection(str).ranges;
+    return min <= first.toInteger() && max >= last.toInteger() && (!previous || min > previous.toInteger()) && (!next || max < next.toInteger());
+  });
+}
+
+/**
+ * Find the shortest lower bound of a range which includes a version, but not a lesser version.
+ * 
+ * @param {Version} first The least version which the range must include.
+ * @param {Version} previous The version before the range, which the range must not include.
+ * @returns {string} The lower bound of the range. If the versions can not be separated, the bound includes the previous version.
+ */
+function lowerBound(first: Version, previous: Version): string {
+  const { major, minor, patch } = first;
+  const candidates = roundedStrings(first);
+  if (first.isPreRelease)
+    candidates.push(first.toString());
+  else {
+
+    // A full release as a lower bound always includes its pre-releases, so the version after the previous version is the only way to exclude them
+    const afterPrevious = previous.next();
+    if (afterPrevious?.isPreRelease)
+      candidates.push(afterPrevious.toString());
+  }
+
+  const previousValue = previous.toInteger();
+  return candidates.find(str => new VersionSelection(str + '-').ranges[0].min > previousValue) ?? `${major}.${minor}.${patch}`;
+}
+
+/**
+ * Find the shortest upper bound of a range which includes a version, but not a greater version.
+ * 
+ * @param {Version} last The greatest version which the range must include.
+ * @param {Version} next The version after the range, which the range must not include.
+ * @returns {string} The upper bound of the range.
+ */
+function upperBound(last: Version, next: Version): string {
+  const candidates = roundedStrings(last);
+  candidates.push(last.toString());
+
+  const nextValue = next.toInteger();
+  return candidates.find(str => new VersionSelection('-' + str).ranges[0].max < nextValue) as string;
+}
+
+/**
+ * Get the strings of a version with fewer parts, from shortest to longest, without any strings which are not valid versions.
+ * 
+ * @param {Version} version The version to round.
+ * @returns {string[]} The major, the major and minor, and the major, minor, and patch of the version.
+ */
+function roundedStrings(version: Version): string[] {
+  const { major, minor, patch } = version;
+  return [`${major}`, `${major}.${minor}`, `${major}.${minor}.${patch}`].filter(str => Version.fromString(str));
+}
\ No newline at end of file
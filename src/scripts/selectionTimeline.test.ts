@@ -0,0 +1,136 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import { createNextRange, createScale, EditorRange, hasPreReleaseBounds, normalizeRanges, rangesToString, roundPreReleaseBounds, scaleTicks, versionAtPosition, versionPosition } from './selectionTimeline';
+import Version from './version';
+import VersionSelection from './versionSelection';
+
+function ranges(selectionStr: string): EditorRange[] {
+  return new VersionSelection(selectionStr).ranges;
+}
+
+function v(versionStr: string): Version {
+  return Version.fromString(versionStr) as Version;
+}
+
+describe('scales', () => {
+  it('fits every bound, with a major version on either side', () => {
+    const scale = createScale(ranges('11.2-12.1'));
+    expect(scale.minMajor).toBe(10);
+    expect(scale.maxMajor).toBe(13);
+    expect(Array.from(scale.minorCells.entries())).toEqual([[10, 2], [11, 4], [12, 3], [13, 2]]);
+  });
+
+  it('does not fit unbounded ends', () => {
+    const scale = createScale(ranges('-2'));
+    expect(scale.minMajor).toBe(1);
+    expect(scale.maxMajor).toBe(3);
+    expect(createScale(ranges('*'))).toEqual(createScale([]));
+  });
+
+  it('fits other versions', () => {
+    const scale = createScale(ranges('2-'), [v('4.3.1')]);
+    expect(scale.maxMajor).toBe(5);
+    expect(scale.minorCells.get(4)).toBe(5);
+  });
+
+  it('places versions in order', () => {
+    const scale = createScale(ranges('1.1-2.3'));
+    const versions = ['1a1', '1.0.0b1', '1.0.0', '1.0.1', '1.0.998', '1.1a1', '1.1.0r2', '1.2.5', '2', '2.3.999'].map(v);
+    const positions = versions.map(version => versionPosition(scale, version));
+    expect(positions).toEqual(positions.slice().sort((a, b) => a - b));
+    expect(new Set(positions).size).toBe(positions.length);
+  });
+
+  it('places versions outside of the scale at its ends', () => {
+    const scale = createScale(ranges('5-6'));
+    expect(versionPosition(scale, Version.MIN_VERSION)).toBe(0);
+    expect(versionPosition(scale, Version.MAX_VERSION)).toBe(1);
+    expect(versionPosition(scale, v('7.999.999'))).toBe(1);
+  });
+
+  it('labels major and minor versions', () => {
+    const ticks = scaleTicks(createScale(ranges('1.1')));
+    expect(ticks.map(t => t.label)).toEqual(['0', '0.1+', '1', '1.1', '1.2+', '2', '2.1+']);
+    expect(ticks.filter(t => t.isMajor)).toHaveLength(3);
+  });
+});
+
+describe('snapping', () => {
+  const scale = createScale(ranges('1.1-2.3'));
+
+  it('snaps bounds to the versions that they are placed at', () => {
+    for (const str of ['1.1-', '1.2-', '2-', '2.3-', '-1.1', '-1', '-2.3', '-2.1']) {
+      const [range] = ranges(str);
+      const isLower = str.endsWith('-');
+      const version = isLower ? range.minVersion : range.maxVersion;
+      expect(versionAtPosition(scale, versionPosition(scale, version), isLower ? 'lower' : 'upper', false)).toEqual(version);
+    }
+  });
+
+  it('only snaps to pre-releases if they are allowed', () => {
+    const position = versionPosition(scale, v('1.1.0b1'));
+    expect(versionAtPosition(scale, position, 'lower', true)).toEqual(v('1.1.0b1'));
+    expect(versionAtPosition(scale, position, 'lower', false)).toEqual(v('1.1.0a1'));
+    expect(versionAtPosition(scale, position, 'upper', true)).toEqual(v('1.1.0a999'));
+    expect(versionAtPosition(scale, versionPosition(scale, v('1.1.0')), 'upper', true)).toEqual(v('1.1.0'));
+  });
+
+  it('does not snap to invalid versions', () => {
+    const zeroScale = createScale(ranges('0.1'));
+    expect(versionAtPosition(zeroScale, 0, 'lower', false)).toEqual(Version.MIN_VERSION);
+    expect(versionAtPosition(zeroScale, 0, 'upper', false)).toBeUndefined();
+  });
+});
+
+describe('strings', () => {
+  it('creates the string of each range', () => {
+    for (const str of ['*', '1', '1.2', '1.2.3', '1-2', '1.2-', '-1.2.3', '1.2b3-1.3r1', '1.2b3'])
+      expect(rangesToString(ranges(str))).toBe(str);
+  });
+
+  it('does not merge ranges until they are normalized', () => {
+    const overlapping = [...ranges('1-2'), ...ranges('1.5-3')];
+    expect(rangesToString(overlapping)).toBe('1-2,1.5-3');
+    expect(normalizeRanges(overlapping)).toBe('1-3');
+    expect(normalizeRanges([])).toBe('');
+  });
+});
+
+describe('pre-release bounds', () => {
+  it('detects bounds between pre-releases', () => {
+    expect(hasPreReleaseBounds(ranges('1-2,3.1-'))).toBe(false);
+    expect(hasPreReleaseBounds(ranges('1.0.0b2-2'))).toBe(true);
+    expect(hasPreReleaseBounds(ranges('-2.0.0b2'))).toBe(true);
+  });
+
+  it('rounds bounds to full releases', () => {
+    expect(rangesToString(roundPreReleaseBounds(ranges('1.0.0b2-2.1.0r1')))).toBe('1-2.0');
+    expect(rangesToString(roundPreReleaseBounds(ranges('1.2.0b2-1.2.0r1')))).toBe('1.2.0');
+  });
+});
+
+describe('adding ranges', () => {
+  it('adds a range after the last range, with a gap', () => {
+    const scale = createScale(ranges('1.2'));
+    expect(rangesToString([createNextRange(ranges('1.2'), scale) as EditorRange])).toBe('1.4');
+    expect(rangesToString([createNextRange(ranges('1.998'), scale) as EditorRange])).toBe('2.0');
+    expect(createNextRange(ranges('2-'), scale)).toBeUndefined();
+  });
+
+  it('adds a whole major version if there are no ranges', () => {
+    expect(rangesToString([createNextRange([], createScale([])) as EditorRange])).toBe('1');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,369 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A range of versions which is being edited. Unlike the ranges of a selection, ranges which are being edited may overlap until they are normalized.
+ * 
+ * @typedef {Object} EditorRange
+ * @property {Version} minVersion The least version of the range, which is the smallest possible version if the range has no lower bound.
+ * @property {Version} maxVersion The greatest version of the range, which is the largest possible version if the range has no upper bound.
+ */
+export type EditorRange = {
+  minVersion: Version;
+  maxVersion: Version;
+};
+
+/**
+ * How versions are placed on a timeline. Every major version has the same width, and is split into cells of equal width for each of its minor versions. The last cell of a major version also contains every minor version after it.
+ * 
+ * @typedef {Object} TimelineScale
+ * @property {number} minMajor The least major version on the timeline.
+ * @property {number} maxMajor The greatest major version on the timeline.
+ * @property {Map<number, number>} minorCells The number of cells of each major version on the timeline.
+ */
+export type TimelineScale = {
+  minMajor: number;
+  maxMajor: number;
+  minorCells: Map<number, number>;
+};
+
+/**
+ * A labelled mark on a timeline.
+ * 
+ * @typedef {Object} TimelineTick
+ * @property {number} position The position of the tick, from 0 to 1.
+ * @property {string} label The version that the tick marks the start of.
+ * @property {boolean} isMajor True if the tick marks the start of a major version.
+ */
+export type TimelineTick = {
+  position: number;
+  label: string;
+  isMajor: boolean;
+};
+
+/**
+ * Which end of a range a version is for.
+ * 
+ * @typedef {'lower'|'upper'} Bound
+ */
+export type Bound = 'lower' | 'upper';
+
+import Version from './version';
+import VersionSelection from './versionSelection';
+
+// Where the pre-releases of the first patch of a minor version start within its cell, the rest of the cell is taken up by the patches
+const BETA_START = 0.1;
+const RC_START = 0.2;
+const RELEASE_START = 0.3;
+
+// Minor versions are only labelled if a major version doesn't have too many cells to fit the labels
+const MAX_LABELLED_CELLS = 8;
+
+/**
+ * Create a scale which fits every bound of some ranges, with an extra major version on either side, and an extra minor version after the greatest minor version of each bound, so that bounds can be dragged past them.
+ * 
+ * @param {EditorRange[]} ranges The ranges to fit.
+ * @param {Version[]} [versions=[]] Other versions which should fit on the scale, such as known releases.
+ * @returns {TimelineScale} The new scale.
+ */
+export function createScale(ranges: EditorRange[], versions: Version[] = []): TimelineScale {
+  const bounds = ranges
+    .flatMap(({ minVersion, maxVersion }) => [minVersion, maxVersion])
+    .filter(v => !v.equals(Version.MIN_VERSION) && !v.equals(Version.MAX_VERSION))
+    .concat(versions);
+
+  const majors = bounds.map(v => v.major);
+  const minMajor = majors.length ? Math.max(Math.min(...majors) - 1, 0) : 1;
+  const maxMajor = majors.length ? Math.min(Math.max(...majors) + 1, 999) : 2;
+
+  const minorCells = new Map<number, number>();
+  for (let major = minMajor; major <= maxMajor; ++major) {
+    const minors = bounds.filter(v => v.major === major && v.minor < 999).map(v => v.minor);
+    minorCells.set(major, minors.length ? Math.max(...minors) + 2 : 2);
+  }
+
+  return {
+    minMajor,
+    maxMajor,
+    minorCells
+  };
+}
+
+/**
+ * Get the position of a version on a timeline.
+ * 
+ * @param {TimelineScale} scale The scale of the timeline.
+ * @param {Version} version The version to get the position of.
+ * @returns {number} The position of the version, from 0 to 1. Versions outside of the scale are placed at the closest end.
+ */
+export function versionPosition(scale: TimelineScale, version: Version): number {
+  if (version.major < scale.minMajor)
+    return 0;
+  else if (version.major > scale.maxMajor)
+    return 1;
+
+  const cells = scale.minorCells.get(version.major) as number;
+  const majorPosition = version.minor < cells ? (version.minor + cellPosition(version)) / cells : 1;
+  return (version.major - scale.minMajor + majorPosition) / majorCount(scale);
+}
+
+/**
+ * Get the bound of a range which is closest to a position on a timeline. Lower bounds are placed at the start of a minor version, and upper bounds at the end of one. If pre-release bounds are allowed, lower bounds can also be placed at the first beta or release candidate of a minor version, and upper bounds before them, or at the full release.
+ * 
+ * @param {TimelineScale} scale The scale of the timeline.
+ * @param {number} position The position on the timeline, from 0 to 1.
+ * @param {Bound} bound Which end of a range the version is for.
+ * @param {boolean} allowPreReleases True if bounds can be placed between pre-releases.
+ * @returns {Version|undefined} The bound at the position, or undefined if there is no valid version at the position.
+ */
+export function versionAtPosition(scale: TimelineScale, position: number, bound: Bound, allowPreReleases: boolean): Version | undefined {
+  const x = Math.min(Math.max(position, 0), 1) * majorCount(scale);
+  const majorIndex = Math.min(Math.floor(x), majorCount(scale) - 1);
+  const major = scale.minMajor + majorIndex;
+
+  const cells = scale.minorCells.get(major) as number;
+  const cellX = (x - majorIndex) * cells;
+  const minor = Math.min(Math.floor(cellX), cells - 1);
+
+  let points = [0, 1];
+  if (allowPreReleases)
+    points = bound === 'lower' ? [0, BETA_START, RC_START, 1] : [0, BETA_START, RC_START, RELEASE_START, 1];
+  const fraction = cellX - minor;
+  const point = points.reduce((closest, p) => Math.abs(p - fraction) < Math.abs(closest - fraction) ? p : closest);
+
+  if (bound === 'lower') {
+    if (point === 1)
+      return minor + 1 < cells ? createVersion(major, minor + 1, 0, 'a', 1) : createVersion(major + 1, 0, 0, 'a', 1);
+    else if (point === BETA_START)
+      return createVersion(major, minor, 0, 'b', 1);
+    else if (point === RC_START)
+      return createVersion(major, minor, 0, 'r', 1);
+
+    // The smallest version is not the first alpha of 0.0.0, since it is invalid
+    return !major && !minor ? Version.MIN_VERSION : createVersion(major, minor, 0, 'a', 1);
+  }
+
+  if (point === 0) {
+    if (minor)
+      return createVersion(major, minor - 1, 999);
+    return major ? createVersion(major - 1, 999, 999) : void 0;
+  }
+  else if (point === BETA_START)
+    return createVersion(major, minor, 0, 'a', 999);
+  else if (point === RC_START)
+    return createVersion(major, minor, 0, 'b', 999);
+  else if (point === RELEASE_START)
+    return createVersion(major, minor, 0);
+  return minor === cells - 1 ? createVersion(major, 999, 999) : createVersion(major, minor, 999);
+}
+
+/**
+ * Get the labelled marks of a timeline.
+ * 
+ * @param {TimelineScale} scale The scale of the timeline.
+ * @returns {TimelineTick[]} A tick for the start of each major version, and for each minor version if there are few enough of them.
+ */
+export function scaleTicks(scale: TimelineScale): TimelineTick[] {
+  const ticks: TimelineTick[] = [];
+  const count = majorCount(scale);
+  for (let major = scale.minMajor; major <= scale.maxMajor; ++major) {
+    const majorStart = major - scale.minMajor;
+    ticks.push({
+      position: majorStart / count,
+      label: major.toString(),
+      isMajor: true
+    });
+
+    const cells = scale.minorCells.get(major) as number;
+    if (cells > MAX_LABELLED_CELLS)
+      continue;
+
+    for (let minor = 1; minor < cells; ++minor) {
+      ticks.push({
+        position: (majorStart + minor / cells) / count,
+        label: `${major}.${minor}` + (minor === cells - 1 ? '+' : ''),
+        isMajor: false
+      });
+    }
+  }
+  return ticks;
+}
+
+/**
+ * Get the selection string of ranges. Unlike the string of a selection, the ranges are not sorted or merged.
+ * 
+ * @param {EditorRange[]} ranges The ranges to get the string of.
+ * @returns {string} The selection string, which is empty if there are no ranges.
+ */
+export function rangesToString(ranges: EditorRange[]): string {
+  return ranges.map(({ minVersion, maxVersion }) => {
+    const hasLower = !minVersion.equals(Version.MIN_VERSION);
+    const hasUpper = !maxVersion.equals(Version.MAX_VERSION);
+    if (!hasLower && !hasUpper)
+      return '*';
+
+    const minStr = hasLower ? minVersion.asMinString() : '';
+    const maxStr = hasUpper ? maxVersion.asMaxString() : '';
+
+    // A single version string is shorter than a range, if it covers exactly the same versions
+    if (hasLower && hasUpper) {
+      const { major, minor, patch } = maxVersion;
+      const singleStr = [maxStr, `${major}.${minor}.${patch}`].find(str => {
+        const [range] = new VersionSelection(str).ranges;
+        return range && range.min === minVersion.toInteger() && range.max === maxVersion.toInteger();
+      });
+      if (singleStr)
+        return singleStr;
+    }
+
+    return `${minStr}-${maxStr}`;
+  }).join(',');
+}
+
+/**
+ * Sort and merge ranges which are being edited, by parsing their selection string.
+ * 
+ * @param {EditorRange[]} ranges The ranges to normalize.
+ * @returns {string} The normalized selection string, which is empty if there are no ranges.
+ */
+export function normalizeRanges(ranges: EditorRange[]): string {
+  if (!ranges.length)
+    return '';
+  return rangesToString(new VersionSelection(rangesToString(ranges)).ranges);
+}
+
+/**
+ * Check if any bound of some ranges is between two pre-releases, such that the range includes only some of the pre-releases of a version.
+ * 
+ * @param {EditorRange[]} ranges The ranges to check.
+ * @returns {boolean} True if any bound is between two pre-releases.
+ */
+export function hasPreReleaseBounds(ranges: EditorRange[]): boolean {
+  return ranges.some(({ minVersion, maxVersion }) =>
+    minVersion.isPreRelease && !isFirstPreRelease(minVersion) && !minVersion.equals(Version.MIN_VERSION) || maxVersion.isPreRelease
+  );
+}
+
+/**
+ * Move every bound which is between two pre-releases down to a full release, so that each range includes either every pre-release of a version or none of them. Lower bounds include every pre-release of their version, and upper bounds exclude every pre-release of their version, unless that would leave the range empty.
+ * 
+ * @param {EditorRange[]} ranges The ranges to round.
+ * @returns {EditorRange[]} New ranges with rounded bounds.
+ */
+export function roundPreReleaseBounds(ranges: EditorRange[]): EditorRange[] {
+  return ranges.map(({ minVersion, maxVersion }) => {
+    const { major, minor, patch } = maxVersion;
+    if (minVersion.isPreRelease && !minVersion.equals(Version.MIN_VERSION))
+      minVersion = new Version(minVersion.major, minVersion.minor, minVersion.patch, 'a', 1);
+
+    if (maxVersion.isPreRelease) {
+      const beforePreReleases = new Version(major, minor, patch, 'a', 1).previous();
+      maxVersion = beforePreReleases && beforePreReleases.compare(minVersion) >= 0 ? beforePreReleases : new Version(major, minor, patch);
+    }
+
+    return { minVersion, maxVersion };
+  });
+}
+
+/**
+ * Create a new range after the last range, with a minor version between them.
+ * 
+ * @param {EditorRange[]} ranges The sorted ranges to add a range after.
+ * @param {TimelineScale} scale The scale of the timeline, which is used to place the range if there are no other ranges.
+ * @returns {EditorRange|undefined} The new range, or undefined if there are no versions after the last range.
+ */
+export function createNextRange(ranges: EditorRange[], scale: TimelineScale): EditorRange | undefined {
+  const last = ranges[ranges.length - 1];
+  if (!last) {
+    const major = Math.max(scale.minMajor, 1);
+    return {
+      minVersion: new Version(major, 0, 0, 'a', 1),
+      maxVersion: new Version(major, 999, 999)
+    };
+  }
+
+  const afterLast = last.maxVersion.next();
+  if (!afterLast)
+    return;
+
+  let { major, minor } = afterLast;
+  if (minor < 999)
+    ++minor;
+  else {
+    ++major;
+    minor = 0;
+  }
+
+  if (major > 999)
+    return;
+
+  return {
+    minVersion: new Version(major, minor, 0, 'a', 1),
+    maxVersion: new Version(major, minor, 999)
+  };
+}
+
+/**
+ * Get the number of major versions on a timeline.
+ * 
+ * @param {TimelineScale} scale The scale of the timeline.
+ * @returns {number} The number of major versions.
+ */
+function majorCount(scale: TimelineScale): number {
+  return scale.maxMajor - scale.minMajor + 1;
+}
+
+/**
+ * Get the position of a version within the cell of its minor version.
+ * 
+ * @param {Version} version The version to get the position of.
+ * @returns {number} The position of the version within its cell, from 0 to 1.
+ */
+function cellPosition(version: Version): number {
+  const { patch, preReleaseType, preReleaseNum } = version;
+  if (patch)
+    return RELEASE_START + (1 - RELEASE_START) * (patch - (preReleaseType ? 0.5 : 0)) / 999;
+  else if (!preReleaseType)
+    return RELEASE_START;
+
+  const start = { a: 0, b: BETA_START, r: RC_START }[preReleaseType];
+  return start + BETA_START * ((preReleaseNum as number) - 1) / 999;
+}
+
+/**
+ * Check if a version is the first alpha of a full release, which is where bounds that include every pre-release of a version start.
+ * 
+ * @param {Version} version The version to check.
+ * @returns {boolean} True if the version is the first alpha of its full release.
+ */
+function isFirstPreRelease(version: Version): boolean {
+  return version.preReleaseType === 'a' && version.preReleaseNum === 1;
+}
+
+/**
+ * Create a version, if it is valid.
+ * 
+ * @param {number} major The major version number.
+ * @param {number} minor The minor version number.
+ * @param {number} patch The patch version number.
+ * @param {'a'|'b'|'r'} [preReleaseType] The type of pre-release.
+ * @param {number} [preReleaseNum] The pre-release number.
+ * @returns {Version|undefined} The version, or undefined if every part of it is zero, or if the major version is too large.
+ */
+function createVersion(major: number, minor: number, patch: number, preReleaseType?: 'a' | 'b' | 'r', preReleaseNum?: number): Version | undefined {
+  if (!(major | minor | patch) || major > 999)
+    return;
+  return new Version(major, minor, patch, preReleaseType, preReleaseNum);
+}
\ No newline at end of file
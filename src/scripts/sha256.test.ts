@@ -0,0 +1,77 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import { createHash } from 'crypto';
+import { TextEncoder } from 'util';
+import Sha256 from './sha256';
+
+const encoder = new TextEncoder();
+
+// Bytes which are different at every offset, so that misplaced bytes change the hash
+function createData(length: number): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => i * 31 + 7 & 0xff);
+}
+
+// Node's implementation is the reference for inputs which don't have published vectors
+function referenceHash(data: Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+describe('test vectors', () => {
+  it.each([
+    ['the empty string', '', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+    ['"abc"', 'abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+    ['the 448-bit message', 'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq', '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'],
+    ['the 896-bit message', 'abcdefghbcdefghicdefghijdefghijkefghijklfghijklmghijklmnhijklmnoijklmnopjklmnopqklmnopqrlmnopqrsmnopqrstnopqrstu', 'cf5b16a778af8380036ce59e7b0492370b249b11e8f07a51afac45037afee9d1'],
+    ['one million "a"s', 'a'.repeat(1000000), 'cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0']
+  ])('hashes %s', (_, message, hash) => {
+    expect(new Sha256().update(encoder.encode(message)).digest()).toBe(hash);
+  });
+});
+
+describe('block boundaries', () => {
+  it.each([1, 55, 56, 57, 63, 64, 65, 119, 120, 127, 128, 129])('hashes %i bytes', length => {
+    const data = createData(length);
+    expect(new Sha256().update(data).digest()).toBe(referenceHash(data));
+  });
+
+  it.each([
+    [55, [1, 54]],
+    [56, [55, 1]],
+    [63, [32, 31]],
+    [64, [63, 1]],
+    [65, [1, 63, 1]],
+    [65, [64, 1]],
+    [200, [7, 0, 64, 100, 29]]
+  ])('hashes %i bytes added in parts of %j', (length, sizes) => {
+    const data = createData(length);
+    const hash = new Sha256();
+
+    let offset = 0;
+    for (const size of sizes) {
+      hash.update(data.subarray(offset, offset + size));
+      offset += size;
+    }
+    expect(hash.digest()).toBe(referenceHash(data));
+  });
+
+  it('hashes data added one byte at a time', () => {
+    const data = createData(130);
+    const hash = new Sha256();
+    for (let i = 0; i < data.length; ++i)
+      hash.update(data.subarray(i, i + 1));
+    expect(hash.digest()).toBe(referenceHash(data));
+  });
+});
\ No newline at end of file
@@ -0,0 +1,150 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+// The first 32 bits of the fractional parts of the cube roots of the first 64 primes
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+// The first 32 bits of the fractional parts of the square roots of the first 8 primes
+const INITIAL_STATE = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+
+const BLOCK_SIZE = 64;
+
+/**
+ * An incremental SHA-256 hash, so that files can be hashed without reading them into memory all at once. The Web Crypto API can only hash data that is entirely in memory.
+ */
+export default class Sha256 {
+
+  private _state = new Uint32Array(INITIAL_STATE);
+  private _block = new Uint8Array(BLOCK_SIZE);
+  private _blockLength = 0;
+  private _length = 0;
+  private _words = new Uint32Array(64);
+
+  /**
+   * Add data to the hash.
+   * 
+   * @param {Uint8Array} data The data to add.
+   * @returns {Sha256} This object, for chaining.
+   */
+  update(data: Uint8Array): this {
+    this._length += data.length;
+
+    let offset = 0;
+    if (this._blockLength) {
+      const count = Math.min(BLOCK_SIZE - this._blockLength, data.length);
+      this._block.set(data.subarray(0, count), this._blockLength);
+      this._blockLength += count;
+      offset = count;
+
+      if (this._blockLength < BLOCK_SIZE)
+        return this;
+      this._compress(this._block, 0);
+      this._blockLength = 0;
+    }
+
+    for (; offset + BLOCK_SIZE <= data.length; offset += BLOCK_SIZE)
+      this._compress(data, offset);
+
+    this._block.set(data.subarray(offset), 0);
+    this._blockLength = data.length - offset;
+    return this;
+  }
+
+  /**
+   * Finish the hash. No more data can be added afterwards.
+   * 
+   * @returns {string} The hash as a lowercase hexadecimal string.
+   */
+  digest(): string {
+    const bitLength = this._length * 8;
+
+    const padding = new Uint8Array((this._blockLength < 56 ? 64 : 128) - this._blockLength);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, Math.floor(bitLength / 0x100000000));
+    view.setUint32(padding.length - 4, bitLength >>> 0);
+    this.update(padding);
+
+    return Array.from(this._state, word => word.toString(16).padStart(8, '0')).join('');
+  }
+
+  /**
+   * Process a single block of data.
+   * 
+   * @param {Uint8Array} data The data containing the block.
+   * @param {number} offset The offset of the block within the data.
+   */
+  private _compress(data: Uint8Array, offset: number): void {
+    const w = this._words;
+    for (let i = 0; i < 16; ++i) {
+      const j = offset + i * 4;
+      w[i] = data[j] << 24 | data[j + 1] << 16 | data[j + 2] << 8 | data[j + 3];
+    }
+    for (let i = 16; i < 64; ++i) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ w[i - 15] >>> 3;
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ w[i - 2] >>> 10;
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    const state = this._state;
+    let [a, b, c, d, e, f, g, h] = state;
+    for (let i = 0; i < 64; ++i) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = e & f ^ ~e & g;
+      const t1 = h + s1 + ch + K[i] + w[i] | 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = a & b ^ a & c ^ b & c;
+      const t2 = s0 + maj | 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = d + t1 | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = t1 + t2 | 0;
+    }
+
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  }
+}
+
+/**
+ * Rotate a 32-bit number to the right.
+ * 
+ * @param {number} x The number to rotate.
+ * @param {number} n The number of bits to rotate by.
+ * @returns {number} The rotated number.
+ */
+function rotr(x: number, n: number): number {
+  return x >>> n | x << 32 - n;
+}
\ No newline at end of file
@@ -0,0 +1,185 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import UploadController, { TransferRate, UploadPhase, UploadTask } from './uploadController';
+import { ChunkedUploadProgressCallback } from './chunkedUpload';
+import { CanceledRequestError, ServerError } from './registryError';
+
+// A task which reports progress, and then waits to be finished or stopped by the test
+function createTask() {
+  const calls: { onProgress: ChunkedUploadProgressCallback; finish: () => void; fail: (e: Error) => void; }[] = [];
+  const task: UploadTask = (signal, onProgress) => new Promise((resolve, reject) => {
+    signal.addEventListener('abort', () => reject(new CanceledRequestError(0, 'canceled')));
+    calls.push({ onProgress, finish: resolve, fail: reject });
+  });
+  return { task, calls };
+}
+
+function progress(value: number, isCompleting = false, chunkCount = 1) {
+  return {
+    chunk: 0,
+    chunkCount,
+    chunkProgress: value,
+    progress: value,
+    isCompleting
+  };
+}
+
+describe('transfer rate', () => {
+  it('is unknown until there are two samples', () => {
+    const rate = new TransferRate();
+    rate.sample(0, 0);
+    expect(rate.bytesPerSecond).toBeUndefined();
+    expect(rate.secondsRemaining(100)).toBeUndefined();
+    rate.sample(1000, 1000);
+    expect(rate.bytesPerSecond).toBe(1000);
+    expect(rate.secondsRemaining(500)).toBe(0.5);
+  });
+
+  it('smooths measurements', () => {
+    const rate = new TransferRate(0.5, 0);
+    rate.sample(0, 0);
+    rate.sample(1000, 1000);
+    rate.sample(4000, 2000);
+    expect(rate.bytesPerSecond).toBe(2000);
+  });
+
+  it('skips samples which are too close together', () => {
+    const rate = new TransferRate(1, 500);
+    rate.sample(0, 0);
+    rate.sample(5000, 100);
+    expect(rate.bytesPerSecond).toBeUndefined();
+    rate.sample(1000, 1000);
+    expect(rate.bytesPerSecond).toBe(1000);
+  });
+
+  it('does not measure time between restarts', () => {
+    const rate = new TransferRate(1, 0);
+    rate.sample(0, 0);
+    rate.sample(1000, 1000);
+    rate.restart();
+    rate.sample(1000, 60000);
+    rate.sample(3000, 61000);
+    expect(rate.bytesPerSecond).toBe(2000);
+  });
+
+  it('measures from the new start if the transfer goes backwards', () => {
+    const rate = new TransferRate(1, 0);
+    rate.sample(0, 0);
+    rate.sample(1000, 1000);
+    rate.sample(500, 2000);
+    expect(rate.bytesPerSecond).toBe(1000);
+  });
+});
+
+describe('upload controller', () => {
+  it('completes the upload', async () => {
+    const { task, calls } = createTask();
+    const onStatus = jest.fn();
+    let time = 0;
+    const controller = new UploadController(task, 1000, onStatus, () => time);
+
+    const result = controller.run();
+    calls[0].onProgress(progress(0));
+    time = 1000;
+    calls[0].onProgress(progress(0.5));
+    expect(controller.status).toMatchObject({ uploadedBytes: 500, bytesPerSecond: 500, secondsRemaining: 1 });
+
+    calls[0].finish();
+    await expect(result).resolves.toBe(true);
+    expect(controller.status.phase).toBe(UploadPhase.Succeeded);
+    expect(onStatus).toHaveBeenLastCalledWith(controller.status);
+  });
+
+  it('runs the task again when resumed', async () => {
+    const { task, calls } = createTask();
+    const controller = new UploadController(task, 1000);
+
+    const result = controller.run();
+    controller.pause();
+    expect(controller.status.phase).toBe(UploadPhase.Paused);
+
+    await Promise.resolve();
+    expect(calls).toHaveLength(1);
+    controller.resume();
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(calls).toHaveLength(2);
+    calls[1].finish();
+    await expect(result).resolves.toBe(true);
+  });
+
+  it('resumes from the last part only if there is more than one part', async () => {
+    const { task, calls } = createTask();
+    const controller = new UploadController(task, 1000);
+
+    controller.run();
+    expect(controller.resumesFromLastPart).toBe(false);
+    calls[0].onProgress(progress(0.5));
+    expect(controller.resumesFromLastPart).toBe(false);
+    calls[0].onProgress(progress(0.5, false, 3));
+    expect(controller.resumesFromLastPart).toBe(true);
+
+    calls[0].finish();
+  });
+
+  it('cancels while uploading', async () => {
+    const { task } = createTask();
+    const controller = new UploadController(task, 1000);
+
+    const result = controller.run();
+    controller.cancel();
+    await expect(result).resolves.toBe(false);
+    expect(controller.status.phase).toBe(UploadPhase.Canceled);
+  });
+
+  it('cancels while paused', async () => {
+    const { task, calls } = createTask();
+    const controller = new UploadController(task, 1000);
+
+    const result = controller.run();
+    controller.pause();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    controller.cancel();
+    await expect(result).resolves.toBe(false);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('can not be stopped once it is completing', async () => {
+    const { task, calls } = createTask();
+    const controller = new UploadController(task, 1000);
+
+    const result = controller.run();
+    calls[0].onProgress(progress(1, true));
+    expect(controller.status.phase).toBe(UploadPhase.Completing);
+    expect(controller.canCancel).toBe(false);
+    controller.cancel();
+    controller.pause();
+
+    calls[0].finish();
+    await expect(result).resolves.toBe(true);
+  });
+
+  it('fails with the error of the task', async () => {
+    const { task, calls } = createTask();
+    const controller = new UploadController(task, 1000);
+
+    const result = controller.run();
+    const error = new ServerError(500, 'internal_error');
+    calls[0].fail(error);
+    await expect(result).rejects.toBe(error);
+    expect(controller.status.phase).toBe(UploadPhase.Failed);
+  });
+});
\ No newline at end of file
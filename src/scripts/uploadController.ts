@@ -0,0 +1,291 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * The status of an upload, which is passed to the status callback of a controller whenever it changes.
+ * 
+ * @typedef {Object} UploadStatus
+ * @property {UploadPhase} phase What the upload is currently doing.
+ * @property {number} progress The progress of the entire file, a number from 0 to 1, where 0 is 0% and 1 is 100%.
+ * @property {ChunkedUploadProgress} [chunkProgress] The progress of the part of the file currently being uploaded, or undefined if no part has started uploading.
+ * @property {number} uploadedBytes The number of bytes of the file which have been uploaded.
+ * @property {number} totalBytes The size of the file in bytes.
+ * @property {number} [bytesPerSecond] The smoothed transfer rate, or undefined until enough of the file has been uploaded to measure it.
+ * @property {number} [secondsRemaining] The estimated time until every part has been uploaded, or undefined if the transfer rate is not known.
+ */
+export type UploadStatus = {
+  phase: UploadPhase;
+  progress: number;
+  chunkProgress?: ChunkedUploadProgress;
+  uploadedBytes: number;
+  totalBytes: number;
+  bytesPerSecond?: number;
+  secondsRemaining?: number;
+};
+
+/**
+ * A function which uploads a file. It is called again to resume the upload after it is paused, so it should resume from where the previous call stopped.
+ * 
+ * @callback UploadTask
+ * @param {AbortSignal} signal The signal which stops the upload. The task should reject with a {@link CanceledRequestError} once it has stopped.
+ * @param {ChunkedUploadProgressCallback} onProgress The callback to execute as the file is uploaded.
+ * @returns {Promise<void>} A promise which resolves once the upload is complete.
+ */
+export type UploadTask = (signal: AbortSignal, onProgress: ChunkedUploadProgressCallback) => Promise<void>;
+
+import { ChunkedUploadProgress, ChunkedUploadProgressCallback } from './chunkedUpload';
+import { CanceledRequestError } from './registryError';
+
+/**
+ * What an upload is currently doing.
+ * 
+ * @enum {string}
+ */
+export enum UploadPhase {
+  Uploading = 'uploading',
+  Paused = 'paused',
+  Completing = 'completing',
+  Canceled = 'canceled',
+  Succeeded = 'succeeded',
+  Failed = 'failed'
+}
+
+/**
+ * Measure the rate of a transfer, smoothed so that the rate doesn't jump around with every progress event.
+ */
+export class TransferRate {
+
+  private _smoothing: number;
+  private _minInterval: number;
+  private _last?: { bytes: number; time: number; };
+  private _rate?: number;
+
+  /**
+   * The smoothed rate in bytes per second, or undefined if there have not been enough samples to measure it.
+   */
+  get bytesPerSecond(): number | undefined {
+    return this._rate;
+  }
+
+  /**
+   * Create a new rate with no samples.
+   * 
+   * @constructor
+   * @param {number} [smoothing=0.3] The weight of each new measurement against the previous rate, a number from 0 to 1, where 1 does no smoothing.
+   * @param {number} [minInterval=500] The least time in milliseconds between measurements. Samples closer together than this are skipped, since progress events are often sent in bursts.
+   */
+  constructor(smoothing = 0.3, minInterval = 500) {
+    this._smoothing = smoothing;
+    this._minInterval = minInterval;
+  }
+
+  /**
+   * Add a sample of the transfer.
+   * 
+   * @param {number} bytes The total number of bytes transferred.
+   * @param {number} time The time of the sample in milliseconds.
+   */
+  sample(bytes: number, time: number): void {
+
+    // Going backwards means that the transfer restarted, so measure from the new start
+    if (!this._last || bytes < this._last.bytes || time < this._last.time) {
+      this._last = { bytes, time };
+      return;
+    }
+
+    const elapsed = time - this._last.time;
+    if (elapsed < this._minInterval)
+      return;
+
+    const rate = (bytes - this._last.bytes) * 1000 / elapsed;
+    this._rate = this._rate === void 0 ? rate : this._smoothing * rate + (1 - this._smoothing) * this._rate;
+    this._last = { bytes, time };
+  }
+
+  /**
+   * Forget the last sample, but keep the rate, so that time spent not transferring, such as while paused, is not measured.
+   */
+  restart(): void {
+    this._last = void 0;
+  }
+
+  /**
+   * Estimate the time until the rest of the transfer completes.
+   * 
+   * @param {number} remainingBytes The number of bytes left to transfer.
+   * @returns {number|undefined} The estimated time in seconds, or undefined if the rate is not known, or is zero.
+   */
+  secondsRemaining(remainingBytes: number): number | undefined {
+    if (!this._rate)
+      return;
+    return Math.max(remainingBytes, 0) / this._rate;
+  }
+}
+
+/**
+ * Control an upload, allowing it to be paused, resumed, and canceled, and measuring its transfer rate.
+ */
+export default class UploadController {
+
+  private _task: UploadTask;
+  private _onStatus?: (status: UploadStatus) => void;
+  private _now: () => number;
+  private _rate = new TransferRate();
+  private _status: UploadStatus;
+  private _abortController?: AbortController;
+  private _resume?: () => void;
+
+  /**
+   * The current status of the upload.
+   */
+  get status(): UploadStatus {
+    return this._status;
+  }
+
+  /**
+   * True if the upload can be paused.
+   */
+  get canPause(): boolean {
+    return this._status.phase === UploadPhase.Uploading;
+  }
+
+  /**
+   * True if resuming the upload continues from the last part which was uploaded. Otherwise, such as when the file is uploaded whole, resuming uploads the file again from the beginning.
+   */
+  get resumesFromLastPart(): boolean {
+    return (this._status.chunkProgress?.chunkCount ?? 0) > 1;
+  }
+
+  /**
+   * True if the upload can be canceled. Once every part has been uploaded, the registry is processing the upload, and it can not be canceled.
+   */
+  get canCancel(): boolean {
+    return this._status.phase === UploadPhase.Uploading || this._status.phase === UploadPhase.Paused;
+  }
+
+  /**
+   * Create a new controller for an upload which has not started.
+   * 
+   * @constructor
+   * @param {UploadTask} task The function which uploads the file.
+   * @param {number} totalBytes The size of the file in bytes.
+   * @param {(UploadStatus) => void} [onStatus] The callback to execute whenever the status changes.
+   * @param {() => number} [now] The function which gets the current time in milliseconds.
+   */
+  constructor(task: UploadTask, totalBytes: number, onStatus?: (status: UploadStatus) => void, now = () => Date.now()) {
+    this._task = task;
+    this._onStatus = onStatus;
+    this._now = now;
+    this._status = {
+      phase: UploadPhase.Uploading,
+      progress: 0,
+      uploadedBytes: 0,
+      totalBytes
+    };
+  }
+
+  /**
+   * Run the upload until it completes or is canceled, running the task again each time it is resumed.
+   * 
+   * @async
+   * @returns {Promise<boolean>} A promise which resolves to true if the upload completed, or false if it was canceled.
+   * @throws {RegistryError} An error is thrown if the task fails for any reason other than being paused or canceled.
+   */
+  async run(): Promise<boolean> {
+    for (;;) {
+      this._abortController = new AbortController();
+      this._rate.restart();
+
+      try {
+        await this._task(this._abortController.signal, progress => this._onProgress(progress));
+        this._update({ phase: UploadPhase.Succeeded });
+        return true;
+      } catch (e) {
+        const wasStopped = this._status.phase === UploadPhase.Paused || this._status.phase === UploadPhase.Canceled;
+        if (!(e instanceof CanceledRequestError) || !wasStopped) {
+          this._update({ phase: UploadPhase.Failed });
+          throw e;
+        }
+      }
+
+      if (this._status.phase === UploadPhase.Paused)
+        await new Promise<void>(resolve => this._resume = resolve);
+      if (this._status.phase === UploadPhase.Canceled)
+        return false;
+    }
+  }
+
+  /**
+   * Pause the upload, stopping the part currently being uploaded. Does nothing if the upload can not be paused.
+   */
+  pause(): void {
+    if (!this.canPause)
+      return;
+    this._update({
+      phase: UploadPhase.Paused,
+      bytesPerSecond: void 0,
+      secondsRemaining: void 0
+    });
+    this._abortController?.abort();
+  }
+
+  /**
+   * Resume a paused upload. Does nothing if the upload is not paused.
+   */
+  resume(): void {
+    if (this._status.phase !== UploadPhase.Paused)
+      return;
+    this._update({ phase: UploadPhase.Uploading });
+    this._release();
+  }
+
+  /**
+   * Cancel the upload. Does nothing if the upload can not be canceled.
+   */
+  cancel(): void {
+    if (!this.canCancel)
+      return;
+    this._update({ phase: UploadPhase.Canceled });
+    this._abortController?.abort();
+    this._release();
+  }
+
+  private _onProgress(chunkProgress: ChunkedUploadProgress): void {
+    const { phase, totalBytes } = this._status;
+    const uploadedBytes = chunkProgress.progress * totalBytes;
+    this._rate.sample(uploadedBytes, this._now());
+
+    const isUploading = phase === UploadPhase.Uploading;
+    this._update({
+      phase: isUploading && chunkProgress.isCompleting ? UploadPhase.Completing : phase,
+      progress: chunkProgress.progress,
+      chunkProgress,
+      uploadedBytes,
+      bytesPerSecond: isUploading ? this._rate.bytesPerSecond : void 0,
+      secondsRemaining: isUploading ? this._rate.secondsRemaining(totalBytes - uploadedBytes) : void 0
+    });
+  }
+
+  private _release(): void {
+    const resume = this._resume;
+    this._resume = void 0;
+    resume?.();
+  }
+
+  private _update(changes: Partial<UploadStatus>): void {
+    this._status = { ...this._status, ...changes };
+    this._onStatus?.(this._status);
+  }
+}
\ No newline at end of file
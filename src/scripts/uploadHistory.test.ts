@@ -0,0 +1,53 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import { addUpload, getLatestUpload, getUploadHistory } from './uploadHistory';
+
+const ENTRY = {
+  packageId: 'mock.aircraft',
+  packageVersion: '1.0.0',
+  fileName: 'mock.zip',
+  hash: 'abc'
+};
+
+afterEach(() => {
+  localStorage.clear();
+});
+
+it('gets the most recent upload of a version', () => {
+  addUpload(ENTRY);
+  addUpload({ ...ENTRY, hash: 'def' });
+  expect(getLatestUpload('mock.aircraft', '1.0.0')).toMatchObject({ hash: 'def' });
+  expect(getLatestUpload('mock.aircraft', '2.0.0')).toBeUndefined();
+});
+
+it.each([
+  ['invalid JSON', '['],
+  ['an object', '{}'],
+  ['a number', '5'],
+  ['null', 'null']
+])('ignores a history which is %s', (_, value) => {
+  localStorage.setItem('upload_history', value);
+  expect(getUploadHistory()).toEqual([]);
+  expect(getLatestUpload('mock.aircraft', '1.0.0')).toBeUndefined();
+
+  addUpload(ENTRY);
+  expect(getUploadHistory()).toEqual([expect.objectContaining(ENTRY)]);
+});
+
+it('ignores entries which are not uploads', () => {
+  localStorage.setItem('upload_history', JSON.stringify([null, 'mock.zip', { packageId: 'mock.aircraft' }, { ...ENTRY, uploadDate: '2023-01-01T00:00:00.000Z' }]));
+  expect(getUploadHistory()).toEqual([{ ...ENTRY, uploadDate: '2023-01-01T00:00:00.000Z' }]);
+});
\ No newline at end of file
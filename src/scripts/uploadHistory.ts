@@ -0,0 +1,81 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A file that was uploaded from this browser.
+ * 
+ * @typedef {Object} UploadHistoryEntry
+ * @property {string} packageId The identifier of the package the file was uploaded to.
+ * @property {string} packageVersion The version of the package the file was uploaded to.
+ * @property {string} fileName The name of the uploaded file.
+ * @property {string} hash The lowercase hexadecimal SHA-256 hash of the uploaded file.
+ * @property {string} uploadDate The time that the upload completed as an ISO string.
+ */
+export type UploadHistoryEntry = {
+  packageId: string;
+  packageVersion: string;
+  fileName: string;
+  hash: string;
+  uploadDate: string;
+};
+
+const STORAGE_KEY = 'upload_history';
+
+// Oldest entries are removed first once there are too many
+const MAX_ENTRIES = 100;
+
+/**
+ * Get every upload in the history, most recent first.
+ * 
+ * @returns {UploadHistoryEntry[]} All of the entries in the history.
+ */
+export function getUploadHistory(): UploadHistoryEntry[] {
+  let history: unknown;
+  try {
+    history = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+
+  // Local storage can be edited, so anything that isn't an entry is dropped
+  if (!Array.isArray(history))
+    return [];
+  return history.filter(e => typeof e === 'object' && e !== null && typeof e.hash === 'string');
+}
+
+/**
+ * Get the most recent upload of a specific package version.
+ * 
+ * @param {string} packageId The identifier of the package.
+ * @param {string} packageVersion The version of the package.
+ * @returns {UploadHistoryEntry|undefined} The most recent upload, or undefined if the version was never uploaded from this browser.
+ */
+export function getLatestUpload(packageId: string, packageVersion: string): UploadHistoryEntry | undefined {
+  return getUploadHistory().find(e => e.packageId === packageId && e.packageVersion === packageVersion);
+}
+
+/**
+ * Add an upload to the history.
+ * 
+ * @param {Omit<UploadHistoryEntry, 'uploadDate'>} entry The upload to add. The upload date is set to now.
+ */
+export function addUpload(entry: Omit<UploadHistoryEntry, 'uploadDate'>): void {
+  const history = getUploadHistory();
+  history.unshift({
+    ...entry,
+    uploadDate: new Date().toISOString()
+  });
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(history.slice(0, MAX_ENTRIES)));
+}
\ No newline at end of file
@@ -0,0 +1,108 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import { deleteTemplate, exportTemplates, getTemplates, importTemplates, parseTemplates, pickSettings, saveTemplate, UploadTemplate } from './uploadTemplates';
+
+function createTemplate(name: string, overrides: Partial<UploadTemplate> = {}): UploadTemplate {
+  return {
+    name,
+    isPublic: true,
+    isPrivate: false,
+    isStored: true,
+    platforms: { macOS: true, windows: true, linux: false },
+    xpSelection: '12',
+    dependencies: [['lib.a', '1']],
+    incompatibilities: [],
+    ...overrides
+  };
+}
+
+beforeEach(() => localStorage.clear());
+
+describe('storage', () => {
+  it('saves templates per package', () => {
+    saveTemplate('pkg.a', createTemplate('beta'));
+    saveTemplate('pkg.a', createTemplate('alpha'));
+    saveTemplate('pkg.b', createTemplate('other'));
+    expect(getTemplates('pkg.a').map(t => t.name)).toEqual(['alpha', 'beta']);
+    expect(getTemplates('pkg.b').map(t => t.name)).toEqual(['other']);
+  });
+
+  it('replaces templates with the same name', () => {
+    saveTemplate('pkg.a', createTemplate('beta'));
+    saveTemplate('pkg.a', createTemplate('beta', { xpSelection: '11' }));
+    expect(getTemplates('pkg.a')).toEqual([createTemplate('beta', { xpSelection: '11' })]);
+  });
+
+  it('deletes templates', () => {
+    saveTemplate('pkg.a', createTemplate('beta'));
+    deleteTemplate('pkg.a', 'beta');
+    expect(getTemplates('pkg.a')).toEqual([]);
+  });
+
+  it('ignores corrupt storage', () => {
+    localStorage.setItem('upload_templates', '{');
+    expect(getTemplates('pkg.a')).toEqual([]);
+  });
+});
+
+describe('importing and exporting', () => {
+  it('imports exported templates into another package', () => {
+    saveTemplate('pkg.a', createTemplate('beta'));
+    saveTemplate('pkg.b', createTemplate('beta', { xpSelection: '11' }));
+    expect(importTemplates('pkg.b', exportTemplates('pkg.a'))).toBe(1);
+    expect(getTemplates('pkg.b')).toEqual(getTemplates('pkg.a'));
+  });
+
+  it('only keeps the properties of a template', () => {
+    const [template] = parseTemplates(JSON.stringify({ templates: [{ ...createTemplate(' beta '), extra: true }] }));
+    expect(template).toEqual(createTemplate('beta'));
+  });
+
+  const invalid: [string, string][] = [
+    ['malformed JSON', '{'],
+    ['a missing template list', '{}'],
+    ['a missing name', JSON.stringify({ templates: [createTemplate('  ')] })],
+    ['conflicting access', JSON.stringify({ templates: [createTemplate('a', { isPrivate: true })] })],
+    ['an invalid selection', JSON.stringify({ templates: [createTemplate('a', { xpSelection: '1-x' })] })],
+    ['invalid dependencies', JSON.stringify({ templates: [{ ...createTemplate('a'), dependencies: [['lib.a']] }] })]
+  ];
+
+  for (const [description, json] of invalid) {
+    it(`rejects ${description}`, () => {
+      saveTemplate('pkg.a', createTemplate('beta'));
+      expect(() => importTemplates('pkg.a', json)).toThrow();
+      expect(getTemplates('pkg.a')).toEqual([createTemplate('beta')]);
+    });
+  }
+});
+
+describe('picking settings', () => {
+  it('only picks the chosen groups', () => {
+    expect(pickSettings(createTemplate('a'), ['access', 'dependencies'])).toEqual({
+      isPublic: true,
+      isPrivate: false,
+      isStored: true,
+      dependencies: [['lib.a', '1']]
+    });
+  });
+
+  it('copies lists', () => {
+    const template = createTemplate('a');
+    const picked = pickSettings(template, ['dependencies']);
+    picked.dependencies?.push(['lib.b', '2']);
+    expect(template.dependencies).toHaveLength(1);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,287 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * The settings of an upload which can be inherited from an existing version, or saved in a template.
+ * 
+ * @typedef {Object} UploadSettings
+ * @property {boolean} isPublic True if the version is public.
+ * @property {boolean} isPrivate True if the version is private.
+ * @property {boolean} isStored True if the version is stored.
+ * @property {Object} platforms The platforms that the version supports.
+ * @property {boolean} platforms.macOS True if the version supports MacOS.
+ * @property {boolean} platforms.windows True if the version supports Windows.
+ * @property {boolean} platforms.linux True if the version supports Linux.
+ * @property {string} xpSelection The selection string of X-Plane versions.
+ * @property {[string, string][]} dependencies The dependencies of the version, as tuples of package identifiers and selection strings.
+ * @property {[string, string][]} incompatibilities The incompatibilities of the version, as tuples of package identifiers and selection strings.
+ */
+export type UploadSettings = {
+  isPublic: boolean;
+  isPrivate: boolean;
+  isStored: boolean;
+  platforms: AuthorVersionData['platforms'];
+  xpSelection: string;
+  dependencies: [string, string][];
+  incompatibilities: [string, string][];
+};
+
+/**
+ * Upload settings saved under a name.
+ * 
+ * @typedef {Object} UploadTemplate
+ * @property {string} name The name of the template, which is unique within a package.
+ */
+export type UploadTemplate = UploadSettings & {
+  name: string;
+};
+
+/**
+ * A group of settings which can be inherited separately.
+ * 
+ * @typedef {'access'|'platforms'|'xpSelection'|'dependencies'|'incompatibilities'} SettingsField
+ */
+export type SettingsField = 'access' | 'platforms' | 'xpSelection' | 'dependencies' | 'incompatibilities';
+
+import { AuthorVersionData } from './author';
+import VersionSelection from './versionSelection';
+
+const STORAGE_KEY = 'upload_templates';
+
+/**
+ * Every group of settings, in the order that they appear on the upload page.
+ */
+export const SETTINGS_FIELDS: SettingsField[] = ['xpSelection', 'access', 'platforms', 'dependencies', 'incompatibilities'];
+
+/**
+ * The human-readable name of each group of settings.
+ */
+export const SETTINGS_FIELD_NAMES: Record<SettingsField, string> = {
+  xpSelection: 'X-Plane Compatibility',
+  access: 'Access Configuration',
+  platforms: 'Platform Support',
+  dependencies: 'Dependencies',
+  incompatibilities: 'Incompatibilities'
+};
+
+/**
+ * Get the upload settings of an existing version.
+ * 
+ * @param {AuthorVersionData} version The version to get the settings of.
+ * @returns {UploadSettings} The settings of the version, with deep copies of its lists.
+ */
+export function settingsFromVersion(version: AuthorVersionData): UploadSettings {
+  return {
+    isPublic: version.isPublic,
+
+    // Exactly one of public or private is checked when uploading
+    isPrivate: !version.isPublic,
+    isStored: version.isStored,
+    platforms: { ...version.platforms },
+    xpSelection: version.xpSelection.toString(),
+    dependencies: copyList(version.dependencies),
+    incompatibilities: copyList(version.incompatibilities)
+  };
+}
+
+/**
+ * Pick only some groups of settings.
+ * 
+ * @param {UploadSettings} settings The settings to pick from.
+ * @param {SettingsField[]} fields The groups of settings to pick.
+ * @returns {Partial<UploadSettings>} The picked settings, with deep copies of any lists.
+ */
+export function pickSettings(settings: UploadSettings, fields: SettingsField[]): Partial<UploadSettings> {
+  const picked: Partial<UploadSettings> = {};
+
+  if (fields.includes('access')) {
+    picked.isPublic = settings.isPublic;
+    picked.isPrivate = settings.isPrivate;
+    picked.isStored = settings.isStored;
+  }
+  if (fields.includes('platforms'))
+    picked.platforms = { ...settings.platforms };
+  if (fields.includes('xpSelection'))
+    picked.xpSelection = settings.xpSelection;
+  if (fields.includes('dependencies'))
+    picked.dependencies = copyList(settings.dependencies);
+  if (fields.includes('incompatibilities'))
+    picked.incompatibilities = copyList(settings.incompatibilities);
+
+  return picked;
+}
+
+/**
+ * Get the templates of a package saved in this browser.
+ * 
+ * @param {string} packageId The identifier of the package.
+ * @returns {UploadTemplate[]} The templates of the package, sorted by name.
+ */
+export function getTemplates(packageId: string): UploadTemplate[] {
+  return getAllTemplates()[packageId] ?? [];
+}
+
+/**
+ * Save a template for a package, replacing any template of the package with the same name.
+ * 
+ * @param {string} packageId The identifier of the package.
+ * @param {UploadTemplate} template The template to save.
+ */
+export function saveTemplate(packageId: string, template: UploadTemplate): void {
+  setTemplates(packageId, [...getTemplates(packageId).filter(t => t.name !== template.name), template]);
+}
+
+/**
+ * Delete a template of a package.
+ * 
+ * @param {string} packageId The identifier of the package.
+ * @param {string} name The name of the template to delete.
+ */
+export function deleteTemplate(packageId: string, name: string): void {
+  setTemplates(packageId, getTemplates(packageId).filter(t => t.name !== name));
+}
+
+/**
+ * Export the templates of a package as JSON.
+ * 
+ * @param {string} packageId The identifier of the package.
+ * @returns {string} The JSON of the templates, which can be imported for any package.
+ */
+export function exportTemplates(packageId: string): string {
+  return JSON.stringify({
+    packageId,
+    templates: getTemplates(packageId)
+  }, null, 2);
+}
+
+/**
+ * Import templates from JSON which was exported, replacing any existing templates with the same names.
+ * 
+ * @param {string} packageId The identifier of the package to import the templates to.
+ * @param {string} json The exported JSON.
+ * @returns {number} The number of templates imported.
+ * @throws {Error} An error is thrown with a human-readable message if the JSON is not a valid export, in which case no templates are imported.
+ */
+export function importTemplates(packageId: string, json: string): number {
+  const imported = parseTemplates(json);
+  const names = imported.map(t => t.name);
+  setTemplates(packageId, [...getTemplates(packageId).filter(t => !names.includes(t.name)), ...imported]);
+  return imported.length;
+}
+
+/**
+ * Parse and validate exported templates.
+ * 
+ * @param {string} json The exported JSON.
+ * @returns {UploadTemplate[]} The templates in the JSON, with only the properties of a template. If multiple templates have the same name, only the last one is kept.
+ * @throws {Error} An error is thrown with a human-readable message if the JSON is not a valid export.
+ */
+export function parseTemplates(json: string): UploadTemplate[] {
+  let data;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!data || !Array.isArray(data.templates))
+    throw new Error('The file does not contain any upload templates.');
+
+  const templates = new Map<string, UploadTemplate>();
+  for (const [i, t] of (data.templates as unknown[]).entries()) {
+    const template = t as Record<string, unknown>;
+    const label = typeof template?.name === 'string' ? `"${template.name}"` : `#${i + 1}`;
+
+    if (!template || typeof template.name !== 'string' || !template.name.trim())
+      throw new Error(`Template ${label} does not have a name.`);
+    if (typeof template.isPublic !== 'boolean' || typeof template.isPrivate !== 'boolean' || typeof template.isStored !== 'boolean' || template.isPublic === template.isPrivate)
+      throw new Error(`Template ${label} has an invalid access configuration.`);
+
+    const platforms = template.platforms as Record<string, unknown> | undefined;
+    if (!platforms || typeof platforms.macOS !== 'boolean' || typeof platforms.windows !== 'boolean' || typeof platforms.linux !== 'boolean')
+      throw new Error(`Template ${label} has invalid platform support.`);
+    if (typeof template.xpSelection !== 'string' || !new VersionSelection(template.xpSelection).isValid)
+      throw new Error(`Template ${label} has an invalid X-Plane selection.`);
+    if (!isPackageList(template.dependencies))
+      throw new Error(`Template ${label} has invalid dependencies.`);
+    if (!isPackageList(template.incompatibilities))
+      throw new Error(`Template ${label} has invalid incompatibilities.`);
+
+    templates.set(template.name.trim(), {
+      name: template.name.trim(),
+      isPublic: template.isPublic,
+      isPrivate: template.isPrivate,
+      isStored: template.isStored || template.isPublic,
+      platforms: {
+        macOS: platforms.macOS,
+        windows: platforms.windows,
+        linux: platforms.linux
+      },
+      xpSelection: template.xpSelection,
+      dependencies: copyList(template.dependencies),
+      incompatibilities: copyList(template.incompatibilities)
+    });
+  }
+
+  return Array.from(templates.values());
+}
+
+/**
+ * Get the templates of every package.
+ * 
+ * @returns {Record<string, UploadTemplate[]>} The templates of each package, keyed by package identifier.
+ */
+function getAllTemplates(): Record<string, UploadTemplate[]> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Replace the templates of a package.
+ * 
+ * @param {string} packageId The identifier of the package.
+ * @param {UploadTemplate[]} templates The new templates of the package.
+ */
+function setTemplates(packageId: string, templates: UploadTemplate[]): void {
+  const all = getAllTemplates();
+  if (templates.length)
+    all[packageId] = templates.sort((a, b) => a.name.localeCompare(b.name));
+  else
+    delete all[packageId];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+}
+
+/**
+ * Check if a value is a list of package identifiers and selection strings.
+ * 
+ * @param {unknown} list The value to check.
+ * @returns {boolean} True if the value is an array of tuples of two strings.
+ */
+function isPackageList(list: unknown): list is [string, string][] {
+  return Array.isArray(list) && list.every(item => Array.isArray(item) && item.length === 2 && typeof item[0] === 'string' && typeof item[1] === 'string');
+}
+
+/**
+ * Copy a list of package identifiers and selection strings, so that changing the copy doesn't change the original.
+ * 
+ * @param {[string, string][]} list The list to copy.
+ * @returns {[string, string][]} A deep copy of the list.
+ */
+function copyList(list: [string, string][]): [string, string][] {
+  return list.map(([packageId, selection]) => [packageId, selection]);
+}
\ No newline at end of file
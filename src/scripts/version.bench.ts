@@ -0,0 +1,77 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+// Run with `npm run bench`. Benchmarks are not run with the rest of the tests, since timings are too noisy to assert on.
+
+import Version from './version';
+import VersionSelection from './versionSelection';
+import { randomSelectionString, randomVersion, seededRandom } from './versionTestUtil';
+
+const VERSION_COUNTS = [1000, 5000, 20000];
+const SELECTION_COUNT = 1000;
+const REPEATS = 5;
+
+/**
+ * Run a function multiple times and get the fastest run.
+ * 
+ * @param {() => void} fn The function to time.
+ * @returns {number} The fastest time in milliseconds.
+ */
+function time(fn: () => void): number {
+  let fastest = Infinity;
+  for (let i = 0; i < REPEATS; ++i) {
+    const start = performance.now();
+    fn();
+    fastest = Math.min(fastest, performance.now() - start);
+  }
+  return fastest;
+}
+
+it('sorts versions', () => {
+  const random = seededRandom(0x62656e);
+  const results = VERSION_COUNTS.map(count => {
+    const versions = Array.from({ length: count }, () => randomVersion(random));
+    let floatSorted: Version[] = [];
+    let integerSorted: Version[] = [];
+
+    const floatTime = time(() => floatSorted = versions.slice().sort((a, b) => b.toFloat().cmp(a.toFloat())));
+    const integerTime = time(() => integerSorted = versions.slice().sort((a, b) => b.compare(a)));
+    expect(integerSorted.map(v => v.toString())).toEqual(floatSorted.map(v => v.toString()));
+
+    return {
+      versions: count,
+      'Big.js (ms)': +floatTime.toFixed(2),
+      'integer (ms)': +integerTime.toFixed(2),
+      speedup: +(floatTime / integerTime).toFixed(1)
+    };
+  });
+  console.table(results);
+});
+
+it('checks versions against selections', () => {
+  const random = seededRandom(0x73656c);
+  const selectionStrs = Array.from({ length: SELECTION_COUNT }, () => randomSelectionString(random));
+  const versions = Array.from({ length: SELECTION_COUNT }, () => randomVersion(random));
+
+  const parseTime = time(() => selectionStrs.forEach(s => new VersionSelection(s)));
+  const selections = selectionStrs.map(s => new VersionSelection(s));
+  const containsTime = time(() => selections.forEach((s, i) => s.containsVersion(versions[i])));
+
+  console.table([{
+    selections: SELECTION_COUNT,
+    'parse (ms)': +parseTime.toFixed(2),
+    'containsVersion (ms)': +containsTime.toFixed(2)
+  }]);
+});
\ No newline at end of file
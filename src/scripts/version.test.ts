@@ -0,0 +1,236 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import Version from './version';
+import VersionSelection from './versionSelection';
+import vectors from './versionVectors.json';
+import { hasInvalidMaxString, randomVersion, seededRandom } from './versionTestUtil';
+
+const PROPERTY_RUNS = 500;
+
+/**
+ * Shorthand to parse a version that is known to be valid.
+ * 
+ * @param {string} versionStr The version string to parse.
+ * @returns {Version} The parsed version.
+ */
+function v(versionStr: string): Version {
+  return Version.fromString(versionStr) as Version;
+}
+
+// Sort pre-release types the way the registry does, with full releases last
+const PRE_RELEASE_RANK = { a: 0, b: 1, r: 2, release: 3 };
+
+/**
+ * Compare two versions by their parts, independently of the float encoding.
+ * 
+ * @param {Version} v1 The first version to compare.
+ * @param {Version} v2 The second version to compare.
+ * @returns {number} A negative number if v1 is less than v2, a positive number if v1 is greater than v2, or zero if they are equal.
+ */
+function compareParts(v1: Version, v2: Version): number {
+  const key = (v: Version) => [v.major, v.minor, v.patch, PRE_RELEASE_RANK[v.preReleaseType ?? 'release'], v.preReleaseNum ?? 0];
+  const k1 = key(v1);
+  const k2 = key(v2);
+  for (let i = 0; i < k1.length; ++i) {
+    if (k1[i] !== k2[i])
+      return k1[i] - k2[i];
+  }
+  return 0;
+}
+
+describe('golden vectors', () => {
+  it.each(vectors.versions)('parses $input', ({ input, string, float, minString, maxString }) => {
+    const version = Version.fromString(input) as Version;
+    expect(version).toBeInstanceOf(Version);
+    expect(version.toString()).toBe(string);
+    expect(version.toFloat().toFixed()).toBe(float);
+    expect(version.asMinString()).toBe(minString);
+    expect(version.asMaxString()).toBe(maxString);
+  });
+
+  it.each(vectors.invalidVersions)('rejects %p', input => {
+    expect(Version.fromString(input)).toBeUndefined();
+  });
+
+  it('orders versions', () => {
+    const versions = vectors.ordering.map(v);
+    for (let i = 1; i < versions.length; ++i) {
+      expect(versions[i - 1].toFloat().lt(versions[i].toFloat())).toBe(true);
+      expect(versions[i - 1].compare(versions[i])).toBeLessThan(0);
+      expect(versions[i].compare(versions[i - 1])).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('constructor', () => {
+  it('defaults minor and patch to zero', () => {
+    expect(new Version(3).toString()).toBe('3.0.0');
+  });
+
+  it.each([
+    ['a pre-release number without a type', () => new Version(1, 0, 0, void 0, 1)],
+    ['an alpha without a number', () => new Version(1, 0, 0, 'a')],
+    ['a beta without a number', () => new Version(1, 0, 0, 'b')],
+    ['a release candidate without a number', () => new Version(1, 0, 0, 'r')],
+    ['a pre-release number of zero', () => new Version(1, 0, 0, 'a', 0)],
+    ['a version of all zeroes', () => new Version(0, 0, 0)]
+  ])('throws for %s', (_, create) => {
+    expect(create).toThrow();
+  });
+});
+
+describe('pre-releases', () => {
+  it('sets the pre-release number to one when the type is set', () => {
+    const version = new Version(1, 2, 3);
+    version.preReleaseType = 'b';
+    expect(version.toString()).toBe('1.2.3b1');
+  });
+
+  it('ignores the pre-release number of full releases', () => {
+    const version = new Version(1, 2, 3);
+    version.preReleaseNum = 4;
+    expect(version.isPreRelease).toBe(false);
+    expect(version.toString()).toBe('1.2.3');
+  });
+
+  it('orders alphas before betas before release candidates before releases', () => {
+    const floats = ['2.0.0a999', '2.0.0b1', '2.0.0r1', '2.0.0'].map(s => v(s).toFloat());
+    expect(floats[0].lt(floats[1])).toBe(true);
+    expect(floats[1].lt(floats[2])).toBe(true);
+    expect(floats[2].lt(floats[3])).toBe(true);
+  });
+
+  it('orders pre-releases after the previous patch', () => {
+    const previous = new Version(1, 9, 999).toFloat();
+    expect(previous.lt(new Version(2, 0, 0, 'a', 1).toFloat())).toBe(true);
+  });
+});
+
+describe('next and previous versions', () => {
+  it.each([
+    ['1.2.3a1', '1.2.3a2'],
+    ['1.2.3a999', '1.2.3b1'],
+    ['1.2.3b999', '1.2.3r1'],
+    ['1.2.3r999', '1.2.3'],
+    ['1.2.3', '1.2.4a1'],
+    ['1.2.999', '1.3.0a1'],
+    ['1.999.999', '2.0.0a1'],
+    ['0.0.1a1', '0.0.1a2']
+  ])('gets the version after %s', (version, next) => {
+    expect(v(version).next()?.toString()).toBe(v(next).toString());
+    expect(v(next).previous()?.toString()).toBe(v(version).toString());
+  });
+
+  it('does not get a version after the largest version', () => {
+    expect(Version.MAX_VERSION.next()).toBeUndefined();
+  });
+
+  it('does not get a version before the smallest version', () => {
+    expect(Version.MIN_VERSION.previous()).toBeUndefined();
+  });
+});
+
+describe('properties', () => {
+  const random = seededRandom(0x786b67);
+
+  it('round-trips through strings', () => {
+    for (let i = 0; i < PROPERTY_RUNS; ++i) {
+      const version = randomVersion(random);
+      const parsed = Version.fromString(version.toString());
+      expect(parsed?.toString()).toBe(version.toString());
+      expect(parsed?.equals(version)).toBe(true);
+    }
+  });
+
+  it('orders floats the same as version parts', () => {
+    for (let i = 0; i < PROPERTY_RUNS; ++i) {
+      const v1 = randomVersion(random);
+      const v2 = randomVersion(random);
+      expect(Math.sign(v1.toFloat().cmp(v2.toFloat()))).toBe(Math.sign(compareParts(v1, v2)));
+      expect(v1.equals(v2)).toBe(compareParts(v1, v2) === 0);
+    }
+  });
+
+  it('orders integers the same as floats', () => {
+    for (let i = 0; i < PROPERTY_RUNS; ++i) {
+      const v1 = randomVersion(random);
+      const v2 = randomVersion(random);
+      expect(Number.isSafeInteger(v1.toInteger())).toBe(true);
+      expect(Math.sign(v1.compare(v2))).toBe(v1.toFloat().cmp(v2.toFloat()));
+    }
+  });
+
+  it('has no versions between a version and the next version', () => {
+    for (let i = 0; i < PROPERTY_RUNS; ++i) {
+      const v1 = randomVersion(random);
+      const v2 = randomVersion(random);
+      const next = v1.next();
+      if (!next)
+        continue;
+
+      expect(next.compare(v1)).toBeGreaterThan(0);
+      expect(next.previous()?.equals(v1)).toBe(true);
+      expect(v2.compare(v1) > 0 && v2.compare(next) < 0).toBe(false);
+    }
+  });
+
+  it('stays within the minimum and maximum versions', () => {
+    const min = Version.MIN_VERSION.toFloat();
+    const max = Version.MAX_VERSION.toFloat();
+    for (let i = 0; i < PROPERTY_RUNS; ++i) {
+      const version = randomVersion(random);
+      const float = version.toFloat();
+      expect(float.gte(min) && float.lte(max)).toBe(true);
+      expect(version.compare(Version.MIN_VERSION)).toBeGreaterThanOrEqual(0);
+      expect(version.compare(Version.MAX_VERSION)).toBeLessThanOrEqual(0);
+    }
+  });
+
+  it('round-trips the minimum string of range minimums', () => {
+    for (let i = 0; i < PROPERTY_RUNS; ++i) {
+      const min = new VersionSelection(`${randomVersion(random)}-`).ranges[0].minVersion;
+      const reparsed = new VersionSelection(`${min.asMinString()}-`).ranges[0].minVersion;
+      expect(reparsed.toString()).toBe(min.toString());
+    }
+  });
+
+  it('round-trips the maximum string of range maximums', () => {
+    for (let i = 0; i < PROPERTY_RUNS; ++i) {
+      const max = new VersionSelection(`-${randomVersion(random)}`).ranges[0].maxVersion;
+      if (hasInvalidMaxString(max))
+        continue;
+
+      const reparsed = new VersionSelection(`-${max.asMaxString()}`).ranges[0].maxVersion;
+      expect(reparsed.toString()).toBe(max.toString());
+    }
+  });
+});
+
+// The registry parses and prints versions the same way, so these have to be fixed together with the registry
+describe('known differences from the intended behavior', () => {
+  it('parses "1..2" as 1.0.2', () => {
+    expect(Version.fromString('1..2')?.toString()).toBe('1.0.2');
+  });
+
+  it.each([
+    ['0.0.999', '0.0'],
+    ['0.999.999', '0']
+  ])('shortens the maximum string of %s to the invalid %p', (input, maxString) => {
+    expect(v(input).asMaxString()).toBe(maxString);
+    expect(hasInvalidMaxString(v(input))).toBe(true);
+    expect(Version.fromString(maxString)).toBeUndefined();
+  });
+});
\ No newline at end of file
@@ -22,6 +22,15 @@ import { Big } from 'big.js';
  */
 type InternalVersion = [number, number, number, ('a' | 'b' | 'r')?, number?];
 
+// Each pre-release type gets its own block of numbers below the full release, which is the last number of the block
+const PRE_RELEASE_OFFSETS = {
+  a: 0,
+  b: 1000,
+  r: 2000
+};
+const RELEASE_OFFSET = 3000;
+const PRE_RELEASE_BLOCK_SIZE = 4000;
+
 /**
  * This class represents a single version.
  */
@@ -291,6 +300,28 @@ export default class Version {
     return semverFloat.sub(preReleaseFloat);
   }
 
+  /**
+   * Convert this version to an integer which sorts the same way as the version, which is much faster to compare than the float representation. The integer is always a safe integer.
+   * 
+   * @returns {number} This version's integer representation.
+   */
+  toInteger(): number {
+    const [major, minor, patch, preReleaseType, preReleaseNum] = this._versionParts;
+    const semverInteger = major * 1000000 + minor * 1000 + patch;
+    const preReleaseInteger = preReleaseType ? PRE_RELEASE_OFFSETS[preReleaseType] + (preReleaseNum as number) : RELEASE_OFFSET;
+    return semverInteger * PRE_RELEASE_BLOCK_SIZE + preReleaseInteger;
+  }
+
+  /**
+   * Compare this version to another version.
+   * 
+   * @param {Version} other The version to compare this version to.
+   * @returns {number} A zero if the versions are equal, a negative number if this version is less than the other version, or a positive number otherwise.
+   */
+  compare(other: Version): number {
+    return this.toInteger() - other.toInteger();
+  }
+
   /**
    * Get the string representation of this version.
    * 
@@ -312,6 +343,58 @@ export default class Version {
     return new Version(this.major, this.minor, this.patch, this.preReleaseType, this.preReleaseNum);
   }
 
+  /**
+   * Get the version directly after this version, such that no version can be between them.
+   * 
+   * @returns {Version|undefined} The next version, or undefined if this is the largest possible version.
+   */
+  next(): Version | undefined {
+    const { major, minor, patch, preReleaseType, preReleaseNum } = this;
+    if (preReleaseType) {
+      if (preReleaseNum as number < 999)
+        return new Version(major, minor, patch, preReleaseType, (preReleaseNum as number) + 1);
+      else if (preReleaseType === 'a')
+        return new Version(major, minor, patch, 'b', 1);
+      else if (preReleaseType === 'b')
+        return new Version(major, minor, patch, 'r', 1);
+      return new Version(major, minor, patch);
+    }
+
+    if (patch < 999)
+      return new Version(major, minor, patch + 1, 'a', 1);
+    else if (minor < 999)
+      return new Version(major, minor + 1, 0, 'a', 1);
+    else if (major < 999)
+      return new Version(major + 1, 0, 0, 'a', 1);
+  }
+
+  /**
+   * Get the version directly before this version, such that no version can be between them.
+   * 
+   * @returns {Version|undefined} The previous version, or undefined if this is the smallest possible version.
+   */
+  previous(): Version | undefined {
+    const { major, minor, patch, preReleaseType, preReleaseNum } = this;
+    if (!preReleaseType)
+      return new Version(major, minor, patch, 'r', 999);
+    else if (preReleaseNum as number > 1)
+      return new Version(major, minor, patch, preReleaseType, (preReleaseNum as number) - 1);
+    else if (preReleaseType === 'r')
+      return new Version(major, minor, patch, 'b', 999);
+    else if (preReleaseType === 'b')
+      return new Version(major, minor, patch, 'a', 999);
+
+    // Version 0.0.0 is invalid, so 0.0.1a1 does not have a previous version
+    if ((major | minor | (patch - 1)) === 0)
+      return;
+    else if (patch > 0)
+      return new Version(major, minor, patch - 1);
+    else if (minor > 0)
+      return new Version(major, minor - 1, 999);
+    else if (major > 0)
+      return new Version(major - 1, 999, 999);
+  }
+
   /**
    * Determine if this version is equal to another version.
    * 
@@ -321,7 +404,7 @@ export default class Version {
   equals(other: Version): boolean {
     if (!other || !(other instanceof Version))
       return false;
-    return this.toFloat().eq(other.toFloat());
+    return this.compare(other) === 0;
   }
 
   /**
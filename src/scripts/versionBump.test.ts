@@ -0,0 +1,90 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import { BumpType, bumpVersion, defaultNextVersion, placeVersion, versionWarnings } from './versionBump';
+import Version from './version';
+
+function v(versionStr: string): Version {
+  return Version.fromString(versionStr) as Version;
+}
+
+describe('bumping', () => {
+  const cases: [string, BumpType, string | undefined][] = [
+    ['1.2.3', 'patch', '1.2.4'],
+    ['1.2.3', 'minor', '1.3.0'],
+    ['1.2.3', 'major', '2.0.0'],
+    ['1.2.3b2', 'patch', '1.2.4'],
+    ['1.2.999', 'patch', '1.3.0'],
+    ['1.999.999', 'patch', '2.0.0'],
+    ['1.999.5', 'minor', '2.0.0'],
+    ['999.999.999', 'patch', void 0],
+    ['999.1.1', 'major', void 0],
+    ['1.2.3', 'alpha', '1.2.4a1'],
+    ['1.2.3a1', 'alpha', '1.2.3a2'],
+    ['1.2.3a4', 'beta', '1.2.3b1'],
+    ['1.2.3b4', 'rc', '1.2.3r1'],
+    ['1.2.3r1', 'beta', '1.2.4b1'],
+    ['1.2.999r1', 'alpha', '1.3.0a1'],
+    ['1.2.3a999', 'alpha', void 0],
+    ['1.2.3r2', 'release', '1.2.3'],
+    ['1.2.3', 'release', void 0]
+  ];
+
+  for (const [version, type, expected] of cases) {
+    it(`bumps the ${type} of ${version}`, () => {
+      expect(bumpVersion(v(version), type)?.toString()).toBe(expected && v(expected).toString());
+    });
+  }
+
+  it('always bumps to a greater version', () => {
+    for (const [version, type] of cases) {
+      const bumped = bumpVersion(v(version), type);
+      if (bumped)
+        expect(bumped.compare(v(version))).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('default versions', () => {
+  it('continues pre-releases', () => {
+    expect(defaultNextVersion(v('1.2.0b3')).toString()).toBe('1.2.0b4');
+    expect(defaultNextVersion(v('1.2.0b999')).toString()).toBe('1.2.1');
+  });
+
+  it('bumps the patch of full releases', () => {
+    expect(defaultNextVersion(v('1.2.0')).toString()).toBe('1.2.1');
+    expect(defaultNextVersion().toString()).toBe('1.0.0');
+  });
+});
+
+describe('placement', () => {
+  const existing = ['1.0.0', '1.2.0', '1.1.0', '2.0.0b1'].map(v);
+
+  it('finds the versions on either side', () => {
+    const { above, below, exists } = placeVersion(v('1.1.5'), existing);
+    expect(above.map(String)).toEqual(['2.0.0b1', '1.2.0']);
+    expect(below.map(String)).toEqual(['1.1.0', '1.0.0']);
+    expect(exists).toBe(false);
+  });
+
+  it('warns about versions that exist', () => {
+    expect(versionWarnings(v('1.1.0'), existing)).toEqual(['Version 1.1.0 already exists.']);
+  });
+
+  it('warns about versions below the latest release', () => {
+    expect(versionWarnings(v('1.1.5'), existing)).toHaveLength(1);
+    expect(versionWarnings(v('1.2.1'), existing)).toEqual([]);
+  });
+});
\ No newline at end of file
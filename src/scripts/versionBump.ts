@@ -0,0 +1,143 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A way to get the next version from the latest version.
+ * 
+ * @typedef {'patch'|'minor'|'major'|'alpha'|'beta'|'rc'|'release'} BumpType
+ */
+export type BumpType = 'patch' | 'minor' | 'major' | 'alpha' | 'beta' | 'rc' | 'release';
+
+/**
+ * Where a new version would be placed among the existing versions of a package.
+ * 
+ * @typedef {Object} VersionPlacement
+ * @property {Version[]} above The existing versions which are greater than the new version, from greatest to least.
+ * @property {Version[]} below The existing versions which are less than the new version, from greatest to least.
+ * @property {boolean} exists True if the new version is already one of the existing versions.
+ */
+export type VersionPlacement = {
+  above: Version[];
+  below: Version[];
+  exists: boolean;
+};
+
+import Version from './version';
+
+/**
+ * Every type of bump, in the order that they are displayed.
+ */
+export const BUMP_TYPES: BumpType[] = ['patch', 'minor', 'major', 'alpha', 'beta', 'rc', 'release'];
+
+/**
+ * The human-readable name of each type of bump.
+ */
+export const BUMP_NAMES: Record<BumpType, string> = {
+  patch: 'Patch',
+  minor: 'Minor',
+  major: 'Major',
+  alpha: 'Alpha',
+  beta: 'Beta',
+  rc: 'Release Candidate',
+  release: 'Release'
+};
+
+const PRE_RELEASE_TYPES: Partial<Record<BumpType, 'a' | 'b' | 'r'>> = {
+  alpha: 'a',
+  beta: 'b',
+  rc: 'r'
+};
+
+/**
+ * Get the next version after a version. Numbers which would go past 999 carry over to the next part of the version, so the next patch after 1.2.999 is 1.3.0.
+ * 
+ * A pre-release bump continues the pre-releases of the same version if it does not go back to an earlier type of pre-release, such that 1.2.0a3 becomes 1.2.0a4 or 1.2.0b1. Otherwise, the pre-release is for the next patch, such that 1.2.0 becomes 1.2.1a1.
+ * 
+ * @param {Version} version The version to bump.
+ * @param {BumpType} type How to bump the version.
+ * @returns {Version|undefined} The next version, or undefined if there is no next version of the type, such as releasing a version which is already a full release, or bumping past 999.999.999.
+ */
+export function bumpVersion(version: Version, type: BumpType): Version | undefined {
+  const { major, minor, patch, preReleaseType, preReleaseNum } = version;
+
+  switch (type) {
+  case 'patch':
+    return patch < 999 ? new Version(major, minor, patch + 1) : bumpVersion(version, 'minor');
+  case 'minor':
+    return minor < 999 ? new Version(major, minor + 1, 0) : bumpVersion(version, 'major');
+  case 'major':
+    return major < 999 ? new Version(major + 1, 0, 0) : void 0;
+  case 'release':
+    return preReleaseType ? new Version(major, minor, patch) : void 0;
+  }
+
+  const newType = PRE_RELEASE_TYPES[type] as 'a' | 'b' | 'r';
+  if (preReleaseType && preReleaseType === newType)
+    return (preReleaseNum as number) < 999 ? new Version(major, minor, patch, newType, (preReleaseNum as number) + 1) : void 0;
+  else if (preReleaseType && preReleaseType < newType)
+    return new Version(major, minor, patch, newType, 1);
+
+  // Full releases, and later types of pre-releases, can only be followed by a pre-release of the next patch
+  const nextPatch = bumpVersion(new Version(major, minor, patch), 'patch');
+  return nextPatch && new Version(nextPatch.major, nextPatch.minor, nextPatch.patch, newType, 1);
+}
+
+/**
+ * Get the version that a new version should default to, which continues the pre-releases of the latest version if it is a pre-release, or is the next patch otherwise.
+ * 
+ * @param {Version} [latest] The latest version of the package, or undefined if it has no versions.
+ * @returns {Version} The default version.
+ */
+export function defaultNextVersion(latest?: Version): Version {
+  if (!latest)
+    return new Version(1, 0, 0);
+
+  const type = BUMP_TYPES.find(t => PRE_RELEASE_TYPES[t] === latest.preReleaseType) ?? 'patch';
+  return bumpVersion(latest, type) ?? bumpVersion(latest, 'patch') ?? latest;
+}
+
+/**
+ * Find where a new version would be placed among the existing versions of a package.
+ * 
+ * @param {Version} version The new version.
+ * @param {Version[]} existing The existing versions of the package, in any order.
+ * @returns {VersionPlacement} The versions on either side of the new version.
+ */
+export function placeVersion(version: Version, existing: Version[]): VersionPlacement {
+  const sorted = existing.slice().sort((a, b) => b.compare(a));
+  return {
+    above: sorted.filter(v => v.compare(version) > 0),
+    below: sorted.filter(v => v.compare(version) < 0),
+    exists: sorted.some(v => v.equals(version))
+  };
+}
+
+/**
+ * Get the problems with choosing a version as the next version of a package.
+ * 
+ * @param {Version} version The chosen version.
+ * @param {Version[]} existing The existing versions of the package, in any order.
+ * @returns {string[]} Human-readable warnings, which are empty if there are no problems.
+ */
+export function versionWarnings(version: Version, existing: Version[]): string[] {
+  const { above, exists } = placeVersion(version, existing);
+  if (exists)
+    return [`Version ${version} already exists.`];
+
+  const latestRelease = above.find(v => !v.isPreRelease);
+  if (latestRelease)
+    return [`Version ${version} is lower than the latest release (${latestRelease}), so it will not be installed as an update.`];
+  return [];
+}
\ No newline at end of file
@@ -0,0 +1,361 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import Version from './version';
+import VersionSelection from './versionSelection';
+import vectors from './versionVectors.json';
+import { hasInvalidMaxString, randomSelectionString, randomVersion, seededRandom } from './versionTestUtil';
+
+const PROPERTY_RUNS = 300;
+const VERSIONS_PER_RUN = 20;
+
+// Like the registry, selections of '*' and '-x' start here, instead of at the smallest version
+const SELECTION_START = new Version(0, 0, 1, 'b', 2);
+
+/**
+ * Shorthand to parse a version that is known to be valid.
+ * 
+ * @param {string} versionStr The version string to parse.
+ * @returns {Version} The parsed version.
+ */
+function v(versionStr: string): Version {
+  return Version.fromString(versionStr) as Version;
+}
+
+/**
+ * Check if a selection starts at the selection start, instead of at the smallest version, because of a '*' or '-x' section.
+ * 
+ * @param {VersionSelection} selection The selection to check.
+ * @returns {boolean} True if the selection starts after its minimum version.
+ */
+function startsAtSelectionStart(selection: VersionSelection): boolean {
+  const [first] = selection.ranges;
+  return !!first && first.min > first.minVersion.toInteger();
+}
+
+describe('golden vectors', () => {
+  it.each(vectors.selections)('normalizes $input to $string', ({ input, string }) => {
+    const selection = new VersionSelection(input);
+    expect(selection.isValid).toBe(true);
+    expect(selection.toString()).toBe(string);
+  });
+
+  it.each(vectors.invalidSelections)('rejects %p', input => {
+    expect(new VersionSelection(input).isValid).toBe(false);
+  });
+});
+
+describe('single versions', () => {
+  it('selects every version of a major version', () => {
+    const selection = new VersionSelection('2');
+    expect(selection.containsVersion(v('2.0.0a1'))).toBe(true);
+    expect(selection.containsVersion(v('2.999.999'))).toBe(true);
+    expect(selection.containsVersion(v('1.999.999'))).toBe(false);
+    expect(selection.containsVersion(v('3.0.0a1'))).toBe(false);
+  });
+
+  it('selects every version of a minor version', () => {
+    const selection = new VersionSelection('2.4');
+    expect(selection.containsVersion(v('2.4.0a1'))).toBe(true);
+    expect(selection.containsVersion(v('2.4.999'))).toBe(true);
+    expect(selection.containsVersion(v('2.5.0a1'))).toBe(false);
+  });
+
+  it('selects the pre-releases of a patch version', () => {
+    const selection = new VersionSelection('2.4.1');
+    expect(selection.containsVersion(v('2.4.1a1'))).toBe(true);
+    expect(selection.containsVersion(v('2.4.1'))).toBe(true);
+    expect(selection.containsVersion(v('2.4.2a1'))).toBe(false);
+  });
+
+  it('selects only a pre-release', () => {
+    const selection = new VersionSelection('2.4.1b3');
+    expect(selection.containsVersion(v('2.4.1b3'))).toBe(true);
+    expect(selection.containsVersion(v('2.4.1b2'))).toBe(false);
+    expect(selection.containsVersion(v('2.4.1b4'))).toBe(false);
+    expect(selection.containsVersion(v('2.4.1'))).toBe(false);
+  });
+});
+
+describe('open-ended ranges', () => {
+  it('selects everything up to a version', () => {
+    const selection = new VersionSelection('-2');
+    expect(selection.containsVersion(SELECTION_START)).toBe(true);
+    expect(selection.containsVersion(v('2.999.999'))).toBe(true);
+    expect(selection.containsVersion(v('3.0.0a1'))).toBe(false);
+  });
+
+  it('selects everything from a version', () => {
+    const selection = new VersionSelection('3-');
+    expect(selection.containsVersion(v('2.999.999'))).toBe(false);
+    expect(selection.containsVersion(v('3.0.0a1'))).toBe(true);
+    expect(selection.containsVersion(Version.MAX_VERSION)).toBe(true);
+  });
+
+  it('selects everything', () => {
+    const selection = new VersionSelection('*');
+    expect(selection.containsVersion(SELECTION_START)).toBe(true);
+    expect(selection.containsVersion(Version.MAX_VERSION)).toBe(true);
+  });
+});
+
+describe('merging', () => {
+  it('merges overlapping ranges', () => {
+    const selection = new VersionSelection('1-2.5,2-3');
+    expect(selection.ranges).toHaveLength(1);
+    expect(selection.toString()).toBe('1-3');
+  });
+
+  it('merges ranges inside of other ranges', () => {
+    const selection = new VersionSelection('1-5,2-3,4.1.2');
+    expect(selection.ranges).toHaveLength(1);
+    expect(selection.toString()).toBe('1-5');
+  });
+
+  it('merges ranges which share a bound', () => {
+    expect(new VersionSelection('1-2.0.0,2.0.0-3').toString()).toBe('1-3');
+  });
+
+  it('keeps adjacent ranges separate, but selects every version between them', () => {
+    const selection = new VersionSelection('1-2,3-4');
+    expect(selection.ranges).toHaveLength(2);
+    expect(selection.containsVersion(v('2.999.999'))).toBe(true);
+    expect(selection.containsVersion(v('3.0.0a1'))).toBe(true);
+  });
+
+  it('sorts ranges', () => {
+    const selection = new VersionSelection('7-8,3,1-2');
+    expect(selection.toString()).toBe('1-2,3-3,7-8');
+  });
+});
+
+describe('invalid selections', () => {
+  it('is empty after an invalid selection', () => {
+    const selection = new VersionSelection('x');
+    expect(selection.ranges).toHaveLength(0);
+    expect(selection.toString()).toBe('<empty version select>');
+  });
+
+  it('does not contain any version after an invalid selection', () => {
+    expect(new VersionSelection('2-1').containsVersion(v('1.5'))).toBe(false);
+  });
+});
+
+describe('properties', () => {
+  const random = seededRandom(0x73656c);
+
+  it('selects the same versions as its sections', () => {
+    for (let i = 0; i < PROPERTY_RUNS; ++i) {
+      const selectionStr = randomSelectionString(random);
+      const selection = new VersionSelection(selectionStr);
+      const sections = selectionStr.split(',').map(s => new VersionSelection(s));
+      expect(selection.isValid).toBe(true);
+
+      for (let j = 0; j < VERSIONS_PER_RUN; ++j) {
+        const version = randomVersion(random);
+        expect(selection.containsVersion(version)).toBe(sections.some(s => s.containsVersion(version)));
+      }
+
+      for (const section of sections) {
+        for (const range of section.ranges) {
+          expect(selection.containsVersion(range.minVersion)).toBe(section.containsVersion(range.minVersion));
+          expect(selection.containsVersion(range.maxVersion)).toBe(true);
+        }
+      }
+    }
+  });
+
+  it('round-trips through strings', () => {
+    for (let i = 0; i < PROPERTY_RUNS; ++i) {
+      const selection = new VersionSelection(randomSelectionString(random));
+      if (selection.ranges.some(r => r.minVersion.equals(r.maxVersion) || hasInvalidMaxString(r.maxVersion)))
+        continue;
+
+      const reparsed = new VersionSelection(selection.toString());
+      expect(reparsed.isValid).toBe(true);
+      expect(reparsed.toString()).toBe(selection.toString());
+
+      for (let j = 0; j < VERSIONS_PER_RUN; ++j) {
+        const version = randomVersion(random);
+        expect(reparsed.containsVersion(version)).toBe(selection.containsVersion(version));
+      }
+    }
+  });
+
+  it('does not depend on the order of sections', () => {
+    for (let i = 0; i < PROPERTY_RUNS; ++i) {
+      const sections = randomSelectionString(random).split(',');
+      const reversed = new VersionSelection(sections.slice().reverse().join(','));
+      expect(reversed.toString()).toBe(new VersionSelection(sections.join(',')).toString());
+    }
+  });
+
+  it('keeps ranges sorted and separate', () => {
+    for (let i = 0; i < PROPERTY_RUNS; ++i) {
+      const { ranges } = new VersionSelection(randomSelectionString(random));
+      for (const range of ranges) 
+        expect(range.min).toBeLessThanOrEqual(range.max);
+      for (let j = 1; j < ranges.length; ++j) 
+        expect(ranges[j - 1].max).toBeLessThan(ranges[j].min);
+    }
+  });
+});
+
+describe('set operations', () => {
+  it.each([
+    ['1-3', '2-4', '2-3'],
+    ['1-2', '3-4', '<empty version select>'],
+    ['-5', '3-', '3-5'],
+    ['1-10', '2,4-5,7-', '2-2,4-5,7-10'],
+    ['*', '1.2.3b4', '1.2.3b4'],
+    ['1.0.0a1-1.0.0', '1', '1-1.0.0']
+  ])('intersects %s with %s', (s1, s2, expected) => {
+    expect(new VersionSelection(s1).intersect(new VersionSelection(s2)).toString()).toBe(expected);
+    expect(new VersionSelection(s2).intersect(new VersionSelection(s1)).toString()).toBe(expected);
+  });
+
+  it.each([
+    ['1-3', '2-4', '1-4'],
+    ['1-2', '3-4', '1-4'],
+    ['1-2', '4-5', '1-2,4-5'],
+    ['-2', '3-', '*'],
+    ['1.2.3b1-1.2.3b5', '1.2.3b6-1.2.3', '1.2.3b1-1.2.3']
+  ])('unions %s with %s', (s1, s2, expected) => {
+    expect(new VersionSelection(s1).union(new VersionSelection(s2)).toString()).toBe(expected);
+    expect(new VersionSelection(s2).union(new VersionSelection(s1)).toString()).toBe(expected);
+  });
+
+  it.each([
+    ['*', '<empty version select>'],
+    ['-2', '3-'],
+    ['3-', '-2'],
+    ['2-3', '-1,4-'],
+    ['1.2.3b1-', '-1.2.3a999']
+  ])('complements %s', (selection, expected) => {
+    expect(new VersionSelection(selection).complement().toString()).toBe(expected);
+  });
+
+  it.each([
+    ['1-5', '2-3', '1-1,4-5'],
+    ['1-5', '1-5', '<empty version select>'],
+    ['1-5', '6-', '1-5'],
+    ['*', '2', '-1,3-']
+  ])('subtracts %s from %s', (s1, s2, expected) => {
+    expect(new VersionSelection(s1).subtract(new VersionSelection(s2)).toString()).toBe(expected);
+  });
+
+  it('includes pre-releases when a range starting at a full release is converted to a string', () => {
+    const selection = new VersionSelection('2-').subtract(new VersionSelection('-2.0.0r999'));
+    expect(selection.containsVersion(v('2.0.0r999'))).toBe(false);
+    expect(selection.containsVersion(v('2.0.0'))).toBe(true);
+    expect(selection.toString()).toBe('2-');
+  });
+
+  it('checks for overlaps', () => {
+    expect(new VersionSelection('1-2').overlaps(new VersionSelection('2.5'))).toBe(true);
+    expect(new VersionSelection('1-2').overlaps(new VersionSelection('3-'))).toBe(false);
+  });
+
+  it('checks for subsets', () => {
+    expect(new VersionSelection('2.5').isSubsetOf(new VersionSelection('1-2'))).toBe(true);
+    expect(new VersionSelection('1-2').isSubsetOf(new VersionSelection('1-2'))).toBe(true);
+    expect(new VersionSelection('1-3').isSubsetOf(new VersionSelection('1-2'))).toBe(false);
+    expect(new VersionSelection('1-2').complement().complement().isSubsetOf(new VersionSelection('1-2'))).toBe(true);
+  });
+
+  it('checks for empty selections', () => {
+    expect(new VersionSelection('*').isEmpty()).toBe(false);
+    expect(new VersionSelection('*').complement().isEmpty()).toBe(true);
+  });
+
+  it('throws for invalid selections', () => {
+    expect(() => new VersionSelection('1').union(new VersionSelection('x'))).toThrow();
+    expect(() => new VersionSelection('x').complement()).toThrow();
+  });
+
+  describe('properties', () => {
+    const random = seededRandom(0x736574);
+
+    it('selects the same versions as the set operations', () => {
+      for (let i = 0; i < PROPERTY_RUNS; ++i) {
+        const s1 = new VersionSelection(randomSelectionString(random));
+        const s2 = new VersionSelection(randomSelectionString(random));
+        const intersection = s1.intersect(s2);
+        const union = s1.union(s2);
+        const difference = s1.subtract(s2);
+        const complement = s1.complement();
+
+        const versions = Array.from({ length: VERSIONS_PER_RUN }, () => randomVersion(random));
+        for (const range of s1.ranges.concat(s2.ranges)) 
+          versions.push(range.minVersion, range.maxVersion, ...[range.minVersion.previous(), range.maxVersion.next()].filter((v): v is Version => !!v));
+
+        for (const version of versions.filter(v => v.compare(SELECTION_START) >= 0)) {
+          const in1 = s1.containsVersion(version);
+          const in2 = s2.containsVersion(version);
+          expect(intersection.containsVersion(version)).toBe(in1 && in2);
+          expect(union.containsVersion(version)).toBe(in1 || in2);
+          expect(difference.containsVersion(version)).toBe(in1 && !in2);
+          expect(complement.containsVersion(version)).toBe(!in1);
+        }
+
+        expect(s1.overlaps(s2)).toBe(!intersection.isEmpty());
+        expect(intersection.isSubsetOf(s1) && intersection.isSubsetOf(s2)).toBe(true);
+        expect(s1.isSubsetOf(union) && s2.isSubsetOf(union)).toBe(true);
+        expect(difference.overlaps(s2)).toBe(false);
+      }
+    });
+
+    it('normalizes results to the same string', () => {
+      for (let i = 0; i < PROPERTY_RUNS; ++i) {
+        const s1 = new VersionSelection(randomSelectionString(random));
+        const s2 = new VersionSelection(randomSelectionString(random));
+        expect(s1.union(s2).toString()).toBe(s2.union(s1).toString());
+        expect(s1.intersect(s2).toString()).toBe(s2.intersect(s1).toString());
+
+        // The complement of a selection which starts at the selection start includes the versions before it, which the selection itself does not
+        if (startsAtSelectionStart(s1) || startsAtSelectionStart(s2))
+          continue;
+
+        expect(s1.complement().complement().toString()).toBe(s1.union(s1).toString());
+        expect(s1.union(s2).complement().toString()).toBe(s1.complement().intersect(s2.complement()).toString());
+      }
+    });
+  });
+});
+
+// The registry parses and prints selections the same way, so these have to be fixed together with the registry
+describe('known differences from the intended behavior', () => {
+  it.each(['*', '-2'])('does not select the smallest versions with %p', selection => {
+    expect(new VersionSelection(selection).containsVersion(Version.MIN_VERSION)).toBe(false);
+    expect(new VersionSelection(selection).containsVersion(v('0.0.1b1'))).toBe(false);
+  });
+
+  it.each([
+    ['1.0.0a1', new VersionSelection('1.0.0a1'), '1'],
+    ['1.2.3', new VersionSelection('1.2.3-').subtract(new VersionSelection('-1.2.3r999,1.2.4-')), '1.2.3']
+  ])('prints the selection of only %s as the larger selection %p', (_, selection, string) => {
+    expect(selection.toString()).toBe(string);
+    expect(new VersionSelection(string).isSubsetOf(selection)).toBe(false);
+  });
+
+  it.each([
+    ['0.0.999', '0.0.999-0.0'],
+    ['0.999', '0.999-0'],
+    ['-0.0.999', '-0.0']
+  ])('prints the maximum of %s as an invalid version', (input, string) => {
+    expect(new VersionSelection(input).toString()).toBe(string);
+    expect(new VersionSelection(string).isValid).toBe(false);
+  });
+});
\ No newline at end of file
@@ -48,32 +48,37 @@
 //
 // 8.12.4r3 becomes 008012004 - .996999999 which evaluates to 8012003.003000001
 //
-// These same operations could be performed using integers alone, and in the
-// future it should be considered (as there may be some performance gains).
-// However, at the time of development it's 6 am, it works and is good enough.
+// The float is still what the registry uses, but Big.js is far too slow to
+// sort and compare with, so ranges are stored as integers instead (see
+// Version#toInteger()). The integer is made by multiplying the smushed number
+// by 4000 and adding a number for the pre-release, which sorts the same way as
+// the float. An alpha adds its pre-release number, a beta adds 1000 plus its
+// pre-release number, a release candidate adds 2000 plus its pre-release
+// number, and a full release adds 3000. For instance:
 //
-// Note: Big.js is used to get the precision needed for large numbers, without
-// floating point errors. If speed becomes a problem, it might be worth looking
-// into performing these operations using native numbers.
+// 9.5.2b12 becomes 9005002 * 4000 + 1012 which evaluates to 36020009012
+//
+// The largest version, 999.999.999, becomes 3999999999000, which is still
+// less than Number.MAX_SAFE_INTEGER, so native numbers can be used without
+// any loss of precision.
 
 
 /**
  * This is a specific range from one version to another. If the values of min and max are equal, it represents a single version range.
  * 
  * @typedef {Object} VersionRange 
- * @property {Big} min The minimum value of the range.
- * @property {Big} max The maximum value of the range.
+ * @property {number} min The integer representation of the minimum value of the range.
+ * @property {number} max The integer representation of the maximum value of the range.
  * @property {Version} minVersion The minimum version of the range.
  * @property {Version} maxVersion The maximum version of the range.
  */
 type VersionRange = {
-  min: Big;
-  max: Big;
+  min: number;
+  max: number;
   minVersion: Version;
   maxVersion: Version;
 };
 
-import { Big } from 'big.js';
 import Version from './version';
 
 /**
@@ -84,6 +89,33 @@ export default class VersionSelection {
   private _isValid = true;
   private _ranges: VersionRange[] = [];
 
+  /**
+   * Create a valid selection from ranges, which are normalized. Unlike selections parsed from strings, ranges that are directly next to each other are also merged, so that equal selections always have the same ranges, and the same string representation.
+   * 
+   * @param {VersionRange[]} ranges The ranges of the selection.
+   * @returns {VersionSelection} The new selection.
+   */
+  private static _fromRanges(ranges: VersionRange[]): VersionSelection {
+    const selection = new VersionSelection('*');
+    selection._ranges = [];
+
+    for (const range of ranges.slice().sort(compareRanges)) {
+      const last = selection._ranges[selection._ranges.length - 1];
+      if (!last) {
+        selection._ranges.push(range);
+        continue;
+      }
+
+      // There are no versions between the end of the last range and the next version, so a range starting there can be merged too
+      const afterLast = last.maxVersion.next();
+      if (afterLast && afterLast.toInteger() < range.min)
+        selection._ranges.push(range);
+      else if (range.max > last.max)
+        selection._ranges[selection._ranges.length - 1] = createRange(last.minVersion, range.maxVersion);
+    }
+    return selection;
+  }
+
   /**
    * Check if the provided version selection string was valid.
    * 
@@ -111,11 +143,12 @@ export default class VersionSelection {
     const selectionSections = selectionStr.split(',');
 
     for (let selection of selectionSections) {
+      // The registry starts every selection at a float of 0.000002, which is 0.0.1b2, not at the smallest version
       const allRanges: VersionRange = {
-        min: new Big('0.000002'),
-        max: new Big('999999999'),
-        minVersion: new Version(0, 0, 1, 'a', 1),
-        maxVersion: new Version(999, 999, 999)
+        min: new Version(0, 0, 1, 'b', 2).toInteger(),
+        max: Version.MAX_VERSION.toInteger(),
+        minVersion: Version.MIN_VERSION,
+        maxVersion: Version.MAX_VERSION
       };
 
       selection = selection.trim();
@@ -151,8 +184,8 @@ export default class VersionSelection {
         }
 
         this._ranges.push({
-          max: maxVersion.toFloat(),
-          min: minVersion.toFloat(),
+          max: maxVersion.toInteger(),
+          min: minVersion.toInteger(),
           maxVersion,
           minVersion
         });
@@ -184,7 +217,7 @@ export default class VersionSelection {
         if (!lowerVersion.isPreRelease)
           lowerVersion = Version.fromString(lowerVersionStr + 'a1') as Version;
 
-        range.min = lowerVersion.toFloat();
+        range.min = lowerVersion.toInteger();
         range.minVersion = lowerVersion;
       }
 
@@ -201,11 +234,11 @@ export default class VersionSelection {
             upperVersion.patch = 999;
         }
 
-        range.max = upperVersion.toFloat();
+        range.max = upperVersion.toInteger();
         range.maxVersion = upperVersion;
       }
 
-      if (range.min.gt(range.max)) {
+      if (range.min > range.max) {
         this._isValid = false;
         break;
       }
@@ -238,17 +271,129 @@ export default class VersionSelection {
    */
   containsVersion(version: Version): boolean {
     for (const range of this._ranges) {
-      const versionFloat = version.toFloat();
+      const versionInteger = version.toInteger();
 
-      if (versionFloat.gte(range.min) && versionFloat.lte(range.max))
+      if (versionInteger >= range.min && versionInteger <= range.max)
         return true;
     }
     return false;
   }
 
+  /**
+   * Check if this selection does not contain any versions.
+   * 
+   * @returns {boolean} True if no version falls within this selection.
+   */
+  isEmpty(): boolean {
+    return !this._ranges.length;
+  }
+
+  /**
+   * Get the versions which are in both this selection and another selection.
+   * 
+   * @param {VersionSelection} other The other selection.
+   * @returns {VersionSelection} A new selection of the versions in both selections.
+   * @throws {Error} Thrown if either selection is invalid.
+   */
+  intersect(other: VersionSelection): VersionSelection {
+    assertValid(this, other);
+
+    const ranges: VersionRange[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < this._ranges.length && j < other._ranges.length) {
+      const r1 = this._ranges[i];
+      const r2 = other._ranges[j];
+
+      const [min, minVersion] = r1.min >= r2.min ? [r1.min, r1.minVersion] : [r2.min, r2.minVersion];
+      const [max, maxVersion] = r1.max <= r2.max ? [r1.max, r1.maxVersion] : [r2.max, r2.maxVersion];
+      if (min <= max)
+        ranges.push({ min, max, minVersion, maxVersion });
+
+      // The range that ends first can't overlap with anything else in the other selection
+      if (r1.max <= r2.max)
+        ++i;
+      else
+        ++j;
+    }
+
+    return VersionSelection._fromRanges(ranges);
+  }
+
+  /**
+   * Get the versions which are in either this selection or another selection.
+   * 
+   * @param {VersionSelection} other The other selection.
+   * @returns {VersionSelection} A new selection of the versions in either selection.
+   * @throws {Error} Thrown if either selection is invalid.
+   */
+  union(other: VersionSelection): VersionSelection {
+    assertValid(this, other);
+    return VersionSelection._fromRanges(this._ranges.concat(other._ranges));
+  }
+
+  /**
+   * Get every version which is not in this selection.
+   * 
+   * @returns {VersionSelection} A new selection of every version not in this selection.
+   * @throws {Error} Thrown if this selection is invalid.
+   */
+  complement(): VersionSelection {
+    assertValid(this);
+
+    const ranges: VersionRange[] = [];
+    let minVersion: Version | undefined = Version.MIN_VERSION;
+    for (const range of this._ranges) {
+      const maxVersion = range.minVersion.previous();
+      if (minVersion && maxVersion && minVersion.compare(maxVersion) <= 0)
+        ranges.push(createRange(minVersion, maxVersion));
+      minVersion = range.maxVersion.next();
+    }
+
+    if (minVersion)
+      ranges.push(createRange(minVersion, Version.MAX_VERSION));
+
+    return VersionSelection._fromRanges(ranges);
+  }
+
+  /**
+   * Get the versions which are in this selection, but not in another selection.
+   * 
+   * @param {VersionSelection} other The selection of versions to remove.
+   * @returns {VersionSelection} A new selection of the versions in this selection but not the other selection.
+   * @throws {Error} Thrown if either selection is invalid.
+   */
+  subtract(other: VersionSelection): VersionSelection {
+    return this.intersect(other.complement());
+  }
+
+  /**
+   * Check if any version is in both this selection and another selection.
+   * 
+   * @param {VersionSelection} other The other selection.
+   * @returns {boolean} True if the selections have at least one version in common.
+   * @throws {Error} Thrown if either selection is invalid.
+   */
+  overlaps(other: VersionSelection): boolean {
+    return !this.intersect(other).isEmpty();
+  }
+
+  /**
+   * Check if every version in this selection is also in another selection.
+   * 
+   * @param {VersionSelection} other The other selection.
+   * @returns {boolean} True if this selection is a subset of the other selection.
+   * @throws {Error} Thrown if either selection is invalid.
+   */
+  isSubsetOf(other: VersionSelection): boolean {
+    return this.subtract(other).isEmpty();
+  }
+
   /**
    * Get a simplified string representation of the version selection.
    * 
+   * Note that a range starting at a full release, but not its pre-releases, can not be represented as a string. Only set operations can create such a range, and its string includes the pre-releases.
+   * 
    * @returns {string} A simplified string representation of the version selection.
    */
   toString(): string {
@@ -276,6 +421,33 @@ export default class VersionSelection {
   }
 }
 
+/**
+ * Create a range between two versions.
+ * 
+ * @param {Version} minVersion The minimum version of the range.
+ * @param {Version} maxVersion The maximum version of the range.
+ * @returns {VersionRange} The new range.
+ */
+function createRange(minVersion: Version, maxVersion: Version): VersionRange {
+  return {
+    min: minVersion.toInteger(),
+    max: maxVersion.toInteger(),
+    minVersion,
+    maxVersion
+  };
+}
+
+/**
+ * Make sure that version selections are valid before performing set operations with them, since invalid selections may only have some of their ranges.
+ * 
+ * @param {...VersionSelection} selections The selections to check.
+ * @throws {Error} Thrown if any selection is invalid.
+ */
+function assertValid(...selections: VersionSelection[]): void {
+  if (selections.some(s => !s.isValid))
+    throw new Error('Can not perform set operations on an invalid version selection');
+}
+
 /**
  * Try merging two version ranges. Note that r1 must be less than or equal to r2.
  *
@@ -287,10 +459,10 @@ function tryMerge(r1: VersionRange, r2: VersionRange): VersionRange | void {
   if (compareRanges(r1, r2) > 0)
     throw new Error('Invalid ordering of ranges');
   
-  if (r1.max.lt(r2.min))
+  if (r1.max < r2.min)
     return;
   
-  if (r1.max.lt(r2.max)) {
+  if (r1.max < r2.max) {
     const newRange: VersionRange = {
       min: r1.min,
       minVersion: r1.minVersion,
@@ -311,8 +483,8 @@ function tryMerge(r1: VersionRange, r2: VersionRange): VersionRange | void {
  * @returns {number}  A zero if these two version ranges are equal, a negative number if r1 is considered less than r2, or a positive number otherwise.
  */
 function compareRanges(r1: VersionRange, r2: VersionRange): number {
-  const minComp = r1.min.cmp(r2.min);
+  const minComp = r1.min - r2.min;
   if (minComp === 0)
-    return r1.max.cmp(r2.max);
+    return r1.max - r2.max;
   return minComp;
 }
\ No newline at end of file
@@ -0,0 +1,118 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A function which returns a random number from 0 (inclusive) to 1 (exclusive), like Math.random().
+ * 
+ * @callback RandomFunction
+ * @returns {number} The random number.
+ */
+export type RandomFunction = () => number;
+
+import Version from './version';
+
+// Boundary values are picked much more often than they would be by chance
+const INTERESTING_PARTS = [0, 0, 0, 1, 1, 2, 998, 999];
+
+/**
+ * Create a random number generator which always generates the same sequence for the same seed, so that failing property tests can be reproduced.
+ * 
+ * @param {number} seed The seed of the generator.
+ * @returns {RandomFunction} The random number generator.
+ */
+export function seededRandom(seed: number): RandomFunction {
+
+  // Mulberry32
+  return () => {
+    seed = seed + 0x6d2b79f5 | 0;
+    let t = Math.imul(seed ^ seed >>> 15, 1 | seed);
+    t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t;
+    return ((t ^ t >>> 14) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Get a random integer.
+ * 
+ * @param {RandomFunction} random The random number generator to use.
+ * @param {number} min The smallest possible integer.
+ * @param {number} max The largest possible integer.
+ * @returns {number} The random integer.
+ */
+export function randomInt(random: RandomFunction, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+/**
+ * Get a random, valid, version.
+ * 
+ * @param {RandomFunction} random The random number generator to use.
+ * @returns {Version} The random version.
+ */
+export function randomVersion(random: RandomFunction): Version {
+  const part = () => random() < 0.5 ? INTERESTING_PARTS[randomInt(random, 0, INTERESTING_PARTS.length - 1)] : randomInt(random, 0, 999);
+
+  let major = part();
+  const minor = part();
+  const patch = part();
+  if ((major | minor | patch) === 0)
+    major = 1;
+
+  const preReleaseType = ([void 0, void 0, 'a', 'b', 'r'] as const)[randomInt(random, 0, 4)];
+  if (!preReleaseType)
+    return new Version(major, minor, patch);
+
+  const preReleaseNum = random() < 0.3 ? 1 : randomInt(random, 1, 999);
+  return new Version(major, minor, patch, preReleaseType, preReleaseNum);
+}
+
+/**
+ * Check if the maximum string of a version is shortened to a version of only zeroes, which the registry does as well, so it can not be fixed here alone.
+ * 
+ * @param {Version} version The version to check.
+ * @returns {boolean} True if the maximum string of the version is invalid.
+ */
+export function hasInvalidMaxString(version: Version): boolean {
+  return !version.major && version.patch === 999 && (!version.minor || version.minor === 999);
+}
+
+/**
+ * Get a random, valid, version selection string, made up of single versions and ranges, some of which are open-ended.
+ * 
+ * @param {RandomFunction} random The random number generator to use.
+ * @returns {string} The random version selection string.
+ */
+export function randomSelectionString(random: RandomFunction): string {
+  const sections: string[] = [];
+  const sectionCount = randomInt(random, 1, 4);
+  for (let i = 0; i < sectionCount; ++i) {
+    const v1 = randomVersion(random);
+    const v2 = randomVersion(random);
+    const [lower, upper] = v1.compare(v2) <= 0 ? [v1, v2] : [v2, v1];
+
+    const kind = random();
+    if (kind < 0.1 && !lower.isPreRelease && lower.major)
+      sections.push(random() < 0.5 ? `${lower.major}` : `${lower.major}.${lower.minor}`);
+    else if (kind < 0.2)
+      sections.push(lower.toString());
+    else if (kind < 0.3)
+      sections.push(`-${upper}`);
+    else if (kind < 0.4)
+      sections.push(`${lower}-`);
+    else
+      sections.push(`${lower}-${upper}`);
+  }
+  return sections.join(',');
+}
\ No newline at end of file
@@ -0,0 +1,123 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import { TextDecoder, TextEncoder } from 'util';
+import { MAX_UNCOMPRESSED_SIZE, ZipEntry, readZipDirectory, validatePackageEntries } from './zipInspector';
+import ZipWriter from './zipWriter';
+import { PackageType, VersionStatus } from './author';
+
+// Neither of these are in jsdom, but the browsers we support all have them
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+const GIB = 1024 * 1024 * 1024;
+
+function entry(name: string, properties: Partial<ZipEntry> = {}): ZipEntry {
+  return {
+    name,
+    isDirectory: name.endsWith('/'),
+    isSymlink: false,
+    isExecutable: false,
+    compressedSize: 0,
+    uncompressedSize: 0,
+    compressionMethod: 0,
+    localHeaderOffset: 0,
+    ...properties
+  };
+}
+
+// Write a zip file with a single entry, whose data is never written, and read its central directory back
+function readSingleEntry(path: string, size: number, mode?: number): Promise<ZipEntry[]> {
+  const writer = new ZipWriter();
+  const header = writer.addEntry({ path, date: new Date(), crc: 0, size, compressedSize: size, isDeflated: false });
+  const end = writer.finish();
+
+  // Unix permissions are in the upper half of the external attributes of the central directory header
+  if (mode !== undefined)
+    new DataView(end.buffer).setUint32(38, mode << 16 >>> 0, true);
+
+  const endStart = header.length + size;
+  return readZipDirectory(async (start, stop) => {
+    const bytes = new Uint8Array(Math.min(stop, endStart + end.length) - start);
+    for (let i = 0; i < bytes.length; ++i) {
+      const offset = start + i;
+      if (offset < header.length)
+        bytes[i] = header[offset];
+      else if (offset >= endStart)
+        bytes[i] = end[offset - endStart];
+    }
+    return new DataView(bytes.buffer);
+  }, endStart + end.length);
+}
+
+describe('validation', () => {
+  it.each<[string, ZipEntry[], VersionStatus[]]>([
+    ['a valid package', [entry('mock.package/'), entry('mock.package/readme.txt')], []],
+    ['a package with __MACOSX entries', [entry('mock.package/readme.txt'), entry('__MACOSX/mock.package/._readme.txt')], []],
+    ['no root directory', [entry('readme.txt')], [VersionStatus.FailedNoFileDir]],
+    ['a root directory with the wrong name', [entry('mock.other/readme.txt')], [VersionStatus.FailedNoFileDir]],
+    ['manifest.json at the root', [entry('mock.package/readme.txt'), entry('manifest.json')], [VersionStatus.FailedManifestExists]],
+    ['only __MACOSX entries', [entry('__MACOSX/'), entry('__MACOSX/mock.package/._readme.txt')], [VersionStatus.FailedMACOSX]],
+    ['a symbolic link', [entry('mock.package/link', { isSymlink: true })], [VersionStatus.FailedInvalidFileTypes]],
+    ['more than the maximum size once extracted', [entry('mock.package/a.bin', { uncompressedSize: MAX_UNCOMPRESSED_SIZE }), entry('mock.package/b.bin', { uncompressedSize: 1 })], [VersionStatus.FailedFileTooLarge]],
+    ['exactly the maximum size once extracted', [entry('mock.package/a.bin', { uncompressedSize: MAX_UNCOMPRESSED_SIZE })], []],
+    ['several problems', [entry('manifest.json'), entry('link', { isSymlink: true })], [VersionStatus.FailedNoFileDir, VersionStatus.FailedManifestExists, VersionStatus.FailedInvalidFileTypes]]
+  ])('checks a zip file with %s', (_, entries, statuses) => {
+    expect(validatePackageEntries(entries, 'mock.package', PackageType.Aircraft).map(i => i.status)).toEqual(statuses);
+  });
+
+  it.each<[PackageType, VersionStatus[]]>([
+    [PackageType.Aircraft, [VersionStatus.FailedInvalidFileTypes]],
+    [PackageType.Scenery, [VersionStatus.FailedInvalidFileTypes]],
+    [PackageType.Plugin, [VersionStatus.FailedInvalidFileTypes]],
+    [PackageType.Livery, [VersionStatus.FailedInvalidFileTypes]],
+    [PackageType.Other, [VersionStatus.FailedInvalidFileTypes]],
+    [PackageType.Executable, []]
+  ])('checks executables in a package of type %s', (packageType, statuses) => {
+    const entries = [entry('mock.package/'), entry('mock.package/run.exe', { isExecutable: true })];
+    expect(validatePackageEntries(entries, 'mock.package', packageType).map(i => i.status)).toEqual(statuses);
+  });
+
+  it('lists only the first few entries with a problem', () => {
+    const entries = ['a', 'b', 'c', 'd', 'e'].map(name => entry(`mock.package/${name}`, { isSymlink: true }));
+    const [issue] = validatePackageEntries(entries, 'mock.package', PackageType.Aircraft);
+    expect(issue.message).toContain('mock.package/a, mock.package/b, mock.package/c, and 2 more');
+  });
+});
+
+describe('reading', () => {
+  it.each<[string, string, number | undefined, Partial<ZipEntry>]>([
+    ['a regular file', 'mock.package/readme.txt', 0o100644, { isDirectory: false, isSymlink: false, isExecutable: false }],
+    ['a directory', 'mock.package/', 0o40755, { isDirectory: true, isSymlink: false, isExecutable: false }],
+    ['a file with the unix execute bit', 'mock.package/run', 0o100755, { isSymlink: false, isExecutable: true }],
+    ['a file with a Windows executable extension', 'mock.package/RUN.EXE', 0o100644, { isSymlink: false, isExecutable: true }],
+    ['a symbolic link', 'mock.package/link', 0o120777, { isSymlink: true, isExecutable: false }]
+  ])('reads the type of %s', async (_, path, mode, expected) => {
+    const [read] = await readSingleEntry(path, 0, mode);
+    expect(read).toMatchObject({ name: path, ...expected });
+  });
+
+  it('reads the sizes and offsets of zip64 entries', async () => {
+    const size = 17 * GIB;
+    const entries = await readSingleEntry('mock.package/large.bin', size);
+
+    expect(entries).toEqual([entry('mock.package/large.bin', { compressedSize: size, uncompressedSize: size })]);
+    expect(validatePackageEntries(entries, 'mock.package', PackageType.Aircraft).map(i => i.status)).toEqual([VersionStatus.FailedFileTooLarge]);
+  });
+
+  it('rejects a file that is not a zip file', async () => {
+    const bytes = new TextEncoder().encode('Not a zip file.');
+    await expect(readZipDirectory(async (start, end) => new DataView(bytes.buffer.slice(start, end)), bytes.length)).rejects.toThrow('End of central directory record not found');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,313 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A single entry in the central directory of a zip file.
+ * 
+ * @typedef {Object} ZipEntry
+ * @property {string} name The full path of the entry within the zip file. Directories end with a slash.
+ * @property {boolean} isDirectory True if the entry is a directory.
+ * @property {boolean} isSymlink True if the entry is a symbolic link.
+ * @property {boolean} isExecutable True if the entry is a file with any execute permission bits set, or has a Windows executable extension.
+ * @property {number} compressedSize The size of the entry in the zip file in bytes.
+ * @property {number} uncompressedSize The size of the entry once extracted in bytes.
+ * @property {number} compressionMethod The method that the entry is compressed with, 0 if it is stored and 8 if it is deflated.
+ * @property {number} localHeaderOffset The offset of the local file header of the entry within the zip file, which is followed by the data of the entry.
+ */
+export type ZipEntry = {
+  name: string;
+  isDirectory: boolean;
+  isSymlink: boolean;
+  isExecutable: boolean;
+  compressedSize: number;
+  uncompressedSize: number;
+  compressionMethod: number;
+  localHeaderOffset: number;
+};
+
+/**
+ * A function which reads part of a zip file.
+ * 
+ * @callback ZipByteReader
+ * @param {number} start The offset of the first byte to read.
+ * @param {number} end The offset after the last byte to read.
+ * @returns {Promise<DataView>} A promise which resolves to a view of the bytes read, which is shorter than requested if the end of the file is reached.
+ */
+export type ZipByteReader = (start: number, end: number) => Promise<DataView>;
+
+/**
+ * A problem with a package zip file found before uploading it.
+ * 
+ * @typedef {Object} PreflightIssue
+ * @property {VersionStatus} [status] The status that the registry would give the version if it was uploaded, or undefined if the file is not a valid zip file.
+ * @property {string} message The human-readable description of the problem.
+ */
+export type PreflightIssue = {
+  status?: VersionStatus;
+  message: string;
+};
+
+import { PackageType, VersionStatus } from './author';
+
+/**
+ * The maximum size of an uncompressed package, 16 GiB.
+ */
+export const MAX_UNCOMPRESSED_SIZE = 16 * 1024 * 1024 * 1024;
+
+const EOCD_SIGNATURE = 0x06054b50;
+const EOCD_LENGTH = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_LOCATOR_LENGTH = 20;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP64_EOCD_LENGTH = 56;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const CENTRAL_HEADER_LENGTH = 46;
+const ZIP64_EXTRA_ID = 0x0001;
+
+const HOST_UNIX = 3;
+const UNIX_FILE_TYPE_MASK = 0o170000;
+const UNIX_SYMLINK = 0o120000;
+const UNIX_EXECUTE_BITS = 0o111;
+const WINDOWS_EXECUTABLE_EXTENSIONS = ['.exe', '.bat', '.cmd', '.com', '.msi'];
+
+/**
+ * The most bytes at the end of a zip file which have to be read to find the end of central directory record.
+ */
+export const ZIP_TAIL_LENGTH = EOCD_LENGTH + MAX_COMMENT_LENGTH + ZIP64_LOCATOR_LENGTH;
+
+/**
+ * Read every entry from the central directory of a zip file, without reading any of the file contents.
+ * 
+ * @async
+ * @param {Blob} file The zip file to read.
+ * @returns {Promise<ZipEntry[]>} A promise which resolves to all of the entries in the zip file.
+ * @throws {Error} An error is thrown if the file is not a valid zip file.
+ */
+export function readZipEntries(file: Blob): Promise<ZipEntry[]> {
+  return readZipDirectory((start, end) => readView(file, start, end), file.size);
+}
+
+/**
+ * Read every entry from the central directory of a zip file which may not be in memory, only reading the end of the file and the central directory.
+ * 
+ * @async
+ * @param {ZipByteReader} read The function to read parts of the zip file with.
+ * @param {number} size The size of the zip file in bytes.
+ * @returns {Promise<ZipEntry[]>} A promise which resolves to all of the entries in the zip file.
+ * @throws {Error} An error is thrown if the file is not a valid zip file, or if the reader throws an error.
+ */
+export async function readZipDirectory(read: ZipByteReader, size: number): Promise<ZipEntry[]> {
+  const tailStart = Math.max(size - ZIP_TAIL_LENGTH, 0);
+  const tail = await read(tailStart, size);
+
+  // The comment after the end of central directory record has a variable length, so we have to search for it
+  let eocdOffset = -1;
+  for (let i = tail.byteLength - EOCD_LENGTH; i >= 0; --i) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocdOffset = i;
+      break;
+    }
+  }
+  if (eocdOffset < 0)
+    throw new Error('End of central directory record not found');
+
+  let entryCount = tail.getUint16(eocdOffset + 10, true);
+  let directorySize = tail.getUint32(eocdOffset + 12, true);
+  let directoryOffset = tail.getUint32(eocdOffset + 16, true);
+
+  const locatorOffset = eocdOffset - ZIP64_LOCATOR_LENGTH;
+  if (locatorOffset >= 0 && tail.getUint32(locatorOffset, true) === ZIP64_LOCATOR_SIGNATURE) {
+    const zip64EocdStart = Number(tail.getBigUint64(locatorOffset + 8, true));
+    const zip64Eocd = await read(zip64EocdStart, zip64EocdStart + ZIP64_EOCD_LENGTH);
+    if (zip64Eocd.byteLength < ZIP64_EOCD_LENGTH || zip64Eocd.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE)
+      throw new Error('Invalid zip64 end of central directory record');
+
+    entryCount = Number(zip64Eocd.getBigUint64(32, true));
+    directorySize = Number(zip64Eocd.getBigUint64(40, true));
+    directoryOffset = Number(zip64Eocd.getBigUint64(48, true));
+  }
+
+  if (directoryOffset + directorySize > size)
+    throw new Error('Central directory is out of bounds');
+
+  const directory = await read(directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  let offset = 0;
+  for (let i = 0; i < entryCount; ++i) {
+    if (offset + CENTRAL_HEADER_LENGTH > directory.byteLength || directory.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE)
+      throw new Error('Invalid central directory file header');
+
+    const host = directory.getUint16(offset + 4, true) >> 8;
+    const compressionMethod = directory.getUint16(offset + 10, true);
+    let compressedSize = directory.getUint32(offset + 20, true);
+    let uncompressedSize = directory.getUint32(offset + 24, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const externalAttributes = directory.getUint32(offset + 38, true);
+    let localHeaderOffset = directory.getUint32(offset + 42, true);
+
+    const nameStart = offset + CENTRAL_HEADER_LENGTH;
+    const extraStart = nameStart + nameLength;
+    const name = decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + nameStart, nameLength));
+
+    // Values that don't fit in 32 bits are stored in the zip64 extra field, in this order
+    let extraOffset = extraStart;
+    while (extraOffset + 4 <= extraStart + extraLength) {
+      const id = directory.getUint16(extraOffset, true);
+      const size = directory.getUint16(extraOffset + 2, true);
+      if (id === ZIP64_EXTRA_ID) {
+        let fieldOffset = extraOffset + 4;
+        if (uncompressedSize === 0xffffffff) {
+          uncompressedSize = Number(directory.getBigUint64(fieldOffset, true));
+          fieldOffset += 8;
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = Number(directory.getBigUint64(fieldOffset, true));
+          fieldOffset += 8;
+        }
+        if (localHeaderOffset === 0xffffffff)
+          localHeaderOffset = Number(directory.getBigUint64(fieldOffset, true));
+      }
+      extraOffset += 4 + size;
+    }
+
+    const mode = host === HOST_UNIX ? externalAttributes >>> 16 : 0;
+    const isDirectory = name.endsWith('/');
+    const isSymlink = (mode & UNIX_FILE_TYPE_MASK) === UNIX_SYMLINK;
+    const lowerName = name.toLowerCase();
+    entries.push({
+      name,
+      isDirectory,
+      isSymlink,
+      isExecutable: !isDirectory && !isSymlink && ((mode & UNIX_EXECUTE_BITS) !== 0 || WINDOWS_EXECUTABLE_EXTENSIONS.some(ext => lowerName.endsWith(ext))),
+      compressedSize,
+      uncompressedSize,
+      compressionMethod,
+      localHeaderOffset
+    });
+
+    offset = extraStart + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Check the entries of a package zip file for every problem that would cause the registry to fail processing it.
+ * 
+ * @param {ZipEntry[]} entries The entries of the zip file.
+ * @param {string} packageId The identifier of the package the file is being uploaded for.
+ * @param {PackageType} packageType The type of the package the file is being uploaded for.
+ * @returns {PreflightIssue[]} Every problem found, which is empty if the file should process successfully.
+ */
+export function validatePackageEntries(entries: ZipEntry[], packageId: string, packageType: PackageType): PreflightIssue[] {
+  const issues: PreflightIssue[] = [];
+  const contentEntries = entries.filter(e => !e.name.startsWith('__MACOSX/'));
+
+  if (entries.length && !contentEntries.length) {
+    issues.push({
+      status: VersionStatus.FailedMACOSX,
+      message: 'The zip file only contains a __MACOSX directory.'
+    });
+  } else if (!contentEntries.some(e => e.name.startsWith(packageId + '/'))) {
+    issues.push({
+      status: VersionStatus.FailedNoFileDir,
+      message: `The zip file does not contain a directory named ${packageId} at its root.`
+    });
+  }
+
+  if (entries.some(e => e.name === 'manifest.json')) {
+    issues.push({
+      status: VersionStatus.FailedManifestExists,
+      message: 'The zip file can not contain a file named manifest.json at its root.'
+    });
+  }
+
+  const symlinks = contentEntries.filter(e => e.isSymlink);
+  if (symlinks.length) {
+    issues.push({
+      status: VersionStatus.FailedInvalidFileTypes,
+      message: `The zip file can not contain symbolic links (${listNames(symlinks)}).`
+    });
+  }
+
+  if (packageType !== PackageType.Executable) {
+    const executables = contentEntries.filter(e => e.isExecutable);
+    if (executables.length) {
+      issues.push({
+        status: VersionStatus.FailedInvalidFileTypes,
+        message: `The zip file can not contain executables unless the package is an executable (${listNames(executables)}).`
+      });
+    }
+  }
+
+  const uncompressedSize = entries.reduce((total, e) => total + e.uncompressedSize, 0);
+  if (uncompressedSize > MAX_UNCOMPRESSED_SIZE) {
+    issues.push({
+      status: VersionStatus.FailedFileTooLarge,
+      message: 'The zip file can not be more than 16 GiB once extracted.'
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Read a package zip file and check it for every problem that would cause the registry to fail processing it.
+ * 
+ * @async
+ * @param {Blob} file The zip file to check.
+ * @param {string} packageId The identifier of the package the file is being uploaded for.
+ * @param {PackageType} packageType The type of the package the file is being uploaded for.
+ * @returns {Promise<PreflightIssue[]>} A promise which resolves to every problem found, which is empty if the file should process successfully.
+ */
+export async function preflightPackageZip(file: Blob, packageId: string, packageType: PackageType): Promise<PreflightIssue[]> {
+  let entries: ZipEntry[];
+  try {
+    entries = await readZipEntries(file);
+  } catch (e) {
+    console.error(e);
+    return [{ message: 'The file could not be read as a zip file.' }];
+  }
+  return validatePackageEntries(entries, packageId, packageType);
+}
+
+/**
+ * Read part of a file.
+ * 
+ * @async
+ * @param {Blob} file The file to read.
+ * @param {number} start The offset of the first byte to read.
+ * @param {number} end The offset after the last byte to read.
+ * @returns {Promise<DataView>} A promise which resolves to a view of the bytes read.
+ */
+async function readView(file: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await file.slice(start, end).arrayBuffer());
+}
+
+/**
+ * List the names of entries for an error message, only listing the first few.
+ * 
+ * @param {ZipEntry[]} entries The entries to list.
+ * @returns {string} The names of the entries, separated by commas.
+ */
+function listNames(entries: ZipEntry[]): string {
+  const names = entries.slice(0, 3).map(e => e.name).join(', ');
+  return entries.length > 3 ? `${names}, and ${entries.length - 3} more` : names;
+}
\ No newline at end of file
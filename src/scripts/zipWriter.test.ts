@@ -0,0 +1,95 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+import { Blob as NodeBlob } from 'buffer';
+import { TextDecoder, TextEncoder } from 'util';
+import ZipWriter, { crc32 } from './zipWriter';
+import { readZipEntries } from './zipInspector';
+
+// Neither of these are in jsdom, but the browsers we support all have them
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+const encoder = new TextEncoder();
+
+// The Blob of jsdom can not be read as an array buffer
+function toBlob(parts: Uint8Array[]): Blob {
+  return new NodeBlob(parts) as unknown as Blob;
+}
+
+describe('checksums', () => {
+  it('computes the CRC-32 of data', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+
+  it('continues a checksum over several chunks', () => {
+    expect(crc32(encoder.encode('6789'), crc32(encoder.encode('12345')))).toBe(0xcbf43926);
+  });
+});
+
+describe('writing', () => {
+  it('writes a zip file that can be read', async () => {
+    const writer = new ZipWriter();
+    const data = encoder.encode('Hello, world!');
+    const parts = [
+      writer.addEntry({ path: 'mock.package/', date: new Date(), crc: 0, size: 0, compressedSize: 0, isDeflated: false }),
+      writer.addEntry({ path: 'mock.package/hello.txt', date: new Date(), crc: crc32(data), size: data.length, compressedSize: data.length, isDeflated: false }),
+      data
+    ];
+    expect(writer.offset).toBe(parts.reduce((total, p) => total + p.length, 0));
+    parts.push(writer.finish());
+
+    const entries = await readZipEntries(toBlob(parts));
+    expect(entries).toEqual([{
+      name: 'mock.package/',
+      isDirectory: true,
+      isSymlink: false,
+      isExecutable: false,
+      compressedSize: 0,
+      uncompressedSize: 0,
+      compressionMethod: 0,
+      localHeaderOffset: 0
+    }, {
+      name: 'mock.package/hello.txt',
+      isDirectory: false,
+      isSymlink: false,
+      isExecutable: false,
+      compressedSize: 13,
+      uncompressedSize: 13,
+      compressionMethod: 0,
+      localHeaderOffset: parts[0].length
+    }]);
+  });
+
+  it('writes the names of entries as UTF-8', async () => {
+    const writer = new ZipWriter();
+    const parts = [writer.addEntry({ path: 'mock.package/ÄÖÜ.txt', date: new Date(), crc: 0, size: 0, compressedSize: 0, isDeflated: false })];
+    parts.push(writer.finish());
+
+    const [entry] = await readZipEntries(toBlob(parts));
+    expect(entry.name).toBe('mock.package/ÄÖÜ.txt');
+  });
+
+  it('writes sizes that do not fit in 32 bits as zip64', async () => {
+    const writer = new ZipWriter();
+    const size = 5 * 1024 * 1024 * 1024;
+    const parts = [writer.addEntry({ path: 'mock.package/scenery.dsf', date: new Date(), crc: 0, size, compressedSize: 1, isDeflated: true }), new Uint8Array(1)];
+    parts.push(writer.finish());
+
+    const [entry] = await readZipEntries(toBlob(parts));
+    expect(entry.uncompressedSize).toBe(size);
+    expect(entry.compressedSize).toBe(1);
+  });
+});
\ No newline at end of file
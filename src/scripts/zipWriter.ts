@@ -0,0 +1,238 @@
+/*
+ * Copyright (c) 2023. Arkin Solomon.
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND,
+ * either express or implied limitations under the License.
+ */
+
+/**
+ * A file or directory to add to a zip file, once its data is known.
+ * 
+ * @typedef {Object} ZipWriterEntry
+ * @property {string} path The full path of the entry within the zip file. Directories must end with a slash.
+ * @property {Date} date When the entry was last modified.
+ * @property {number} crc The CRC-32 of the uncompressed data. Zero for directories.
+ * @property {number} size The size of the uncompressed data in bytes.
+ * @property {number} compressedSize The size of the data as it is written to the zip file in bytes.
+ * @property {boolean} isDeflated True if the data is compressed with deflate, false if it is stored.
+ */
+export type ZipWriterEntry = {
+  path: string;
+  date: Date;
+  crc: number;
+  size: number;
+  compressedSize: number;
+  isDeflated: boolean;
+};
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const LOCAL_HEADER_LENGTH = 30;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const CENTRAL_HEADER_LENGTH = 46;
+const EOCD_SIGNATURE = 0x06054b50;
+const EOCD_LENGTH = 22;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP64_EOCD_LENGTH = 56;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_LOCATOR_LENGTH = 20;
+const ZIP64_EXTRA_ID = 0x0001;
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+const HOST_UNIX = 3;
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const UNIX_FILE_MODE = 0o100644;
+const UNIX_DIRECTORY_MODE = 0o40755;
+const DOS_DIRECTORY_ATTRIBUTE = 0x10;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; ++i) {
+    let c = i;
+    for (let k = 0; k < 8; ++k)
+      c = c & 1 ? 0xedb88320 ^ c >>> 1 : c >>> 1;
+    table[i] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Write the headers and central directory of a zip file. The writer only creates the bytes which go around the data of each entry, so that the data can be streamed into the zip file without being copied. Zip64 records are added automatically once any size or offset no longer fits in 32 bits.
+ */
+export default class ZipWriter {
+
+  private _central: Uint8Array[] = [];
+  private _centralSize = 0;
+  private _offset = 0;
+  private _encoder = new TextEncoder();
+
+  /**
+   * Get the number of bytes that have been written so far, including the data of every entry.
+   * 
+   * @returns {number} The offset in bytes of the next header.
+   */
+  get offset(): number {
+    return this._offset;
+  }
+
+  /**
+   * Add an entry to the zip file.
+   * 
+   * @param {ZipWriterEntry} entry The entry to add.
+   * @returns {Uint8Array} The local header of the entry, which must be written directly before the data of the entry.
+   */
+  addEntry(entry: ZipWriterEntry): Uint8Array {
+    const name = this._encoder.encode(entry.path);
+    const isDirectory = entry.path.endsWith('/');
+    const [time, date] = toDosTime(entry.date);
+    const method = entry.isDeflated ? METHOD_DEFLATE : METHOD_STORE;
+
+    const isSizeZip64 = entry.size >= MAX_32 || entry.compressedSize >= MAX_32;
+    const localExtra = isSizeZip64 ? zip64Extra([entry.size, entry.compressedSize]) : new Uint8Array(0);
+    const local = new Uint8Array(LOCAL_HEADER_LENGTH + name.length + localExtra.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    localView.setUint16(4, isSizeZip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+    localView.setUint16(6, FLAG_UTF8, true);
+    localView.setUint16(8, method, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, entry.crc, true);
+    localView.setUint32(18, isSizeZip64 ? MAX_32 : entry.compressedSize, true);
+    localView.setUint32(22, isSizeZip64 ? MAX_32 : entry.size, true);
+    localView.setUint16(26, name.length, true);
+    localView.setUint16(28, localExtra.length, true);
+    local.set(name, LOCAL_HEADER_LENGTH);
+    local.set(localExtra, LOCAL_HEADER_LENGTH + name.length);
+
+    // Only the values which don't fit are written to the extra field of the central directory, in this order
+    const zip64Values = [entry.size, entry.compressedSize, this._offset].filter(v => v >= MAX_32);
+    const centralExtra = zip64Values.length ? zip64Extra(zip64Values) : new Uint8Array(0);
+    const central = new Uint8Array(CENTRAL_HEADER_LENGTH + name.length + centralExtra.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    centralView.setUint16(4, HOST_UNIX << 8 | VERSION_ZIP64, true);
+    centralView.setUint16(6, zip64Values.length ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+    centralView.setUint16(8, FLAG_UTF8, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, entry.crc, true);
+    centralView.setUint32(20, Math.min(entry.compressedSize, MAX_32), true);
+    centralView.setUint32(24, Math.min(entry.size, MAX_32), true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint16(30, centralExtra.length, true);
+    centralView.setUint32(38, (isDirectory ? UNIX_DIRECTORY_MODE << 16 | DOS_DIRECTORY_ATTRIBUTE : UNIX_FILE_MODE << 16) >>> 0, true);
+    centralView.setUint32(42, Math.min(this._offset, MAX_32), true);
+    central.set(name, CENTRAL_HEADER_LENGTH);
+    central.set(centralExtra, CENTRAL_HEADER_LENGTH + name.length);
+
+    this._central.push(central);
+    this._centralSize += central.length;
+    this._offset += local.length + entry.compressedSize;
+    return local;
+  }
+
+  /**
+   * Finish the zip file. No entries can be added afterwards.
+   * 
+   * @returns {Uint8Array} The central directory and end of central directory records, which must be written after the data of the last entry.
+   */
+  finish(): Uint8Array {
+    const count = this._central.length;
+    const centralOffset = this._offset;
+    const isZip64 = count >= MAX_16 || centralOffset >= MAX_32 || this._centralSize >= MAX_32;
+    const end = new Uint8Array(this._centralSize + (isZip64 ? ZIP64_EOCD_LENGTH + ZIP64_LOCATOR_LENGTH : 0) + EOCD_LENGTH);
+    const view = new DataView(end.buffer);
+
+    let offset = 0;
+    for (const central of this._central) {
+      end.set(central, offset);
+      offset += central.length;
+    }
+
+    if (isZip64) {
+      const zip64EocdOffset = centralOffset + this._centralSize;
+      view.setUint32(offset, ZIP64_EOCD_SIGNATURE, true);
+      view.setBigUint64(offset + 4, BigInt(ZIP64_EOCD_LENGTH - 12), true);
+      view.setUint16(offset + 12, HOST_UNIX << 8 | VERSION_ZIP64, true);
+      view.setUint16(offset + 14, VERSION_ZIP64, true);
+      view.setBigUint64(offset + 24, BigInt(count), true);
+      view.setBigUint64(offset + 32, BigInt(count), true);
+      view.setBigUint64(offset + 40, BigInt(this._centralSize), true);
+      view.setBigUint64(offset + 48, BigInt(centralOffset), true);
+      offset += ZIP64_EOCD_LENGTH;
+
+      view.setUint32(offset, ZIP64_LOCATOR_SIGNATURE, true);
+      view.setBigUint64(offset + 8, BigInt(zip64EocdOffset), true);
+      view.setUint32(offset + 16, 1, true);
+      offset += ZIP64_LOCATOR_LENGTH;
+    }
+
+    view.setUint32(offset, EOCD_SIGNATURE, true);
+    view.setUint16(offset + 8, Math.min(count, MAX_16), true);
+    view.setUint16(offset + 10, Math.min(count, MAX_16), true);
+    view.setUint32(offset + 12, Math.min(this._centralSize, MAX_32), true);
+    view.setUint32(offset + 16, Math.min(centralOffset, MAX_32), true);
+
+    this._offset += end.length;
+    return end;
+  }
+}
+
+/**
+ * Update a CRC-32 with more data. Start with zero, and pass the result of each call to the next one.
+ * 
+ * @param {Uint8Array} data The data to add.
+ * @param {number} [crc=0] The CRC-32 of all of the data before this data.
+ * @returns {number} The CRC-32 of all of the data, including this data.
+ */
+export function crc32(data: Uint8Array, crc = 0): number {
+  let c = ~crc;
+  for (let i = 0; i < data.length; ++i)
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ c >>> 8;
+  return ~c >>> 0;
+}
+
+/**
+ * Create a zip64 extended information extra field.
+ * 
+ * @param {number[]} values The 64-bit values of the field, in order.
+ * @returns {Uint8Array} The extra field, including its header.
+ */
+function zip64Extra(values: number[]): Uint8Array {
+  const extra = new Uint8Array(4 + values.length * 8);
+  const view = new DataView(extra.buffer);
+  view.setUint16(0, ZIP64_EXTRA_ID, true);
+  view.setUint16(2, values.length * 8, true);
+  values.forEach((value, i) => view.setBigUint64(4 + i * 8, BigInt(value), true));
+  return extra;
+}
+
+/**
+ * Convert a date to the local MS-DOS time and date that zip files use. Dates before 1980 can not be represented, so they are written as the start of 1980.
+ * 
+ * @param {Date} date The date to convert.
+ * @returns {[number, number]} The MS-DOS time and date.
+ */
+function toDosTime(date: Date): [number, number] {
+  if (isNaN(date.getTime()) || date.getFullYear() < 1980)
+    return [0, 1 << 5 | 1];
+
+  const time = date.getHours() << 11 | date.getMinutes() << 5 | date.getSeconds() >> 1;
+  const dosDate = date.getFullYear() - 1980 << 9 | date.getMonth() + 1 << 5 | date.getDate();
+  return [time, dosDate];
+}
\ No newline at end of file